@@ -86,6 +86,13 @@ export default ({ config }: ConfigContext): ExpoConfig => ({
         isAndroidForegroundServiceEnabled: true,
       },
     ],
+    [
+      'expo-image-picker',
+      {
+        cameraPermission: 'Take photos as proof of delivery.',
+        microphonePermission: false,
+      },
+    ],
     [
       'expo-build-properties',
       {
@@ -3,6 +3,7 @@ import { Tabs } from 'expo-router';
 import { useColorScheme } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
+import { useMissionOutboxSync, useSequenceProposalSync } from '@/lib/api/hooks';
 import { TAB_BAR } from '@/lib/colors';
 
 export default function TabsLayout() {
@@ -10,6 +11,11 @@ export default function TabsLayout() {
   const isDark = colorScheme === 'dark';
   const insets = useSafeAreaInsets();
 
+  // Replay offline mission status changes while the driver is signed in
+  useMissionOutboxSync();
+  // Send reordered stops to dispatch and pick up their decision
+  useSequenceProposalSync();
+
   // Use the actual bottom safe area inset (home indicator) instead of hardcoded Platform values
   const bottomInset = Math.max(insets.bottom, 8);
 
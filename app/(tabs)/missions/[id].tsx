@@ -13,12 +13,25 @@ import {
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
+import {
+    DeliveryOutcomeModal,
+    ProofOfDeliveryModal,
+    failureReasonConfig,
+} from '@/components/delivery';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Text } from '@/components/ui/text';
-import { useMission, useUpdateMissionStatus } from '@/lib/api/hooks';
+import {
+    useMission,
+    useMissionOutbox,
+    useUpdateMissionStatus,
+} from '@/lib/api/hooks';
+import type {
+    MissionStatusDetails,
+    MissionStatusUpdate,
+} from '@/lib/api/missionOutbox';
 import { MissionStatus } from '@/lib/api/types';
-import { BRAND, SEMANTIC, STATUS, pickColor } from '@/lib/colors';
+import { BRAND, FEEDBACK, SEMANTIC, STATUS, pickColor } from '@/lib/colors';
 import { openNativeNavigation } from '@/lib/navigation/openNativeNavigation';
 import { formatTimeWindow } from '@/lib/utils';
 
@@ -51,8 +64,27 @@ const statusConfig: Record<
     bgColor: STATUS.delivered.bgColor,
     icon: 'check-circle',
   },
+  failed: {
+    label: 'Failed',
+    color: STATUS.failed.color,
+    bgColor: STATUS.failed.bgColor,
+    icon: 'cancel',
+  },
+  rescheduleRequested: {
+    label: 'Reschedule',
+    color: STATUS.rescheduleRequested.color,
+    bgColor: STATUS.rescheduleRequested.bgColor,
+    icon: 'event-repeat',
+  },
 };
 
+// Failed attempts and reschedule requests can be reported until the mission is closed
+function canReportProblem(status: MissionStatus): boolean {
+  return (
+    status === MissionStatus.ASSIGNED || status === MissionStatus.IN_PROGRESS
+  );
+}
+
 // Get next valid status for driver (only forward transitions)
 function getNextStatus(currentStatus: MissionStatus): MissionStatus | null {
   switch (currentStatus) {
@@ -148,15 +180,114 @@ function InfoRow({
   );
 }
 
+/**
+ * Shows queued status changes that haven't reached the server yet, lets
+ * the driver resolve conflicts with the server state and discard changes
+ * the server rejected.
+ */
+function OutboxStatusCard({
+  entries,
+  onKeepMine,
+  onUseServer,
+}: {
+  entries: MissionStatusUpdate[];
+  onKeepMine: () => void;
+  onUseServer: () => void;
+}) {
+  const conflict = entries.find((e) => e.state === 'conflict');
+  const failed = entries.find((e) => e.state === 'failed');
+
+  if (failed) {
+    return (
+      <Card className="mb-4" style={{ backgroundColor: FEEDBACK.errorBg }}>
+        <CardContent className="gap-3">
+          <View className="flex-row items-center">
+            <MaterialIcons name="sync-problem" size={20} color={FEEDBACK.error} />
+            <Text
+              className="ml-2 flex-1 font-semibold"
+              style={{ color: FEEDBACK.error }}
+            >
+              Status update rejected
+            </Text>
+          </View>
+          <Text className="text-sm" style={{ color: FEEDBACK.error }}>
+            The server won't accept marking this mission as "
+            {statusConfig[failed.status].label}".
+            {failed.lastError ? `\n${failed.lastError}` : ''}
+          </Text>
+          <Button variant="outline" onPress={onUseServer}>
+            <Text>Discard my update</Text>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (conflict) {
+    const serverLabel = conflict.serverStatus
+      ? statusConfig[conflict.serverStatus]?.label ?? conflict.serverStatus
+      : null;
+
+    return (
+      <Card className="mb-4" style={{ backgroundColor: FEEDBACK.errorBg }}>
+        <CardContent className="gap-3">
+          <View className="flex-row items-center">
+            <MaterialIcons name="sync-problem" size={20} color={FEEDBACK.error} />
+            <Text
+              className="ml-2 flex-1 font-semibold"
+              style={{ color: FEEDBACK.error }}
+            >
+              Status update not applied
+            </Text>
+          </View>
+          <Text className="text-sm" style={{ color: FEEDBACK.error }}>
+            You marked this mission as "{statusConfig[conflict.status].label}"
+            {serverLabel ? `, but it is now "${serverLabel}" on the server.` : '.'}
+            {conflict.lastError ? `\n${conflict.lastError}` : ''}
+          </Text>
+          <View className="flex-row gap-3">
+            <Button variant="outline" className="flex-1" onPress={onUseServer}>
+              <Text>Use server status</Text>
+            </Button>
+            <Button className="flex-1" onPress={onKeepMine}>
+              <Text>Keep my update</Text>
+            </Button>
+          </View>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="mb-4" style={{ backgroundColor: FEEDBACK.warningBg }}>
+      <CardContent className="flex-row items-center">
+        <MaterialIcons name="cloud-upload" size={20} color={FEEDBACK.warning} />
+        <Text className="ml-2 flex-1 text-sm" style={{ color: FEEDBACK.warning }}>
+          Status change saved on this device. It will sync when you're back
+          online.
+        </Text>
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function MissionDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
   const colorScheme = useColorScheme();
   const [isUpdating, setIsUpdating] = useState(false);
+  const [showProofOfDelivery, setShowProofOfDelivery] = useState(false);
+  const [showOutcome, setShowOutcome] = useState(false);
   const insets = useSafeAreaInsets();
 
   const { mission, loading, error, refetch } = useMission(id);
   const { updateStatus } = useUpdateMissionStatus();
+  const { entries: outboxEntries, resolveConflict } = useMissionOutbox();
+  const missionOutboxEntries = outboxEntries.filter(
+    (e) => e.missionId === id,
+  );
+  // A conflict or a rejected change
+  const hasConflict = missionOutboxEntries.some((e) => e.state !== 'pending');
 
   // Open navigation app using native apps
   const handleNavigate = useCallback(async () => {
@@ -203,6 +334,43 @@ export default function MissionDetailScreen() {
     }
   }, [mission]);
 
+  // Apply a status change (through the offline outbox) and report the outcome
+  const applyStatusUpdate = useCallback(
+    async (nextStatus: MissionStatus, details?: MissionStatusDetails) => {
+      if (!mission) return;
+      setIsUpdating(true);
+      try {
+        const result = await updateStatus(
+          mission.id,
+          nextStatus,
+          mission.status,
+          details,
+        );
+        setShowProofOfDelivery(false);
+        setShowOutcome(false);
+        if (result === 'synced') {
+          await refetch();
+          Alert.alert('Success', 'Mission status updated successfully');
+        } else if (result === 'conflict') {
+          Alert.alert(
+            'Status Conflict',
+            'This mission was changed on the server. Review the update below.',
+          );
+        } else if (result === 'failed') {
+          Alert.alert(
+            'Status Rejected',
+            'The server rejected this update. See the details below.',
+          );
+        }
+      } catch {
+        Alert.alert('Error', 'Failed to update mission status');
+      } finally {
+        setIsUpdating(false);
+      }
+    },
+    [mission, updateStatus, refetch],
+  );
+
   // Update mission status
   const handleStatusUpdate = useCallback(async () => {
     if (!mission) return;
@@ -210,34 +378,24 @@ export default function MissionDetailScreen() {
     const nextStatus = getNextStatus(mission.status);
     if (!nextStatus) return;
 
-    const actionText =
-      nextStatus === MissionStatus.IN_PROGRESS
-        ? 'start delivery'
-        : 'mark as delivered';
+    // Delivery requires proof of delivery instead of a simple confirmation
+    if (nextStatus === MissionStatus.DELIVERED) {
+      setShowProofOfDelivery(true);
+      return;
+    }
 
     Alert.alert(
       'Confirm Status Update',
-      `Are you sure you want to ${actionText} for this mission?`,
+      'Are you sure you want to start delivery for this mission?',
       [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Confirm',
-          onPress: async () => {
-            setIsUpdating(true);
-            try {
-              await updateStatus(mission.id, nextStatus);
-              await refetch();
-              Alert.alert('Success', 'Mission status updated successfully');
-            } catch {
-              Alert.alert('Error', 'Failed to update mission status');
-            } finally {
-              setIsUpdating(false);
-            }
-          },
+          onPress: () => applyStatusUpdate(nextStatus),
         },
       ],
     );
-  }, [mission, updateStatus, refetch]);
+  }, [mission, applyStatusUpdate]);
 
   if (loading) {
     return (
@@ -276,11 +434,21 @@ export default function MissionDetailScreen() {
   }
 
   const nextStatus = getNextStatus(mission.status);
-  const canUpdateStatus = nextStatus !== null;
+  // Further changes wait until the driver has resolved a conflict
+  const canUpdateStatus = nextStatus !== null && !hasConflict;
+  const canReport = canReportProblem(mission.status) && !hasConflict;
 
   return (
     <View className="flex-1 bg-background">
       <ScrollView className="flex-1" contentContainerStyle={{ padding: 16 }}>
+        {missionOutboxEntries.length > 0 && (
+          <OutboxStatusCard
+            entries={missionOutboxEntries}
+            onKeepMine={() => resolveConflict(mission.id, 'keepMine')}
+            onUseServer={() => resolveConflict(mission.id, 'useServer')}
+          />
+        )}
+
         {/* Header Card */}
         <Card className="mb-4">
           <CardHeader>
@@ -355,6 +523,23 @@ export default function MissionDetailScreen() {
                 value={mission.vehiclePlate}
               />
             )}
+            {mission.outcome && (
+              <InfoRow
+                icon={failureReasonConfig[mission.outcome.reason]?.icon ?? 'info'}
+                label={
+                  mission.status === MissionStatus.RESCHEDULE_REQUESTED
+                    ? 'Reschedule Reason'
+                    : 'Failure Reason'
+                }
+                value={[
+                  failureReasonConfig[mission.outcome.reason]?.label ??
+                    mission.outcome.reason,
+                  mission.outcome.note,
+                ]
+                  .filter(Boolean)
+                  .join(' – ')}
+              />
+            )}
             {mission.deliveryTime && (
               <InfoRow
                 icon="check-circle"
@@ -426,42 +611,82 @@ export default function MissionDetailScreen() {
         </Card>
       </ScrollView>
 
-      {/* Bottom action button */}
-      {canUpdateStatus && (
+      {/* Bottom action buttons */}
+      {(canUpdateStatus || canReport) && (
         <View
-          className="border-t border-border bg-background px-4 pt-4"
+          className="gap-2 border-t border-border bg-background px-4 pt-4"
           style={{ paddingBottom: Math.max(insets.bottom, 16) }}
         >
-          <Button
-            onPress={handleStatusUpdate}
-            disabled={isUpdating}
-            className={`w-full ${
-              mission.status === MissionStatus.ASSIGNED
-                ? 'bg-amber-500'
-                : 'bg-green-500'
-            }`}
-          >
-            {isUpdating ? (
-              <ActivityIndicator size="small" color="#fff" />
-            ) : (
+          {canUpdateStatus && (
+            <Button
+              onPress={handleStatusUpdate}
+              disabled={isUpdating}
+              className={`w-full ${
+                mission.status === MissionStatus.ASSIGNED
+                  ? 'bg-amber-500'
+                  : 'bg-green-500'
+              }`}
+            >
+              {isUpdating ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <View className="flex-row items-center">
+                  <MaterialIcons
+                    name={
+                      mission.status === MissionStatus.ASSIGNED
+                        ? 'play-arrow'
+                        : 'check'
+                    }
+                    size={20}
+                    color="#fff"
+                  />
+                  <Text className="ml-2 font-semibold text-white">
+                    {getStatusButtonText(mission.status)}
+                  </Text>
+                </View>
+              )}
+            </Button>
+          )}
+          {canReport && (
+            <Button
+              variant="outline"
+              onPress={() => setShowOutcome(true)}
+              disabled={isUpdating}
+              className="w-full"
+            >
               <View className="flex-row items-center">
                 <MaterialIcons
-                  name={
-                    mission.status === MissionStatus.ASSIGNED
-                      ? 'play-arrow'
-                      : 'check'
-                  }
+                  name="report-problem"
                   size={20}
-                  color="#fff"
+                  color={STATUS.failed.color}
                 />
-                <Text className="ml-2 font-semibold text-white">
-                  {getStatusButtonText(mission.status)}
+                <Text
+                  className="ml-2 font-semibold"
+                  style={{ color: STATUS.failed.color }}
+                >
+                  Report a Problem
                 </Text>
               </View>
-            )}
-          </Button>
+            </Button>
+          )}
         </View>
       )}
+
+      <ProofOfDeliveryModal
+        visible={showProofOfDelivery}
+        missionId={mission.id}
+        customerName={mission.customerName}
+        onSubmit={(proof) =>
+          applyStatusUpdate(MissionStatus.DELIVERED, { proofOfDelivery: proof })
+        }
+        onCancel={() => setShowProofOfDelivery(false)}
+      />
+
+      <DeliveryOutcomeModal
+        visible={showOutcome}
+        onSubmit={(status, outcome) => applyStatusUpdate(status, { outcome })}
+        onCancel={() => setShowOutcome(false)}
+      />
     </View>
   );
 }
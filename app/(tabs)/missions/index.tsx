@@ -10,12 +10,16 @@ import {
     useColorScheme,
 } from 'react-native';
 
+import { EtaBadge } from '@/components/delivery/EtaBadge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { FilterChip } from '@/components/ui/filter-chip';
+import { StaleDataBanner } from '@/components/ui/stale-data-banner';
 import { Text } from '@/components/ui/text';
 import { useMissions } from '@/lib/api/hooks';
 import type { Mission, MissionStatus } from '@/lib/api/types';
 import { BRAND, SEMANTIC, STATUS, pickColor } from '@/lib/colors';
+import type { StopEta } from '@/lib/navigation/stopEtas';
+import { useStopEtas } from '@/lib/navigation/useStopEtas';
 import { formatTimeWindow } from '@/lib/utils';
 
 // Status badge configuration
@@ -47,10 +51,28 @@ const statusConfig: Record<
     bgColor: STATUS.delivered.bgColor,
     icon: 'check-circle',
   },
+  failed: {
+    label: 'Failed',
+    color: STATUS.failed.color,
+    bgColor: STATUS.failed.bgColor,
+    icon: 'cancel',
+  },
+  rescheduleRequested: {
+    label: 'Reschedule',
+    color: STATUS.rescheduleRequested.color,
+    bgColor: STATUS.rescheduleRequested.bgColor,
+    icon: 'event-repeat',
+  },
 };
 
 // Filter options for driver
-type FilterOption = 'all' | 'assigned' | 'inProgress' | 'delivered';
+type FilterOption =
+  | 'all'
+  | 'assigned'
+  | 'inProgress'
+  | 'delivered'
+  | 'failed'
+  | 'rescheduleRequested';
 
 function StatusBadge({ status }: { status: MissionStatus }) {
   const config = statusConfig[status];
@@ -77,9 +99,12 @@ function StatusBadge({ status }: { status: MissionStatus }) {
 
 function MissionCard({
   mission,
+  eta,
   onPress,
 }: {
   mission: Mission;
+  /** Live ETA while the mission's route is being driven */
+  eta?: StopEta;
   onPress: () => void;
 }) {
   const colorScheme = useColorScheme();
@@ -137,6 +162,11 @@ function MissionCard({
                 {formatTimeWindow(mission.endTimeWindow)}
               </Text>
             </View>
+            {eta && (
+              <View className="ml-6">
+                <EtaBadge eta={eta} />
+              </View>
+            )}
 
             {/* Vehicle (if assigned) */}
             {mission.vehiclePlate && (
@@ -168,7 +198,17 @@ export default function MissionsScreen() {
   // Get today's date in YYYY-MM-DD format
   const today = new Date().toISOString().split('T')[0];
 
-  const { missions, loading, error, refetch } = useMissions({ date: today });
+  const {
+    missions,
+    loading,
+    error,
+    refetch,
+    lastUpdatedAt,
+    isStale,
+    isRevalidating,
+    isOffline,
+  } = useMissions({ date: today });
+  const { etas: stopEtas } = useStopEtas();
 
   // Filter missions based on selected filter
   const filteredMissions = useMemo(() => {
@@ -183,6 +223,10 @@ export default function MissionsScreen() {
       assigned: missions.filter((m) => m.status === 'assigned').length,
       inProgress: missions.filter((m) => m.status === 'inProgress').length,
       delivered: missions.filter((m) => m.status === 'delivered').length,
+      failed: missions.filter((m) => m.status === 'failed').length,
+      rescheduleRequested: missions.filter(
+        (m) => m.status === 'rescheduleRequested',
+      ).length,
     };
   }, [missions]);
 
@@ -234,6 +278,13 @@ export default function MissionsScreen() {
 
   return (
     <View className="flex-1 bg-background">
+      <StaleDataBanner
+        lastUpdatedAt={lastUpdatedAt}
+        isStale={isStale}
+        isOffline={isOffline}
+        isRevalidating={isRevalidating}
+      />
+
       {/* Filter chips */}
       <View className="px-4 py-3">
         <FlatList
@@ -250,6 +301,11 @@ export default function MissionsScreen() {
               key: 'delivered',
               label: `Delivered (${statusCounts.delivered})`,
             },
+            { key: 'failed', label: `Failed (${statusCounts.failed})` },
+            {
+              key: 'rescheduleRequested',
+              label: `Reschedule (${statusCounts.rescheduleRequested})`,
+            },
           ]}
           renderItem={({ item }) => (
             <FilterChip
@@ -269,9 +325,11 @@ export default function MissionsScreen() {
         renderItem={({ item }) => (
           <MissionCard
             mission={item}
+            eta={stopEtas[item.id]}
             onPress={() => navigateToMission(item.id)}
           />
         )}
+        extraData={stopEtas}
         refreshControl={
           <RefreshControl
             refreshing={refreshing}
@@ -294,7 +352,9 @@ export default function MissionsScreen() {
                 ? "You don't have any missions for today"
                 : filter === 'inProgress'
                   ? 'No in progress missions'
-                  : `No ${filter} missions`}
+                  : filter === 'rescheduleRequested'
+                    ? 'No reschedule requests'
+                    : `No ${filter} missions`}
             </Text>
           </View>
         }
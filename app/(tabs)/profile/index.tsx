@@ -1,3 +1,5 @@
+import { DrivingSafetyCard } from '@/components/driving';
+import { DataUsageCard, PrivacyCard } from '@/components/sensor-streaming';
 import { Button, buttonTextVariants } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import {
@@ -11,10 +13,19 @@ import {
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Text } from '@/components/ui/text';
-import { useUpdateUser, useUser } from '@/lib/api/hooks';
+import { useMissionOutbox, useUpdateUser, useUser } from '@/lib/api/hooks';
 import { useAuth } from '@/lib/auth';
 import { BRAND, SEMANTIC, pickColor } from '@/lib/colors';
+import { useTripHistory } from '@/lib/driving';
+import { dataUsageTracker } from '@/lib/sensor-streaming/dataUsage';
+import {
+    driverPrivacy,
+    type PrivacyZoneMode,
+} from '@/lib/sensor-streaming/driverPrivacy';
+import { useDataUsage } from '@/lib/sensor-streaming/useDataUsage';
+import { useDriverPrivacy } from '@/lib/sensor-streaming/useDriverPrivacy';
 import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import * as Location from 'expo-location';
 import { useEffect, useState } from 'react';
 import {
     ActivityIndicator,
@@ -77,6 +88,10 @@ export default function Profile() {
   const { user: jwtUser, signOut } = useAuth();
   const { data: user, isLoading, error, refetch } = useUser(jwtUser?.sub || '');
   const { mutate: updateUser, isLoading: isUpdating } = useUpdateUser();
+  const { entries: outboxEntries } = useMissionOutbox();
+  const trips = useTripHistory();
+  const dataUsage = useDataUsage();
+  const privacy = useDriverPrivacy();
   const [refreshing, setRefreshing] = useState(false);
 
   const [formData, setFormData] = useState({
@@ -109,7 +124,12 @@ export default function Profile() {
   };
 
   const handleSignOut = async () => {
-    Alert.alert('Sign Out', 'Are you sure you want to sign out?', [
+    const unsynced = outboxEntries.length;
+    const message =
+      unsynced > 0
+        ? `${unsynced} mission status ${unsynced === 1 ? 'change has' : 'changes have'} not synced yet. ${unsynced === 1 ? 'It' : 'They'} will be sent the next time you sign in. Sign out anyway?`
+        : 'Are you sure you want to sign out?';
+    Alert.alert('Sign Out', message, [
       { text: 'Cancel', style: 'cancel' },
       {
         text: 'Sign Out',
@@ -121,6 +141,30 @@ export default function Profile() {
     ]);
   };
 
+  const handleAddPrivacyZone = async (zone: {
+    name: string;
+    radiusM: number;
+    mode: PrivacyZoneMode;
+  }) => {
+    try {
+      const { status } = await Location.getForegroundPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert('Location needed', 'Allow location access to add a zone here.');
+        return;
+      }
+      const position = await Location.getCurrentPositionAsync({
+        accuracy: Location.Accuracy.High,
+      });
+      await driverPrivacy.addZone({
+        ...zone,
+        lat: position.coords.latitude,
+        lng: position.coords.longitude,
+      });
+    } catch {
+      Alert.alert('Error', 'Could not get your current location');
+    }
+  };
+
   const handleSave = async () => {
     if (!jwtUser?.sub) return;
 
@@ -391,6 +435,24 @@ export default function Profile() {
                 </CardContent>
               </Card>
 
+              {/* Driving Safety Card */}
+              <DrivingSafetyCard trips={trips} />
+
+              {/* Data Usage Card */}
+              <DataUsageCard
+                usage={dataUsage}
+                onChangeCap={(bytes) => void dataUsageTracker.setDailyCap(bytes)}
+              />
+
+              {/* Privacy Card */}
+              <PrivacyCard
+                privacy={privacy}
+                onGoOffDuty={(reason) => void driverPrivacy.goOffDuty(reason)}
+                onGoOnDuty={() => void driverPrivacy.goOnDuty()}
+                onAddZoneHere={(zone) => void handleAddPrivacyZone(zone)}
+                onRemoveZone={(id) => void driverPrivacy.removeZone(id)}
+              />
+
               {/* Security Card */}
               <Card className="mb-4">
                 <CardHeader>
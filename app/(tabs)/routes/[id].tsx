@@ -28,15 +28,32 @@ import {
     RouteEndpointMarker,
     SelectedMissionCard,
 } from '@/components/map/index';
+import { EtaBadge } from '@/components/delivery/EtaBadge';
+import { ResequenceStopsModal } from '@/components/delivery/ResequenceStopsModal';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Text } from '@/components/ui/text';
-import { useRoute } from '@/lib/api/hooks';
-import type { Mission, MissionStatus } from '@/lib/api/types';
-import { BRAND, MAP, STATUS } from '@/lib/colors';
+import { useRoute, useSequenceProposals } from '@/lib/api/hooks';
+import {
+    routeMissionOrder,
+    serverMissionOrder,
+    type StopSequenceProposal,
+} from '@/lib/api/sequenceProposals';
+import type { Mission, MissionStatus, ResequenceReason } from '@/lib/api/types';
+import { BRAND, FEEDBACK, MAP, STATUS } from '@/lib/colors';
+import type { LngLat } from '@/lib/geo';
 import {
     openNativeNavigation,
     openNativeNavigationForRoute,
 } from '@/lib/navigation/openNativeNavigation';
+import { buildRouteGuidance } from '@/lib/navigation/routeGuidance';
+import { resolveSpeedMps, type StopEta } from '@/lib/navigation/stopEtas';
+import { roadLegsFromGuidance } from '@/lib/navigation/stopOptimizer';
+import {
+    isStopDone,
+    withRemainingOrder,
+    type SequenceImpact,
+} from '@/lib/navigation/stopSequence';
+import { useStopEtas } from '@/lib/navigation/useStopEtas';
 import { formatDistance, formatDuration, formatTimeWindow } from '@/lib/utils';
 
 const accessToken = Constants.expoConfig?.extra?.mapboxAccessToken ?? '';
@@ -52,6 +69,11 @@ const statusConfig: Record<MissionStatus, { color: string; bgColor: string }> =
     assigned: { color: STATUS.assigned.color, bgColor: STATUS.assigned.bgColor },
     inProgress: { color: STATUS.inProgress.color, bgColor: STATUS.inProgress.bgColor },
     delivered: { color: STATUS.delivered.color, bgColor: STATUS.delivered.bgColor },
+    failed: { color: STATUS.failed.color, bgColor: STATUS.failed.bgColor },
+    rescheduleRequested: {
+      color: STATUS.rescheduleRequested.color,
+      bgColor: STATUS.rescheduleRequested.bgColor,
+    },
   };
 
 // Get marker color based on mission status
@@ -63,11 +85,13 @@ function getMarkerColor(status: MissionStatus): string {
 function MissionListItem({
   mission,
   order,
+  eta,
   onPress,
   onNavigate,
 }: {
   mission: Mission;
   order: number;
+  eta?: StopEta;
   onPress: () => void;
   onNavigate: () => void;
 }) {
@@ -100,6 +124,11 @@ function MissionListItem({
           {formatTimeWindow(mission.startTimeWindow)} -{' '}
           {formatTimeWindow(mission.endTimeWindow)}
         </Text>
+        {eta && (
+          <View className="mt-1">
+            <EtaBadge eta={eta} />
+          </View>
+        )}
       </View>
 
       {/* Navigate button */}
@@ -113,6 +142,55 @@ function MissionListItem({
   );
 }
 
+// Where the driver's own stop order stands with dispatch
+function ProposalBanner({
+  proposal,
+  onDismiss,
+}: {
+  proposal: StopSequenceProposal;
+  onDismiss: () => void;
+}) {
+  const rejected = proposal.state === 'rejected';
+  const color = rejected ? FEEDBACK.error : FEEDBACK.info;
+  const message =
+    proposal.state === 'unsent'
+      ? "Your stop order is saved on this device and will be sent to dispatch when you're back online."
+      : proposal.state === 'submitted'
+        ? 'Following your stop order while dispatch reviews it.'
+        : `Dispatch kept the planned order${
+            proposal.reviewNote || proposal.lastError
+              ? `: ${proposal.reviewNote || proposal.lastError}`
+              : '.'
+          }`;
+
+  return (
+    <View
+      className="mb-2 flex-row items-center rounded-lg px-3 py-2"
+      style={{ backgroundColor: rejected ? FEEDBACK.errorBg : FEEDBACK.infoBg }}
+    >
+      <MaterialIcons
+        name={
+          rejected
+            ? 'error-outline'
+            : proposal.state === 'unsent'
+              ? 'cloud-off'
+              : 'hourglass-empty'
+        }
+        size={18}
+        color={color}
+      />
+      <Text className="ml-2 flex-1 text-xs" style={{ color }}>
+        {message}
+      </Text>
+      <TouchableOpacity onPress={onDismiss} className="ml-2 py-1">
+        <Text className="text-xs font-semibold" style={{ color }}>
+          {rejected ? 'Dismiss' : 'Undo'}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
 // Default center location (Tehran) when no missions
 const DEFAULT_CENTER: [number, number] = [51.389, 35.6892];
 const DEFAULT_ZOOM = 11;
@@ -125,6 +203,14 @@ export default function RouteMapScreen() {
   const [selectedMission, setSelectedMission] = useState<Mission | null>(null);
 
   const { route, loading, error } = useRoute(id);
+  const { proposals, propose, dismiss } = useSequenceProposals();
+  const proposal = route ? proposals[route.id] : undefined;
+  const [isReordering, setIsReordering] = useState(false);
+
+  // Live ETAs, only while this route is the one being driven
+  const etaState = useStopEtas();
+  const stopEtas: Record<string, StopEta> =
+    route && etaState.routeId === route.id ? etaState.etas : {};
 
   // Sort missions by stop order - use routeMissions if available, fallback to missions
   const sortedMissions = useMemo(() => {
@@ -189,15 +275,32 @@ export default function RouteMapScreen() {
     };
   }, [sortedMissions]);
 
+  // The planned geometry, re-sliced for the stop order shown
+  const guidance = useMemo(() => {
+    if (!route?.geometry) return null;
+    return buildRouteGuidance(
+      route.geometry,
+      sortedMissions
+        .filter((m) => !isNaN(m.latitude) && !isNaN(m.longitude))
+        .map((m) => ({
+          id: m.id,
+          name: m.customerName,
+          coordinate: [m.longitude, m.latitude],
+          isCompleted: isStopDone(m),
+        })),
+    );
+  }, [route, sortedMissions]);
+
   // GeoJSON for route line
   const routeGeoJSON = useMemo(() => {
-    if (!route?.geometry) return null;
+    const geometry = guidance?.geometry ?? route?.geometry;
+    if (!geometry) return null;
     return {
       type: 'Feature' as const,
       properties: {},
-      geometry: route.geometry,
+      geometry,
     };
-  }, [route]);
+  }, [guidance, route]);
 
   // Get start/end points from vehicle
   const routeEndpoints = useMemo(() => {
@@ -220,13 +323,57 @@ export default function RouteMapScreen() {
     };
   }, [route]);
 
+  // Stops the driver can still reorder, in the current order
+  const remainingMissions = useMemo(
+    () => sortedMissions.filter((m) => !isStopDone(m)),
+    [sortedMissions],
+  );
+
+  // The reorder preview sets off from the last finished stop, else the depot
+  const resequenceStart = useMemo((): LngLat | null => {
+    const done = sortedMissions.filter(isStopDone);
+    const last = done[done.length - 1];
+    if (last) return [last.longitude, last.latitude];
+    return routeEndpoints?.start ?? null;
+  }, [sortedMissions, routeEndpoints]);
+
+  // Road distances between stops along the planned (cached) geometry, so
+  // the optimizer has more than straight lines to go on offline
+  const roadLegs = useMemo(
+    () => (guidance ? roadLegsFromGuidance(guidance) : undefined),
+    [guidance],
+  );
+
+  // Follow the new order right away and send it to dispatch as a proposal
+  const submitResequence = useCallback(
+    async (
+      remainingOrder: string[],
+      reason: ResequenceReason,
+      note: string | undefined,
+      impact: SequenceImpact,
+    ) => {
+      if (!route) return;
+      await propose({
+        routeId: route.id,
+        missionIds: withRemainingOrder(routeMissionOrder(route), remainingOrder),
+        baseMissionIds: serverMissionOrder(route, proposals),
+        reason,
+        note: note ?? null,
+        distanceDeltaM: impact.distanceDeltaM,
+        durationDeltaS: impact.durationDeltaS,
+      });
+      setIsReordering(false);
+    },
+    [route, proposals, propose],
+  );
+
   // Start native navigation for the entire route
   const startNavigation = useCallback(() => {
     const stops = sortedMissions.map((mission) => ({
       latitude: mission.latitude,
       longitude: mission.longitude,
       address: mission.address,
-      isCompleted: mission.status === 'delivered',
+      isCompleted: isStopDone(mission),
     }));
     openNativeNavigationForRoute(stops);
   }, [sortedMissions]);
@@ -321,6 +468,10 @@ export default function RouteMapScreen() {
     );
   }
 
+  // Reordering only makes sense with two or more stops still to go
+  const canReorder =
+    route.status !== 'completed' && remainingMissions.length >= 2;
+
   return (
     <View className="flex-1 bg-background">
       {/* Map */}
@@ -434,6 +585,7 @@ export default function RouteMapScreen() {
         {selectedMission && (
           <SelectedMissionCard
             mission={selectedMission}
+            eta={stopEtas[selectedMission.id]}
             onNavigate={() => navigateToMission(selectedMission)}
             onCall={() => callMission(selectedMission)}
             onViewDetails={() => goToMissionDetails(selectedMission)}
@@ -505,14 +657,42 @@ export default function RouteMapScreen() {
         {/* Mission list */}
         <Card className="mx-4 mb-4">
           <CardHeader>
-            <CardTitle>Delivery Stops</CardTitle>
+            <View className="flex-row items-center justify-between">
+              <CardTitle>Delivery Stops</CardTitle>
+              {canReorder && (
+                <TouchableOpacity
+                  onPress={() => setIsReordering(true)}
+                  className="flex-row items-center"
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                >
+                  <MaterialIcons
+                    name="swap-vert"
+                    size={18}
+                    color={BRAND.primary}
+                  />
+                  <Text
+                    className="ml-1 text-sm font-medium"
+                    style={{ color: BRAND.primary }}
+                  >
+                    Reorder
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
           </CardHeader>
           <CardContent className="pt-0">
+            {proposal && (
+              <ProposalBanner
+                proposal={proposal}
+                onDismiss={() => dismiss(route.id)}
+              />
+            )}
             {sortedMissions.map((mission, index) => (
               <MissionListItem
                 key={mission.id}
                 mission={mission}
                 order={index + 1}
+                eta={stopEtas[mission.id]}
                 onPress={() => goToMissionDetails(mission)}
                 onNavigate={() => navigateToMission(mission)}
               />
@@ -525,6 +705,19 @@ export default function RouteMapScreen() {
           </CardContent>
         </Card>
       </ScrollView>
+
+      <ResequenceStopsModal
+        visible={isReordering}
+        stops={remainingMissions}
+        start={resequenceStart}
+        roadLegs={roadLegs}
+        speedMps={resolveSpeedMps(
+          etaState.routeId === route.id ? etaState.speedMps : null,
+          route,
+        )}
+        onSubmit={submitResequence}
+        onCancel={() => setIsReordering(false)}
+      />
     </View>
   );
 }
@@ -12,6 +12,7 @@ import {
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { FilterChip } from '@/components/ui/filter-chip';
+import { StaleDataBanner } from '@/components/ui/stale-data-banner';
 import { Text } from '@/components/ui/text';
 import { useRoutes } from '@/lib/api/hooks';
 import type { Route, RouteStatus } from '@/lib/api/types';
@@ -190,7 +191,16 @@ export default function RoutesScreen() {
   // Get today's date in YYYY-MM-DD format
   const today = new Date().toISOString().split('T')[0];
 
-  const { routes, loading, error, refetch } = useRoutes({ date: today });
+  const {
+    routes,
+    loading,
+    error,
+    refetch,
+    lastUpdatedAt,
+    isStale,
+    isRevalidating,
+    isOffline,
+  } = useRoutes({ date: today });
 
   // Filter routes based on selected filter
   const filteredRoutes = useMemo(() => {
@@ -256,6 +266,13 @@ export default function RoutesScreen() {
 
   return (
     <View className="flex-1 bg-background">
+      <StaleDataBanner
+        lastUpdatedAt={lastUpdatedAt}
+        isStale={isStale}
+        isOffline={isOffline}
+        isRevalidating={isRevalidating}
+      />
+
       {/* Filter chips */}
       <View className="px-4 py-3">
         <FlatList
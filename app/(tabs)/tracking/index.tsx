@@ -1,6 +1,8 @@
 import Mapbox, {
     Atmosphere,
     Camera,
+    CircleLayer,
+    CustomLocationProvider,
     FillExtrusionLayer,
     Light,
     LineLayer,
@@ -26,6 +28,8 @@ import MaterialIcons from '@expo/vector-icons/MaterialIcons';
 
 import {
     EnhancedMissionMarker,
+    GuidanceBanner,
+    GuidanceUnavailableBanner,
     MapControls,
     MapStyleSelector,
     MissionInfoPanel,
@@ -39,9 +43,18 @@ import { StreamingStatusIndicator } from '@/components/map/StreamingStatusIndica
 import { Text } from '@/components/ui/text';
 import { useMissions, useRoutes } from '@/lib/api/hooks';
 import type { Mission } from '@/lib/api/types';
+import { useAuth } from '@/lib/auth';
 import { MAP } from '@/lib/colors';
+import { useTripScoring } from '@/lib/driving';
 import { openNativeNavigation } from '@/lib/navigation/openNativeNavigation';
+import { useOffRouteMonitor } from '@/lib/navigation/useOffRouteMonitor';
+import { useRouteGuidance } from '@/lib/navigation/useRouteGuidance';
+import { useStopEtaTracking } from '@/lib/navigation/useStopEtaTracking';
+import { useStopEtas } from '@/lib/navigation/useStopEtas';
+import { LocationFilter } from '@/lib/sensor-streaming/locationFilter';
 import { useAuthenticatedSensorStreaming } from '@/lib/sensor-streaming/useAuthenticatedSensorStreaming';
+import { useDriverPrivacy } from '@/lib/sensor-streaming/useDriverPrivacy';
+import { useSensorConfig } from '@/lib/sensor-streaming/useSensorConfig';
 
 const accessToken = Constants.expoConfig?.extra?.mapboxAccessToken ?? '';
 Mapbox.setAccessToken(accessToken);
@@ -165,6 +178,7 @@ export default function TrackingScreen() {
   const [hasPermission, setHasPermission] = useState(false);
   const [userLocation, setUserLocation] = useState<[number, number] | null>(null);
   const [userSpeed, setUserSpeed] = useState<number | null>(null);
+  const [userCourse, setUserCourse] = useState<number | undefined>(undefined);
   const [showMissions, setShowMissions] = useState(true);
   const [showRoute, setShowRoute] = useState(true);
   const [selectedMission, setSelectedMission] = useState<Mission | null>(null);
@@ -201,8 +215,17 @@ export default function TrackingScreen() {
     [routes],
   );
 
+  // Score the trip from the same sensor stream
+  const onTripReading = useTripScoring(routes);
+
   // Start/stop sensor streaming based on navigation status
-  useAuthenticatedSensorStreaming({ isNavigating });
+  const publishSensorEvent = useAuthenticatedSensorStreaming({
+    isNavigating,
+    onReading: onTripReading,
+  });
+  const { isAuthenticated } = useAuth();
+  const sensorConfig = useSensorConfig(isAuthenticated);
+  const isOffDuty = useDriverPrivacy().offDuty !== null;
 
   // Get active route and its geometry
   const activeRoute = useMemo(() => {
@@ -211,14 +234,72 @@ export default function TrackingScreen() {
     );
   }, [routes]);
 
+  // In-app guidance along the route being driven
+  const navigatingRoute = useMemo(
+    () => routes.find((r) => r.status === 'in_progress'),
+    [routes],
+  );
+  const {
+    guidance,
+    progress: guidanceProgress,
+    unavailable: guidanceUnavailable,
+    followsPlannedRoute,
+  } = useRouteGuidance(navigatingRoute, userLocation);
+
+  // Deviations from the planned route go to dispatch on the sensor stream.
+  // Nothing is tracked while the driver is off duty, or when guidance runs
+  // on the local router's stand-in path.
+  const offRouteState = useOffRouteMonitor({
+    routeId:
+      isOffDuty || !followsPlannedRoute ? undefined : navigatingRoute?.id,
+    progress: guidanceProgress,
+    corridorM: sensorConfig.offRouteCorridorM,
+    confirmMs: sensorConfig.offRouteConfirmMs,
+    onDeviation: publishSensorEvent,
+  });
+  const isOffRoute = offRouteState === 'off_route';
+
+  // Rolling ETAs for the remaining stops, shared with the route/mission lists
+  useStopEtaTracking(navigatingRoute, guidance, guidanceProgress);
+  const { etas: stopEtas } = useStopEtas();
+
   const activeRouteGeometry = useMemo(() => {
-    if (!activeRoute?.geometry) return null;
+    // Draw the path guidance follows, which may come from the local router
+    const geometry = guidance?.geometry ?? activeRoute?.geometry;
+    if (!geometry) return null;
     return {
       type: 'Feature' as const,
       properties: {},
-      geometry: activeRoute.geometry,
+      geometry,
     };
-  }, [activeRoute]);
+  }, [guidance, activeRoute]);
+
+  // Upcoming maneuver point, plus the way back when off the planned route
+  const guidanceFeatures = useMemo(() => {
+    if (!guidanceProgress) return null;
+    const features: GeoJSON.Feature[] = [];
+    if (guidanceProgress.nextManeuver) {
+      features.push({
+        type: 'Feature',
+        properties: { kind: 'maneuver' },
+        geometry: {
+          type: 'Point',
+          coordinates: guidanceProgress.nextManeuver.coordinate,
+        },
+      });
+    }
+    if (isOffRoute && userLocation) {
+      features.push({
+        type: 'Feature',
+        properties: { kind: 'rejoin' },
+        geometry: {
+          type: 'LineString',
+          coordinates: [userLocation, guidanceProgress.snapped],
+        },
+      });
+    }
+    return { type: 'FeatureCollection' as const, features };
+  }, [guidanceProgress, isOffRoute, userLocation]);
 
   // Get start/end points from vehicle
   const routeEndpoints = useMemo(() => {
@@ -313,11 +394,13 @@ export default function TrackingScreen() {
     getInitialLocation();
   }, []);
 
-  // ── Track user location for speed display ─────────────────────────
+  // ── Track user location for speed display + filtered puck ─────────
   useEffect(() => {
     if (!hasPermission || !isNavigating) return;
 
     let subscription: Location.LocationSubscription | undefined;
+    // Same filtering as uploaded readings, so the puck doesn't jump around
+    const locationFilter = new LocationFilter({ keepRaw: false });
 
     const startWatching = async () => {
       try {
@@ -328,8 +411,26 @@ export default function TrackingScreen() {
             distanceInterval: 0,
           },
           (loc) => {
-            setUserLocation([loc.coords.longitude, loc.coords.latitude]);
+            const filtered = locationFilter.push({
+              t: loc.timestamp,
+              sensor: 'location',
+              lng: loc.coords.longitude,
+              lat: loc.coords.latitude,
+              accuracy: loc.coords.accuracy ?? undefined,
+              speed: loc.coords.speed ?? undefined,
+              heading: loc.coords.heading ?? undefined,
+            });
+            if (!filtered) return;
+            setUserLocation([filtered.lng, filtered.lat]);
             setUserSpeed(loc.coords.speed);
+            // GPS course is only meaningful while moving
+            if (
+              filtered.heading !== undefined &&
+              filtered.heading >= 0 &&
+              (filtered.speed ?? 0) > 1
+            ) {
+              setUserCourse(filtered.heading);
+            }
           },
         );
       } catch {
@@ -341,6 +442,7 @@ export default function TrackingScreen() {
 
     return () => {
       subscription?.remove();
+      setUserCourse(undefined);
     };
   }, [hasPermission, isNavigating]);
 
@@ -544,6 +646,14 @@ export default function TrackingScreen() {
           }}
         />
 
+        {/* ── Filtered location drives the puck while navigating ─ */}
+        {hasPermission && isNavigating && userLocation && (
+          <CustomLocationProvider
+            coordinate={userLocation}
+            heading={userCourse}
+          />
+        )}
+
         {/* ── User location puck (Google-style) ────────────────── */}
         {hasPermission && (
           <LocationPuck
@@ -774,6 +884,32 @@ export default function TrackingScreen() {
           </ShapeSource>
         )}
 
+        {/* ── Guidance: next maneuver + way back to the route ──── */}
+        {guidanceFeatures && (
+          <ShapeSource id="guidance-source" shape={guidanceFeatures}>
+            <LineLayer
+              id="guidance-rejoin"
+              filter={['==', ['get', 'kind'], 'rejoin']}
+              style={{
+                lineColor: isDark ? MAP.routeLineDark : MAP.routeLine,
+                lineWidth: 3,
+                lineDasharray: [2, 2],
+                lineCap: 'round',
+              }}
+            />
+            <CircleLayer
+              id="guidance-maneuver"
+              filter={['==', ['get', 'kind'], 'maneuver']}
+              style={{
+                circleRadius: 7,
+                circleColor: '#FFFFFF',
+                circleStrokeColor: MAP.routeLineBorder,
+                circleStrokeWidth: 3,
+              }}
+            />
+          </ShapeSource>
+        )}
+
         {/* ── Route endpoint markers ──────────────────────────── */}
         {showRoute && routeEndpoints?.start && (
           <RouteEndpointMarker
@@ -813,7 +949,13 @@ export default function TrackingScreen() {
 
       {/* ── Speed Display (bottom-left, when navigating) ──────── */}
       {isNavigating && (
-        <View style={styles.bottomLeftInfo}>
+        <View
+          style={[
+            styles.bottomLeftInfo,
+            // Keep clear of the guidance banner
+            guidanceProgress && !selectedMission && { bottom: 190 },
+          ]}
+        >
           <SpeedDisplay speed={userSpeed} isDark={isDark} />
           {cameraHeading > 2 && (
             <HeadingDisplay heading={cameraHeading} isDark={isDark} />
@@ -853,6 +995,7 @@ export default function TrackingScreen() {
       {selectedMission && (
         <SelectedMissionCard
           mission={selectedMission}
+          eta={stopEtas[selectedMission.id]}
           onNavigate={() => navigateToMission(selectedMission)}
           onCall={() => callMission(selectedMission)}
           onViewDetails={() => viewMissionDetails(selectedMission)}
@@ -860,13 +1003,24 @@ export default function TrackingScreen() {
         />
       )}
 
-      {/* ── Mission Info Panel ────────────────────────────────── */}
-      {mappableMissions.length > 0 && !selectedMission && (
-        <MissionInfoPanel
-          missions={mappableMissions}
-          onViewAll={viewAllMissions}
-        />
+      {/* ── Turn-by-turn guidance (replaces the info panel) ─────── */}
+      {guidanceProgress && !selectedMission && (
+        <GuidanceBanner progress={guidanceProgress} offRoute={isOffRoute} />
       )}
+
+      {/* ── No planned path to guide along ───────────────────── */}
+      {guidanceUnavailable && !selectedMission && <GuidanceUnavailableBanner />}
+
+      {/* ── Mission Info Panel ────────────────────────────────── */}
+      {mappableMissions.length > 0 &&
+        !selectedMission &&
+        !guidanceProgress &&
+        !guidanceUnavailable && (
+          <MissionInfoPanel
+            missions={mappableMissions}
+            onViewAll={viewAllMissions}
+          />
+        )}
     </View>
   );
 }
@@ -1,6 +1,7 @@
 import { AuthProvider } from '@/lib/auth';
 import { SensorPermissionProvider } from '@/lib/sensor-streaming/SensorPermissionContext';
 import { SensorStreamingStatusProvider } from '@/lib/sensor-streaming/SensorStreamingStatusContext';
+import { StreamingProfileProvider } from '@/lib/sensor-streaming/StreamingProfileContext';
 import { NAV_THEME } from '@/lib/theme';
 import { ThemeProvider } from '@react-navigation/native';
 import { PortalHost } from '@rn-primitives/portal';
@@ -45,15 +46,17 @@ export default function RootLayout() {
         <AuthProvider>
           <SensorPermissionProvider>
             <SensorStreamingStatusProvider>
-              <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
-              <Stack screenOptions={{ headerShown: false }}>
-                <Stack.Screen name="(auth)" options={{ headerShown: false }} />
-                <Stack.Screen
-                  name="(tabs)"
-                  options={{ headerShown: false }}
-                />
-              </Stack>
-              <PortalHost />
+              <StreamingProfileProvider>
+                <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+                <Stack screenOptions={{ headerShown: false }}>
+                  <Stack.Screen name="(auth)" options={{ headerShown: false }} />
+                  <Stack.Screen
+                    name="(tabs)"
+                    options={{ headerShown: false }}
+                  />
+                </Stack>
+                <PortalHost />
+              </StreamingProfileProvider>
             </SensorStreamingStatusProvider>
           </SensorPermissionProvider>
         </AuthProvider>
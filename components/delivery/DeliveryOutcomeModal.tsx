@@ -0,0 +1,226 @@
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { useEffect, useState } from 'react';
+import {
+    ActivityIndicator,
+    KeyboardAvoidingView,
+    Modal,
+    Platform,
+    ScrollView,
+    TouchableOpacity,
+    View,
+    useColorScheme,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { Button } from '@/components/ui/button';
+import { FilterChip } from '@/components/ui/filter-chip';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Text } from '@/components/ui/text';
+import {
+    DeliveryFailureReason,
+    MissionStatus,
+    type DeliveryAttemptOutcome,
+} from '@/lib/api/types';
+import { NEUTRAL, STATUS } from '@/lib/colors';
+
+// Reason code labels and icons, shared with the mission detail screen
+export const failureReasonConfig: Record<
+  DeliveryFailureReason,
+  { label: string; icon: keyof typeof MaterialIcons.glyphMap }
+> = {
+  not_home: { label: 'Customer not home', icon: 'person-off' },
+  refused: { label: 'Refused by customer', icon: 'block' },
+  wrong_address: { label: 'Wrong address', icon: 'wrong-location' },
+  damaged: { label: 'Package damaged', icon: 'broken-image' },
+};
+
+type OutcomeStatus =
+  | MissionStatus.FAILED
+  | MissionStatus.RESCHEDULE_REQUESTED;
+
+interface DeliveryOutcomeModalProps {
+  visible: boolean;
+  onSubmit: (
+    status: OutcomeStatus,
+    outcome: DeliveryAttemptOutcome,
+  ) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Lets the driver report a delivery that couldn't be completed, either as
+ * a failed attempt or as a request to reschedule, with a reason code.
+ */
+export function DeliveryOutcomeModal({
+  visible,
+  onSubmit,
+  onCancel,
+}: DeliveryOutcomeModalProps) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const insets = useSafeAreaInsets();
+
+  const [status, setStatus] = useState<OutcomeStatus>(MissionStatus.FAILED);
+  const [reason, setReason] = useState<DeliveryFailureReason | null>(null);
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setStatus(MissionStatus.FAILED);
+    setReason(null);
+    setNote('');
+  }, [visible]);
+
+  const canSubmit = reason !== null && !isSubmitting;
+
+  const handleSubmit = async () => {
+    if (!reason) return;
+    setIsSubmitting(true);
+    try {
+      await onSubmit(status, {
+        reason,
+        note: note.trim() || undefined,
+        attemptedAt: new Date().toISOString(),
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const accent =
+    status === MissionStatus.FAILED
+      ? STATUS.failed.color
+      : STATUS.rescheduleRequested.color;
+  const iconColor = isDark ? NEUTRAL.iconDark : NEUTRAL.iconLight;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onCancel}
+    >
+      <KeyboardAvoidingView
+        className="flex-1 bg-background"
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        {/* Header */}
+        <View className="flex-row items-center justify-between border-b border-border px-4 py-3">
+          <TouchableOpacity onPress={onCancel} disabled={isSubmitting}>
+            <Text className="text-base text-primary">Cancel</Text>
+          </TouchableOpacity>
+          <Text className="text-base font-semibold">Report a Problem</Text>
+          <View style={{ width: 52 }} />
+        </View>
+
+        <ScrollView
+          className="flex-1"
+          contentContainerStyle={{ padding: 16, gap: 20 }}
+          keyboardShouldPersistTaps="handled"
+        >
+          {/* Outcome */}
+          <View className="gap-2">
+            <Label>Outcome</Label>
+            <View className="flex-row">
+              <FilterChip
+                label="Failed attempt"
+                isActive={status === MissionStatus.FAILED}
+                onPress={() => setStatus(MissionStatus.FAILED)}
+              />
+              <FilterChip
+                label="Request reschedule"
+                isActive={status === MissionStatus.RESCHEDULE_REQUESTED}
+                onPress={() => setStatus(MissionStatus.RESCHEDULE_REQUESTED)}
+              />
+            </View>
+          </View>
+
+          {/* Reason */}
+          <View className="gap-2">
+            <Label>Reason</Label>
+            <View className="overflow-hidden rounded-lg border border-border">
+              {(
+                Object.keys(failureReasonConfig) as DeliveryFailureReason[]
+              ).map((key, index) => {
+                const config = failureReasonConfig[key];
+                const selected = reason === key;
+                return (
+                  <TouchableOpacity
+                    key={key}
+                    onPress={() => setReason(key)}
+                    activeOpacity={0.7}
+                    className={`flex-row items-center px-3 py-3 ${
+                      index > 0 ? 'border-t border-border' : ''
+                    }`}
+                  >
+                    <MaterialIcons
+                      name={config.icon}
+                      size={20}
+                      color={selected ? accent : iconColor}
+                    />
+                    <Text
+                      className="ml-3 flex-1 text-base"
+                      style={selected ? { color: accent } : undefined}
+                    >
+                      {config.label}
+                    </Text>
+                    <MaterialIcons
+                      name={
+                        selected ? 'radio-button-checked' : 'radio-button-unchecked'
+                      }
+                      size={20}
+                      color={selected ? accent : iconColor}
+                    />
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          {/* Note */}
+          <View className="gap-2">
+            <Label nativeID="outcomeNote">Note (optional)</Label>
+            <Input
+              aria-labelledby="outcomeNote"
+              value={note}
+              onChangeText={setNote}
+              placeholder={
+                status === MissionStatus.RESCHEDULE_REQUESTED
+                  ? 'e.g. Customer asked for Friday morning'
+                  : 'e.g. Rang twice, no answer'
+              }
+              multiline
+              className="h-20 py-2"
+              style={{ textAlignVertical: 'top' }}
+            />
+          </View>
+        </ScrollView>
+
+        {/* Submit */}
+        <View
+          className="border-t border-border px-4 pt-4"
+          style={{ paddingBottom: Math.max(insets.bottom, 16) }}
+        >
+          <Button
+            onPress={handleSubmit}
+            disabled={!canSubmit}
+            className="w-full"
+            style={{ backgroundColor: accent }}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text className="font-semibold text-white">
+                {status === MissionStatus.FAILED
+                  ? 'Mark as Failed'
+                  : 'Request Reschedule'}
+              </Text>
+            )}
+          </Button>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
@@ -0,0 +1,58 @@
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { View, useColorScheme } from 'react-native';
+
+import { Text } from '@/components/ui/text';
+import { FEEDBACK, NEUTRAL } from '@/lib/colors';
+import type { EtaRisk, StopEta } from '@/lib/navigation/stopEtas';
+
+const riskConfig: Record<
+  EtaRisk,
+  { label: string | null; icon: keyof typeof MaterialIcons.glyphMap }
+> = {
+  on_time: { label: null, icon: 'schedule' },
+  at_risk: { label: 'At risk', icon: 'warning-amber' },
+  late: { label: 'Late', icon: 'error-outline' },
+};
+
+function formatArrival(epochMs: number): string {
+  return new Date(epochMs).toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Live ETA for a remaining stop, flagged when the driver is expected close
+ * to or after the end of the delivery window
+ */
+export function EtaBadge({ eta }: { eta: StopEta }) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+
+  const config = riskConfig[eta.risk];
+  const flagged = eta.risk !== 'on_time';
+  const color =
+    eta.risk === 'late'
+      ? FEEDBACK.error
+      : eta.risk === 'at_risk'
+        ? FEEDBACK.warning
+        : isDark
+          ? NEUTRAL.mutedDark
+          : NEUTRAL.mutedLight;
+  const lightBg = eta.risk === 'late' ? FEEDBACK.errorBg : FEEDBACK.warningBg;
+
+  return (
+    <View
+      className={`flex-row items-center self-start rounded-full py-0.5 ${flagged ? 'px-2' : ''}`}
+      style={
+        flagged && { backgroundColor: isDark ? color + '26' : lightBg }
+      }
+    >
+      <MaterialIcons name={config.icon} size={12} color={color} />
+      <Text className="ml-1 text-xs font-medium" style={{ color }}>
+        ETA {formatArrival(eta.arrivalAt)}
+        {config.label ? ` · ${config.label}` : ''}
+      </Text>
+    </View>
+  );
+}
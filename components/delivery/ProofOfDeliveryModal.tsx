@@ -0,0 +1,309 @@
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { Image } from 'expo-image';
+import * as ImagePicker from 'expo-image-picker';
+import * as Location from 'expo-location';
+import { useEffect, useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    KeyboardAvoidingView,
+    Modal,
+    Platform,
+    ScrollView,
+    TouchableOpacity,
+    View,
+    useColorScheme,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Text } from '@/components/ui/text';
+import type { ProofOfDelivery } from '@/lib/api/types';
+import { BRAND, FEEDBACK, NEUTRAL, SEMANTIC, pickColor } from '@/lib/colors';
+import { saveProofOfDelivery } from '@/lib/delivery/proofOfDelivery';
+import { SignaturePad } from './SignaturePad';
+
+type CapturedPosition = {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+};
+
+interface ProofOfDeliveryModalProps {
+  visible: boolean;
+  missionId: string;
+  customerName: string;
+  /** Receives the saved proof; the modal stays open until it resolves */
+  onSubmit: (proof: ProofOfDelivery) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Collects proof of delivery – recipient name, drawn signature, photos and
+ * an optional note – stamped with the capture time and current position.
+ */
+export function ProofOfDeliveryModal({
+  visible,
+  missionId,
+  customerName,
+  onSubmit,
+  onCancel,
+}: ProofOfDeliveryModalProps) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const insets = useSafeAreaInsets();
+
+  const [recipientName, setRecipientName] = useState('');
+  const [note, setNote] = useState('');
+  const [signatureSvg, setSignatureSvg] = useState<string | null>(null);
+  const [photoUris, setPhotoUris] = useState<string[]>([]);
+  const [position, setPosition] = useState<CapturedPosition | null>(null);
+  const [isSigning, setIsSigning] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Reset the form and start locating as soon as the sheet opens, so a
+  // fix is usually ready by the time the driver submits.
+  useEffect(() => {
+    if (!visible) return;
+    setRecipientName(customerName);
+    setNote('');
+    setSignatureSvg(null);
+    setPhotoUris([]);
+    setPosition(null);
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const { status } = await Location.getForegroundPermissionsAsync();
+        if (status !== 'granted') return;
+        const loc = await Location.getCurrentPositionAsync({
+          accuracy: Location.Accuracy.High,
+        });
+        if (!cancelled) {
+          setPosition({
+            latitude: loc.coords.latitude,
+            longitude: loc.coords.longitude,
+            accuracy: loc.coords.accuracy ?? undefined,
+          });
+        }
+      } catch (error) {
+        console.warn('[ProofOfDelivery] Could not get location:', error);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, customerName]);
+
+  const handleAddPhoto = async () => {
+    const permission = await ImagePicker.requestCameraPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert(
+        'Camera Access Needed',
+        'Allow camera access in Settings to attach delivery photos.',
+      );
+      return;
+    }
+
+    const result = await ImagePicker.launchCameraAsync({
+      mediaTypes: ['images'],
+      quality: 0.6,
+      exif: false,
+    });
+    if (!result.canceled && result.assets.length > 0) {
+      setPhotoUris((prev) => [...prev, result.assets[0].uri]);
+    }
+  };
+
+  const handleRemovePhoto = (uri: string) => {
+    setPhotoUris((prev) => prev.filter((p) => p !== uri));
+  };
+
+  const canSubmit =
+    recipientName.trim().length > 0 &&
+    signatureSvg !== null &&
+    photoUris.length > 0 &&
+    !isSubmitting;
+
+  const handleSubmit = async () => {
+    if (!canSubmit || !signatureSvg) return;
+    setIsSubmitting(true);
+    try {
+      // Fall back to the last known fix if the fresh one hasn't arrived
+      let coords = position;
+      if (!coords) {
+        const last = await Location.getLastKnownPositionAsync().catch(
+          () => null,
+        );
+        if (last) {
+          coords = {
+            latitude: last.coords.latitude,
+            longitude: last.coords.longitude,
+            accuracy: last.coords.accuracy ?? undefined,
+          };
+        }
+      }
+
+      const proof = saveProofOfDelivery(missionId, {
+        recipientName,
+        note,
+        signatureSvg,
+        photoUris,
+        ...coords,
+      });
+      await onSubmit(proof);
+    } catch (error) {
+      console.error('[ProofOfDelivery] Failed to save proof:', error);
+      Alert.alert('Error', 'Failed to save proof of delivery');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const iconColor = isDark ? NEUTRAL.iconDark : NEUTRAL.iconLight;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onCancel}
+    >
+      <KeyboardAvoidingView
+        className="flex-1 bg-background"
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        {/* Header */}
+        <View className="flex-row items-center justify-between border-b border-border px-4 py-3">
+          <TouchableOpacity onPress={onCancel} disabled={isSubmitting}>
+            <Text className="text-base text-primary">Cancel</Text>
+          </TouchableOpacity>
+          <Text className="text-base font-semibold">Proof of Delivery</Text>
+          <View style={{ width: 52 }} />
+        </View>
+
+        <ScrollView
+          className="flex-1"
+          contentContainerStyle={{ padding: 16, gap: 20 }}
+          scrollEnabled={!isSigning}
+          keyboardShouldPersistTaps="handled"
+        >
+          {/* Recipient */}
+          <View className="gap-2">
+            <Label nativeID="recipientName">Recipient name</Label>
+            <Input
+              aria-labelledby="recipientName"
+              value={recipientName}
+              onChangeText={setRecipientName}
+              placeholder="Who received the package?"
+              autoCapitalize="words"
+            />
+          </View>
+
+          {/* Signature */}
+          <View className="gap-2">
+            <Label>Signature</Label>
+            <SignaturePad
+              onChange={setSignatureSvg}
+              onDrawingChange={setIsSigning}
+            />
+          </View>
+
+          {/* Photos */}
+          <View className="gap-2">
+            <Label>Photos</Label>
+            <View className="flex-row flex-wrap gap-2">
+              {photoUris.map((uri) => (
+                <View key={uri}>
+                  <Image
+                    source={{ uri }}
+                    style={{ width: 88, height: 88, borderRadius: 8 }}
+                    contentFit="cover"
+                  />
+                  <TouchableOpacity
+                    onPress={() => handleRemovePhoto(uri)}
+                    className="absolute -right-2 -top-2 h-6 w-6 items-center justify-center rounded-full"
+                    style={{ backgroundColor: FEEDBACK.error }}
+                  >
+                    <MaterialIcons name="close" size={14} color="#fff" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+              <TouchableOpacity
+                onPress={handleAddPhoto}
+                className="h-[88px] w-[88px] items-center justify-center rounded-lg border border-dashed border-border"
+              >
+                <MaterialIcons name="photo-camera" size={24} color={iconColor} />
+                <Text className="mt-1 text-xs text-muted-foreground">
+                  Add photo
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          {/* Note */}
+          <View className="gap-2">
+            <Label nativeID="deliveryNote">Note (optional)</Label>
+            <Input
+              aria-labelledby="deliveryNote"
+              value={note}
+              onChangeText={setNote}
+              placeholder="e.g. Left with the concierge"
+              multiline
+              className="h-20 py-2"
+              style={{ textAlignVertical: 'top' }}
+            />
+          </View>
+
+          {/* Location stamp */}
+          <View className="flex-row items-center gap-2">
+            <MaterialIcons
+              name={position ? 'my-location' : 'location-searching'}
+              size={16}
+              color={pickColor(SEMANTIC.location, isDark)}
+            />
+            <Text className="text-xs text-muted-foreground">
+              {position
+                ? `Location captured (±${Math.round(position.accuracy ?? 0)} m)`
+                : 'Locating…'}
+            </Text>
+          </View>
+        </ScrollView>
+
+        {/* Submit */}
+        <View
+          className="border-t border-border px-4 pt-4"
+          style={{ paddingBottom: Math.max(insets.bottom, 16) }}
+        >
+          <Button
+            onPress={handleSubmit}
+            disabled={!canSubmit}
+            className="w-full bg-green-500"
+          >
+            {isSubmitting ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <View className="flex-row items-center">
+                <MaterialIcons name="check" size={20} color="#fff" />
+                <Text className="ml-2 font-semibold text-white">
+                  Confirm Delivery
+                </Text>
+              </View>
+            )}
+          </Button>
+          {!canSubmit && !isSubmitting && (
+            <Text
+              className="mt-2 text-center text-xs"
+              style={{ color: isDark ? NEUTRAL.mutedDark : BRAND.primaryDark }}
+            >
+              Recipient name, signature and at least one photo are required
+            </Text>
+          )}
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
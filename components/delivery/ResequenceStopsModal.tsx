@@ -0,0 +1,517 @@
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import * as Location from 'expo-location';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+    ActivityIndicator,
+    KeyboardAvoidingView,
+    Modal,
+    PanResponder,
+    Platform,
+    ScrollView,
+    TouchableOpacity,
+    View,
+    useColorScheme,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Text } from '@/components/ui/text';
+import { ResequenceReason, type Mission } from '@/lib/api/types';
+import { BRAND, FEEDBACK, NEUTRAL } from '@/lib/colors';
+import type { LngLat } from '@/lib/geo';
+import { missionWindow } from '@/lib/navigation/stopEtas';
+import {
+    optimizeStopOrder,
+    type OptimizerStop,
+    type RoadLegs,
+} from '@/lib/navigation/stopOptimizer';
+import {
+    estimateSequenceImpact,
+    type SequenceImpact,
+} from '@/lib/navigation/stopSequence';
+import { formatDistance, formatDuration } from '@/lib/utils';
+
+// Reason code labels and icons for a new stop order
+export const resequenceReasonConfig: Record<
+  ResequenceReason,
+  { label: string; icon: keyof typeof MaterialIcons.glyphMap }
+> = {
+  access_blocked: { label: 'Access blocked (gate, parking)', icon: 'block' },
+  customer_request: { label: 'Customer asked for another time', icon: 'schedule' },
+  traffic: { label: 'Traffic or road works', icon: 'traffic' },
+  local_knowledge: { label: 'Quicker order I know of', icon: 'lightbulb-outline' },
+  reoptimized: { label: 'Re-optimized after a change', icon: 'auto-fix-high' },
+};
+
+/** Fixed row height, so a drag offset maps straight to a list position */
+const ROW_HEIGHT = 60;
+
+function formatDelta(value: number, format: (abs: number) => string): string {
+  return `${value < 0 ? '−' : '+'}${format(Math.abs(value))}`;
+}
+
+function toOptimizerStop(mission: Mission): OptimizerStop {
+  return {
+    id: mission.id,
+    coordinate: [mission.longitude, mission.latitude],
+    window: missionWindow(mission),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Draggable row
+// ---------------------------------------------------------------------------
+
+interface StopRowProps {
+  mission: Mission;
+  position: number;
+  /** Vertical offset while this row or a neighbour is dragged */
+  offset: number;
+  isDragging: boolean;
+  onDragStart: () => void;
+  onDragMove: (dy: number) => void;
+  onDragEnd: (dy: number) => void;
+}
+
+function StopRow({
+  mission,
+  position,
+  offset,
+  isDragging,
+  onDragStart,
+  onDragMove,
+  onDragEnd,
+}: StopRowProps) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+
+  // The responder lives as long as the row; read the latest callbacks
+  const handlers = useRef({ onDragStart, onDragMove, onDragEnd });
+  handlers.current = { onDragStart, onDragMove, onDragEnd };
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: () => true,
+        onPanResponderTerminationRequest: () => false,
+        onPanResponderGrant: () => handlers.current.onDragStart(),
+        onPanResponderMove: (_event, gesture) =>
+          handlers.current.onDragMove(gesture.dy),
+        onPanResponderRelease: (_event, gesture) =>
+          handlers.current.onDragEnd(gesture.dy),
+        onPanResponderTerminate: (_event, gesture) =>
+          handlers.current.onDragEnd(gesture.dy),
+      }),
+    [],
+  );
+
+  return (
+    <View
+      className="flex-row items-center border-b border-border bg-background px-3"
+      style={{
+        height: ROW_HEIGHT,
+        transform: [{ translateY: offset }],
+        zIndex: isDragging ? 1 : 0,
+        elevation: isDragging ? 4 : 0,
+        opacity: isDragging ? 0.95 : 1,
+      }}
+    >
+      <View
+        className="mr-3 h-7 w-7 items-center justify-center rounded-full"
+        style={{ backgroundColor: BRAND.primary }}
+      >
+        <Text className="text-xs font-bold text-white">{position}</Text>
+      </View>
+      <View className="flex-1">
+        <Text className="font-medium text-foreground" numberOfLines={1}>
+          {mission.customerName}
+        </Text>
+        <Text className="text-xs text-muted-foreground" numberOfLines={1}>
+          {mission.address}
+        </Text>
+      </View>
+      <View
+        {...panResponder.panHandlers}
+        className="h-full justify-center pl-3"
+        accessibilityLabel={`Drag to move stop ${position}`}
+      >
+        <MaterialIcons
+          name="drag-handle"
+          size={24}
+          color={isDark ? NEUTRAL.iconDark : NEUTRAL.iconLight}
+        />
+      </View>
+    </View>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// ResequenceStopsModal
+// ---------------------------------------------------------------------------
+
+interface ResequenceStopsModalProps {
+  visible: boolean;
+  /** Stops still to visit, in the current order */
+  stops: Mission[];
+  /** Where the driver sets off from when their location isn't available */
+  start: LngLat | null;
+  /** Average driving speed for the preview and optimizer (m/s) */
+  speedMps: number;
+  /** Road distances from the planned route, see roadLegsFromGuidance */
+  roadLegs?: RoadLegs;
+  onSubmit: (
+    missionIds: string[],
+    reason: ResequenceReason,
+    note: string | undefined,
+    impact: SequenceImpact,
+  ) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Lets the driver drag the remaining stops into a different order, or have
+ * the on-device optimizer suggest one, and say why. Shows the estimated
+ * effect on distance, time and missed windows before the order is sent to
+ * dispatch as a proposal.
+ */
+export function ResequenceStopsModal({
+  visible,
+  stops,
+  start,
+  speedMps,
+  roadLegs,
+  onSubmit,
+  onCancel,
+}: ResequenceStopsModalProps) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const insets = useSafeAreaInsets();
+
+  const [order, setOrder] = useState<Mission[]>(stops);
+  const [drag, setDrag] = useState<{ index: number; dy: number } | null>(null);
+  const [reason, setReason] = useState<ResequenceReason | null>(null);
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [position, setPosition] = useState<LngLat | null>(null);
+  const [alreadyOptimal, setAlreadyOptimal] = useState(false);
+  const [isOptimizing, setIsOptimizing] = useState(false);
+  // Bumped when the order changes some other way; a suggestion for an
+  // older state is dropped
+  const optimizeRunRef = useRef(0);
+
+  useEffect(() => {
+    if (!visible) return;
+    setOrder(stops);
+    setDrag(null);
+    setReason(null);
+    setNote('');
+    setAlreadyOptimal(false);
+    setIsOptimizing(false);
+    optimizeRunRef.current++;
+    // Only reset when opened – a refetch mustn't undo the driver's dragging
+
+    // The optimizer and preview start from where the driver is now
+    let cancelled = false;
+    (async () => {
+      try {
+        const { status } = await Location.getForegroundPermissionsAsync();
+        if (status !== 'granted') return;
+        const loc =
+          (await Location.getLastKnownPositionAsync()) ??
+          (await Location.getCurrentPositionAsync({
+            accuracy: Location.Accuracy.Balanced,
+          }));
+        if (!cancelled && loc) {
+          setPosition([loc.coords.longitude, loc.coords.latitude]);
+        }
+      } catch (error) {
+        console.warn('[Resequence] Could not get location:', error);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible]);
+
+  const origin = useMemo((): LngLat | null => {
+    if (position) return position;
+    if (start) return start;
+    return stops[0] ? [stops[0].longitude, stops[0].latitude] : null;
+  }, [position, start, stops]);
+
+  const changed = order.some((m, i) => m.id !== stops[i]?.id);
+
+  const impact = useMemo(() => {
+    if (!changed || !origin) return null;
+    return estimateSequenceImpact(
+      origin,
+      stops.map(toOptimizerStop),
+      order.map(toOptimizerStop),
+      { startAt: Date.now(), speedMps, roadLegs },
+    );
+  }, [changed, origin, stops, order, speedMps, roadLegs]);
+
+  const handleOptimize = async () => {
+    if (!origin) return;
+    const run = ++optimizeRunRef.current;
+    const byId = new Map(stops.map((m) => [m.id, m]));
+    setIsOptimizing(true);
+    let optimized: Mission[];
+    try {
+      optimized = (
+        await optimizeStopOrder(origin, stops.map(toOptimizerStop), {
+          startAt: Date.now(),
+          speedMps,
+          roadLegs,
+        })
+      ).map((s) => byId.get(s.id)!);
+    } finally {
+      if (run === optimizeRunRef.current) setIsOptimizing(false);
+    }
+    if (run !== optimizeRunRef.current) return;
+
+    setOrder(optimized);
+    const unchanged = optimized.every((m, i) => m.id === stops[i].id);
+    setAlreadyOptimal(unchanged);
+    if (!unchanged && reason === null) setReason(ResequenceReason.REOPTIMIZED);
+  };
+
+  const targetIndex = (index: number, dy: number) =>
+    Math.min(order.length - 1, Math.max(0, index + Math.round(dy / ROW_HEIGHT)));
+
+  // Rows between the dragged row and its target make room for it
+  const offsetFor = (index: number): number => {
+    if (!drag) return 0;
+    if (index === drag.index) return drag.dy;
+    const target = targetIndex(drag.index, drag.dy);
+    if (drag.index < index && index <= target) return -ROW_HEIGHT;
+    if (target <= index && index < drag.index) return ROW_HEIGHT;
+    return 0;
+  };
+
+  const handleDragEnd = (index: number, dy: number) => {
+    const target = targetIndex(index, dy);
+    setDrag(null);
+    setAlreadyOptimal(false);
+    optimizeRunRef.current++;
+    setIsOptimizing(false);
+    if (target === index) return;
+    setOrder((current) => {
+      const next = [...current];
+      const [moved] = next.splice(index, 1);
+      next.splice(target, 0, moved);
+      return next;
+    });
+  };
+
+  const canSubmit = changed && reason !== null && !isSubmitting;
+
+  const handleSubmit = async () => {
+    if (!reason || !impact) return;
+    setIsSubmitting(true);
+    try {
+      await onSubmit(
+        order.map((m) => m.id),
+        reason,
+        note.trim() || undefined,
+        impact,
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const iconColor = isDark ? NEUTRAL.iconDark : NEUTRAL.iconLight;
+  const impactColor =
+    impact &&
+    (impact.durationDeltaS > 0 || impact.lateStopsAfter > impact.lateStopsBefore)
+      ? FEEDBACK.warning
+      : FEEDBACK.success;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onCancel}
+    >
+      <KeyboardAvoidingView
+        className="flex-1 bg-background"
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        {/* Header */}
+        <View className="flex-row items-center justify-between border-b border-border px-4 py-3">
+          <TouchableOpacity onPress={onCancel} disabled={isSubmitting}>
+            <Text className="text-base text-primary">Cancel</Text>
+          </TouchableOpacity>
+          <Text className="text-base font-semibold">Reorder Stops</Text>
+          <TouchableOpacity
+            onPress={() => setOrder(stops)}
+            disabled={!changed || isSubmitting}
+          >
+            <Text
+              className="text-base text-primary"
+              style={{ opacity: changed ? 1 : 0.4 }}
+            >
+              Reset
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          className="flex-1"
+          contentContainerStyle={{ padding: 16, gap: 20 }}
+          keyboardShouldPersistTaps="handled"
+          scrollEnabled={drag === null}
+        >
+          {/* Stops */}
+          <View className="gap-2">
+            <Label>Remaining stops</Label>
+            <Text className="text-xs text-muted-foreground">
+              Drag a stop by its handle to change when you visit it.
+            </Text>
+            <TouchableOpacity
+              onPress={handleOptimize}
+              disabled={!origin || isSubmitting || isOptimizing}
+              activeOpacity={0.7}
+              className="flex-row items-center self-start rounded-full border border-border px-3 py-1.5"
+            >
+              {isOptimizing ? (
+                <ActivityIndicator size="small" color={BRAND.primary} />
+              ) : (
+                <MaterialIcons
+                  name="auto-fix-high"
+                  size={16}
+                  color={BRAND.primary}
+                />
+              )}
+              <Text
+                className="ml-1.5 text-sm font-medium"
+                style={{ color: BRAND.primary }}
+              >
+                {isOptimizing ? 'Finding a better order…' : 'Suggest best order'}
+              </Text>
+            </TouchableOpacity>
+            {alreadyOptimal && (
+              <Text className="text-xs text-muted-foreground">
+                The current order is already the best one found.
+              </Text>
+            )}
+            <View className="overflow-hidden rounded-lg border border-border">
+              {order.map((mission, index) => (
+                <StopRow
+                  key={mission.id}
+                  mission={mission}
+                  position={index + 1}
+                  offset={offsetFor(index)}
+                  isDragging={drag?.index === index}
+                  onDragStart={() => setDrag({ index, dy: 0 })}
+                  onDragMove={(dy) => setDrag({ index, dy })}
+                  onDragEnd={(dy) => handleDragEnd(index, dy)}
+                />
+              ))}
+            </View>
+          </View>
+
+          {/* Impact preview */}
+          {impact && (
+            <View className="flex-row items-center gap-2 rounded-lg border border-border px-3 py-3">
+              <MaterialIcons name="alt-route" size={20} color={impactColor} />
+              <View className="flex-1">
+                <Text className="text-sm font-medium" style={{ color: impactColor }}>
+                  {formatDelta(impact.distanceDeltaM, formatDistance)} ·{' '}
+                  {formatDelta(impact.durationDeltaS, formatDuration)}
+                </Text>
+                {(impact.lateStopsBefore > 0 || impact.lateStopsAfter > 0) && (
+                  <Text className="text-xs text-foreground">
+                    Missed time windows: {impact.lateStopsBefore} →{' '}
+                    {impact.lateStopsAfter}
+                  </Text>
+                )}
+                <Text className="text-xs text-muted-foreground">
+                  Estimated change for the rest of the route
+                </Text>
+              </View>
+            </View>
+          )}
+
+          {/* Reason */}
+          <View className="gap-2">
+            <Label>Reason</Label>
+            <View className="overflow-hidden rounded-lg border border-border">
+              {(
+                Object.keys(resequenceReasonConfig) as ResequenceReason[]
+              ).map((key, index) => {
+                const config = resequenceReasonConfig[key];
+                const selected = reason === key;
+                return (
+                  <TouchableOpacity
+                    key={key}
+                    onPress={() => setReason(key)}
+                    activeOpacity={0.7}
+                    className={`flex-row items-center px-3 py-3 ${
+                      index > 0 ? 'border-t border-border' : ''
+                    }`}
+                  >
+                    <MaterialIcons
+                      name={config.icon}
+                      size={20}
+                      color={selected ? BRAND.primary : iconColor}
+                    />
+                    <Text
+                      className="ml-3 flex-1 text-base"
+                      style={selected ? { color: BRAND.primary } : undefined}
+                    >
+                      {config.label}
+                    </Text>
+                    <MaterialIcons
+                      name={
+                        selected ? 'radio-button-checked' : 'radio-button-unchecked'
+                      }
+                      size={20}
+                      color={selected ? BRAND.primary : iconColor}
+                    />
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          {/* Note */}
+          <View className="gap-2">
+            <Label nativeID="resequenceNote">Note for dispatch (optional)</Label>
+            <Input
+              aria-labelledby="resequenceNote"
+              value={note}
+              onChangeText={setNote}
+              placeholder="e.g. Gate at stop 3 opens at 11:00"
+              multiline
+              className="h-20 py-2"
+              style={{ textAlignVertical: 'top' }}
+            />
+          </View>
+        </ScrollView>
+
+        {/* Submit */}
+        <View
+          className="border-t border-border px-4 pt-4"
+          style={{ paddingBottom: Math.max(insets.bottom, 16) }}
+        >
+          <Button onPress={handleSubmit} disabled={!canSubmit} className="w-full">
+            {isSubmitting ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text className="font-semibold text-white">
+                Use This Order & Send to Dispatch
+              </Text>
+            )}
+          </Button>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
@@ -0,0 +1,205 @@
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { useMemo, useRef, useState } from 'react';
+import {
+    PanResponder,
+    StyleSheet,
+    TouchableOpacity,
+    View,
+    useColorScheme,
+    type LayoutChangeEvent,
+} from 'react-native';
+import Svg, { Path } from 'react-native-svg';
+
+import { Text } from '@/components/ui/text';
+import { NEUTRAL } from '@/lib/colors';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+type Point = { x: number; y: number };
+
+const STROKE_WIDTH = 3;
+
+function strokeToPath(points: Point[]): string {
+  if (points.length === 0) return '';
+  const [first, ...rest] = points;
+  // A single tap still leaves a visible dot
+  if (rest.length === 0) {
+    return `M${first.x.toFixed(1)},${first.y.toFixed(1)} l0.1,0`;
+  }
+  return (
+    `M${first.x.toFixed(1)},${first.y.toFixed(1)} ` +
+    rest.map((p) => `L${p.x.toFixed(1)},${p.y.toFixed(1)}`).join(' ')
+  );
+}
+
+/** Standalone SVG document of the signature, always drawn in black on white */
+function toSvgDocument(
+  strokes: Point[][],
+  width: number,
+  height: number,
+): string {
+  const paths = strokes
+    .map(
+      (stroke) =>
+        `<path d="${strokeToPath(stroke)}" fill="none" stroke="#000" ` +
+        `stroke-width="${STROKE_WIDTH}" stroke-linecap="round" stroke-linejoin="round"/>`,
+    )
+    .join('');
+  const w = Math.round(width);
+  const h = Math.round(height);
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}">` +
+    `<rect width="100%" height="100%" fill="#fff"/>${paths}</svg>`
+  );
+}
+
+// ---------------------------------------------------------------------------
+// SignaturePad
+// ---------------------------------------------------------------------------
+
+interface SignaturePadProps {
+  /** Called with the SVG document after each stroke, or `null` when cleared */
+  onChange: (svg: string | null) => void;
+  /** Lets a parent ScrollView stop scrolling while the driver is signing */
+  onDrawingChange?: (drawing: boolean) => void;
+  height?: number;
+}
+
+export function SignaturePad({
+  onChange,
+  onDrawingChange,
+  height = 180,
+}: SignaturePadProps) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const [strokes, setStrokes] = useState<Point[][]>([]);
+  const [current, setCurrent] = useState<Point[]>([]);
+  const sizeRef = useRef({ width: 0, height });
+
+  // PanResponder handlers are created once; route through refs so they
+  // always see the latest state and callbacks.
+  const currentRef = useRef<Point[]>([]);
+  const strokesRef = useRef<Point[][]>([]);
+  const onChangeRef = useRef(onChange);
+  const onDrawingChangeRef = useRef(onDrawingChange);
+  onChangeRef.current = onChange;
+  onDrawingChangeRef.current = onDrawingChange;
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: () => true,
+        onPanResponderTerminationRequest: () => false,
+        onPanResponderGrant: (evt) => {
+          const { locationX, locationY } = evt.nativeEvent;
+          currentRef.current = [{ x: locationX, y: locationY }];
+          setCurrent(currentRef.current);
+          onDrawingChangeRef.current?.(true);
+        },
+        onPanResponderMove: (evt) => {
+          const { locationX, locationY } = evt.nativeEvent;
+          currentRef.current = [
+            ...currentRef.current,
+            { x: locationX, y: locationY },
+          ];
+          setCurrent(currentRef.current);
+        },
+        onPanResponderRelease: () => {
+          const finished = currentRef.current;
+          currentRef.current = [];
+          setCurrent([]);
+          if (finished.length > 0) {
+            strokesRef.current = [...strokesRef.current, finished];
+            setStrokes(strokesRef.current);
+            onChangeRef.current(
+              toSvgDocument(
+                strokesRef.current,
+                sizeRef.current.width,
+                sizeRef.current.height,
+              ),
+            );
+          }
+          onDrawingChangeRef.current?.(false);
+        },
+      }),
+    [],
+  );
+
+  const handleLayout = (e: LayoutChangeEvent) => {
+    sizeRef.current = {
+      width: e.nativeEvent.layout.width,
+      height: e.nativeEvent.layout.height,
+    };
+  };
+
+  const handleClear = () => {
+    strokesRef.current = [];
+    currentRef.current = [];
+    setStrokes([]);
+    setCurrent([]);
+    onChange(null);
+  };
+
+  const inkColor = isDark ? '#F9FAFB' : '#111827';
+  const isEmpty = strokes.length === 0 && current.length === 0;
+
+  return (
+    <View>
+      <View
+        className="rounded-lg border border-border"
+        style={[
+          styles.pad,
+          { height, backgroundColor: isDark ? '#111827' : '#FFFFFF' },
+        ]}
+        onLayout={handleLayout}
+        {...panResponder.panHandlers}
+      >
+        <Svg width="100%" height="100%">
+          {[...strokes, current].map((stroke, i) => (
+            <Path
+              key={i}
+              d={strokeToPath(stroke)}
+              fill="none"
+              stroke={inkColor}
+              strokeWidth={STROKE_WIDTH}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          ))}
+        </Svg>
+        {isEmpty && (
+          <View style={styles.placeholder} pointerEvents="none">
+            <Text className="text-sm text-muted-foreground">Sign here</Text>
+          </View>
+        )}
+      </View>
+      <TouchableOpacity
+        onPress={handleClear}
+        disabled={isEmpty}
+        className="mt-2 flex-row items-center self-end"
+        style={{ opacity: isEmpty ? 0.4 : 1 }}
+      >
+        <MaterialIcons
+          name="refresh"
+          size={16}
+          color={isDark ? NEUTRAL.iconDark : NEUTRAL.iconLight}
+        />
+        <Text className="ml-1 text-sm text-muted-foreground">Clear</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  pad: {
+    overflow: 'hidden',
+  },
+  placeholder: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
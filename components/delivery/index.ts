@@ -0,0 +1,15 @@
+export {
+    DeliveryOutcomeModal,
+    failureReasonConfig
+} from './DeliveryOutcomeModal';
+
+export { ProofOfDeliveryModal } from './ProofOfDeliveryModal';
+
+export { SignaturePad } from './SignaturePad';
+
+export { EtaBadge } from './EtaBadge';
+
+export {
+    ResequenceStopsModal,
+    resequenceReasonConfig
+} from './ResequenceStopsModal';
@@ -0,0 +1,183 @@
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { View, useColorScheme } from 'react-native';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Text } from '@/components/ui/text';
+import { FEEDBACK, NEUTRAL, SEMANTIC, pickColor } from '@/lib/colors';
+import type { TripScoreBreakdown, TripSummary } from '@/lib/driving';
+
+/** Past trips listed under the latest one */
+const HISTORY_LIMIT = 10;
+
+const BREAKDOWN_ROWS: {
+  key: keyof TripScoreBreakdown;
+  label: string;
+  icon: keyof typeof MaterialIcons.glyphMap;
+}[] = [
+  { key: 'speeding', label: 'Speed', icon: 'speed' },
+  { key: 'harshEvents', label: 'Smooth driving', icon: 'warning-amber' },
+  { key: 'phoneHandling', label: 'Phone use', icon: 'smartphone' },
+  { key: 'idle', label: 'Idling', icon: 'hourglass-empty' },
+];
+
+function scoreColor(score: number): string {
+  if (score >= 80) return FEEDBACK.success;
+  if (score >= 60) return FEEDBACK.warning;
+  return FEEDBACK.error;
+}
+
+function formatMinutes(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function formatTripDate(epochMs: number): string {
+  return new Date(epochMs).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+function eventCount(trip: TripSummary): number {
+  return Object.values(trip.events).reduce((sum, n) => sum + n, 0);
+}
+
+function BreakdownRow({
+  label,
+  icon,
+  score,
+  isDark,
+}: {
+  label: string;
+  icon: keyof typeof MaterialIcons.glyphMap;
+  score: number;
+  isDark: boolean;
+}) {
+  return (
+    <View className="flex-row items-center py-1.5">
+      <MaterialIcons
+        name={icon}
+        size={16}
+        color={isDark ? NEUTRAL.iconDark : NEUTRAL.iconLight}
+      />
+      <Text className="ml-2 w-28 text-sm text-foreground">{label}</Text>
+      <View className="flex-1 h-2 rounded-full bg-muted overflow-hidden">
+        <View
+          className="h-2 rounded-full"
+          style={{ width: `${score}%`, backgroundColor: scoreColor(score) }}
+        />
+      </View>
+      <Text className="ml-3 w-8 text-right text-sm font-medium text-foreground">
+        {score}
+      </Text>
+    </View>
+  );
+}
+
+function TripRow({ trip }: { trip: TripSummary }) {
+  const events = eventCount(trip);
+  return (
+    <View className="flex-row items-center py-3 border-b border-border">
+      <View className="flex-1">
+        <Text className="text-sm font-medium text-foreground" numberOfLines={1}>
+          {trip.routeName || 'Route'}
+        </Text>
+        <Text className="text-xs text-muted-foreground mt-0.5">
+          {formatTripDate(trip.endedAt)} · {trip.distanceKm} km ·{' '}
+          {formatMinutes(trip.durationMs)} · {events}{' '}
+          {events === 1 ? 'event' : 'events'}
+        </Text>
+      </View>
+      <Text
+        className="text-lg font-bold"
+        style={{ color: scoreColor(trip.score) }}
+      >
+        {trip.score}
+      </Text>
+    </View>
+  );
+}
+
+/**
+ * Driver-facing safety summary: the latest trip's score with its breakdown,
+ * the average across recent trips and a short trip history.
+ */
+export function DrivingSafetyCard({ trips }: { trips: TripSummary[] }) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const latest = trips[0];
+  const recent = trips.slice(0, HISTORY_LIMIT);
+  const average =
+    recent.length > 0
+      ? Math.round(recent.reduce((sum, t) => sum + t.score, 0) / recent.length)
+      : 0;
+
+  return (
+    <Card className="mb-4">
+      <CardHeader>
+        <View className="flex-row items-center">
+          <MaterialIcons
+            name="shield"
+            size={18}
+            color={pickColor(SEMANTIC.navigation, isDark)}
+          />
+          <CardTitle className="ml-2">Driving Safety</CardTitle>
+        </View>
+      </CardHeader>
+      <CardContent>
+        {!latest ? (
+          <Text className="text-sm text-muted-foreground">
+            Your score appears here after you complete a route.
+          </Text>
+        ) : (
+          <>
+            <View className="flex-row items-end justify-between mb-3">
+              <View>
+                <Text className="text-xs text-muted-foreground uppercase tracking-wider">
+                  Last trip
+                </Text>
+                <Text
+                  className="text-4xl font-bold"
+                  style={{ color: scoreColor(latest.score) }}
+                >
+                  {latest.score}
+                </Text>
+              </View>
+              {recent.length > 1 && (
+                <View className="items-end">
+                  <Text className="text-xs text-muted-foreground uppercase tracking-wider">
+                    Avg. last {recent.length}
+                  </Text>
+                  <Text
+                    className="text-2xl font-semibold"
+                    style={{ color: scoreColor(average) }}
+                  >
+                    {average}
+                  </Text>
+                </View>
+              )}
+            </View>
+
+            {BREAKDOWN_ROWS.map((row) => (
+              <BreakdownRow
+                key={row.key}
+                label={row.label}
+                icon={row.icon}
+                score={latest.breakdown[row.key]}
+                isDark={isDark}
+              />
+            ))}
+
+            <Text className="text-xs text-muted-foreground uppercase tracking-wider mt-4">
+              Recent trips
+            </Text>
+            {recent.map((trip) => (
+              <TripRow key={trip.id} trip={trip} />
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1 @@
+export { DrivingSafetyCard } from './DrivingSafetyCard';
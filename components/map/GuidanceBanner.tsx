@@ -0,0 +1,267 @@
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { StyleSheet, View, useColorScheme } from 'react-native';
+
+import { Text } from '@/components/ui/text';
+import { FEEDBACK, MAP } from '@/lib/colors';
+import type {
+    GuidanceProgress,
+    ManeuverType,
+} from '@/lib/navigation/routeGuidance';
+
+// ---------------------------------------------------------------------------
+// Maneuver display
+// ---------------------------------------------------------------------------
+
+const MANEUVER_ICONS: Record<
+  ManeuverType,
+  keyof typeof MaterialIcons.glyphMap
+> = {
+  slight_left: 'turn-slight-left',
+  left: 'turn-left',
+  sharp_left: 'turn-sharp-left',
+  slight_right: 'turn-slight-right',
+  right: 'turn-right',
+  sharp_right: 'turn-sharp-right',
+  uturn: 'u-turn-left',
+  arrive: 'flag',
+};
+
+const MANEUVER_LABELS: Record<ManeuverType, string> = {
+  slight_left: 'Keep slightly left',
+  left: 'Turn left',
+  sharp_left: 'Turn sharp left',
+  slight_right: 'Keep slightly right',
+  right: 'Turn right',
+  sharp_right: 'Turn sharp right',
+  uturn: 'Make a U-turn',
+  arrive: 'Arrive',
+};
+
+function formatDistance(meters: number): string {
+  if (meters >= 1000) return `${(meters / 1000).toFixed(1)} km`;
+  // Round like a navigation app: to 10 m, or 50 m further out
+  const step = meters >= 300 ? 50 : 10;
+  return `${Math.max(step, Math.round(meters / step) * step)} m`;
+}
+
+// ---------------------------------------------------------------------------
+// GuidanceBanner
+// ---------------------------------------------------------------------------
+
+/**
+ * Turn-by-turn banner for in-app guidance: the upcoming maneuver with its
+ * distance, the next stop, and a warning when the driver has left the
+ * planned route.
+ */
+export function GuidanceBanner({
+  progress,
+  offRoute,
+}: {
+  progress: GuidanceProgress;
+  /** Driver is confirmed off the planned route (see OffRouteMonitor) */
+  offRoute: boolean;
+}) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+
+  const { nextManeuver, distanceToManeuverM, nextStop, distanceToStopM } =
+    progress;
+  const arrivingAtStop =
+    nextManeuver?.type === 'arrive' && nextManeuver.stopId === nextStop?.id;
+
+  const primaryText = isDark ? '#F3F4F6' : '#202124';
+  const secondaryText = isDark ? '#9CA3AF' : '#5F6368';
+
+  return (
+    <View
+      style={[
+        styles.container,
+        { backgroundColor: isDark ? '#1F2937' : '#FFFFFF' },
+      ]}
+    >
+      {nextManeuver && distanceToManeuverM !== null && (
+        <View style={styles.maneuverRow}>
+          <View style={[styles.maneuverIcon, { backgroundColor: MAP.routeLine }]}>
+            <MaterialIcons
+              name={MANEUVER_ICONS[nextManeuver.type]}
+              size={30}
+              color="#FFFFFF"
+            />
+          </View>
+          <View style={styles.maneuverInfo}>
+            <Text style={[styles.maneuverDistance, { color: primaryText }]}>
+              {formatDistance(distanceToManeuverM)}
+            </Text>
+            <Text
+              style={[styles.maneuverLabel, { color: secondaryText }]}
+              numberOfLines={1}
+            >
+              {arrivingAtStop
+                ? `Arrive at ${nextStop!.name}`
+                : MANEUVER_LABELS[nextManeuver.type]}
+            </Text>
+          </View>
+        </View>
+      )}
+
+      {nextStop && distanceToStopM !== null && !arrivingAtStop && (
+        <View
+          style={[
+            styles.stopRow,
+            { borderTopColor: isDark ? '#374151' : '#EAEDF0' },
+          ]}
+        >
+          <MaterialIcons name="place" size={16} color={secondaryText} />
+          <Text
+            style={[styles.stopText, { color: secondaryText }]}
+            numberOfLines={1}
+          >
+            Next stop: {nextStop.name} · {formatDistance(distanceToStopM)}
+          </Text>
+        </View>
+      )}
+
+      {offRoute && (
+        <View
+          style={[
+            styles.offRouteRow,
+            {
+              backgroundColor: isDark
+                ? 'rgba(239, 68, 68, 0.15)'
+                : FEEDBACK.errorBg,
+            },
+          ]}
+        >
+          <MaterialIcons name="wrong-location" size={16} color={FEEDBACK.error} />
+          <Text style={[styles.offRouteText, { color: FEEDBACK.error }]}>
+            Off the planned route – return to the highlighted path (
+            {formatDistance(progress.offRouteM)} away)
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+/**
+ * Shown instead of the turn-by-turn banner when the route being driven has
+ * no planned path to guide along.
+ */
+export function GuidanceUnavailableBanner() {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+
+  return (
+    <View
+      style={[
+        styles.container,
+        { backgroundColor: isDark ? '#1F2937' : '#FFFFFF' },
+      ]}
+    >
+      <View style={styles.unavailableRow}>
+        <MaterialIcons
+          name="directions-off"
+          size={22}
+          color={isDark ? '#9CA3AF' : '#5F6368'}
+        />
+        <View style={styles.maneuverInfo}>
+          <Text
+            style={[
+              styles.maneuverLabel,
+              { color: isDark ? '#F3F4F6' : '#202124' },
+            ]}
+          >
+            Guidance unavailable
+          </Text>
+          <Text
+            style={[
+              styles.stopText,
+              { color: isDark ? '#9CA3AF' : '#5F6368' },
+            ]}
+          >
+            There is no planned path for this stop order yet – follow the
+            stop list until dispatch plans it.
+          </Text>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Styles
+// ---------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    bottom: 16,
+    left: 12,
+    right: 12,
+    borderRadius: 16,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 6,
+    elevation: 5,
+  },
+  maneuverRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+  },
+  maneuverIcon: {
+    width: 48,
+    height: 48,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  maneuverInfo: {
+    flex: 1,
+  },
+  maneuverDistance: {
+    fontSize: 22,
+    fontWeight: '700',
+    fontVariant: ['tabular-nums'],
+  },
+  maneuverLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginTop: 1,
+  },
+  stopRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  stopText: {
+    flex: 1,
+    fontSize: 13,
+  },
+  unavailableRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+  },
+  offRouteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  offRouteText: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
@@ -9,8 +9,10 @@ import {
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
+import { EtaBadge } from '@/components/delivery/EtaBadge';
 import { Text } from '@/components/ui/text';
 import { BRAND, MAP, STATUS } from '@/lib/colors';
+import type { StopEta } from '@/lib/navigation/stopEtas';
 
 // ---------------------------------------------------------------------------
 // Google-Maps-style Map Controls
@@ -482,6 +484,8 @@ interface SelectedMissionCardProps {
     status: string;
     phone?: string;
   };
+  /** Live ETA while the mission's route is being driven */
+  eta?: StopEta | null;
   onNavigate?: () => void;
   onCall?: () => void;
   onViewDetails?: () => void;
@@ -490,6 +494,7 @@ interface SelectedMissionCardProps {
 
 export function SelectedMissionCard({
   mission,
+  eta,
   onNavigate,
   onCall,
   onViewDetails,
@@ -502,12 +507,16 @@ export function SelectedMissionCard({
     assigned: STATUS.assigned.color,
     inProgress: STATUS.inProgress.color,
     delivered: STATUS.delivered.color,
+    failed: STATUS.failed.color,
+    rescheduleRequested: STATUS.rescheduleRequested.color,
   };
 
   const statusLabels: Record<string, string> = {
     assigned: 'Assigned',
     inProgress: 'In Progress',
     delivered: 'Delivered',
+    failed: 'Failed',
+    rescheduleRequested: 'Reschedule',
   };
 
   const statusColor = statusColors[mission.status] || '#5F6368';
@@ -594,6 +603,12 @@ export function SelectedMissionCard({
               {mission.address}
             </Text>
           </View>
+
+          {eta && (
+            <View style={styles.cardEtaRow}>
+              <EtaBadge eta={eta} />
+            </View>
+          )}
         </View>
       </View>
 
@@ -946,6 +961,9 @@ const styles = StyleSheet.create({
     fontSize: 13,
     flex: 1,
   },
+  cardEtaRow: {
+    marginTop: 6,
+  },
   cardActions: {
     flexDirection: 'row',
     paddingHorizontal: 16,
@@ -41,6 +41,18 @@ export const missionStatusConfig: Record<
     icon: 'check-circle',
     pulseColor: STATUS.delivered.pulseColor,
   },
+  failed: {
+    color: STATUS.failed.color,
+    bgColor: STATUS.failed.bgColor,
+    icon: 'cancel',
+    pulseColor: STATUS.failed.pulseColor,
+  },
+  rescheduleRequested: {
+    color: STATUS.rescheduleRequested.color,
+    bgColor: STATUS.rescheduleRequested.bgColor,
+    icon: 'event-repeat',
+    pulseColor: STATUS.rescheduleRequested.pulseColor,
+  },
 };
 
 // Animated pulse ring for active/selected markers
@@ -11,10 +11,31 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import { Text } from '@/components/ui/text';
 import { BRAND, SENSOR } from '@/lib/colors';
+import type { MotionState } from '@/lib/sensor-streaming/motionState';
 import {
     type SensorThroughput,
     useSensorStreamingStatus,
 } from '@/lib/sensor-streaming/SensorStreamingStatusContext';
+import { useStreamingProfile } from '@/lib/sensor-streaming/StreamingProfileContext';
+import {
+    STREAMING_PROFILES,
+    type StreamingProfileName,
+} from '@/lib/sensor-streaming/streamingProfile';
+
+const MOTION_CONFIG: Record<
+  MotionState,
+  { icon: keyof typeof MaterialIcons.glyphMap; label: string }
+> = {
+  driving: { icon: 'directions-car', label: 'Driving' },
+  walking: { icon: 'directions-walk', label: 'Walking' },
+  stationary: { icon: 'local-parking', label: 'Parked' },
+};
+
+const BATTERY_IMPACT_COLOR = {
+  low: '#22C55E',
+  medium: '#FBBC04',
+  high: '#EF4444',
+} as const;
 
 function formatBytes(bytes: number): string {
   if (bytes < 1024) return `${bytes} B`;
@@ -279,8 +300,85 @@ function LatencyBar({
   );
 }
 
+const PROFILE_OPTIONS: { key: StreamingProfileName | null; label: string }[] = [
+  { key: null, label: 'Auto' },
+  ...(Object.keys(STREAMING_PROFILES) as StreamingProfileName[]).map((key) => ({
+    key,
+    label: STREAMING_PROFILES[key].label,
+  })),
+];
+
+function ProfileSelector({ isDark }: { isDark: boolean }) {
+  const { profile, override, setOverride, power, dataCapReached } =
+    useStreamingProfile();
+  const batteryText =
+    power.batteryLevel >= 0
+      ? `${Math.round(power.batteryLevel * 100)}%${power.isCharging ? ' ⚡' : ''}`
+      : '';
+
+  return (
+    <View style={styles.latencyContainer}>
+      <View style={styles.profileTitleRow}>
+        <Text
+          style={[
+            styles.breakdownTitle,
+            { color: isDark ? '#9CA3AF' : '#6B7280' },
+          ]}
+        >
+          PROFILE · {profile.label.toUpperCase()}
+          {dataCapReached ? ' (DATA CAP)' : override ? '' : ' (AUTO)'}
+        </Text>
+        {batteryText ? (
+          <Text
+            style={[
+              styles.breakdownTitle,
+              { color: isDark ? '#9CA3AF' : '#6B7280' },
+            ]}
+          >
+            {batteryText}
+          </Text>
+        ) : null}
+      </View>
+      <View style={styles.profileOptions}>
+        {PROFILE_OPTIONS.map((option) => {
+          const isActive = override === option.key;
+          return (
+            <TouchableOpacity
+              key={option.key ?? 'auto'}
+              onPress={() => void setOverride(option.key)}
+              activeOpacity={0.7}
+              style={[
+                styles.profileOption,
+                {
+                  backgroundColor: isActive
+                    ? BRAND.primary
+                    : isDark
+                      ? '#374151'
+                      : '#F3F4F6',
+                },
+              ]}
+            >
+              <Text
+                style={[
+                  styles.profileOptionText,
+                  {
+                    color: isActive ? '#fff' : isDark ? '#D1D5DB' : '#4B5563',
+                  },
+                ]}
+              >
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
 export function SensorDataOverlay() {
-  const { status, throughput } = useSensorStreamingStatus();
+  const { status, throughput, motion } = useSensorStreamingStatus();
+  const { profile } = useStreamingProfile();
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
   const insets = useSafeAreaInsets();
@@ -315,6 +413,8 @@ export function SensorDataOverlay() {
   if (hasQueueDepth) expandedHeight += 28; // queue depth row
   if (throughput.totalBatchesFailed > 0) expandedHeight += 28; // failed row
   if (throughput.bytesPerSecond > 0) expandedHeight += 28; // throughput rate row
+  if (motion) expandedHeight += 28; // motion mode row
+  expandedHeight += 70; // streaming profile selector
   expandedHeight += 60; // sensor breakdown
 
   const expandedHeightInterp = expandAnim.interpolate({
@@ -403,6 +503,21 @@ export function SensorDataOverlay() {
               </Text>
             </View>
           )}
+
+          {/* Reduced streaming profile badge */}
+          {profile.name !== 'full' && (
+            <View
+              style={[
+                styles.ratePill,
+                { backgroundColor: 'rgba(34, 197, 94, 0.15)' },
+              ]}
+            >
+              <MaterialIcons name="battery-saver" size={11} color="#22C55E" />
+              <Text style={[styles.rateText, { color: '#22C55E' }]}>
+                {profile.label}
+              </Text>
+            </View>
+          )}
         </View>
 
         <Animated.View style={{ transform: [{ rotate: chevronRotation }] }}>
@@ -445,12 +560,24 @@ export function SensorDataOverlay() {
           <ThroughputRow
             icon="data-usage"
             label="Data uploaded"
-            value={formatBytes(throughput.estimatedBytesSent)}
+            value={formatBytes(throughput.totalBytesSent)}
             unit=""
             color={BRAND.primary}
             isDark={isDark}
           />
 
+          {/* Motion-based sampling mode */}
+          {motion && (
+            <ThroughputRow
+              icon={MOTION_CONFIG[motion.state].icon}
+              label={`${MOTION_CONFIG[motion.state].label} · ${motion.imuRateHz}Hz`}
+              value={`${Math.round(motion.relativePower * 100)}%`}
+              unit={`${motion.batteryImpact} battery`}
+              color={BATTERY_IMPACT_COLOR[motion.batteryImpact]}
+              isDark={isDark}
+            />
+          )}
+
           {/* Data throughput rate */}
           {throughput.bytesPerSecond > 0 && (
             <ThroughputRow
@@ -492,6 +619,9 @@ export function SensorDataOverlay() {
 
           {/* Sensor type breakdown */}
           <SensorBreakdown throughput={throughput} isDark={isDark} />
+
+          {/* Battery-aware streaming profile (driver can override) */}
+          <ProfileSelector isDark={isDark} />
         </View>
       </Animated.View>
     </View>
@@ -647,6 +777,24 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     fontVariant: ['tabular-nums'],
   },
+  profileTitleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  profileOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+  },
+  profileOption: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  profileOptionText: {
+    fontSize: 10,
+    fontWeight: '600',
+  },
   latencyDivider: {
     width: 1,
     height: 20,
@@ -8,20 +8,21 @@ import {
     type StreamingStatus,
     useSensorStreamingStatus,
 } from '@/lib/sensor-streaming/SensorStreamingStatusContext';
+import type { OffDutyReason } from '@/lib/sensor-streaming/types';
+import { useDriverPrivacy } from '@/lib/sensor-streaming/useDriverPrivacy';
 
-const STATUS_CONFIG: Record<
-  StreamingStatus,
-  {
-    icon: keyof typeof MaterialIcons.glyphMap;
-    label: string;
-    color: string;
-    bgLight: string;
-    bgDark: string;
-    borderLight: string;
-    borderDark: string;
-    pulse: boolean;
-  }
-> = {
+type IndicatorConfig = {
+  icon: keyof typeof MaterialIcons.glyphMap;
+  label: string;
+  color: string;
+  bgLight: string;
+  bgDark: string;
+  borderLight: string;
+  borderDark: string;
+  pulse: boolean;
+};
+
+const STATUS_CONFIG: Record<StreamingStatus, IndicatorConfig> = {
   live: {
     icon: 'sensors',
     label: 'LIVE',
@@ -64,6 +65,27 @@ const STATUS_CONFIG: Record<
   },
 };
 
+/** Shown instead of the streaming status while the driver is off duty */
+const OFF_DUTY_CONFIG: IndicatorConfig = {
+  icon: 'pause-circle-outline',
+  label: 'OFF DUTY',
+  color: '#FBBC04',
+  bgLight: 'rgba(255, 255, 255, 0.97)',
+  bgDark: 'rgba(17, 24, 39, 0.95)',
+  borderLight: 'rgba(251, 188, 4, 0.3)',
+  borderDark: 'rgba(251, 188, 4, 0.4)',
+  pulse: false,
+};
+
+const OFF_DUTY_REASON_LABELS: Record<OffDutyReason, string> = {
+  break: 'Break',
+  rest: 'Rest',
+  personal: 'Personal',
+};
+
+/** Privacy zone badge color (violet, like the profile privacy card) */
+const PRIVACY_COLOR = '#8B5CF6';
+
 function formatRate(n: number): string {
   if (n >= 1000) return `${(n / 1000).toFixed(1)}k`;
   return `${n}`;
@@ -85,6 +107,7 @@ function latencyColor(ms: number): string {
 export function StreamingStatusIndicator() {
   const { status, throughput, consecutiveFailures } =
     useSensorStreamingStatus();
+  const { offDuty, activeZone } = useDriverPrivacy();
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
   const insets = useSafeAreaInsets();
@@ -92,7 +115,7 @@ export function StreamingStatusIndicator() {
   const dotScaleAnim = useRef(new Animated.Value(1)).current;
   const spinAnim = useRef(new Animated.Value(0)).current;
 
-  const config = STATUS_CONFIG[status];
+  const config = offDuty ? OFF_DUTY_CONFIG : STATUS_CONFIG[status];
 
   // Pulsing dot animation for live / draining status
   useEffect(() => {
@@ -157,10 +180,11 @@ export function StreamingStatusIndicator() {
     }
   }, [status, spinAnim]);
 
-  // Don't show anything when streaming is off
-  if (status === 'off') {
+  // Don't show anything when streaming is off, unless the driver paused it
+  if (status === 'off' && !offDuty) {
     return null;
   }
+  const showPrivacyZone = !offDuty && status !== 'off' && activeZone !== null;
 
   const hasActivity = throughput.readingsPerSecond > 0;
   const showQueueBadge =
@@ -203,7 +227,7 @@ export function StreamingStatusIndicator() {
           <View style={[styles.dot, { backgroundColor: config.color }]} />
         </View>
 
-        {status === 'draining' ? (
+        {status === 'draining' && !offDuty ? (
           <Animated.View style={{ transform: [{ rotate: spinRotation }] }}>
             <MaterialIcons
               name={config.icon}
@@ -225,6 +249,48 @@ export function StreamingStatusIndicator() {
         </Text>
       </View>
 
+      {/* Off duty reason */}
+      {offDuty && (
+        <>
+          <View
+            style={[
+              styles.separator,
+              { backgroundColor: isDark ? '#374151' : '#E5E7EB' },
+            ]}
+          />
+          <Text
+            style={[
+              styles.rateValue,
+              { color: isDark ? '#D1D5DB' : '#5F6368' },
+            ]}
+          >
+            {OFF_DUTY_REASON_LABELS[offDuty.reason]}
+          </Text>
+        </>
+      )}
+
+      {/* Inside a privacy zone – location is hidden or approximated */}
+      {showPrivacyZone && (
+        <>
+          <View
+            style={[
+              styles.separator,
+              { backgroundColor: isDark ? '#374151' : '#E5E7EB' },
+            ]}
+          />
+          <View style={styles.privacyBadge}>
+            <MaterialIcons
+              name={activeZone.mode === 'suppress' ? 'location-off' : 'blur-on'}
+              size={11}
+              color={PRIVACY_COLOR}
+            />
+            <Text style={styles.privacyText}>
+              {activeZone.mode === 'suppress' ? 'PRIVATE' : 'APPROX'}
+            </Text>
+          </View>
+        </>
+      )}
+
       {/* Right: throughput stats (only when live/draining and has activity) */}
       {(status === 'live' || status === 'draining') && hasActivity && (
         <>
@@ -434,6 +500,17 @@ const styles = StyleSheet.create({
     fontVariant: ['tabular-nums'],
     color: '#FBBC04',
   },
+  privacyBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+  },
+  privacyText: {
+    fontSize: 10,
+    fontWeight: '700',
+    letterSpacing: 0.6,
+    color: PRIVACY_COLOR,
+  },
   errorSection: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -19,3 +19,4 @@ export {
     type MapStyleOption
 } from './MapStyleSelector';
 
+export { GuidanceBanner, GuidanceUnavailableBanner } from './GuidanceBanner';
@@ -0,0 +1,120 @@
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { ScrollView, View, useColorScheme } from 'react-native';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { FilterChip } from '@/components/ui/filter-chip';
+import { Text } from '@/components/ui/text';
+import { FEEDBACK, SEMANTIC, pickColor } from '@/lib/colors';
+import {
+    totalBytes,
+    type DataUsageSnapshot,
+    type DataUsageTotals,
+} from '@/lib/sensor-streaming/dataUsage';
+
+const MB = 1024 * 1024;
+
+/** Daily cap choices offered to the driver */
+const CAP_OPTIONS: { label: string; bytes: number | null }[] = [
+  { label: 'No cap', bytes: null },
+  { label: '25 MB', bytes: 25 * MB },
+  { label: '50 MB', bytes: 50 * MB },
+  { label: '100 MB', bytes: 100 * MB },
+  { label: '250 MB', bytes: 250 * MB },
+];
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < MB) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / MB).toFixed(1)} MB`;
+}
+
+function UsageRow({ label, totals }: { label: string; totals: DataUsageTotals }) {
+  return (
+    <View className="flex-row items-center justify-between py-2 border-b border-border">
+      <View>
+        <Text className="text-sm font-medium text-foreground">{label}</Text>
+        <Text className="text-xs text-muted-foreground mt-0.5">
+          ↑ {formatBytes(totals.sentBytes)} · ↓ {formatBytes(totals.receivedBytes)}
+        </Text>
+      </View>
+      <Text className="text-base font-semibold text-foreground">
+        {formatBytes(totalBytes(totals))}
+      </Text>
+    </View>
+  );
+}
+
+/**
+ * Mobile data used by sensor streaming today and this month, with a daily
+ * cap that drops streaming to location-only once reached.
+ */
+export function DataUsageCard({
+  usage,
+  onChangeCap,
+}: {
+  usage: DataUsageSnapshot;
+  onChangeCap: (bytes: number | null) => void;
+}) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const todayBytes = totalBytes(usage.today);
+  const capProgress = usage.dailyCapBytes
+    ? Math.min(1, todayBytes / usage.dailyCapBytes)
+    : 0;
+
+  return (
+    <Card className="mb-4">
+      <CardHeader>
+        <View className="flex-row items-center">
+          <MaterialIcons
+            name="data-usage"
+            size={18}
+            color={pickColor(SEMANTIC.data, isDark)}
+          />
+          <CardTitle className="ml-2">Data Usage</CardTitle>
+        </View>
+      </CardHeader>
+      <CardContent>
+        <UsageRow label="Today" totals={usage.today} />
+        <UsageRow label="This month" totals={usage.thisMonth} />
+
+        <Text className="text-xs text-muted-foreground uppercase tracking-wider mt-4 mb-2">
+          Daily cap
+        </Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          {CAP_OPTIONS.map((option) => (
+            <FilterChip
+              key={option.label}
+              label={option.label}
+              isActive={usage.dailyCapBytes === option.bytes}
+              onPress={() => onChangeCap(option.bytes)}
+            />
+          ))}
+        </ScrollView>
+
+        {usage.dailyCapBytes !== null && (
+          <View className="mt-3">
+            <View className="h-2 rounded-full bg-muted overflow-hidden">
+              <View
+                className="h-2 rounded-full"
+                style={{
+                  width: `${Math.round(capProgress * 100)}%`,
+                  backgroundColor: usage.capReached
+                    ? FEEDBACK.error
+                    : capProgress >= 0.8
+                      ? FEEDBACK.warning
+                      : FEEDBACK.success,
+                }}
+              />
+            </View>
+            <Text className="text-xs text-muted-foreground mt-1.5">
+              {usage.capReached
+                ? 'Cap reached – only your location is shared until tomorrow.'
+                : `${formatBytes(todayBytes)} of ${formatBytes(usage.dailyCapBytes)} used today`}
+            </Text>
+          </View>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
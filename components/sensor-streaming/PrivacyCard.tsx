@@ -0,0 +1,238 @@
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { useState } from 'react';
+import { ScrollView, TouchableOpacity, View, useColorScheme } from 'react-native';
+
+import { Button, buttonTextVariants } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { FilterChip } from '@/components/ui/filter-chip';
+import { Input } from '@/components/ui/input';
+import { Text } from '@/components/ui/text';
+import { FEEDBACK, NEUTRAL, SEMANTIC, pickColor } from '@/lib/colors';
+import type {
+    DriverPrivacyState,
+    PrivacyZone,
+    PrivacyZoneMode,
+} from '@/lib/sensor-streaming/driverPrivacy';
+import type { OffDutyReason } from '@/lib/sensor-streaming/types';
+
+const REASON_OPTIONS: { label: string; reason: OffDutyReason }[] = [
+  { label: 'Break', reason: 'break' },
+  { label: 'Rest period', reason: 'rest' },
+  { label: 'Personal', reason: 'personal' },
+];
+
+const REASON_LABELS: Record<OffDutyReason, string> = {
+  break: 'Break',
+  rest: 'Rest period',
+  personal: 'Personal',
+};
+
+const RADIUS_OPTIONS = [100, 250, 500, 1000];
+
+const MODE_OPTIONS: { label: string; mode: PrivacyZoneMode }[] = [
+  { label: 'Hide location', mode: 'suppress' },
+  { label: 'Approximate', mode: 'coarsen' },
+];
+
+function formatRadius(meters: number): string {
+  return meters >= 1000 ? `${meters / 1000} km` : `${meters} m`;
+}
+
+function formatTime(epochMs: number): string {
+  return new Date(epochMs).toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function ZoneRow({
+  zone,
+  onRemove,
+}: {
+  zone: PrivacyZone;
+  onRemove: () => void;
+}) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+
+  return (
+    <View className="flex-row items-center justify-between py-2 border-b border-border">
+      <View className="flex-1">
+        <Text className="text-sm font-medium text-foreground">{zone.name}</Text>
+        <Text className="text-xs text-muted-foreground mt-0.5">
+          {formatRadius(zone.radiusM)} ·{' '}
+          {zone.mode === 'suppress' ? 'Location hidden' : 'Location approximate'}
+        </Text>
+      </View>
+      <TouchableOpacity onPress={onRemove} hitSlop={8}>
+        <MaterialIcons
+          name="delete-outline"
+          size={20}
+          color={isDark ? NEUTRAL.iconDark : NEUTRAL.iconLight}
+        />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+/**
+ * Driver privacy controls: pause tracking while off duty (with a reason
+ * that is recorded) and manage zones where location is hidden or
+ * approximated before it leaves the device.
+ */
+export function PrivacyCard({
+  privacy,
+  onGoOffDuty,
+  onGoOnDuty,
+  onAddZoneHere,
+  onRemoveZone,
+}: {
+  privacy: DriverPrivacyState;
+  onGoOffDuty: (reason: OffDutyReason) => void;
+  onGoOnDuty: () => void;
+  /** Add a zone centred on the current location */
+  onAddZoneHere: (zone: {
+    name: string;
+    radiusM: number;
+    mode: PrivacyZoneMode;
+  }) => void;
+  onRemoveZone: (id: string) => void;
+}) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const [zoneName, setZoneName] = useState('');
+  const [radiusM, setRadiusM] = useState(RADIUS_OPTIONS[1]);
+  const [mode, setMode] = useState<PrivacyZoneMode>('suppress');
+
+  const handleAddZone = () => {
+    onAddZoneHere({
+      name: zoneName.trim() || `Zone ${privacy.zones.length + 1}`,
+      radiusM,
+      mode,
+    });
+    setZoneName('');
+  };
+
+  return (
+    <Card className="mb-4">
+      <CardHeader>
+        <View className="flex-row items-center">
+          <MaterialIcons
+            name="privacy-tip"
+            size={18}
+            color={pickColor(SEMANTIC.profile, isDark)}
+          />
+          <CardTitle className="ml-2">Privacy</CardTitle>
+        </View>
+      </CardHeader>
+      <CardContent>
+        {/* Off duty */}
+        <Text className="text-xs text-muted-foreground uppercase tracking-wider mb-2">
+          Off duty
+        </Text>
+        {privacy.offDuty ? (
+          <View>
+            <View
+              className="flex-row items-center rounded-md px-3 py-2 mb-3"
+              style={{
+                backgroundColor: isDark
+                  ? 'rgba(251, 188, 4, 0.15)'
+                  : FEEDBACK.warningBg,
+              }}
+            >
+              <MaterialIcons
+                name="pause-circle-outline"
+                size={18}
+                color={FEEDBACK.warning}
+              />
+              <Text className="text-sm text-foreground ml-2">
+                Tracking paused since {formatTime(privacy.offDuty.since)} (
+                {REASON_LABELS[privacy.offDuty.reason]})
+              </Text>
+            </View>
+            <Button onPress={onGoOnDuty}>
+              <Text className={buttonTextVariants({ variant: 'default' })}>
+                Resume tracking
+              </Text>
+            </Button>
+          </View>
+        ) : (
+          <View>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {REASON_OPTIONS.map((option) => (
+                <FilterChip
+                  key={option.reason}
+                  label={option.label}
+                  isActive={false}
+                  onPress={() => onGoOffDuty(option.reason)}
+                />
+              ))}
+            </ScrollView>
+            <Text className="text-xs text-muted-foreground mt-1.5">
+              Pausing stops all sensor and location tracking. The pause and
+              its reason are recorded.
+            </Text>
+          </View>
+        )}
+
+        {/* Privacy zones */}
+        <Text className="text-xs text-muted-foreground uppercase tracking-wider mt-5 mb-1">
+          Privacy zones
+        </Text>
+        {privacy.zones.length === 0 ? (
+          <Text className="text-sm text-muted-foreground py-2">
+            No zones yet. Add one at places like your home.
+          </Text>
+        ) : (
+          privacy.zones.map((zone) => (
+            <ZoneRow
+              key={zone.id}
+              zone={zone}
+              onRemove={() => onRemoveZone(zone.id)}
+            />
+          ))
+        )}
+
+        <Input
+          className="mt-3"
+          placeholder="Zone name (e.g. Home)"
+          value={zoneName}
+          onChangeText={setZoneName}
+        />
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          className="mt-2"
+        >
+          {RADIUS_OPTIONS.map((option) => (
+            <FilterChip
+              key={option}
+              label={formatRadius(option)}
+              isActive={radiusM === option}
+              onPress={() => setRadiusM(option)}
+            />
+          ))}
+        </ScrollView>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          className="mt-2"
+        >
+          {MODE_OPTIONS.map((option) => (
+            <FilterChip
+              key={option.mode}
+              label={option.label}
+              isActive={mode === option.mode}
+              onPress={() => setMode(option.mode)}
+            />
+          ))}
+        </ScrollView>
+        <Button variant="outline" onPress={handleAddZone} className="mt-3">
+          <Text className={buttonTextVariants({ variant: 'outline' })}>
+            Add zone at my location
+          </Text>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
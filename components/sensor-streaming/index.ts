@@ -0,0 +1,2 @@
+export { DataUsageCard } from './DataUsageCard';
+export { PrivacyCard } from './PrivacyCard';
@@ -0,0 +1,57 @@
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, View } from 'react-native';
+
+import { Text } from '@/components/ui/text';
+import { FEEDBACK } from '@/lib/colors';
+import { formatRelativeTime } from '@/lib/utils';
+
+interface StaleDataBannerProps {
+  lastUpdatedAt: number | null;
+  isStale: boolean;
+  isOffline: boolean;
+  isRevalidating: boolean;
+}
+
+/**
+ * Shows how old cached data is when it can't be trusted to be current –
+ * either it is past the staleness threshold or the last refresh failed.
+ * Renders nothing while the data is fresh.
+ */
+export function StaleDataBanner({
+  lastUpdatedAt,
+  isStale,
+  isOffline,
+  isRevalidating,
+}: StaleDataBannerProps) {
+  const [now, setNow] = useState(Date.now());
+
+  // Keep the relative time label current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (lastUpdatedAt === null || (!isStale && !isOffline)) return null;
+
+  const color = isOffline ? FEEDBACK.error : FEEDBACK.warning;
+  const bgColor = isOffline ? FEEDBACK.errorBg : FEEDBACK.warningBg;
+
+  return (
+    <View
+      className="mx-4 mt-3 flex-row items-center gap-2 rounded-lg px-3 py-2"
+      style={{ backgroundColor: bgColor }}
+    >
+      <MaterialIcons
+        name={isOffline ? 'cloud-off' : 'history'}
+        size={16}
+        color={color}
+      />
+      <Text className="flex-1 text-xs font-medium" style={{ color }}>
+        {isOffline ? 'Offline – ' : ''}Last updated{' '}
+        {formatRelativeTime(lastUpdatedAt, now)}
+      </Text>
+      {isRevalidating && <ActivityIndicator size="small" color={color} />}
+    </View>
+  );
+}
@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+
+import { resetDatabases } from '@/test/sqlite';
+
+import { ApiCache } from '../cache';
+import type { Mission, Route } from '../types';
+
+function mission(id: string, extra: Partial<Mission> = {}): Mission {
+  return {
+    id,
+    customerName: `Customer ${id}`,
+    address: `${id} Main Street`,
+    latitude: 48.85,
+    longitude: 2.35,
+    ...extra,
+  } as Mission;
+}
+
+describe('ApiCache', () => {
+  let cache: ApiCache;
+
+  beforeEach(() => {
+    resetDatabases();
+    cache = new ApiCache();
+  });
+
+  it('keeps route details when a list refresh has a partial row', async () => {
+    await cache.putRoute({
+      id: 'r1',
+      name: 'Morning',
+      geometry: { type: 'LineString', coordinates: [] },
+      missions: [mission('m1', { phone: '0102' }), mission('m2')],
+    } as unknown as Route);
+
+    await cache.putRouteList('routes:today', [
+      { id: 'r1', name: 'Morning (updated)' } as Route,
+    ]);
+
+    const cached = await cache.getRoute('r1');
+    expect(cached?.data.name).toBe('Morning (updated)');
+    expect(cached?.data.geometry).toBeDefined();
+    expect(cached?.data.missions?.map((m) => m.id)).toEqual(['m1', 'm2']);
+    expect(cached?.data.missions?.[0].phone).toBe('0102');
+  });
+
+  it('merges nested missions from a list refresh into stored ones', async () => {
+    await cache.putRoute({
+      id: 'r1',
+      missions: [mission('m1', { phone: '0102' })],
+    } as Route);
+
+    await cache.putRouteList('routes:today', [
+      { id: 'r1', missions: [{ id: 'm1', status: 'delivered' } as Mission] } as Route,
+    ]);
+
+    const [m1] = (await cache.getRoute('r1'))!.data.missions!;
+    expect(m1.status).toBe('delivered' as Mission['status']);
+    expect(m1.phone).toBe('0102');
+  });
+
+  it('replaces the route on a detail fetch', async () => {
+    await cache.putRoute({ id: 'r1', name: 'Old', description: 'Gate code 1234' } as Route);
+    await cache.putRoute({ id: 'r1', name: 'New' } as Route);
+
+    const cached = await cache.getRoute('r1');
+    expect(cached?.data).toEqual({ id: 'r1', name: 'New' } as Route);
+  });
+});
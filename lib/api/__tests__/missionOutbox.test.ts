@@ -0,0 +1,225 @@
+import { AxiosError, AxiosHeaders } from 'axios';
+import { beforeEach, describe, expect, it, mock } from 'bun:test';
+
+import { resetDatabases } from '@/test/sqlite';
+
+import {
+  MissionStatus,
+  type Mission,
+  type ProofOfDelivery,
+  type UpdateMissionStatusRequest,
+} from '../types';
+
+// ---------------------------------------------------------------------------
+// Fakes
+// ---------------------------------------------------------------------------
+
+/** Local files that exist on the "device" */
+const files = new Set<string>();
+
+mock.module('expo-file-system', () => ({
+  File: class {
+    constructor(readonly uri: string) {}
+    get exists() {
+      return files.has(this.uri);
+    }
+    delete() {
+      files.delete(this.uri);
+    }
+  },
+  Directory: class {},
+  Paths: {},
+}));
+
+/** Mission status on the "server" */
+const server = new Map<string, MissionStatus>();
+const patches: { id: string; body: UpdateMissionStatusRequest }[] = [];
+const uploads: string[] = [];
+let failWith: AxiosError | null = null;
+
+function httpError(status: number): AxiosError {
+  return new AxiosError('Request failed', String(status), undefined, null, {
+    status,
+    statusText: '',
+    headers: {},
+    config: { headers: new AxiosHeaders() },
+    data: {},
+  });
+}
+
+function missionFor(id: string): Mission {
+  return { id, status: server.get(id)! } as Mission;
+}
+
+mock.module('@/lib/api/services/mission.service', () => ({
+  missionService: {
+    getMission: async (id: string) => {
+      if (failWith) throw failWith;
+      return missionFor(id);
+    },
+    updateMissionStatus: async (
+      id: string,
+      status: MissionStatus,
+      details: Omit<UpdateMissionStatusRequest, 'status'>,
+    ) => {
+      patches.push({ id, body: { status, ...details } });
+      server.set(id, status);
+      return missionFor(id);
+    },
+    uploadProofOfDeliveryArtifact: async (
+      _missionId: string,
+      artifact: { uri: string },
+    ) => {
+      uploads.push(artifact.uri);
+      return `remote:${artifact.uri}`;
+    },
+  },
+}));
+
+const { MissionOutbox } = await import('../missionOutbox');
+
+function proof(...uris: string[]): ProofOfDelivery {
+  for (const uri of uris) files.add(uri);
+  return {
+    recipientName: 'R. Receiver',
+    capturedAt: '2026-10-19T09:00:00Z',
+    artifacts: uris.map((uri) => ({ kind: 'photo', uri, mimeType: 'image/jpeg' })),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('MissionOutbox', () => {
+  let outbox: InstanceType<typeof MissionOutbox>;
+
+  beforeEach(async () => {
+    resetDatabases();
+    files.clear();
+    server.clear();
+    patches.length = 0;
+    uploads.length = 0;
+    failWith = null;
+    outbox = new MissionOutbox();
+    await outbox.claimForDriver('driver-a');
+  });
+
+  it('replays queued changes in order and removes them', async () => {
+    server.set('m1', MissionStatus.ASSIGNED);
+    await outbox.enqueue('m1', MissionStatus.IN_PROGRESS, MissionStatus.ASSIGNED);
+    await outbox.enqueue('m1', MissionStatus.DELIVERED, MissionStatus.IN_PROGRESS);
+
+    await outbox.flush();
+
+    expect(patches.map((p) => p.body.status)).toEqual([
+      MissionStatus.IN_PROGRESS,
+      MissionStatus.DELIVERED,
+    ]);
+    expect(outbox.getEntries()).toEqual([]);
+  });
+
+  it('parks a change as a conflict when the server moved on', async () => {
+    server.set('m1', MissionStatus.FAILED);
+    await outbox.enqueue('m1', MissionStatus.IN_PROGRESS, MissionStatus.ASSIGNED);
+    await outbox.enqueue('m1', MissionStatus.DELIVERED, MissionStatus.IN_PROGRESS);
+
+    await outbox.flush();
+
+    expect(patches).toEqual([]);
+    const [first, second] = outbox.getEntries();
+    expect(first.state).toBe('conflict');
+    expect(first.serverStatus).toBe(MissionStatus.FAILED);
+    // Later changes to the mission wait for the driver's decision
+    expect(second.state).toBe('pending');
+  });
+
+  it('fails a change the server rejects without telling its status', async () => {
+    server.set('m1', MissionStatus.ASSIGNED);
+    await outbox.enqueue('m1', MissionStatus.IN_PROGRESS, MissionStatus.ASSIGNED);
+
+    failWith = httpError(422);
+    await outbox.flush();
+    failWith = null;
+
+    const [entry] = outbox.getEntries();
+    expect(entry.state).toBe('failed');
+    expect(entry.lastError).toBe('Request failed');
+
+    // Nothing to keep it on top of: it stays failed rather than retrying
+    await outbox.resolveConflict('m1', 'keepMine');
+    expect(outbox.getEntries()[0].state).toBe('failed');
+    expect(patches).toEqual([]);
+
+    await outbox.resolveConflict('m1', 'useServer');
+    expect(outbox.getEntries()).toEqual([]);
+  });
+
+  it('keeps changes pending while offline or signed out', async () => {
+    server.set('m1', MissionStatus.ASSIGNED);
+    await outbox.enqueue('m1', MissionStatus.IN_PROGRESS, MissionStatus.ASSIGNED);
+
+    failWith = httpError(503);
+    await outbox.flush();
+    failWith = httpError(401);
+    await outbox.flush();
+
+    const [entry] = outbox.getEntries();
+    expect(entry.state).toBe('pending');
+    expect(entry.attempts).toBe(2);
+  });
+
+  it('uploads proof of delivery even if the status already matches', async () => {
+    server.set('m1', MissionStatus.DELIVERED);
+    await outbox.enqueue('m1', MissionStatus.DELIVERED, MissionStatus.IN_PROGRESS, {
+      proofOfDelivery: proof('file:///sig.svg', 'file:///photo.jpg'),
+    });
+
+    await outbox.flush();
+
+    expect(uploads).toEqual(['file:///sig.svg', 'file:///photo.jpg']);
+    expect(patches).toHaveLength(1);
+    expect(patches[0].body.proofOfDelivery?.artifactIds).toEqual([
+      'remote:file:///sig.svg',
+      'remote:file:///photo.jpg',
+    ]);
+    expect(outbox.getEntries()).toEqual([]);
+    // Local copies go once the server has them
+    expect(files.size).toBe(0);
+  });
+
+  it('fails a change whose proof-of-delivery file is gone', async () => {
+    server.set('m1', MissionStatus.IN_PROGRESS);
+    const pod = proof('file:///sig.svg', 'file:///photo.jpg');
+    files.delete('file:///photo.jpg');
+    await outbox.enqueue('m1', MissionStatus.DELIVERED, MissionStatus.IN_PROGRESS, {
+      proofOfDelivery: pod,
+    });
+
+    await outbox.flush();
+
+    expect(patches).toEqual([]);
+    const [entry] = outbox.getEntries();
+    expect(entry.state).toBe('failed');
+    expect(entry.lastError).toContain('photo');
+    expect(files.has('file:///sig.svg')).toBe(true);
+  });
+
+  it("only replays the signed-in driver's changes", async () => {
+    server.set('m1', MissionStatus.ASSIGNED);
+    await outbox.enqueue('m1', MissionStatus.IN_PROGRESS, MissionStatus.ASSIGNED);
+
+    await outbox.release();
+    expect(outbox.getEntries()).toEqual([]);
+
+    await outbox.claimForDriver('driver-b');
+    await outbox.flush();
+    expect(outbox.getEntries()).toEqual([]);
+    expect(patches).toEqual([]);
+
+    await outbox.claimForDriver('driver-a');
+    expect(outbox.getEntries()).toHaveLength(1);
+    await outbox.flush();
+    expect(patches).toHaveLength(1);
+  });
+});
@@ -0,0 +1,175 @@
+import { AxiosError } from 'axios';
+import { beforeEach, describe, expect, it, mock } from 'bun:test';
+
+import { resetAsyncStorage } from '@/test/asyncStorage';
+
+import {
+  ResequenceReason,
+  type Mission,
+  type Route,
+  type StopSequenceProposalRequest,
+  type StopSequenceProposalResponse,
+} from '../types';
+
+// ---------------------------------------------------------------------------
+// Fakes
+// ---------------------------------------------------------------------------
+
+const submitted: { routeId: string; body: StopSequenceProposalRequest }[] = [];
+let review: StopSequenceProposalResponse['status'] = 'pending';
+let offline = false;
+
+mock.module('expo-file-system', () => ({
+  File: class {},
+  Directory: class {},
+  Paths: {},
+}));
+mock.module('@/lib/api/services/mission.service', () => ({
+  missionService: {},
+}));
+mock.module('@/lib/api/services/route.service', () => ({
+  routeService: {
+    proposeStopSequence: async (
+      routeId: string,
+      body: StopSequenceProposalRequest,
+    ) => {
+      if (offline) throw new AxiosError('Network Error');
+      submitted.push({ routeId, body });
+      return { id: `p${submitted.length}`, routeId, status: 'pending' };
+    },
+    getStopSequenceProposal: async (routeId: string, id: string) => ({
+      id,
+      routeId,
+      status: review,
+      reviewNote: review === 'rejected' ? 'Keep the school run first' : null,
+    }),
+  },
+}));
+
+const { SequenceProposalStore, applySequenceToRoute, serverMissionOrder } =
+  await import('../sequenceProposals');
+
+function route(...missionIds: string[]): Route {
+  return {
+    id: 'r1',
+    geometry: { type: 'LineString', coordinates: [] },
+    routeMissions: missionIds.map((missionId, i) => ({
+      id: `rm-${missionId}`,
+      missionId,
+      stopOrder: (i + 1) * 10,
+      mission: { id: missionId } as Mission,
+    })),
+  } as Route;
+}
+
+function orderOf(r: Route): string[] {
+  return [...r.routeMissions!]
+    .sort((a, b) => a.stopOrder - b.stopOrder)
+    .map((rm) => rm.missionId);
+}
+
+const proposal = {
+  routeId: 'r1',
+  missionIds: ['a', 'c', 'b'],
+  baseMissionIds: ['a', 'b', 'c'],
+  reason: ResequenceReason.TRAFFIC,
+  note: null,
+  distanceDeltaM: -1200.4,
+  durationDeltaS: -300.6,
+};
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('applySequenceToRoute', () => {
+  const store = new SequenceProposalStore();
+
+  beforeEach(async () => {
+    resetAsyncStorage();
+    store.release();
+    offline = true;
+    await store.claimForDriver('driver-a');
+    await store.propose(proposal);
+  });
+
+  it("overlays the driver's order on the server's stop numbers", () => {
+    const server = route('a', 'b', 'c');
+    const overlaid = applySequenceToRoute(server, store.getProposals());
+
+    expect(orderOf(overlaid)).toEqual(['a', 'c', 'b']);
+    expect(overlaid.routeMissions!.map((rm) => rm.stopOrder).sort()).toEqual([
+      10, 20, 30,
+    ]);
+    // Guidance re-slices the planned geometry for the new order
+    expect(overlaid.geometry).toBe(server.geometry);
+    expect(serverMissionOrder(overlaid, store.getProposals())).toEqual([
+      'a',
+      'b',
+      'c',
+    ]);
+  });
+
+  it('lets the server order win once it changed', () => {
+    const changed = route('b', 'a', 'c');
+    expect(applySequenceToRoute(changed, store.getProposals())).toBe(changed);
+  });
+});
+
+describe('SequenceProposalStore', () => {
+  let store: InstanceType<typeof SequenceProposalStore>;
+
+  beforeEach(async () => {
+    resetAsyncStorage();
+    submitted.length = 0;
+    review = 'pending';
+    offline = false;
+    store = new SequenceProposalStore();
+    await store.claimForDriver('driver-a');
+  });
+
+  it('keeps a proposal made offline and sends it later', async () => {
+    offline = true;
+    await store.propose(proposal);
+    await store.flush();
+    expect(store.getProposals().r1.state).toBe('unsent');
+    expect(store.getProposals().r1.lastError).toBe('Network Error');
+
+    offline = false;
+    await store.flush();
+    expect(store.getProposals().r1.state).toBe('submitted');
+    expect(submitted[0].body).toMatchObject({
+      missionIds: ['a', 'c', 'b'],
+      distanceDeltaMeters: -1200,
+      durationDeltaSeconds: -301,
+    });
+  });
+
+  it('records a rejection with the review note', async () => {
+    await store.propose(proposal);
+    review = 'rejected';
+    await store.flush();
+
+    expect(store.getProposals().r1.state).toBe('rejected');
+    expect(store.getProposals().r1.reviewNote).toBe('Keep the school run first');
+    expect(store.hasWork()).toBe(false);
+  });
+
+  it("only loads and sends the signed-in driver's proposals", async () => {
+    offline = true;
+    await store.propose(proposal);
+    offline = false;
+
+    store.release();
+    await store.claimForDriver('driver-b');
+    expect(store.getProposals()).toEqual({});
+    await store.flush();
+    expect(submitted).toEqual([]);
+
+    // A restart as the first driver picks their proposal back up
+    const restarted = new SequenceProposalStore();
+    await restarted.claimForDriver('driver-a');
+    await restarted.flush();
+    expect(submitted.map((s) => s.routeId)).toEqual(['r1']);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'bun:test';
+
+import { ServerClock } from '../serverClock';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const SERVER_NOW = Date.parse('Mon, 19 Oct 2026 09:00:00 GMT');
+const MINUTE = 60_000;
+
+/**
+ * Observe a response whose `Date` header reads `serverTime`, received
+ * `lowMs` before it on the device clock after a round trip of `roundTripMs`.
+ * The sample then bounds the offset to [lowMs, lowMs + 1000 + roundTripMs].
+ */
+function respond(
+  clock: ServerClock,
+  serverTime: number,
+  lowMs: number,
+  roundTripMs: number,
+): void {
+  const receivedAt = serverTime - lowMs;
+  clock.observe(
+    receivedAt - roundTripMs,
+    receivedAt,
+    new Date(serverTime).toUTCString(),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('ServerClock', () => {
+  it('bounds the offset by the round trip and the header resolution', () => {
+    const clock = new ServerClock();
+    expect(clock.getEstimate()).toBeNull();
+
+    respond(clock, SERVER_NOW, 2_600, 400);
+
+    expect(clock.getEstimate()).toEqual({
+      offsetMs: 3_300,
+      uncertaintyMs: 700,
+      samples: 1,
+    });
+  });
+
+  it('narrows the estimate to where responses agree', () => {
+    const clock = new ServerClock();
+    respond(clock, SERVER_NOW, 2_600, 400); // 2600..4000
+    respond(clock, SERVER_NOW + MINUTE, 3_400, 200); // 3400..4600
+
+    expect(clock.getEstimate()).toEqual({
+      offsetMs: 3_700,
+      uncertaintyMs: 300,
+      samples: 2,
+    });
+  });
+
+  it('starts over when the device clock is changed', () => {
+    const clock = new ServerClock();
+    respond(clock, SERVER_NOW, 2_600, 400);
+    respond(clock, SERVER_NOW + MINUTE, 3_400, 200);
+
+    // The driver set the phone an hour ahead
+    respond(clock, SERVER_NOW + 2 * MINUTE, 3_000 - 60 * MINUTE, 200);
+
+    expect(clock.getEstimate()).toEqual({
+      offsetMs: 3_600 - 60 * MINUTE,
+      uncertaintyMs: 600,
+      samples: 1,
+    });
+  });
+
+  it('forgets old samples and ignores unusable responses', () => {
+    const clock = new ServerClock();
+    respond(clock, SERVER_NOW, 2_600, 400);
+    respond(clock, SERVER_NOW + 16 * MINUTE, 3_400, 200);
+
+    clock.observe(SERVER_NOW, SERVER_NOW + 100, undefined);
+    clock.observe(SERVER_NOW, SERVER_NOW + 100, 'not a date');
+    respond(clock, SERVER_NOW + 17 * MINUTE, 0, 6_000);
+
+    expect(clock.getEstimate()).toEqual({
+      offsetMs: 4_000,
+      uncertaintyMs: 600,
+      samples: 1,
+    });
+  });
+});
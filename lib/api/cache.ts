@@ -0,0 +1,483 @@
+import * as SQLite from 'expo-sqlite';
+import type { Mission, Route, RouteMission } from './types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type CachedValue<T> = {
+  data: T;
+  /** Epoch ms when this data was last confirmed by the server */
+  fetchedAt: number;
+};
+
+/**
+ * Routes are stored without their nested mission objects. Missions live in
+ * their own table so that a status change is visible everywhere the mission
+ * appears (mission list, route detail, tracking map).
+ */
+type StoredRoute = Omit<Route, 'missions' | 'routeMissions'> & {
+  missionIds?: string[];
+  routeMissions?: Omit<RouteMission, 'mission'>[];
+};
+
+type EntityTable = 'missions' | 'routes';
+
+type UpsertMode = 'replace' | 'merge';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Data older than this is shown with a "stale" hint and revalidated */
+export const CACHE_STALE_AFTER_MS = 5 * 60 * 1000; // 5 minutes
+
+/** Cached query results older than this are pruned on startup */
+const CACHE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Shallow merge that ignores fields the update leaves undefined */
+function mergeDefined<T extends object>(base: T, update: Partial<T>): T {
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(update)) {
+    if (value !== undefined) (merged as Record<string, unknown>)[key] = value;
+  }
+  return merged;
+}
+
+// ---------------------------------------------------------------------------
+// ApiCache
+// ---------------------------------------------------------------------------
+
+/**
+ * Persistent, normalized cache for missions and routes.
+ *
+ * Entities are stored once per ID; list queries only store the ordered IDs
+ * they returned. Reads therefore always reflect the latest known version of
+ * each entity, regardless of which query fetched it.
+ */
+export class ApiCache {
+  private db?: SQLite.SQLiteDatabase;
+  private initPromise?: Promise<void>;
+  private initFailed = false;
+  private listeners = new Set<() => void>();
+
+  // -----------------------------------------------------------------------
+  // Initialization
+  // -----------------------------------------------------------------------
+
+  async init(): Promise<void> {
+    if (this.db) return;
+    if (this.initFailed) return;
+    if (this.initPromise) return this.initPromise;
+
+    this.initPromise = this._doInit();
+    return this.initPromise;
+  }
+
+  private async _doInit(): Promise<void> {
+    try {
+      this.db = await SQLite.openDatabaseAsync('api_cache.db');
+
+      await this.db.execAsync(`PRAGMA journal_mode = WAL;`);
+      await this.db.execAsync(`PRAGMA synchronous = NORMAL;`);
+
+      await this.db.execAsync(`
+        CREATE TABLE IF NOT EXISTS missions (
+          id         TEXT    PRIMARY KEY NOT NULL,
+          data       TEXT    NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS routes (
+          id         TEXT    PRIMARY KEY NOT NULL,
+          data       TEXT    NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS queries (
+          query_key  TEXT    PRIMARY KEY NOT NULL,
+          entity     TEXT    NOT NULL,
+          ids        TEXT    NOT NULL,
+          fetched_at INTEGER NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS meta (
+          key   TEXT PRIMARY KEY NOT NULL,
+          value TEXT NOT NULL
+        );
+      `);
+
+      await this._prune();
+    } catch (error) {
+      this.initFailed = true;
+      this.db = undefined;
+      console.error('[ApiCache] Failed to initialize database:', error);
+    }
+  }
+
+  private isReady(): boolean {
+    return this.db !== undefined && !this.initFailed;
+  }
+
+  /**
+   * Register a listener that is called after cached entities change.
+   * Returns an unsubscribe function.
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.warn('[ApiCache] Listener failed:', error);
+      }
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Missions
+  // -----------------------------------------------------------------------
+
+  async getMission(id: string): Promise<CachedValue<Mission> | null> {
+    await this.init();
+    if (!this.isReady()) return null;
+    try {
+      const row = await this.db!.getFirstAsync<{
+        data: string;
+        updated_at: number;
+      }>(`SELECT data, updated_at FROM missions WHERE id = ?`, [id]);
+      if (!row) return null;
+      return { data: JSON.parse(row.data) as Mission, fetchedAt: row.updated_at };
+    } catch (error) {
+      console.warn('[ApiCache] Failed to read mission:', error);
+      return null;
+    }
+  }
+
+  async putMission(mission: Mission): Promise<void> {
+    await this.init();
+    if (!this.isReady()) return;
+    try {
+      await this._upsert('missions', [mission], Date.now());
+      this.notify();
+    } catch (error) {
+      console.warn('[ApiCache] Failed to write mission:', error);
+    }
+  }
+
+  async getMissionList(queryKey: string): Promise<CachedValue<Mission[]> | null> {
+    await this.init();
+    if (!this.isReady()) return null;
+    try {
+      const query = await this._getQuery(queryKey);
+      if (!query) return null;
+      const missions = await this._loadMissions(query.ids);
+      return { data: missions, fetchedAt: query.fetchedAt };
+    } catch (error) {
+      console.warn('[ApiCache] Failed to read mission list:', error);
+      return null;
+    }
+  }
+
+  async putMissionList(queryKey: string, missions: Mission[]): Promise<void> {
+    await this.init();
+    if (!this.isReady()) return;
+    const now = Date.now();
+    try {
+      await this.db!.withExclusiveTransactionAsync(async (txn) => {
+        await this._upsert('missions', missions, now, txn);
+        await this._putQuery(
+          queryKey,
+          'missions',
+          missions.map((m) => m.id),
+          now,
+          txn,
+        );
+      });
+      this.notify();
+    } catch (error) {
+      console.warn('[ApiCache] Failed to write mission list:', error);
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Routes
+  // -----------------------------------------------------------------------
+
+  async getRoute(id: string): Promise<CachedValue<Route> | null> {
+    await this.init();
+    if (!this.isReady()) return null;
+    try {
+      const row = await this.db!.getFirstAsync<{
+        data: string;
+        updated_at: number;
+      }>(`SELECT data, updated_at FROM routes WHERE id = ?`, [id]);
+      if (!row) return null;
+      const route = await this._hydrateRoute(JSON.parse(row.data));
+      return { data: route, fetchedAt: row.updated_at };
+    } catch (error) {
+      console.warn('[ApiCache] Failed to read route:', error);
+      return null;
+    }
+  }
+
+  async putRoute(route: Route): Promise<void> {
+    await this.init();
+    if (!this.isReady()) return;
+    const now = Date.now();
+    try {
+      await this.db!.withExclusiveTransactionAsync(async (txn) => {
+        await this._upsertRoutes([route], now, txn);
+      });
+      this.notify();
+    } catch (error) {
+      console.warn('[ApiCache] Failed to write route:', error);
+    }
+  }
+
+  async getRouteList(queryKey: string): Promise<CachedValue<Route[]> | null> {
+    await this.init();
+    if (!this.isReady()) return null;
+    try {
+      const query = await this._getQuery(queryKey);
+      if (!query) return null;
+      const routes: Route[] = [];
+      for (const id of query.ids) {
+        const row = await this.db!.getFirstAsync<{ data: string }>(
+          `SELECT data FROM routes WHERE id = ?`,
+          [id],
+        );
+        if (row) {
+          routes.push(await this._hydrateRoute(JSON.parse(row.data)));
+        }
+      }
+      return { data: routes, fetchedAt: query.fetchedAt };
+    } catch (error) {
+      console.warn('[ApiCache] Failed to read route list:', error);
+      return null;
+    }
+  }
+
+  async putRouteList(queryKey: string, routes: Route[]): Promise<void> {
+    await this.init();
+    if (!this.isReady()) return;
+    const now = Date.now();
+    try {
+      await this.db!.withExclusiveTransactionAsync(async (txn) => {
+        // List payloads are summaries; keep what a detail fetch stored
+        await this._upsertRoutes(routes, now, txn, 'merge');
+        await this._putQuery(
+          queryKey,
+          'routes',
+          routes.map((r) => r.id),
+          now,
+          txn,
+        );
+      });
+      this.notify();
+    } catch (error) {
+      console.warn('[ApiCache] Failed to write route list:', error);
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Maintenance
+  // -----------------------------------------------------------------------
+
+  /**
+   * Remove all cached data. Called on sign-out so the next driver never
+   * sees someone else's stops.
+   */
+  async clear(): Promise<void> {
+    await this.init();
+    if (!this.isReady()) return;
+    try {
+      await this.db!.execAsync(`
+        DELETE FROM queries;
+        DELETE FROM routes;
+        DELETE FROM missions;
+      `);
+      this.notify();
+    } catch (error) {
+      console.warn('[ApiCache] Failed to clear cache:', error);
+    }
+  }
+
+  /**
+   * Record which driver the cached data belongs to, clearing it first if
+   * it belongs to someone else. Call after a successful sign-in.
+   */
+  async claimForDriver(driverId: string): Promise<void> {
+    await this.init();
+    if (!this.isReady()) return;
+    try {
+      const row = await this.db!.getFirstAsync<{ value: string }>(
+        `SELECT value FROM meta WHERE key = 'owner'`,
+      );
+      if (row && row.value !== driverId) {
+        console.log('[ApiCache] Different driver signed in, clearing cache');
+        await this.clear();
+      }
+      await this.db!.runAsync(
+        `INSERT OR REPLACE INTO meta (key, value) VALUES ('owner', ?)`,
+        [driverId],
+      );
+    } catch (error) {
+      console.warn('[ApiCache] Failed to claim cache:', error);
+    }
+  }
+
+  private async _prune(): Promise<void> {
+    if (!this.db) return;
+    const cutoff = Date.now() - CACHE_MAX_AGE_MS;
+    try {
+      await this.db.runAsync(`DELETE FROM queries WHERE fetched_at < ?`, [
+        cutoff,
+      ]);
+      await this.db.runAsync(`DELETE FROM routes WHERE updated_at < ?`, [
+        cutoff,
+      ]);
+      await this.db.runAsync(`DELETE FROM missions WHERE updated_at < ?`, [
+        cutoff,
+      ]);
+    } catch {
+      // Not critical – stale rows only cost disk space
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Internals
+  // -----------------------------------------------------------------------
+
+  /**
+   * Write entities. `replace` stores them as given; `merge` only overwrites
+   * the fields they carry, so a partial payload doesn't erase what a fuller
+   * one stored before.
+   */
+  private async _upsert(
+    table: EntityTable,
+    entities: { id: string }[],
+    now: number,
+    db: SQLite.SQLiteDatabase = this.db!,
+    mode: UpsertMode = 'replace',
+  ): Promise<void> {
+    for (const entity of entities) {
+      let data: object = entity;
+      if (mode === 'merge') {
+        const row = await db.getFirstAsync<{ data: string }>(
+          `SELECT data FROM ${table} WHERE id = ?`,
+          [entity.id],
+        );
+        if (row) data = mergeDefined(JSON.parse(row.data), entity);
+      }
+      await db.runAsync(
+        `INSERT OR REPLACE INTO ${table} (id, data, updated_at) VALUES (?, ?, ?)`,
+        [entity.id, JSON.stringify(data), now],
+      );
+    }
+  }
+
+  private async _upsertRoutes(
+    routes: Route[],
+    now: number,
+    db: SQLite.SQLiteDatabase,
+    mode: UpsertMode = 'replace',
+  ): Promise<void> {
+    const nestedMissions: Mission[] = [];
+    const stored: StoredRoute[] = routes.map((route) => {
+      const { missions, routeMissions, ...rest } = route;
+      if (missions) nestedMissions.push(...missions);
+      for (const rm of routeMissions ?? []) {
+        if (rm.mission) nestedMissions.push(rm.mission);
+      }
+      return {
+        ...rest,
+        missionIds: missions?.map((m) => m.id),
+        routeMissions: routeMissions?.map(({ mission: _mission, ...rm }) => rm),
+      };
+    });
+
+    await this._upsert('missions', nestedMissions, now, db, mode);
+    await this._upsert('routes', stored, now, db, mode);
+  }
+
+  private async _hydrateRoute(stored: StoredRoute): Promise<Route> {
+    const { missionIds, routeMissions, ...rest } = stored;
+    const route: Route = { ...rest };
+
+    if (missionIds) {
+      route.missions = await this._loadMissions(missionIds);
+    }
+    if (routeMissions) {
+      const byId = new Map(
+        (await this._loadMissions(routeMissions.map((rm) => rm.missionId))).map(
+          (m) => [m.id, m],
+        ),
+      );
+      route.routeMissions = routeMissions.map((rm) => ({
+        ...rm,
+        mission: byId.get(rm.missionId),
+      }));
+    }
+    return route;
+  }
+
+  /** Load missions by ID, preserving the given order and skipping misses */
+  private async _loadMissions(ids: string[]): Promise<Mission[]> {
+    if (ids.length === 0) return [];
+    const byId = new Map<string, Mission>();
+
+    // Process in chunks to avoid SQLite variable limit (999)
+    const chunkSize = 500;
+    for (let i = 0; i < ids.length; i += chunkSize) {
+      const chunk = ids.slice(i, i + chunkSize);
+      const placeholders = chunk.map(() => '?').join(',');
+      const rows = await this.db!.getAllAsync<{ id: string; data: string }>(
+        `SELECT id, data FROM missions WHERE id IN (${placeholders})`,
+        chunk,
+      );
+      for (const row of rows) {
+        byId.set(row.id, JSON.parse(row.data) as Mission);
+      }
+    }
+
+    return ids
+      .map((id) => byId.get(id))
+      .filter((m): m is Mission => m !== undefined);
+  }
+
+  private async _getQuery(
+    queryKey: string,
+  ): Promise<{ ids: string[]; fetchedAt: number } | null> {
+    const row = await this.db!.getFirstAsync<{
+      ids: string;
+      fetched_at: number;
+    }>(`SELECT ids, fetched_at FROM queries WHERE query_key = ?`, [queryKey]);
+    if (!row) return null;
+    return { ids: JSON.parse(row.ids) as string[], fetchedAt: row.fetched_at };
+  }
+
+  private async _putQuery(
+    queryKey: string,
+    entity: EntityTable,
+    ids: string[],
+    now: number,
+    db: SQLite.SQLiteDatabase,
+  ): Promise<void> {
+    await db.runAsync(
+      `INSERT OR REPLACE INTO queries (query_key, entity, ids, fetched_at)
+       VALUES (?, ?, ?, ?)`,
+      [queryKey, entity, JSON.stringify(ids), now],
+    );
+  }
+}
+
+/** Shared cache instance used by the data hooks */
+export const apiCache = new ApiCache();
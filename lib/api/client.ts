@@ -1,6 +1,12 @@
-import axios, { AxiosError, type AxiosInstance } from 'axios';
+import axios, {
+  AxiosError,
+  type AxiosInstance,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from 'axios';
 import Constants from 'expo-constants';
 import { Platform } from 'react-native';
+import { serverClock } from './serverClock';
 import { storage } from './storage';
 import { ApiError } from './types';
 
@@ -45,6 +51,10 @@ export const setOnUnauthorized = (callback: (() => void) | null): void => {
   onUnauthorizedCallback = callback;
 };
 
+// When each request went out: the start of the window the server's Date
+// header falls in
+const sentAt = new WeakMap<InternalAxiosRequestConfig, number>();
+
 export const apiClient: AxiosInstance = axios.create({
   baseURL: getBaseUrl(),
   headers: {
@@ -59,11 +69,24 @@ apiClient.interceptors.request.use(
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
+    sentAt.set(config, Date.now());
     return config;
   },
   (error) => Promise.reject(error),
 );
 
+/** Feed the response's Date header into the device clock offset estimate */
+const observeServerClock = (response: AxiosResponse | undefined): void => {
+  const requestSentAt = response && sentAt.get(response.config);
+  if (requestSentAt === undefined) return;
+  const date = response.headers?.date;
+  serverClock.observe(
+    requestSentAt,
+    Date.now(),
+    typeof date === 'string' ? date : undefined,
+  );
+};
+
 let isRefreshing = false;
 let failedQueue: any[] = [];
 // Shared promise so that concurrent callers (interceptor + tryRefreshTokens)
@@ -125,8 +148,12 @@ const doRefresh = (): Promise<{
 };
 
 apiClient.interceptors.response.use(
-  (response) => response,
+  (response) => {
+    observeServerClock(response);
+    return response;
+  },
   async (error: AxiosError<ApiError>) => {
+    observeServerClock(error.response);
     const originalRequest = error.config;
 
     if (!originalRequest) {
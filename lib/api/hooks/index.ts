@@ -1,4 +1,14 @@
 export { useLogin, useRegister } from './useAuth';
-export { useMission, useMissions, useUpdateMissionStatus } from './useMissions';
+export { useMissionOutbox, useMissionOutboxSync } from './useMissionOutbox';
+export {
+  useMission,
+  useMissions,
+  useUpdateMissionStatus,
+  type StatusUpdateResult,
+} from './useMissions';
 export { useRoute, useRoutes } from './useRoutes';
+export {
+  useSequenceProposalSync,
+  useSequenceProposals,
+} from './useSequenceProposals';
 export { useUpdateUser, useUser } from './useUser';
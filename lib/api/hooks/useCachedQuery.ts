@@ -0,0 +1,164 @@
+import { AxiosError } from 'axios';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { apiCache, CACHE_STALE_AFTER_MS, type CachedValue } from '../cache';
+
+interface UseCachedQueryOptions<T> {
+  /** Identifies the query; a new key reloads from cache and revalidates. `null` disables the query */
+  key: string | null;
+  /** Read the last known value from the persistent cache */
+  readCache: () => Promise<CachedValue<T> | null>;
+  /** Fetch from the server and write the result back to the cache */
+  fetchRemote: () => Promise<T>;
+  /** Message used when the error is not an `Error` instance */
+  fallbackMessage: string;
+}
+
+export interface CachedQueryState {
+  /** Epoch ms when the shown data was last confirmed by the server */
+  lastUpdatedAt: number | null;
+  /** True when the shown data is older than the staleness threshold */
+  isStale: boolean;
+  /** True while a background request is refreshing cached data */
+  isRevalidating: boolean;
+  /** True when the last revalidation failed and cached data is shown instead */
+  isOffline: boolean;
+}
+
+interface UseCachedQueryResult<T> extends CachedQueryState {
+  data: T | null;
+  loading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+}
+
+function toError(err: unknown, fallbackMessage: string): Error {
+  const isNetwork = err instanceof AxiosError && !err.response;
+  if (isNetwork) {
+    return new Error(
+      'Unable to connect to server. Check your internet connection and try again.',
+    );
+  }
+  return err instanceof Error ? err : new Error(fallbackMessage);
+}
+
+/**
+ * Cache-first query with background revalidation.
+ *
+ * The cached value (if any) is shown immediately, then the server is asked
+ * for fresh data. A failed revalidation only surfaces as `error` when there
+ * is nothing cached to show; otherwise the cached data stays on screen and
+ * `isOffline` is set.
+ */
+export function useCachedQuery<T>({
+  key,
+  readCache,
+  fetchRemote,
+  fallbackMessage,
+}: UseCachedQueryOptions<T>): UseCachedQueryResult<T> {
+  const [data, setData] = useState<T | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [lastUpdatedAt, setLastUpdatedAt] = useState<number | null>(null);
+  const [isRevalidating, setIsRevalidating] = useState(false);
+  const [isOffline, setIsOffline] = useState(false);
+
+  // Callers pass fresh closures every render – keep the latest in refs so
+  // the effect only re-runs when the key changes.
+  const readCacheRef = useRef(readCache);
+  const fetchRemoteRef = useRef(fetchRemote);
+  readCacheRef.current = readCache;
+  fetchRemoteRef.current = fetchRemote;
+
+  const hasDataRef = useRef(false);
+  const keyRef = useRef(key);
+  keyRef.current = key;
+
+  const revalidate = useCallback(async () => {
+    if (!key) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setIsRevalidating(true);
+      const fresh = await fetchRemoteRef.current();
+      if (keyRef.current !== key) return;
+      hasDataRef.current = true;
+      setData(fresh);
+      setLastUpdatedAt(Date.now());
+      setError(null);
+      setIsOffline(false);
+    } catch (err) {
+      if (keyRef.current !== key) return;
+      if (hasDataRef.current) {
+        console.warn('[useCachedQuery] Revalidation failed, showing cache:', err);
+        setIsOffline(true);
+      } else {
+        setError(toError(err, fallbackMessage));
+      }
+    } finally {
+      if (keyRef.current === key) {
+        setIsRevalidating(false);
+        setLoading(false);
+      }
+    }
+  }, [key, fallbackMessage]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    hasDataRef.current = false;
+    setData(null);
+    setLastUpdatedAt(null);
+    setError(null);
+    setIsOffline(false);
+    setLoading(true);
+
+    (async () => {
+      if (key) {
+        const cached = await readCacheRef.current();
+        if (cancelled) return;
+        if (cached) {
+          hasDataRef.current = true;
+          setData(cached.data);
+          setLastUpdatedAt(cached.fetchedAt);
+          setLoading(false);
+        }
+      }
+      await revalidate();
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key, revalidate]);
+
+  // Pick up writes made elsewhere (other queries, the status outbox) so
+  // every screen shows the latest known version of shared entities.
+  useEffect(() => {
+    if (!key) return;
+    return apiCache.subscribe(() => {
+      readCacheRef.current().then((cached) => {
+        if (!cached || keyRef.current !== key) return;
+        hasDataRef.current = true;
+        setData(cached.data);
+        setLastUpdatedAt(cached.fetchedAt);
+      });
+    });
+  }, [key]);
+
+  const isStale =
+    lastUpdatedAt !== null && Date.now() - lastUpdatedAt > CACHE_STALE_AFTER_MS;
+
+  return {
+    data,
+    loading,
+    error,
+    refetch: revalidate,
+    lastUpdatedAt,
+    isStale,
+    isRevalidating,
+    isOffline,
+  };
+}
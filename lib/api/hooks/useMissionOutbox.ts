@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+
+import { apiCache } from '../cache';
+import {
+  missionOutbox,
+  type ConflictResolution,
+  type MissionStatusUpdate,
+} from '../missionOutbox';
+
+/** How often pending status changes are retried while the app is open */
+const OUTBOX_RETRY_INTERVAL_MS = 30_000;
+
+interface UseMissionOutboxResult {
+  /** All queued status changes, oldest first */
+  entries: MissionStatusUpdate[];
+  pendingCount: number;
+  conflictCount: number;
+  failedCount: number;
+  resolveConflict: (
+    missionId: string,
+    resolution: ConflictResolution,
+  ) => Promise<void>;
+  flush: () => Promise<void>;
+}
+
+/**
+ * Hook exposing the mission status outbox, re-rendering when it changes
+ */
+export function useMissionOutbox(): UseMissionOutboxResult {
+  const [entries, setEntries] = useState<MissionStatusUpdate[]>(
+    missionOutbox.getEntries(),
+  );
+
+  useEffect(() => {
+    const unsubscribe = missionOutbox.subscribe(setEntries);
+    missionOutbox.init().then(() => setEntries(missionOutbox.getEntries()));
+    return unsubscribe;
+  }, []);
+
+  const resolveConflict = useCallback(
+    (missionId: string, resolution: ConflictResolution) =>
+      missionOutbox.resolveConflict(missionId, resolution),
+    [],
+  );
+
+  const flush = useCallback(() => missionOutbox.flush(), []);
+
+  return {
+    entries,
+    pendingCount: entries.filter((e) => e.state === 'pending').length,
+    conflictCount: entries.filter((e) => e.state === 'conflict').length,
+    failedCount: entries.filter((e) => e.state === 'failed').length,
+    resolveConflict,
+    flush,
+  };
+}
+
+function hasPending(): boolean {
+  return missionOutbox.getEntries().some((e) => e.state === 'pending');
+}
+
+function flushOutbox(): void {
+  missionOutbox.flush().catch((error) => {
+    console.warn('[MissionOutbox] Sync failed:', error);
+  });
+}
+
+/**
+ * Replays queued status changes while the app is in use: on mount, when
+ * the app returns to the foreground, after any successful fetch (a sign
+ * that connectivity is back) and periodically while entries are pending.
+ * Mount once, inside the authenticated part of the app.
+ */
+export function useMissionOutboxSync(): void {
+  useEffect(() => {
+    flushOutbox();
+
+    const appStateSub = AppState.addEventListener('change', (state) => {
+      if (state === 'active' && hasPending()) {
+        flushOutbox();
+      }
+    });
+
+    const unsubscribeCache = apiCache.subscribe(() => {
+      if (hasPending()) {
+        flushOutbox();
+      }
+    });
+
+    const timer = setInterval(() => {
+      if (hasPending()) {
+        flushOutbox();
+      }
+    }, OUTBOX_RETRY_INTERVAL_MS);
+
+    return () => {
+      appStateSub.remove();
+      unsubscribeCache();
+      clearInterval(timer);
+    };
+  }, []);
+}
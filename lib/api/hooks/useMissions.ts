@@ -1,13 +1,24 @@
-import { AxiosError } from 'axios';
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 
 import { useAuth } from '@/lib/auth';
+import { apiCache } from '../cache';
+import {
+  applyOutboxToMission,
+  missionOutbox,
+  type MissionStatusDetails,
+} from '../missionOutbox';
 import { missionService } from '../services/mission.service';
 import { routeService } from '../services/route.service';
 import { vehicleAssignmentService } from '../services/vehicle-assignment.service';
+import {
+  deleteProofOfDeliveryFiles,
+  toProofOfDeliveryRequest,
+} from '@/lib/delivery/proofOfDelivery';
 import type { Mission, MissionsQueryParams, MissionStatus } from '../types';
+import { useCachedQuery, type CachedQueryState } from './useCachedQuery';
+import { useMissionOutbox } from './useMissionOutbox';
 
-interface UseMissionsResult {
+interface UseMissionsResult extends CachedQueryState {
   missions: Mission[];
   loading: boolean;
   error: Error | null;
@@ -15,92 +26,87 @@ interface UseMissionsResult {
 }
 
 /**
- * Hook to fetch missions for the authenticated driver
+ * Fetch missions for a driver from the API
  * First tries to filter by driverId, then falls back to vehicleId from assignment
- * @param params Optional query parameters for filtering missions
  */
-export function useMissions(params?: MissionsQueryParams): UseMissionsResult {
-  const { user } = useAuth();
-  const [missions, setMissions] = useState<Mission[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<Error | null>(null);
-
-  const fetchMissions = useCallback(async () => {
-    try {
-      setLoading(true);
-      setError(null);
-
-      // First try with driverId
-      const driverId = params?.driverId ?? user?.driverId;
-      if (driverId) {
-        const data = await missionService.getMissions({ ...params, driverId });
-        const driverMissions = data.filter((m) => m.status !== 'unassigned');
-        if (driverMissions.length > 0) {
-          setMissions(driverMissions);
-          return;
+async function fetchDriverMissions(
+  params: MissionsQueryParams | undefined,
+  driverId: string | undefined,
+): Promise<Mission[]> {
+  // First try with driverId
+  if (driverId) {
+    const data = await missionService.getMissions({ ...params, driverId });
+    const driverMissions = data.filter((m) => m.status !== 'unassigned');
+    if (driverMissions.length > 0) {
+      return driverMissions;
+    }
+  }
+
+  // Fallback: get driver's vehicle assignment and get missions from routes
+  // This handles cases where missions are assigned to vehicles but driverId is null
+  try {
+    const assignment = await vehicleAssignmentService.getMyAssignment();
+    if (assignment?.vehicleId) {
+      const routes = await routeService.getRoutes({
+        ...params,
+        vehicleId: assignment.vehicleId,
+      });
+      // Extract missions from routes
+      // Prefer routeMissions (has stopOrder + nested mission), fallback to flat missions array
+      const allMissions: Mission[] = [];
+      for (const route of routes) {
+        if (route.routeMissions && route.routeMissions.length > 0) {
+          // Use routeMissions - extract nested mission objects
+          const extracted = route.routeMissions
+            .map((rm) => rm.mission)
+            .filter((m): m is Mission => m !== undefined);
+          allMissions.push(...extracted);
+        } else if (route.missions && route.missions.length > 0) {
+          // Fallback to flat missions array
+          allMissions.push(...route.missions);
         }
       }
+      return allMissions.filter((m) => m.status !== 'unassigned');
+    }
+  } catch {
+    // No vehicle assignment found, continue with empty results
+  }
 
-      // Fallback: get driver's vehicle assignment and get missions from routes
-      // This handles cases where missions are assigned to vehicles but driverId is null
-      try {
-        const assignment = await vehicleAssignmentService.getMyAssignment();
-        if (assignment?.vehicleId) {
-          const routes = await routeService.getRoutes({
-            ...params,
-            vehicleId: assignment.vehicleId,
-          });
-          // Extract missions from routes
-          // Prefer routeMissions (has stopOrder + nested mission), fallback to flat missions array
-          const allMissions: Mission[] = [];
-          for (const route of routes) {
-            if (route.routeMissions && route.routeMissions.length > 0) {
-              // Use routeMissions - extract nested mission objects
-              const extracted = route.routeMissions
-                .map((rm) => rm.mission)
-                .filter((m): m is Mission => m !== undefined);
-              allMissions.push(...extracted);
-            } else if (route.missions && route.missions.length > 0) {
-              // Fallback to flat missions array
-              allMissions.push(...route.missions);
-            }
-          }
-          const driverMissions = allMissions.filter(
-            (m) => m.status !== 'unassigned',
-          );
-          setMissions(driverMissions);
-          return;
-        }
-      } catch {
-        // No vehicle assignment found, continue with empty results
-      }
+  // No driverId and no vehicle assignment - return empty
+  return [];
+}
 
-      // No driverId and no vehicle assignment - return empty
-      setMissions([]);
-    } catch (err) {
-      const isNetwork = err instanceof AxiosError && !err.response;
-      setError(
-        isNetwork
-          ? new Error(
-              'Unable to connect to server. Check your internet connection and try again.',
-            )
-          : err instanceof Error
-            ? err
-            : new Error('Failed to fetch missions'),
-      );
-    } finally {
-      setLoading(false);
-    }
-  }, [params?.date, params?.driverId, user?.driverId]);
+/**
+ * Hook to fetch missions for the authenticated driver
+ * Shows cached missions immediately and revalidates in the background
+ * @param params Optional query parameters for filtering missions
+ */
+export function useMissions(params?: MissionsQueryParams): UseMissionsResult {
+  const { user } = useAuth();
+  const driverId = params?.driverId ?? user?.driverId;
+  const queryKey = `missions:${params?.date ?? 'all'}:${driverId ?? 'vehicle'}`;
+
+  const { data, ...query } = useCachedQuery<Mission[]>({
+    key: queryKey,
+    readCache: () => apiCache.getMissionList(queryKey),
+    fetchRemote: async () => {
+      const missions = await fetchDriverMissions(params, driverId);
+      await apiCache.putMissionList(queryKey, missions);
+      return missions;
+    },
+    fallbackMessage: 'Failed to fetch missions',
+  });
+  const { entries } = useMissionOutbox();
 
-  useEffect(() => {
-    fetchMissions();
-  }, [fetchMissions]);
+  const missions = useMemo(
+    () => (data ?? []).map((m) => applyOutboxToMission(m, entries)),
+    [data, entries],
+  );
 
-  return { missions, loading, error, refetch: fetchMissions };
+  return { missions, ...query };
 }
 
-interface UseMissionResult {
+interface UseMissionResult extends CachedQueryState {
   mission: Mission | null;
   loading: boolean;
   error: Error | null;
@@ -109,70 +115,117 @@ interface UseMissionResult {
 
 /**
  * Hook to fetch a single mission by ID
+ * Shows the cached mission immediately and revalidates in the background
  * @param id Mission ID
  */
 export function useMission(id: string | undefined): UseMissionResult {
-  const [mission, setMission] = useState<Mission | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<Error | null>(null);
-
-  const fetchMission = useCallback(async () => {
-    if (!id) {
-      setLoading(false);
-      return;
-    }
-
-    try {
-      setLoading(true);
-      setError(null);
-      const data = await missionService.getMission(id);
-      setMission(data);
-    } catch (err) {
-      setError(
-        err instanceof Error ? err : new Error('Failed to fetch mission'),
-      );
-    } finally {
-      setLoading(false);
-    }
-  }, [id]);
+  const { data, ...query } = useCachedQuery<Mission>({
+    key: id ? `mission:${id}` : null,
+    readCache: () => apiCache.getMission(id!),
+    fetchRemote: async () => {
+      const mission = await missionService.getMission(id!);
+      await apiCache.putMission(mission);
+      return mission;
+    },
+    fallbackMessage: 'Failed to fetch mission',
+  });
+  const { entries } = useMissionOutbox();
 
-  useEffect(() => {
-    fetchMission();
-  }, [fetchMission]);
+  const mission = useMemo(
+    () => applyOutboxToMission(data, entries),
+    [data, entries],
+  );
 
-  return { mission, loading, error, refetch: fetchMission };
+  return { mission, ...query };
 }
 
+/**
+ * Outcome of a status change:
+ * - synced:   the server accepted it
+ * - queued:   saved locally, will be replayed when the network is back
+ * - conflict: the server state changed in the meantime; driver must decide
+ * - failed:   the server rejected it; the driver can only discard it
+ */
+export type StatusUpdateResult = 'synced' | 'queued' | 'conflict' | 'failed';
+
 interface UseUpdateMissionStatusResult {
-  updateStatus: (id: string, status: MissionStatus) => Promise<Mission | null>;
+  updateStatus: (
+    id: string,
+    status: MissionStatus,
+    baseStatus: MissionStatus,
+    details?: MissionStatusDetails,
+  ) => Promise<StatusUpdateResult>;
   loading: boolean;
   error: Error | null;
 }
 
 /**
  * Hook to update mission status
+ * Changes go through the offline outbox: they are stored durably, shown
+ * immediately and replayed in order once the server is reachable.
+ * Proof-of-delivery files are uploaded before the status change itself.
  * Valid transitions for drivers:
  * - assigned -> inProgress (when driver starts delivery)
  * - inProgress -> delivered (when driver completes delivery)
+ * - assigned/inProgress -> failed | rescheduleRequested (with an outcome)
  */
 export function useUpdateMissionStatus(): UseUpdateMissionStatusResult {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
 
   const updateStatus = useCallback(
-    async (id: string, status: MissionStatus): Promise<Mission | null> => {
+    async (
+      id: string,
+      status: MissionStatus,
+      baseStatus: MissionStatus,
+      details?: MissionStatusDetails,
+    ): Promise<StatusUpdateResult> => {
       try {
         setLoading(true);
         setError(null);
-        const data = await missionService.updateMissionStatus(id, status);
-        return data;
+        const entry = await missionOutbox.enqueue(
+          id,
+          status,
+          baseStatus,
+          details,
+        );
+        if (!entry) {
+          // Outbox unavailable – fall back to direct requests
+          const proofOfDelivery = details?.proofOfDelivery;
+          let podRequest;
+          if (proofOfDelivery) {
+            const artifacts = [];
+            for (const artifact of proofOfDelivery.artifacts) {
+              const remoteId =
+                await missionService.uploadProofOfDeliveryArtifact(id, artifact);
+              artifacts.push({ ...artifact, remoteId });
+            }
+            podRequest = toProofOfDeliveryRequest({
+              ...proofOfDelivery,
+              artifacts,
+            });
+          }
+          const mission = await missionService.updateMissionStatus(
+            id,
+            status,
+            { proofOfDelivery: podRequest, outcome: details?.outcome },
+          );
+          if (proofOfDelivery) deleteProofOfDeliveryFiles(proofOfDelivery);
+          await apiCache.putMission(mission);
+          return 'synced';
+        }
+
+        await missionOutbox.flush();
+        const remaining = missionOutbox.getEntry(entry.id);
+        if (!remaining) return 'synced';
+        return remaining.state === 'pending' ? 'queued' : remaining.state;
       } catch (err) {
         const errorObj =
           err instanceof Error
             ? err
             : new Error('Failed to update mission status');
         setError(errorObj);
-        return null;
+        throw errorObj;
       } finally {
         setLoading(false);
       }
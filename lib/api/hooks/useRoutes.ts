@@ -1,12 +1,17 @@
-import { AxiosError } from 'axios';
-import { useCallback, useEffect, useState } from 'react';
+import { useMemo } from 'react';
 
 import { useAuth } from '@/lib/auth';
+import { apiCache } from '../cache';
+import { applyOutboxToRoute } from '../missionOutbox';
+import { applySequenceToRoute } from '../sequenceProposals';
 import { routeService } from '../services/route.service';
 import { vehicleAssignmentService } from '../services/vehicle-assignment.service';
 import type { Route, RoutesQueryParams } from '../types';
+import { useCachedQuery, type CachedQueryState } from './useCachedQuery';
+import { useMissionOutbox } from './useMissionOutbox';
+import { useSequenceProposals } from './useSequenceProposals';
 
-interface UseRoutesResult {
+interface UseRoutesResult extends CachedQueryState {
   routes: Route[];
   loading: boolean;
   error: Error | null;
@@ -14,73 +19,74 @@ interface UseRoutesResult {
 }
 
 /**
- * Hook to fetch routes for the authenticated driver
+ * Fetch routes for a driver from the API
  * First tries to filter by driverId, then falls back to vehicleId from assignment
- * @param params Optional query parameters for filtering routes
  */
-export function useRoutes(params?: RoutesQueryParams): UseRoutesResult {
-  const { user } = useAuth();
-  const [routes, setRoutes] = useState<Route[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<Error | null>(null);
+async function fetchDriverRoutes(
+  params: RoutesQueryParams | undefined,
+  driverId: string | undefined,
+): Promise<Route[]> {
+  // First try with driverId
+  if (driverId) {
+    const data = await routeService.getRoutes({ ...params, driverId });
+    if (data.length > 0) {
+      return data;
+    }
+  }
 
-  const fetchRoutes = useCallback(async () => {
-    try {
-      setLoading(true);
-      setError(null);
+  // Fallback: get driver's vehicle assignment and query by vehicleId
+  // This handles cases where routes are assigned to vehicles but driverId is null
+  try {
+    const assignment = await vehicleAssignmentService.getMyAssignment();
+    if (assignment?.vehicleId) {
+      return await routeService.getRoutes({
+        ...params,
+        vehicleId: assignment.vehicleId,
+      });
+    }
+  } catch {
+    // No vehicle assignment found, continue with empty results
+  }
 
-      // First try with driverId
-      const driverId = params?.driverId ?? user?.driverId;
-      if (driverId) {
-        const data = await routeService.getRoutes({ ...params, driverId });
-        if (data.length > 0) {
-          setRoutes(data);
-          return;
-        }
-      }
+  // No driverId and no vehicle assignment - return empty
+  return [];
+}
 
-      // Fallback: get driver's vehicle assignment and query by vehicleId
-      // This handles cases where routes are assigned to vehicles but driverId is null
-      try {
-        const assignment = await vehicleAssignmentService.getMyAssignment();
-        if (assignment?.vehicleId) {
-          const data = await routeService.getRoutes({
-            ...params,
-            vehicleId: assignment.vehicleId,
-          });
-          setRoutes(data);
-          return;
-        }
-      } catch {
-        // No vehicle assignment found, continue with empty results
-      }
+/**
+ * Hook to fetch routes for the authenticated driver
+ * Shows cached routes immediately and revalidates in the background
+ * @param params Optional query parameters for filtering routes
+ */
+export function useRoutes(params?: RoutesQueryParams): UseRoutesResult {
+  const { user } = useAuth();
+  const driverId = params?.driverId ?? user?.driverId;
+  const queryKey = `routes:${params?.date ?? 'all'}:${driverId ?? 'vehicle'}:${params?.vehicleId ?? 'any'}`;
 
-      // No driverId and no vehicle assignment - return empty
-      setRoutes([]);
-    } catch (err) {
-      const isNetwork = err instanceof AxiosError && !err.response;
-      setError(
-        isNetwork
-          ? new Error(
-              'Unable to connect to server. Check your internet connection and try again.',
-            )
-          : err instanceof Error
-            ? err
-            : new Error('Failed to fetch routes'),
-      );
-    } finally {
-      setLoading(false);
-    }
-  }, [params?.date, params?.driverId, params?.vehicleId, user?.driverId]);
+  const { data, ...query } = useCachedQuery<Route[]>({
+    key: queryKey,
+    readCache: () => apiCache.getRouteList(queryKey),
+    fetchRemote: async () => {
+      const routes = await fetchDriverRoutes(params, driverId);
+      await apiCache.putRouteList(queryKey, routes);
+      return routes;
+    },
+    fallbackMessage: 'Failed to fetch routes',
+  });
+  const { entries } = useMissionOutbox();
+  const { proposals } = useSequenceProposals();
 
-  useEffect(() => {
-    fetchRoutes();
-  }, [fetchRoutes]);
+  const routes = useMemo(
+    () =>
+      (data ?? []).map((r) =>
+        applySequenceToRoute(applyOutboxToRoute(r, entries), proposals),
+      ),
+    [data, entries, proposals],
+  );
 
-  return { routes, loading, error, refetch: fetchRoutes };
+  return { routes, ...query };
 }
 
-interface UseRouteResult {
+interface UseRouteResult extends CachedQueryState {
   route: Route | null;
   loading: boolean;
   error: Error | null;
@@ -89,34 +95,27 @@ interface UseRouteResult {
 
 /**
  * Hook to fetch a single route by ID with all missions and geometry
+ * Shows the cached route immediately and revalidates in the background
  * @param id Route ID
  */
 export function useRoute(id: string | undefined): UseRouteResult {
-  const [route, setRoute] = useState<Route | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<Error | null>(null);
-
-  const fetchRoute = useCallback(async () => {
-    if (!id) {
-      setLoading(false);
-      return;
-    }
-
-    try {
-      setLoading(true);
-      setError(null);
-      const data = await routeService.getRoute(id);
-      setRoute(data);
-    } catch (err) {
-      setError(err instanceof Error ? err : new Error('Failed to fetch route'));
-    } finally {
-      setLoading(false);
-    }
-  }, [id]);
+  const { data, ...query } = useCachedQuery<Route>({
+    key: id ? `route:${id}` : null,
+    readCache: () => apiCache.getRoute(id!),
+    fetchRemote: async () => {
+      const route = await routeService.getRoute(id!);
+      await apiCache.putRoute(route);
+      return route;
+    },
+    fallbackMessage: 'Failed to fetch route',
+  });
+  const { entries } = useMissionOutbox();
+  const { proposals } = useSequenceProposals();
 
-  useEffect(() => {
-    fetchRoute();
-  }, [fetchRoute]);
+  const route = useMemo(
+    () => applySequenceToRoute(applyOutboxToRoute(data, entries), proposals),
+    [data, entries, proposals],
+  );
 
-  return { route, loading, error, refetch: fetchRoute };
+  return { route, ...query };
 }
@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+
+import { apiCache } from '../cache';
+import {
+  sequenceProposals,
+  type NewSequenceProposal,
+  type SequenceProposals,
+} from '../sequenceProposals';
+
+/** How often proposals are resent or checked for a decision while the app is open */
+const PROPOSAL_SYNC_INTERVAL_MS = 30_000;
+
+interface UseSequenceProposalsResult {
+  /** Proposals by route id */
+  proposals: SequenceProposals;
+  propose: (proposal: NewSequenceProposal) => Promise<void>;
+  dismiss: (routeId: string) => Promise<void>;
+}
+
+/**
+ * Hook exposing the driver's stop order proposals, re-rendering when they
+ * change
+ */
+export function useSequenceProposals(): UseSequenceProposalsResult {
+  const [proposals, setProposals] = useState<SequenceProposals>(
+    sequenceProposals.getProposals(),
+  );
+
+  useEffect(() => {
+    const unsubscribe = sequenceProposals.subscribe(setProposals);
+    sequenceProposals
+      .init()
+      .then(() => setProposals(sequenceProposals.getProposals()));
+    return unsubscribe;
+  }, []);
+
+  const propose = useCallback(
+    (proposal: NewSequenceProposal) => sequenceProposals.propose(proposal),
+    [],
+  );
+
+  const dismiss = useCallback(
+    (routeId: string) => sequenceProposals.dismiss(routeId),
+    [],
+  );
+
+  return { proposals, propose, dismiss };
+}
+
+function hasUnsent(): boolean {
+  return Object.values(sequenceProposals.getProposals()).some(
+    (p) => p.state === 'unsent',
+  );
+}
+
+function flushProposals(): void {
+  sequenceProposals.flush().catch((error) => {
+    console.warn('[SequenceProposals] Sync failed:', error);
+  });
+}
+
+/**
+ * Sends stop order proposals and polls dispatch's decision while the app
+ * is in use: on mount, when the app returns to the foreground, after any
+ * successful fetch if something is unsent, and periodically.
+ * Mount once, inside the authenticated part of the app.
+ */
+export function useSequenceProposalSync(): void {
+  useEffect(() => {
+    flushProposals();
+
+    const appStateSub = AppState.addEventListener('change', (state) => {
+      if (state === 'active' && sequenceProposals.hasWork()) {
+        flushProposals();
+      }
+    });
+
+    const unsubscribeCache = apiCache.subscribe(() => {
+      if (hasUnsent()) {
+        flushProposals();
+      }
+    });
+
+    const timer = setInterval(() => {
+      if (sequenceProposals.hasWork()) {
+        flushProposals();
+      }
+    }, PROPOSAL_SYNC_INTERVAL_MS);
+
+    return () => {
+      appStateSub.remove();
+      unsubscribeCache();
+      clearInterval(timer);
+    };
+  }, []);
+}
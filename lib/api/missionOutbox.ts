@@ -0,0 +1,648 @@
+import { AxiosError } from 'axios';
+import * as SQLite from 'expo-sqlite';
+
+import {
+  artifactFileExists,
+  deleteProofOfDeliveryFiles,
+  toProofOfDeliveryRequest,
+} from '../delivery/proofOfDelivery';
+import { apiCache } from './cache';
+import { missionService } from './services/mission.service';
+import type {
+  DeliveryAttemptOutcome,
+  Mission,
+  MissionStatus,
+  ProofOfDelivery,
+  Route,
+} from './types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * - pending:  waiting to be replayed against the server
+ * - conflict: the server state no longer matches what the driver saw.
+ *             Needs a decision from the driver.
+ * - failed:   the server rejected the change (or its proof of delivery is
+ *             incomplete). Replaying won't help; it can only be discarded.
+ */
+export type OutboxEntryState = 'pending' | 'conflict' | 'failed';
+
+export interface MissionStatusUpdate {
+  id: number;
+  missionId: string;
+  /** Status the driver moved the mission to */
+  status: MissionStatus;
+  /** Status the driver saw when making the change */
+  baseStatus: MissionStatus;
+  state: OutboxEntryState;
+  attempts: number;
+  /** Server status observed when the conflict was detected */
+  serverStatus: MissionStatus | null;
+  lastError: string | null;
+  createdAt: number;
+  /** Signature, photos and recipient details that must upload with the change */
+  proofOfDelivery: ProofOfDelivery | null;
+  /** Failure / reschedule reason that travels with the change */
+  outcome: DeliveryAttemptOutcome | null;
+}
+
+/** Extra data recorded alongside a status change */
+export interface MissionStatusDetails {
+  proofOfDelivery?: ProofOfDelivery;
+  outcome?: DeliveryAttemptOutcome;
+}
+
+export type ConflictResolution = 'keepMine' | 'useServer';
+
+type OutboxRow = {
+  id: number;
+  mission_id: string;
+  status: string;
+  base_status: string;
+  state: string;
+  attempts: number;
+  server_status: string | null;
+  last_error: string | null;
+  created_at: number;
+  proof_of_delivery: string | null;
+  outcome: string | null;
+  driver_id: string | null;
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function rowToEntry(row: OutboxRow): MissionStatusUpdate {
+  return {
+    id: row.id,
+    missionId: row.mission_id,
+    status: row.status as MissionStatus,
+    baseStatus: row.base_status as MissionStatus,
+    state: row.state as OutboxEntryState,
+    attempts: row.attempts,
+    serverStatus: (row.server_status as MissionStatus | null) ?? null,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    proofOfDelivery: row.proof_of_delivery
+      ? (JSON.parse(row.proof_of_delivery) as ProofOfDelivery)
+      : null,
+    outcome: row.outcome
+      ? (JSON.parse(row.outcome) as DeliveryAttemptOutcome)
+      : null,
+  };
+}
+
+function hasUnsentArtifacts(entry: MissionStatusUpdate): boolean {
+  return !!entry.proofOfDelivery?.artifacts.some((a) => !a.remoteId);
+}
+
+/** Network failures and 5xx/408/429 responses are worth retrying later */
+export function isTransientError(error: unknown): boolean {
+  if (!(error instanceof AxiosError)) return false;
+  if (!error.response) return true;
+  const status = error.response.status;
+  return status >= 500 || status === 408 || status === 429;
+}
+
+function isUnauthorized(error: unknown): boolean {
+  return error instanceof AxiosError && error.response?.status === 401;
+}
+
+export function errorMessage(error: unknown): string {
+  if (error instanceof AxiosError) {
+    const message = (error.response?.data as { message?: unknown })?.message;
+    if (Array.isArray(message)) return message.join(', ');
+    if (typeof message === 'string') return message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Overlay queued status changes on a mission so the UI reflects what the
+ * driver did, even before the server has confirmed it.
+ */
+export function applyOutboxToMission<T extends Mission | null | undefined>(
+  mission: T,
+  entries: MissionStatusUpdate[],
+): T {
+  if (!mission) return mission;
+  let latest: MissionStatusUpdate | undefined;
+  for (const entry of entries) {
+    if (entry.missionId === mission.id) latest = entry;
+  }
+  if (!latest || latest.status === mission.status) return mission;
+  return {
+    ...mission,
+    status: latest.status,
+    outcome: latest.outcome ?? mission.outcome,
+  };
+}
+
+/** Same as {@link applyOutboxToMission} for every mission nested in a route */
+export function applyOutboxToRoute<T extends Route | null | undefined>(
+  route: T,
+  entries: MissionStatusUpdate[],
+): T {
+  if (!route || entries.length === 0) return route;
+  return {
+    ...route,
+    missions: route.missions?.map((m) => applyOutboxToMission(m, entries)),
+    routeMissions: route.routeMissions?.map((rm) => ({
+      ...rm,
+      mission: applyOutboxToMission(rm.mission, entries),
+    })),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// MissionOutbox
+// ---------------------------------------------------------------------------
+
+/**
+ * Durable, ordered outbox for mission status changes.
+ *
+ * Changes are written to SQLite first and replayed against the API in the
+ * order they were made. Before each replay the current server status is
+ * compared with the status the driver saw; if someone else changed the
+ * mission in the meantime the entry is parked as a conflict instead of
+ * overwriting their change.
+ *
+ * Entries belong to the driver who made them and are only visible and
+ * replayed while that driver is signed in (see claimForDriver), so nothing
+ * is ever sent with another driver's credentials.
+ */
+export class MissionOutbox {
+  private db?: SQLite.SQLiteDatabase;
+  private initPromise?: Promise<void>;
+  private initFailed = false;
+  private driverId: string | null = null;
+  private flushPromise: Promise<void> | null = null;
+  private flushRequested = false;
+  private listeners = new Set<(entries: MissionStatusUpdate[]) => void>();
+  private entries: MissionStatusUpdate[] = [];
+
+  // -----------------------------------------------------------------------
+  // Initialization
+  // -----------------------------------------------------------------------
+
+  async init(): Promise<void> {
+    if (this.db) return;
+    if (this.initFailed) return;
+    if (this.initPromise) return this.initPromise;
+
+    this.initPromise = this._doInit();
+    return this.initPromise;
+  }
+
+  private async _doInit(): Promise<void> {
+    try {
+      this.db = await SQLite.openDatabaseAsync('mission_outbox.db');
+
+      await this.db.execAsync(`PRAGMA journal_mode = WAL;`);
+
+      await this.db.execAsync(`
+        CREATE TABLE IF NOT EXISTS status_updates (
+          id            INTEGER PRIMARY KEY AUTOINCREMENT,
+          mission_id    TEXT    NOT NULL,
+          status        TEXT    NOT NULL,
+          base_status   TEXT    NOT NULL,
+          state         TEXT    NOT NULL DEFAULT 'pending',
+          attempts      INTEGER NOT NULL DEFAULT 0,
+          server_status TEXT,
+          last_error    TEXT,
+          created_at    INTEGER NOT NULL,
+          proof_of_delivery TEXT,
+          outcome       TEXT,
+          driver_id     TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_status_updates_mission
+          ON status_updates(mission_id);
+      `);
+
+      await this._migrateIfNeeded();
+      await this._reload();
+    } catch (error) {
+      this.initFailed = true;
+      this.db = undefined;
+      console.error('[MissionOutbox] Failed to initialize database:', error);
+    }
+  }
+
+  /**
+   * Add columns introduced after the table was first created.
+   */
+  private async _migrateIfNeeded(): Promise<void> {
+    if (!this.db) return;
+    const columns = await this.db.getAllAsync<{ name: string }>(
+      `PRAGMA table_info(status_updates)`,
+    );
+    for (const column of ['proof_of_delivery', 'outcome', 'driver_id']) {
+      if (!columns.some((c) => c.name === column)) {
+        console.log(`[MissionOutbox] Migrating: adding ${column} column`);
+        await this.db.execAsync(
+          `ALTER TABLE status_updates ADD COLUMN ${column} TEXT;`,
+        );
+      }
+    }
+  }
+
+  private isReady(): boolean {
+    return this.db !== undefined && !this.initFailed;
+  }
+
+  // -----------------------------------------------------------------------
+  // Subscriptions
+  // -----------------------------------------------------------------------
+
+  /** Current queued entries of the signed-in driver, oldest first */
+  getEntries(): MissionStatusUpdate[] {
+    return this.entries;
+  }
+
+  /**
+   * Register a listener that receives the full entry list whenever it
+   * changes. Returns an unsubscribe function.
+   */
+  subscribe(
+    listener: (entries: MissionStatusUpdate[]) => void,
+  ): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async _reload(): Promise<void> {
+    if (!this.db) return;
+    const rows = this.driverId
+      ? await this.db.getAllAsync<OutboxRow>(
+          `SELECT * FROM status_updates WHERE driver_id = ? ORDER BY id ASC`,
+          [this.driverId],
+        )
+      : [];
+    this.entries = rows.map(rowToEntry);
+    for (const listener of this.listeners) {
+      try {
+        listener(this.entries);
+      } catch (error) {
+        console.warn('[MissionOutbox] Listener failed:', error);
+      }
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Ownership
+  // -----------------------------------------------------------------------
+
+  /**
+   * Show and replay the entries of the driver who just signed in. Another
+   * driver's entries stay queued until they sign in again. Entries from
+   * before the outbox was scoped to drivers go to the first driver seen.
+   */
+  async claimForDriver(driverId: string): Promise<void> {
+    await this.init();
+    if (!this.isReady()) return;
+    try {
+      await this.db!.runAsync(
+        `UPDATE status_updates SET driver_id = ? WHERE driver_id IS NULL`,
+        [driverId],
+      );
+      this.driverId = driverId;
+      await this._reload();
+    } catch (error) {
+      console.warn('[MissionOutbox] Failed to claim outbox:', error);
+    }
+  }
+
+  /**
+   * Stop showing and replaying the current driver's entries without
+   * deleting them. Call on sign-out and when the session ends.
+   */
+  async release(): Promise<void> {
+    this.driverId = null;
+    try {
+      await this._reload();
+    } catch (error) {
+      console.warn('[MissionOutbox] Failed to release outbox:', error);
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Queue operations
+  // -----------------------------------------------------------------------
+
+  /**
+   * Durably record a status change. Returns the new entry, or `null` if the
+   * outbox database is unavailable.
+   */
+  async enqueue(
+    missionId: string,
+    status: MissionStatus,
+    baseStatus: MissionStatus,
+    details?: MissionStatusDetails,
+  ): Promise<MissionStatusUpdate | null> {
+    await this.init();
+    if (!this.isReady() || !this.driverId) return null;
+
+    const result = await this.db!.runAsync(
+      `INSERT INTO status_updates
+         (mission_id, status, base_status, created_at, proof_of_delivery,
+          outcome, driver_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        missionId,
+        status,
+        baseStatus,
+        Date.now(),
+        details?.proofOfDelivery ? JSON.stringify(details.proofOfDelivery) : null,
+        details?.outcome ? JSON.stringify(details.outcome) : null,
+        this.driverId,
+      ],
+    );
+    await this._reload();
+    return this.getEntry(result.lastInsertRowId);
+  }
+
+  getEntry(id: number): MissionStatusUpdate | null {
+    return this.entries.find((e) => e.id === id) ?? null;
+  }
+
+  /**
+   * Resolve a conflict for a mission.
+   * - keepMine:  re-apply the driver's change on top of the server status.
+   *              Without a known server status there is nothing to re-apply
+   *              on, so the change is marked failed.
+   * - useServer: drop all queued changes for the mission, failed ones too
+   */
+  async resolveConflict(
+    missionId: string,
+    resolution: ConflictResolution,
+  ): Promise<void> {
+    await this.init();
+    if (!this.isReady()) return;
+
+    if (resolution === 'useServer') {
+      for (const entry of this.entries) {
+        if (entry.missionId === missionId && entry.proofOfDelivery) {
+          deleteProofOfDeliveryFiles(entry.proofOfDelivery);
+        }
+      }
+      await this.db!.runAsync(
+        `DELETE FROM status_updates WHERE mission_id = ?`,
+        [missionId],
+      );
+      await this._reload();
+      // Refresh the cached mission so the UI drops the local status
+      try {
+        await apiCache.putMission(await missionService.getMission(missionId));
+      } catch {
+        // Offline – the next revalidation will correct it
+      }
+      return;
+    }
+
+    await this.db!.runAsync(
+      `UPDATE status_updates
+       SET state = 'pending', base_status = server_status,
+           server_status = NULL, last_error = NULL, attempts = 0
+       WHERE mission_id = ? AND state = 'conflict' AND server_status IS NOT NULL`,
+      [missionId],
+    );
+    await this.db!.runAsync(
+      `UPDATE status_updates SET state = 'failed'
+       WHERE mission_id = ? AND state = 'conflict'`,
+      [missionId],
+    );
+    await this._reload();
+    await this.flush();
+  }
+
+  /** Discard every queued change of the signed-in driver */
+  async clear(): Promise<void> {
+    await this.init();
+    if (!this.isReady() || !this.driverId) return;
+    try {
+      for (const entry of this.entries) {
+        if (entry.proofOfDelivery) {
+          deleteProofOfDeliveryFiles(entry.proofOfDelivery);
+        }
+      }
+      await this.db!.runAsync(`DELETE FROM status_updates WHERE driver_id = ?`, [
+        this.driverId,
+      ]);
+      await this._reload();
+    } catch (error) {
+      console.warn('[MissionOutbox] Failed to clear outbox:', error);
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Replay
+  // -----------------------------------------------------------------------
+
+  /**
+   * Replay pending entries in order. Concurrent calls share one run; a call
+   * made during a run schedules one more pass so new entries aren't missed.
+   */
+  flush(): Promise<void> {
+    if (this.flushPromise) {
+      this.flushRequested = true;
+      return this.flushPromise;
+    }
+
+    this.flushPromise = (async () => {
+      try {
+        do {
+          this.flushRequested = false;
+          await this._flushOnce();
+        } while (this.flushRequested);
+      } finally {
+        this.flushPromise = null;
+      }
+    })();
+    return this.flushPromise;
+  }
+
+  private async _flushOnce(): Promise<void> {
+    await this.init();
+    if (!this.isReady()) return;
+
+    // Later changes to a mission depend on earlier ones, so once a mission
+    // hits a conflict or a failed change its remaining entries wait for the
+    // driver's decision.
+    const blocked = new Set<string>();
+    const driverId = this.driverId;
+
+    for (const entry of [...this.entries]) {
+      // The driver signed out or changed while this run was going
+      if (this.driverId !== driverId) break;
+      if (entry.state !== 'pending' || blocked.has(entry.missionId)) {
+        blocked.add(entry.missionId);
+        continue;
+      }
+
+      const outcome = await this._replay(entry);
+      await this._reload();
+      if (outcome === 'retry') {
+        // Connectivity problem – keep order and try again later
+        break;
+      }
+      if (outcome === 'conflict' || outcome === 'failed') {
+        blocked.add(entry.missionId);
+      }
+    }
+  }
+
+  private async _replay(
+    entry: MissionStatusUpdate,
+  ): Promise<'done' | 'conflict' | 'failed' | 'retry'> {
+    try {
+      const current = await missionService.getMission(entry.missionId);
+
+      if (current.status === entry.status) {
+        // Already applied (e.g. a previous attempt succeeded but the response
+        // was lost). Proof that never made it up still has to be sent.
+        if (!hasUnsentArtifacts(entry)) {
+          await this._complete(entry, current);
+          return 'done';
+        }
+        console.log(
+          `[MissionOutbox] ${entry.missionId} already ${entry.status}, sending proof of delivery`,
+        );
+      } else if (current.status !== entry.baseStatus) {
+        await this._markConflict(
+          entry,
+          current.status,
+          `Mission was changed to "${current.status}" on the server`,
+        );
+        return 'conflict';
+      }
+
+      const proofOfDelivery = entry.proofOfDelivery
+        ? await this._uploadArtifacts(entry)
+        : undefined;
+
+      const updated = await missionService.updateMissionStatus(
+        entry.missionId,
+        entry.status,
+        {
+          proofOfDelivery: proofOfDelivery
+            ? toProofOfDeliveryRequest(proofOfDelivery)
+            : undefined,
+          outcome: entry.outcome ?? undefined,
+        },
+      );
+      await this._complete(entry, updated);
+      return 'done';
+    } catch (error) {
+      // Signed out mid-replay; the entry waits for the driver to come back
+      if (isTransientError(error) || isUnauthorized(error)) {
+        await this.db!.runAsync(
+          `UPDATE status_updates SET attempts = attempts + 1, last_error = ? WHERE id = ?`,
+          [errorMessage(error), entry.id],
+        );
+        return 'retry';
+      }
+
+      // 409 and other client errors mean the server won't accept this
+      // change. Only a known server status gives the driver something to
+      // resolve against.
+      const serverStatus =
+        error instanceof AxiosError && error.response?.status === 409
+          ? ((error.response.data as { status?: MissionStatus })?.status ?? null)
+          : null;
+      if (serverStatus) {
+        await this._markConflict(entry, serverStatus, errorMessage(error));
+        return 'conflict';
+      }
+      await this._markFailed(entry, errorMessage(error));
+      return 'failed';
+    }
+  }
+
+  /**
+   * Upload proof-of-delivery files that haven't been uploaded yet. Each
+   * returned ID is persisted right away, so an interrupted upload resumes
+   * with the next file instead of starting over. A file that is gone from
+   * the device fails the entry: the proof would be incomplete.
+   */
+  private async _uploadArtifacts(
+    entry: MissionStatusUpdate,
+  ): Promise<ProofOfDelivery> {
+    const pod: ProofOfDelivery = {
+      ...entry.proofOfDelivery!,
+      artifacts: [...entry.proofOfDelivery!.artifacts],
+    };
+
+    for (let i = 0; i < pod.artifacts.length; i++) {
+      const artifact = pod.artifacts[i];
+      if (artifact.remoteId) continue;
+      if (!artifactFileExists(artifact)) {
+        throw new Error(
+          `The ${artifact.kind} for this delivery is missing from the device`,
+        );
+      }
+
+      const remoteId = await missionService.uploadProofOfDeliveryArtifact(
+        entry.missionId,
+        artifact,
+      );
+      pod.artifacts[i] = { ...artifact, remoteId };
+      await this.db!.runAsync(
+        `UPDATE status_updates SET proof_of_delivery = ? WHERE id = ?`,
+        [JSON.stringify(pod), entry.id],
+      );
+    }
+
+    return pod;
+  }
+
+  private async _complete(
+    entry: MissionStatusUpdate,
+    mission: Mission,
+  ): Promise<void> {
+    await this.db!.runAsync(`DELETE FROM status_updates WHERE id = ?`, [
+      entry.id,
+    ]);
+    if (entry.proofOfDelivery) {
+      deleteProofOfDeliveryFiles(entry.proofOfDelivery);
+    }
+    await apiCache.putMission(mission);
+    console.log(
+      `[MissionOutbox] Synced ${entry.missionId}: ${entry.baseStatus} → ${entry.status}`,
+    );
+  }
+
+  private async _markConflict(
+    entry: MissionStatusUpdate,
+    serverStatus: MissionStatus,
+    message: string,
+  ): Promise<void> {
+    await this.db!.runAsync(
+      `UPDATE status_updates
+       SET state = 'conflict', server_status = ?, last_error = ?, attempts = attempts + 1
+       WHERE id = ?`,
+      [serverStatus, message, entry.id],
+    );
+    console.warn(`[MissionOutbox] Conflict on ${entry.missionId}: ${message}`);
+  }
+
+  private async _markFailed(
+    entry: MissionStatusUpdate,
+    message: string,
+  ): Promise<void> {
+    await this.db!.runAsync(
+      `UPDATE status_updates
+       SET state = 'failed', last_error = ?, attempts = attempts + 1
+       WHERE id = ?`,
+      [message, entry.id],
+    );
+    console.warn(`[MissionOutbox] Failed on ${entry.missionId}: ${message}`);
+  }
+}
+
+/** Shared outbox instance */
+export const missionOutbox = new MissionOutbox();
@@ -0,0 +1,475 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { apiCache } from './cache';
+import { errorMessage, isTransientError } from './missionOutbox';
+import { routeService } from './services/route.service';
+import type { ResequenceReason, Route, RouteMission } from './types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * - unsent:    saved on the device, waiting for connectivity
+ * - submitted: with dispatch for review
+ * - rejected:  dispatch declined it, or the server refused it. The route is
+ *              back on the server order until the driver dismisses it.
+ */
+export type SequenceProposalState = 'unsent' | 'submitted' | 'rejected';
+
+export interface StopSequenceProposal {
+  routeId: string;
+  /** Every mission on the route, in the driver's order */
+  missionIds: string[];
+  /** The server order the driver reordered from */
+  baseMissionIds: string[];
+  reason: ResequenceReason;
+  note: string | null;
+  /** Estimated change from the reordering (see estimateSequenceImpact) */
+  distanceDeltaM: number | null;
+  durationDeltaS: number | null;
+  state: SequenceProposalState;
+  /** Server id once submitted */
+  remoteId: string | null;
+  attempts: number;
+  lastError: string | null;
+  /** Dispatch's comment on a rejection */
+  reviewNote: string | null;
+  createdAt: number;
+}
+
+export type NewSequenceProposal = Pick<
+  StopSequenceProposal,
+  | 'routeId'
+  | 'missionIds'
+  | 'baseMissionIds'
+  | 'reason'
+  | 'note'
+  | 'distanceDeltaM'
+  | 'durationDeltaS'
+>;
+
+/** Proposals by route id – a route has at most one */
+export type SequenceProposals = Record<string, StopSequenceProposal>;
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const STORAGE_KEY = 'stop_sequence_proposals';
+
+function storageKey(driverId: string): string {
+  return `${STORAGE_KEY}:${driverId}`;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function sortedRouteMissions(route: Route): RouteMission[] {
+  return [...(route.routeMissions ?? [])].sort(
+    (a, b) => a.stopOrder - b.stopOrder,
+  );
+}
+
+/** Mission ids of a route in the server's stop order */
+export function routeMissionOrder(route: Route): string[] {
+  if (route.routeMissions && route.routeMissions.length > 0) {
+    return sortedRouteMissions(route).map((rm) => rm.missionId);
+  }
+  return (route.missions ?? []).map((m) => m.id);
+}
+
+function sameOrder(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id, i) => id === b[i]);
+}
+
+/**
+ * The server's order for a route, looking through the driver's proposal if
+ * it is currently overlaid (see applySequenceToRoute)
+ */
+export function serverMissionOrder(
+  route: Route,
+  proposals: SequenceProposals,
+): string[] {
+  const order = routeMissionOrder(route);
+  const proposal = proposals[route.id];
+  if (
+    proposal &&
+    proposal.state !== 'rejected' &&
+    sameOrder(order, proposal.missionIds)
+  ) {
+    return proposal.baseMissionIds;
+  }
+  return order;
+}
+
+/**
+ * Overlay the driver's proposed stop order on a route, so the stop list,
+ * guidance and ETAs follow it until dispatch decides.
+ *
+ * Only applied while the server still has the order the driver reordered
+ * from: once dispatch accepts, or changes the route some other way, the
+ * server order wins. The planned geometry is kept; guidance re-slices it
+ * for the new order (see buildRouteGuidance).
+ */
+export function applySequenceToRoute<T extends Route | null | undefined>(
+  route: T,
+  proposals: SequenceProposals,
+): T {
+  if (!route) return route;
+  const proposal = proposals[route.id];
+  if (!proposal || proposal.state === 'rejected') return route;
+
+  const current = routeMissionOrder(route);
+  if (!sameOrder(current, proposal.baseMissionIds)) return route;
+  if (sameOrder(current, proposal.missionIds)) return route;
+
+  const position = new Map(proposal.missionIds.map((id, i) => [id, i]));
+  if (!current.every((id) => position.has(id))) return route;
+  const byPosition = (a: string, b: string) =>
+    position.get(a)! - position.get(b)!;
+
+  if (route.routeMissions && route.routeMissions.length > 0) {
+    // Reuse the server's stop numbers so the numbering scheme is unchanged
+    const stopOrders = sortedRouteMissions(route).map((rm) => rm.stopOrder);
+    return {
+      ...route,
+      routeMissions: route.routeMissions.map((rm) => ({
+        ...rm,
+        stopOrder: stopOrders[position.get(rm.missionId)!],
+      })),
+    };
+  }
+  return {
+    ...route,
+    missions: [...(route.missions ?? [])].sort((a, b) =>
+      byPosition(a.id, b.id),
+    ),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// SequenceProposalStore
+// ---------------------------------------------------------------------------
+
+/**
+ * Stop orders the driver has proposed, persisted in AsyncStorage so they
+ * survive restarts and can be sent once the device is back online.
+ *
+ * A proposal is removed once dispatch accepts it and the route has been
+ * refreshed with the new order. Rejections are kept until the driver has
+ * seen them.
+ *
+ * Proposals are stored per driver and only loaded and sent while that
+ * driver is signed in (see claimForDriver).
+ */
+export class SequenceProposalStore {
+  private proposals: SequenceProposals = {};
+  private driverId: string | null = null;
+  private loadPromise: Promise<void> = Promise.resolve();
+  private flushPromise: Promise<void> | null = null;
+  private flushRequested = false;
+  private listeners = new Set<(proposals: SequenceProposals) => void>();
+
+  /** Resolves once the signed-in driver's proposals are loaded */
+  async init(): Promise<void> {
+    return this.loadPromise;
+  }
+
+  /**
+   * Load and send the proposals of the driver who just signed in. Another
+   * driver's proposals stay stored until they sign in again. Proposals from
+   * before they were stored per driver go to the first driver seen.
+   */
+  async claimForDriver(driverId: string): Promise<void> {
+    if (this.driverId === driverId) return this.loadPromise;
+    this.driverId = driverId;
+    this.proposals = {};
+    this.notify();
+    this.loadPromise = this._load(driverId);
+    return this.loadPromise;
+  }
+
+  /**
+   * Stop showing and sending the current driver's proposals without
+   * deleting them. Call on sign-out and when the session ends.
+   */
+  release(): void {
+    this.driverId = null;
+    this.proposals = {};
+    this.loadPromise = Promise.resolve();
+    this.notify();
+  }
+
+  private async _load(driverId: string): Promise<void> {
+    try {
+      let raw = await AsyncStorage.getItem(storageKey(driverId));
+      if (!raw) {
+        raw = await AsyncStorage.getItem(STORAGE_KEY);
+        if (raw) {
+          await AsyncStorage.setItem(storageKey(driverId), raw);
+          await AsyncStorage.removeItem(STORAGE_KEY);
+        }
+      }
+      if (raw && this.driverId === driverId) {
+        this.proposals = JSON.parse(raw) as SequenceProposals;
+        this.notify();
+      }
+    } catch (error) {
+      console.warn('[SequenceProposals] Failed to load proposals:', error);
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Public API
+  // -----------------------------------------------------------------------
+
+  getProposals(): SequenceProposals {
+    return this.proposals;
+  }
+
+  /**
+   * Register a listener that receives all proposals whenever they change.
+   * Returns an unsubscribe function.
+   */
+  subscribe(listener: (proposals: SequenceProposals) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  hasWork(): boolean {
+    return Object.values(this.proposals).some((p) => p.state !== 'rejected');
+  }
+
+  /**
+   * Record a new stop order for a route, replacing any earlier proposal,
+   * and try to send it right away.
+   */
+  async propose(input: NewSequenceProposal): Promise<void> {
+    await this.init();
+    if (!this.driverId) {
+      console.warn('[SequenceProposals] Not signed in, dropping new order');
+      return;
+    }
+    console.log(
+      `[SequenceProposals] New order for route ${input.routeId} (${input.reason})`,
+    );
+    this.proposals = {
+      ...this.proposals,
+      [input.routeId]: {
+        ...input,
+        state: 'unsent',
+        remoteId: null,
+        attempts: 0,
+        lastError: null,
+        reviewNote: null,
+        createdAt: Date.now(),
+      },
+    };
+    await this.commit();
+    this.flush();
+  }
+
+  /**
+   * Forget the proposal for a route: after reading a rejection, or to go
+   * back to the server order. A submitted proposal stays with dispatch.
+   */
+  async dismiss(routeId: string): Promise<void> {
+    await this.init();
+    if (!this.proposals[routeId]) return;
+    const { [routeId]: _removed, ...rest } = this.proposals;
+    this.proposals = rest;
+    await this.commit();
+  }
+
+  // -----------------------------------------------------------------------
+  // Sync
+  // -----------------------------------------------------------------------
+
+  /**
+   * Send unsent proposals and check on submitted ones. Concurrent calls
+   * share one run; a call made during a run schedules one more pass.
+   */
+  flush(): Promise<void> {
+    if (this.flushPromise) {
+      this.flushRequested = true;
+      return this.flushPromise;
+    }
+
+    this.flushPromise = (async () => {
+      try {
+        do {
+          this.flushRequested = false;
+          await this._flushOnce();
+        } while (this.flushRequested);
+      } finally {
+        this.flushPromise = null;
+      }
+    })();
+    return this.flushPromise;
+  }
+
+  private async _flushOnce(): Promise<void> {
+    await this.init();
+    const driverId = this.driverId;
+
+    for (const proposal of Object.values(this.proposals)) {
+      // The driver signed out or changed while this run was going
+      if (this.driverId !== driverId) break;
+      if (proposal.state === 'rejected') continue;
+      const outcome =
+        proposal.state === 'unsent'
+          ? await this._submit(proposal)
+          : await this._checkReview(proposal);
+      if (outcome === 'retry') {
+        // Connectivity problem – try again later
+        break;
+      }
+    }
+  }
+
+  private async _submit(
+    proposal: StopSequenceProposal,
+  ): Promise<'done' | 'retry'> {
+    try {
+      const response = await routeService.proposeStopSequence(
+        proposal.routeId,
+        {
+          missionIds: proposal.missionIds,
+          baseMissionIds: proposal.baseMissionIds,
+          reason: proposal.reason,
+          note: proposal.note ?? undefined,
+          distanceDeltaMeters:
+            proposal.distanceDeltaM !== null
+              ? Math.round(proposal.distanceDeltaM)
+              : undefined,
+          durationDeltaSeconds:
+            proposal.durationDeltaS !== null
+              ? Math.round(proposal.durationDeltaS)
+              : undefined,
+        },
+      );
+      console.log(
+        `[SequenceProposals] Submitted order for route ${proposal.routeId}`,
+      );
+      await this._update(proposal, {
+        state: 'submitted',
+        remoteId: response.id,
+        lastError: null,
+      });
+      if (response.status !== 'pending') {
+        await this._checkReview({ ...proposal, remoteId: response.id });
+      }
+      return 'done';
+    } catch (error) {
+      return this._handleError(proposal, error);
+    }
+  }
+
+  private async _checkReview(
+    proposal: StopSequenceProposal,
+  ): Promise<'done' | 'retry'> {
+    try {
+      const response = await routeService.getStopSequenceProposal(
+        proposal.routeId,
+        proposal.remoteId!,
+      );
+      if (response.status === 'pending') return 'done';
+
+      if (response.status === 'rejected') {
+        console.log(
+          `[SequenceProposals] Order for route ${proposal.routeId} rejected`,
+        );
+        await this._update(proposal, {
+          state: 'rejected',
+          reviewNote: response.reviewNote ?? null,
+        });
+        return 'done';
+      }
+
+      // Accepted – pick up the new order (and geometry) before letting go
+      // of the local one, so the stop list doesn't jump back and forth
+      await apiCache.putRoute(await routeService.getRoute(proposal.routeId));
+      console.log(
+        `[SequenceProposals] Order for route ${proposal.routeId} accepted`,
+      );
+      if (this.proposals[proposal.routeId]?.createdAt === proposal.createdAt) {
+        await this.dismiss(proposal.routeId);
+      }
+      return 'done';
+    } catch (error) {
+      return this._handleError(proposal, error);
+    }
+  }
+
+  private async _handleError(
+    proposal: StopSequenceProposal,
+    error: unknown,
+  ): Promise<'done' | 'retry'> {
+    if (isTransientError(error)) {
+      await this._update(proposal, {
+        attempts: proposal.attempts + 1,
+        lastError: errorMessage(error),
+      });
+      return 'retry';
+    }
+
+    // The server won't take this proposal (stale order, route closed, …)
+    console.warn(
+      `[SequenceProposals] Route ${proposal.routeId}: ${errorMessage(error)}`,
+    );
+    await this._update(proposal, {
+      state: 'rejected',
+      attempts: proposal.attempts + 1,
+      lastError: errorMessage(error),
+    });
+    return 'done';
+  }
+
+  /** Patch a proposal, unless the driver replaced it in the meantime */
+  private async _update(
+    proposal: StopSequenceProposal,
+    patch: Partial<StopSequenceProposal>,
+  ): Promise<void> {
+    const current = this.proposals[proposal.routeId];
+    if (!current || current.createdAt !== proposal.createdAt) return;
+    this.proposals = {
+      ...this.proposals,
+      [proposal.routeId]: { ...current, ...patch },
+    };
+    await this.commit();
+  }
+
+  // -----------------------------------------------------------------------
+  // Internals
+  // -----------------------------------------------------------------------
+
+  private async commit(): Promise<void> {
+    this.notify();
+    await this.save();
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener(this.proposals);
+    }
+  }
+
+  private async save(): Promise<void> {
+    if (!this.driverId) return;
+    try {
+      await AsyncStorage.setItem(
+        storageKey(this.driverId),
+        JSON.stringify(this.proposals),
+      );
+    } catch (error) {
+      console.warn('[SequenceProposals] Failed to save proposals:', error);
+    }
+  }
+}
+
+/** Shared proposal store */
+export const sequenceProposals = new SequenceProposalStore();
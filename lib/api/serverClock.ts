@@ -0,0 +1,115 @@
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Estimated offset of the device clock from server time */
+export type ClockOffsetEstimate = {
+  /** Add to `Date.now()` to get server time (ms) */
+  offsetMs: number;
+  /** Half-width of the interval the true offset lies in (ms) */
+  uncertaintyMs: number;
+  /** Number of responses the estimate is based on */
+  samples: number;
+};
+
+type OffsetInterval = {
+  low: number;
+  high: number;
+  /** Local time the sample was taken */
+  at: number;
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** The HTTP Date header only has one-second resolution */
+const DATE_HEADER_RESOLUTION_MS = 1_000;
+/** Forget samples older than this – device clocks drift and get adjusted */
+const SAMPLE_MAX_AGE_MS = 15 * 60_000;
+/** Responses slower than this say little about the offset */
+const MAX_ROUND_TRIP_MS = 5_000;
+const MAX_SAMPLES = 50;
+
+// ---------------------------------------------------------------------------
+// ServerClock
+// ---------------------------------------------------------------------------
+
+/**
+ * Estimates the device clock's offset from server time using the `Date`
+ * header of API responses.
+ *
+ * Each response bounds the offset: the server stamped it at some point
+ * between sending the request and receiving the response, within the
+ * header's one-second resolution. Intersecting these intervals across
+ * recent responses narrows the estimate well below one second. If the
+ * intervals stop overlapping the device clock was changed, so only the
+ * newest sample is kept.
+ */
+export class ServerClock {
+  private intervals: OffsetInterval[] = [];
+
+  /**
+   * Record one response.
+   *
+   * @param sentAt - local time the request was sent
+   * @param receivedAt - local time the response arrived
+   * @param dateHeader - the response's `Date` header
+   */
+  observe(sentAt: number, receivedAt: number, dateHeader: string | undefined): void {
+    if (!dateHeader) return;
+    const serverTime = Date.parse(dateHeader);
+    if (!Number.isFinite(serverTime)) return;
+    if (receivedAt < sentAt || receivedAt - sentAt > MAX_ROUND_TRIP_MS) return;
+
+    const sample: OffsetInterval = {
+      low: serverTime - receivedAt,
+      high: serverTime + DATE_HEADER_RESOLUTION_MS - sentAt,
+      at: receivedAt,
+    };
+
+    this.intervals = this.intervals.filter(
+      (i) => receivedAt - i.at <= SAMPLE_MAX_AGE_MS,
+    );
+    const merged = this.intersect([...this.intervals, sample]);
+    if (!merged) {
+      console.log('[ServerClock] Device clock changed, restarting estimate');
+      this.intervals = [sample];
+      return;
+    }
+    this.intervals.push(sample);
+    if (this.intervals.length > MAX_SAMPLES) {
+      this.intervals.shift();
+    }
+  }
+
+  /** Current estimate, or null before the first usable response */
+  getEstimate(): ClockOffsetEstimate | null {
+    const merged = this.intersect(this.intervals);
+    if (!merged) return null;
+    return {
+      offsetMs: Math.round((merged.low + merged.high) / 2),
+      uncertaintyMs: Math.round((merged.high - merged.low) / 2),
+      samples: this.intervals.length,
+    };
+  }
+
+  reset(): void {
+    this.intervals = [];
+  }
+
+  private intersect(
+    intervals: OffsetInterval[],
+  ): { low: number; high: number } | null {
+    if (intervals.length === 0) return null;
+    let low = -Infinity;
+    let high = Infinity;
+    for (const i of intervals) {
+      low = Math.max(low, i.low);
+      high = Math.min(high, i.high);
+    }
+    return low <= high ? { low, high } : null;
+  }
+}
+
+export const serverClock = new ServerClock();
@@ -3,7 +3,9 @@ import type {
   Mission,
   MissionsQueryParams,
   MissionStatus,
+  ProofOfDeliveryArtifact,
   UpdateMissionStatusRequest,
+  UploadArtifactResponse,
 } from '../types';
 
 export interface MissionsResponse {
@@ -49,14 +51,47 @@ export const missionService = {
    * Valid transitions for drivers:
    * - assigned -> inProgress (when driver starts delivery)
    * - inProgress -> delivered (when driver completes delivery)
+   * - assigned/inProgress -> failed | rescheduleRequested (with an outcome)
    */
   updateMissionStatus: async (
     id: string,
     status: MissionStatus,
+    details?: Omit<UpdateMissionStatusRequest, 'status'>,
   ): Promise<Mission> => {
     const response = await apiClient.patch<Mission>(`/missions/${id}`, {
       status,
+      ...details,
     } as UpdateMissionStatusRequest);
     return response.data;
   },
+
+  /**
+   * Upload a single proof-of-delivery file (signature or photo)
+   * Returns the artifact ID to reference in the status update
+   */
+  uploadProofOfDeliveryArtifact: async (
+    missionId: string,
+    artifact: ProofOfDeliveryArtifact,
+  ): Promise<string> => {
+    const name = artifact.uri.split('/').pop() ?? `${artifact.kind}`;
+    const form = new FormData();
+    form.append('kind', artifact.kind);
+    // React Native's FormData accepts { uri, name, type } for file parts
+    form.append('file', {
+      uri: artifact.uri,
+      name,
+      type: artifact.mimeType,
+    } as unknown as Blob);
+
+    const response = await apiClient.post<UploadArtifactResponse>(
+      `/missions/${missionId}/proof-of-delivery/artifacts`,
+      form,
+      {
+        headers: { 'Content-Type': 'multipart/form-data' },
+        // Photos can be several MB on a slow connection
+        timeout: 60000,
+      },
+    );
+    return response.data.id;
+  },
 };
@@ -1,5 +1,10 @@
 import { apiClient } from '../client';
-import type { Route, RoutesQueryParams } from '../types';
+import type {
+  Route,
+  RoutesQueryParams,
+  StopSequenceProposalRequest,
+  StopSequenceProposalResponse,
+} from '../types';
 
 export interface RoutesResponse {
   data: Route[];
@@ -46,4 +51,32 @@ export const routeService = {
     const route = await routeService.getRoute(id);
     return route.geometry ?? null;
   },
+
+  /**
+   * Propose a new stop order for dispatch to review
+   * The route keeps its current order until dispatch accepts
+   */
+  proposeStopSequence: async (
+    routeId: string,
+    proposal: StopSequenceProposalRequest,
+  ): Promise<StopSequenceProposalResponse> => {
+    const response = await apiClient.post<StopSequenceProposalResponse>(
+      `/routes/${routeId}/sequence-proposals`,
+      proposal,
+    );
+    return response.data;
+  },
+
+  /**
+   * Get the review status of a stop order proposal
+   */
+  getStopSequenceProposal: async (
+    routeId: string,
+    proposalId: string,
+  ): Promise<StopSequenceProposalResponse> => {
+    const response = await apiClient.get<StopSequenceProposalResponse>(
+      `/routes/${routeId}/sequence-proposals/${proposalId}`,
+    );
+    return response.data;
+  },
 };
@@ -0,0 +1,61 @@
+import { apiClient } from '../client';
+
+export interface SensorBatchUploadResponse {
+  /** Batch IDs the server accepted (including ones it had already seen) */
+  accepted: string[];
+}
+
+/** Where a sensor config layer comes from, least to most specific */
+export type SensorConfigScope = 'company' | 'branch' | 'driver';
+
+export interface SensorConfigLayer {
+  scope: SensorConfigScope;
+  /** Partial sensor streaming settings; unknown keys are ignored */
+  config: Record<string, unknown>;
+  updatedAt?: string;
+}
+
+export interface SensorConfigResponse {
+  /** Changes whenever any layer changes */
+  version: string;
+  /** Layers that apply to the signed-in driver, in any order */
+  layers: SensorConfigLayer[];
+}
+
+export const telemetryService = {
+  /**
+   * Upload sensor batches for the signed-in driver. The server attributes
+   * them from the JWT, so the device never holds analytics credentials.
+   *
+   * `body` is the gzipped JSON `{ batches: CompactSensorBatch[] }` (see
+   * sensorEncoding), built by the caller so it can count the bytes sent.
+   */
+  uploadSensorBatches: async (
+    body: Uint8Array,
+  ): Promise<SensorBatchUploadResponse> => {
+    const response = await apiClient.post<SensorBatchUploadResponse>(
+      '/telemetry/sensor-batches',
+      body,
+      {
+        timeout: 15000,
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Encoding': 'gzip',
+          'X-Sensor-Encoding': 'columnar-v1',
+        },
+      },
+    );
+    return response.data;
+  },
+
+  /**
+   * Sensor streaming settings for the signed-in driver. The server picks
+   * the company / branch / driver layers from the JWT.
+   */
+  getSensorConfig: async (): Promise<SensorConfigResponse> => {
+    const response = await apiClient.get<SensorConfigResponse>(
+      '/telemetry/sensor-config',
+    );
+    return response.data;
+  },
+};
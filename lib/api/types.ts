@@ -46,6 +46,25 @@ export enum MissionStatus {
   ASSIGNED = 'assigned',
   IN_PROGRESS = 'inProgress',
   DELIVERED = 'delivered',
+  /** Delivery attempted but not completed – see `outcome.reason` */
+  FAILED = 'failed',
+  /** Driver asked dispatch to move the delivery to another day */
+  RESCHEDULE_REQUESTED = 'rescheduleRequested',
+}
+
+export enum DeliveryFailureReason {
+  NOT_HOME = 'not_home',
+  REFUSED = 'refused',
+  WRONG_ADDRESS = 'wrong_address',
+  DAMAGED = 'damaged',
+}
+
+/** Why a delivery attempt didn't end in `delivered` */
+export interface DeliveryAttemptOutcome {
+  reason: DeliveryFailureReason;
+  note?: string;
+  /** ISO timestamp of the attempt */
+  attemptedAt: string;
 }
 
 export interface Mission {
@@ -68,6 +87,8 @@ export interface Mission {
   vehicleId?: string;
   vehiclePlate?: string;
   status: MissionStatus;
+  /** Set when the mission is failed or a reschedule was requested */
+  outcome?: DeliveryAttemptOutcome | null;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -79,6 +100,51 @@ export interface MissionsQueryParams {
 
 export interface UpdateMissionStatusRequest {
   status: MissionStatus;
+  proofOfDelivery?: ProofOfDeliveryRequest;
+  outcome?: DeliveryAttemptOutcome;
+}
+
+// ============================================================================
+// Proof of Delivery Types
+// ============================================================================
+
+export type ProofOfDeliveryArtifactKind = 'signature' | 'photo';
+
+export interface ProofOfDeliveryArtifact {
+  kind: ProofOfDeliveryArtifactKind;
+  /** File URI in durable app storage */
+  uri: string;
+  mimeType: string;
+  /** Server-side ID, set once the file has been uploaded */
+  remoteId?: string;
+}
+
+/** Proof of delivery as captured on the device */
+export interface ProofOfDelivery {
+  recipientName: string;
+  note?: string;
+  /** ISO timestamp when the proof was captured */
+  capturedAt: string;
+  latitude?: number;
+  longitude?: number;
+  /** Horizontal accuracy of the position in meters */
+  accuracy?: number;
+  artifacts: ProofOfDeliveryArtifact[];
+}
+
+/** Proof of delivery as sent with the status change, referencing uploaded files */
+export interface ProofOfDeliveryRequest {
+  recipientName: string;
+  note?: string;
+  capturedAt: string;
+  latitude?: number;
+  longitude?: number;
+  accuracy?: number;
+  artifactIds: string[];
+}
+
+export interface UploadArtifactResponse {
+  id: string;
 }
 
 // ============================================================================
@@ -131,6 +197,38 @@ export interface Route {
   updatedAt?: string;
 }
 
+/** Why the driver wants to visit stops in a different order */
+export enum ResequenceReason {
+  ACCESS_BLOCKED = 'access_blocked',
+  CUSTOMER_REQUEST = 'customer_request',
+  TRAFFIC = 'traffic',
+  LOCAL_KNOWLEDGE = 'local_knowledge',
+  /** Suggested by the on-device optimizer after the day changed */
+  REOPTIMIZED = 'reoptimized',
+}
+
+export type StopSequenceProposalStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface StopSequenceProposalRequest {
+  /** Every mission on the route, in the proposed order */
+  missionIds: string[];
+  /** The order the driver was looking at, so dispatch can spot a stale proposal */
+  baseMissionIds: string[];
+  reason: ResequenceReason;
+  note?: string;
+  /** Driver-side estimate of the change versus the current order */
+  distanceDeltaMeters?: number;
+  durationDeltaSeconds?: number;
+}
+
+export interface StopSequenceProposalResponse {
+  id: string;
+  routeId: string;
+  status: StopSequenceProposalStatus;
+  /** Dispatch's comment when accepting or rejecting */
+  reviewNote?: string | null;
+}
+
 export interface RoutesQueryParams {
   date?: string;
   driverId?: string;
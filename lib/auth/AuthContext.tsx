@@ -15,6 +15,14 @@ import {
     AppStateStatus,
     View,
 } from 'react-native';
+import { apiCache } from '../api/cache';
+import { missionOutbox } from '../api/missionOutbox';
+import { sequenceProposals } from '../api/sequenceProposals';
+import { tripHistory } from '../driving/tripHistory';
+import { routeEtas } from '../navigation/stopEtas';
+import { driverPrivacy } from '../sensor-streaming/driverPrivacy';
+import { sensorConfigStore } from '../sensor-streaming/sensorConfig';
+import { sensorQueue } from '../sensor-streaming/sensorQueue';
 import {
     clearAuthTokens,
     getAuthToken,
@@ -84,6 +92,29 @@ function isTokenExpiringSoon(
   return payload.exp < now + thresholdSec;
 }
 
+/**
+ * Point the per-driver stores at the driver whose token is now in use,
+ * before anything is fetched or replayed with it.
+ */
+async function claimStoresForDriver(payload: JwtPayload): Promise<void> {
+  const ownerId = payload.driverId ?? payload.sub;
+  // Another driver's queued trajectories and cached stops must not survive
+  await sensorQueue.claimForDriver(ownerId);
+  await apiCache.claimForDriver(ownerId);
+  // Their unsynced status changes, stop orders and duty changes wait until
+  // they're back
+  await missionOutbox.claimForDriver(ownerId);
+  await sequenceProposals.claimForDriver(ownerId);
+  await driverPrivacy.claimForDriver(ownerId);
+}
+
+/** Stop using the signed-out driver's queued work, without deleting it */
+async function releaseDriverStores(): Promise<void> {
+  await missionOutbox.release();
+  sequenceProposals.release();
+  routeEtas.clear();
+}
+
 interface AuthContextValue {
   isAuthenticated: boolean;
   isLoading: boolean;
@@ -107,6 +138,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   // Register callback for 401 responses to sync in-memory state (F3 fix)
   useEffect(() => {
     const handleUnauthorized = () => {
+      void releaseDriverStores();
       setToken(null);
       setUser(null);
     };
@@ -125,6 +157,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         const payload = decodeJwt(storedToken);
         if (payload && !isTokenExpired(payload)) {
           // Access token is still valid
+          await claimStoresForDriver(payload);
           setToken(storedToken);
           setUser(payload);
           return true;
@@ -140,6 +173,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         if (refreshed) {
           const newPayload = decodeJwt(refreshed.access_token);
           if (newPayload && !isTokenExpired(newPayload)) {
+            await claimStoresForDriver(newPayload);
             setToken(refreshed.access_token);
             setUser(newPayload);
             return true;
@@ -160,6 +194,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             console.log(
               '[Auth] Refresh failed but tokens preserved – staying authenticated',
             );
+            await claimStoresForDriver(stalePayload);
             setToken(stillHasTokens);
             setUser(stalePayload);
             return true;
@@ -212,6 +247,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         const restored = await restoreAuth();
         if (!restored) {
           // Refresh also failed – force logout
+          await releaseDriverStores();
           setToken(null);
           setUser(null);
         }
@@ -247,6 +283,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         throw new Error('Invalid or expired token');
       }
       await setAuthTokens(accessToken, refreshToken);
+      await claimStoresForDriver(payload);
       setToken(accessToken);
       setUser(payload);
     },
@@ -255,6 +292,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const signOut = useCallback(async () => {
     await clearAuthTokens();
+    // Unsynced status changes are kept and replayed when the driver is back
+    await releaseDriverStores();
+    await apiCache.clear();
+    await tripHistory.clear();
+    await sensorConfigStore.clear();
+    await driverPrivacy.clear();
+    await sensorQueue.rotateKey();
     setToken(null);
     setUser(null);
   }, []);
@@ -80,6 +80,18 @@ export const STATUS = {
     bgColorDark: 'rgba(16, 185, 129, 0.18)',
     pulseColor: 'rgba(16, 185, 129, 0.3)',
   },
+  failed: {
+    color: '#EF4444',          // red-500
+    bgColor: '#FEE2E2',       // red-100
+    bgColorDark: 'rgba(239, 68, 68, 0.18)',
+    pulseColor: 'rgba(239, 68, 68, 0.3)',
+  },
+  rescheduleRequested: {
+    color: '#8B5CF6',          // violet-500
+    bgColor: '#EDE9FE',       // violet-100
+    bgColorDark: 'rgba(139, 92, 246, 0.18)',
+    pulseColor: 'rgba(139, 92, 246, 0.3)',
+  },
 } as const;
 
 // ── Route Status Colors ─────────────────────────────────────────────────────
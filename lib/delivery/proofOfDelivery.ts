@@ -0,0 +1,116 @@
+import { Directory, File, Paths } from 'expo-file-system';
+
+import type {
+  ProofOfDelivery,
+  ProofOfDeliveryArtifact,
+  ProofOfDeliveryRequest,
+} from '../api/types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Everything the driver captured, before files are moved to durable storage */
+export interface ProofOfDeliveryDraft {
+  recipientName: string;
+  note: string;
+  /** Standalone SVG document of the drawn signature */
+  signatureSvg: string;
+  /** Photo URIs as returned by the camera (usually in the cache directory) */
+  photoUris: string[];
+  latitude?: number;
+  longitude?: number;
+  accuracy?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+/**
+ * Files live in the document directory (not the cache) so the OS can't
+ * purge them while an upload is still waiting for connectivity.
+ */
+function podDirectory(missionId: string): Directory {
+  const dir = new Directory(Paths.document, 'proof-of-delivery', missionId);
+  dir.create({ intermediates: true, idempotent: true });
+  return dir;
+}
+
+/**
+ * Move the captured signature and photos into durable storage and build
+ * the proof-of-delivery record that travels with the status change.
+ */
+export function saveProofOfDelivery(
+  missionId: string,
+  draft: ProofOfDeliveryDraft,
+): ProofOfDelivery {
+  const dir = podDirectory(missionId);
+  const stamp = Date.now();
+  const artifacts: ProofOfDeliveryArtifact[] = [];
+
+  const signature = new File(dir, `signature-${stamp}.svg`);
+  signature.create({ overwrite: true });
+  signature.write(draft.signatureSvg);
+  artifacts.push({
+    kind: 'signature',
+    uri: signature.uri,
+    mimeType: 'image/svg+xml',
+  });
+
+  draft.photoUris.forEach((uri, index) => {
+    const photo = new File(dir, `photo-${stamp}-${index}.jpg`);
+    new File(uri).copy(photo);
+    artifacts.push({ kind: 'photo', uri: photo.uri, mimeType: 'image/jpeg' });
+  });
+
+  return {
+    recipientName: draft.recipientName.trim(),
+    note: draft.note.trim() || undefined,
+    capturedAt: new Date(stamp).toISOString(),
+    latitude: draft.latitude,
+    longitude: draft.longitude,
+    accuracy: draft.accuracy,
+    artifacts,
+  };
+}
+
+/** Remove the local files of a proof of delivery (after upload or discard) */
+export function deleteProofOfDeliveryFiles(pod: ProofOfDelivery): void {
+  for (const artifact of pod.artifacts) {
+    try {
+      const file = new File(artifact.uri);
+      if (file.exists) file.delete();
+    } catch (error) {
+      console.warn('[ProofOfDelivery] Failed to delete artifact:', error);
+    }
+  }
+}
+
+/** Whether an artifact's local file is still present */
+export function artifactFileExists(artifact: ProofOfDeliveryArtifact): boolean {
+  try {
+    return new File(artifact.uri).exists;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Build the API payload once every artifact has been uploaded.
+ */
+export function toProofOfDeliveryRequest(
+  pod: ProofOfDelivery,
+): ProofOfDeliveryRequest {
+  return {
+    recipientName: pod.recipientName,
+    note: pod.note,
+    capturedAt: pod.capturedAt,
+    latitude: pod.latitude,
+    longitude: pod.longitude,
+    accuracy: pod.accuracy,
+    artifactIds: pod.artifacts
+      .map((a) => a.remoteId)
+      .filter((id): id is string => id !== undefined),
+  };
+}
@@ -0,0 +1,7 @@
+export { tripHistory } from './tripHistory';
+export {
+  type TripScoreBreakdown,
+  type TripSummary,
+} from './tripScore';
+export { useTripHistory } from './useTripHistory';
+export { useTripScoring } from './useTripScoring';
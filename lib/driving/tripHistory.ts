@@ -0,0 +1,131 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { TripStats, TripSummary } from './tripScore';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const HISTORY_KEY = 'driving_trip_history';
+const ACTIVE_TRIP_KEY = 'driving_active_trip';
+
+/** Older trips are dropped beyond this many */
+const MAX_TRIPS = 50;
+
+// ---------------------------------------------------------------------------
+// TripHistory
+// ---------------------------------------------------------------------------
+
+/**
+ * On-device history of scored trips, newest first, plus the accumulators of
+ * the trip in progress so a restart mid-route doesn't lose the score so far.
+ *
+ * Trips stay on the phone; they are feedback for the driver, not a report
+ * for the fleet.
+ */
+export class TripHistory {
+  private trips: TripSummary[] = [];
+  private loadPromise?: Promise<void>;
+  private listeners = new Set<(trips: TripSummary[]) => void>();
+
+  async init(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this._load();
+    }
+    return this.loadPromise;
+  }
+
+  private async _load(): Promise<void> {
+    try {
+      const raw = await AsyncStorage.getItem(HISTORY_KEY);
+      this.trips = raw ? (JSON.parse(raw) as TripSummary[]) : [];
+      this.notify();
+    } catch (error) {
+      console.warn('[TripHistory] Failed to load trip history:', error);
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Subscriptions
+  // -----------------------------------------------------------------------
+
+  /** Scored trips, newest first */
+  getTrips(): TripSummary[] {
+    return this.trips;
+  }
+
+  /**
+   * Register a listener that receives the full trip list whenever it
+   * changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: (trips: TripSummary[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(this.trips);
+      } catch (error) {
+        console.warn('[TripHistory] Listener failed:', error);
+      }
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Completed trips
+  // -----------------------------------------------------------------------
+
+  async addTrip(trip: TripSummary): Promise<void> {
+    await this.init();
+    this.trips = [trip, ...this.trips.filter((t) => t.id !== trip.id)].slice(
+      0,
+      MAX_TRIPS,
+    );
+    this.notify();
+    try {
+      await AsyncStorage.setItem(HISTORY_KEY, JSON.stringify(this.trips));
+    } catch (error) {
+      console.warn('[TripHistory] Failed to save trip:', error);
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Trip in progress
+  // -----------------------------------------------------------------------
+
+  async loadActiveTrip(): Promise<TripStats | null> {
+    try {
+      const raw = await AsyncStorage.getItem(ACTIVE_TRIP_KEY);
+      return raw ? (JSON.parse(raw) as TripStats) : null;
+    } catch (error) {
+      console.warn('[TripHistory] Failed to load active trip:', error);
+      return null;
+    }
+  }
+
+  async saveActiveTrip(stats: TripStats): Promise<void> {
+    try {
+      await AsyncStorage.setItem(ACTIVE_TRIP_KEY, JSON.stringify(stats));
+    } catch (error) {
+      console.warn('[TripHistory] Failed to save active trip:', error);
+    }
+  }
+
+  async clearActiveTrip(): Promise<void> {
+    await AsyncStorage.removeItem(ACTIVE_TRIP_KEY);
+  }
+
+  /** Remove all trips (used on sign-out) */
+  async clear(): Promise<void> {
+    await this.init();
+    this.trips = [];
+    this.notify();
+    await AsyncStorage.multiRemove([HISTORY_KEY, ACTIVE_TRIP_KEY]);
+  }
+}
+
+export const tripHistory = new TripHistory();
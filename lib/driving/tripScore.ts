@@ -0,0 +1,319 @@
+import { distanceMeters } from '../geo';
+import type {
+  DrivingEventKind,
+  DrivingEventSeverity,
+  SensorReading,
+} from '../sensor-streaming/types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Raw accumulators for a trip in progress (persisted between app launches) */
+export interface TripStats {
+  routeId: string;
+  startedAt: number;
+  lastFixAt: number | null;
+  lastLng: number | null;
+  lastLat: number | null;
+  distanceM: number;
+  movingMs: number;
+  speedingMs: number;
+  phoneHandlingMs: number;
+  idleMs: number;
+  /** Current stationary streak with the phone at rest (not yet counted) */
+  stationaryStreakMs: number;
+  events: Record<DrivingEventKind, number>;
+  /** Severity-weighted event count used for scoring */
+  weightedEvents: number;
+}
+
+/** 0–100 sub-scores; higher is safer */
+export interface TripScoreBreakdown {
+  speeding: number;
+  harshEvents: number;
+  phoneHandling: number;
+  idle: number;
+}
+
+export interface TripSummary {
+  id: string;
+  routeId: string;
+  routeName?: string;
+  startedAt: number;
+  endedAt: number;
+  distanceKm: number;
+  durationMs: number;
+  movingMs: number;
+  speedingMs: number;
+  phoneHandlingMs: number;
+  idleMs: number;
+  events: Record<DrivingEventKind, number>;
+  score: number;
+  breakdown: TripScoreBreakdown;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/**
+ * Speed above which driving counts as speeding. Routes carry no speed limit
+ * data yet, so this is a flat urban/highway compromise.
+ */
+const SPEEDING_THRESHOLD_MS = 90 / 3.6;
+/** Below this speed (m/s) the vehicle is considered stationary */
+const STATIONARY_SPEED_MS = 0.5;
+/** Stationary time shorter than this (traffic lights, junctions) isn't idling */
+const IDLE_GRACE_MS = 60_000;
+/** Gaps between fixes longer than this are not attributed to any bucket */
+const MAX_FIX_GAP_MS = 10_000;
+/** Fixes less accurate than this (m) don't contribute to distance */
+const MAX_FIX_ACCURACY_M = 50;
+
+/** Rotation (rad/s) off the vertical axis that suggests the phone is in hand */
+const HANDLING_ROTATION_RATE = 1;
+/** Dynamic accel (g) below which the phone is considered at rest */
+const PHONE_AT_REST_G = 0.05;
+/** Gap between gyro samples beyond which handling time isn't extrapolated */
+const MAX_SAMPLE_GAP_MS = 200;
+
+const EVENT_WEIGHTS: Record<DrivingEventSeverity, number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+};
+const IMPACT_WEIGHT = 5;
+
+/** Relative weight of each sub-score in the overall score */
+const SCORE_WEIGHTS: TripScoreBreakdown = {
+  speeding: 0.3,
+  harshEvents: 0.35,
+  phoneHandling: 0.2,
+  idle: 0.15,
+};
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+
+function clampScore(value: number): number {
+  return Math.round(Math.max(0, Math.min(100, value)));
+}
+
+/**
+ * Turn raw trip accumulators into sub-scores and an overall score.
+ *
+ * - speeding:       share of moving time above the threshold (25% → 0)
+ * - harsh events:   severity-weighted events per driving hour (10/h → 0)
+ * - phone handling: share of moving time with the phone in hand (20% → 0)
+ * - idle:           share of the trip spent idling (50% → 0)
+ */
+export function scoreTrip(
+  stats: TripStats,
+  endedAt: number,
+): { score: number; breakdown: TripScoreBreakdown } {
+  const moving = Math.max(stats.movingMs, 1);
+  const durationMs = Math.max(endedAt - stats.startedAt, 1);
+  // At least a quarter hour so a single event on a short hop isn't fatal
+  const drivingHours = Math.max(stats.movingMs / 3_600_000, 0.25);
+
+  const breakdown: TripScoreBreakdown = {
+    speeding: clampScore(100 - 400 * (stats.speedingMs / moving)),
+    harshEvents: clampScore(100 - 10 * (stats.weightedEvents / drivingHours)),
+    phoneHandling: clampScore(100 - 500 * (stats.phoneHandlingMs / moving)),
+    idle: clampScore(100 - 200 * (stats.idleMs / durationMs)),
+  };
+
+  const score = clampScore(
+    breakdown.speeding * SCORE_WEIGHTS.speeding +
+      breakdown.harshEvents * SCORE_WEIGHTS.harshEvents +
+      breakdown.phoneHandling * SCORE_WEIGHTS.phoneHandling +
+      breakdown.idle * SCORE_WEIGHTS.idle,
+  );
+
+  return { score, breakdown };
+}
+
+// ---------------------------------------------------------------------------
+// TripScorer
+// ---------------------------------------------------------------------------
+
+export function createTripStats(routeId: string, startedAt: number): TripStats {
+  return {
+    routeId,
+    startedAt,
+    lastFixAt: null,
+    lastLng: null,
+    lastLat: null,
+    distanceM: 0,
+    movingMs: 0,
+    speedingMs: 0,
+    phoneHandlingMs: 0,
+    idleMs: 0,
+    stationaryStreakMs: 0,
+    events: {
+      harsh_braking: 0,
+      harsh_acceleration: 0,
+      sharp_cornering: 0,
+      impact: 0,
+    },
+    weightedEvents: 0,
+  };
+}
+
+/**
+ * Accumulates driving behaviour for a single route from the sensor stream.
+ *
+ * Phone handling and idling are proxies: the phone rotating off the vertical
+ * axis while moving suggests it is in the driver's hand, and sitting still
+ * with the phone at rest (the driver is in the cab, not walking a delivery)
+ * for longer than a traffic light suggests the engine is idling.
+ */
+export class TripScorer {
+  readonly stats: TripStats;
+
+  private gravity: { x: number; y: number; z: number } | null = null;
+  private dynamicG = 0;
+  private lastGyroAt: number | null = null;
+  private currentSpeed = 0;
+
+  constructor(stats: TripStats) {
+    this.stats = stats;
+  }
+
+  push(reading: SensorReading): void {
+    switch (reading.sensor) {
+      case 'location':
+        this.handleLocation(reading);
+        break;
+      case 'accel':
+        this.handleAccel(reading);
+        break;
+      case 'gyro':
+        this.handleGyro(reading);
+        break;
+      case 'event': {
+        const s = this.stats;
+        s.events[reading.kind] += 1;
+        s.weightedEvents +=
+          reading.kind === 'impact'
+            ? IMPACT_WEIGHT
+            : EVENT_WEIGHTS[reading.severity];
+        break;
+      }
+    }
+  }
+
+  /** Close the trip and compute its summary */
+  finish(endedAt: number, routeName?: string): TripSummary {
+    const s = this.stats;
+    this.settleStationaryStreak();
+    const { score, breakdown } = scoreTrip(s, endedAt);
+
+    return {
+      id: `${s.routeId}_${s.startedAt.toString(36)}`,
+      routeId: s.routeId,
+      routeName,
+      startedAt: s.startedAt,
+      endedAt,
+      distanceKm: Math.round(s.distanceM / 100) / 10,
+      durationMs: endedAt - s.startedAt,
+      movingMs: s.movingMs,
+      speedingMs: s.speedingMs,
+      phoneHandlingMs: s.phoneHandlingMs,
+      idleMs: s.idleMs,
+      events: { ...s.events },
+      score,
+      breakdown,
+    };
+  }
+
+  // -----------------------------------------------------------------------
+  // Sensor handlers
+  // -----------------------------------------------------------------------
+
+  private handleLocation(r: {
+    t: number;
+    lng: number;
+    lat: number;
+    accuracy?: number;
+    speed?: number;
+  }): void {
+    const s = this.stats;
+    const speed = r.speed !== undefined && r.speed >= 0 ? r.speed : 0;
+    this.currentSpeed = speed;
+
+    const dt = s.lastFixAt !== null ? r.t - s.lastFixAt : 0;
+    if (dt > 0 && dt <= MAX_FIX_GAP_MS) {
+      if (speed >= STATIONARY_SPEED_MS) {
+        s.movingMs += dt;
+        if (speed > SPEEDING_THRESHOLD_MS) s.speedingMs += dt;
+        this.settleStationaryStreak();
+      } else if (this.dynamicG < PHONE_AT_REST_G) {
+        s.stationaryStreakMs += dt;
+      } else {
+        // Phone is moving while the vehicle isn't – driver likely on foot
+        this.settleStationaryStreak();
+      }
+    }
+
+    const accurate =
+      r.accuracy === undefined || r.accuracy <= MAX_FIX_ACCURACY_M;
+    if (accurate) {
+      if (
+        s.lastLng !== null &&
+        s.lastLat !== null &&
+        speed >= STATIONARY_SPEED_MS
+      ) {
+        s.distanceM += distanceMeters([s.lastLng, s.lastLat], [r.lng, r.lat]);
+      }
+      s.lastLng = r.lng;
+      s.lastLat = r.lat;
+    }
+    s.lastFixAt = r.t;
+  }
+
+  private handleAccel(a: { x: number; y: number; z: number }): void {
+    if (!this.gravity) {
+      this.gravity = { ...a };
+      return;
+    }
+    const g = this.gravity;
+    g.x = 0.98 * g.x + 0.02 * a.x;
+    g.y = 0.98 * g.y + 0.02 * a.y;
+    g.z = 0.98 * g.z + 0.02 * a.z;
+
+    const dynamic = Math.hypot(a.x - g.x, a.y - g.y, a.z - g.z);
+    this.dynamicG = 0.9 * this.dynamicG + 0.1 * dynamic;
+  }
+
+  private handleGyro(r: { t: number; x: number; y: number; z: number }): void {
+    const last = this.lastGyroAt;
+    this.lastGyroAt = r.t;
+    if (!this.gravity || last === null) return;
+    if (this.currentSpeed < STATIONARY_SPEED_MS) return;
+
+    const dt = r.t - last;
+    if (dt <= 0 || dt > MAX_SAMPLE_GAP_MS) return;
+
+    // Vehicles turn around the vertical axis; anything else is the phone
+    const g = this.gravity;
+    const gLen = Math.hypot(g.x, g.y, g.z) || 1;
+    const yaw = (r.x * g.x + r.y * g.y + r.z * g.z) / gLen;
+    const total = Math.hypot(r.x, r.y, r.z);
+    const offAxis = Math.sqrt(Math.max(0, total * total - yaw * yaw));
+
+    if (offAxis >= HANDLING_ROTATION_RATE) {
+      this.stats.phoneHandlingMs += dt;
+    }
+  }
+
+  private settleStationaryStreak(): void {
+    const s = this.stats;
+    if (s.stationaryStreakMs > IDLE_GRACE_MS) {
+      s.idleMs += s.stationaryStreakMs;
+    }
+    s.stationaryStreakMs = 0;
+  }
+}
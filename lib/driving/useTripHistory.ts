@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+
+import { tripHistory } from './tripHistory';
+import type { TripSummary } from './tripScore';
+
+/**
+ * Hook exposing the scored trip history, re-rendering when a trip is added
+ */
+export function useTripHistory(): TripSummary[] {
+  const [trips, setTrips] = useState<TripSummary[]>(tripHistory.getTrips());
+
+  useEffect(() => {
+    const unsubscribe = tripHistory.subscribe(setTrips);
+    tripHistory.init().then(() => setTrips(tripHistory.getTrips()));
+    return unsubscribe;
+  }, []);
+
+  return trips;
+}
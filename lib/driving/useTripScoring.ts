@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { RouteStatus, type Route } from '../api/types';
+import type { SensorReading } from '../sensor-streaming/types';
+import { tripHistory } from './tripHistory';
+import { createTripStats, TripScorer } from './tripScore';
+
+/** How often the trip in progress is persisted while readings arrive */
+const ACTIVE_TRIP_SAVE_INTERVAL_MS = 30_000;
+
+/**
+ * Scores the driver's current trip from the sensor stream.
+ *
+ * A trip starts when a route goes `in_progress` and is saved to the trip
+ * history once that route is `completed`. If the app restarts mid-route the
+ * trip picks up where it left off. Pass the returned callback to
+ * `useAuthenticatedSensorStreaming` as `onReading`.
+ *
+ * @param routes - The driver's routes (e.g. today's, from `useRoutes`)
+ */
+export function useTripScoring(
+  routes: Route[],
+): (reading: SensorReading) => void {
+  const scorerRef = useRef<TripScorer | null>(null);
+  const lastSavedAtRef = useRef(0);
+  const [restored, setRestored] = useState(false);
+
+  // Pick up a trip interrupted by an app restart
+  useEffect(() => {
+    let cancelled = false;
+    void tripHistory.loadActiveTrip().then((stats) => {
+      if (cancelled) return;
+      if (stats && !scorerRef.current) {
+        scorerRef.current = new TripScorer(stats);
+      }
+      setRestored(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!restored) return;
+
+    const inProgress = routes.find((r) => r.status === RouteStatus.IN_PROGRESS);
+    const scorer = scorerRef.current;
+
+    if (scorer && scorer.stats.routeId !== inProgress?.id) {
+      const route = routes.find((r) => r.id === scorer.stats.routeId);
+      // Keep scoring across a temporary status change; a trip ends when its
+      // route is completed or the driver starts another one
+      if (route?.status === RouteStatus.COMPLETED || inProgress) {
+        scorerRef.current = null;
+        const endedAt = scorer.stats.lastFixAt ?? Date.now();
+        const summary = scorer.finish(endedAt, route?.name);
+        console.log(
+          `[TripScoring] Trip for route ${summary.routeId} finished, score ${summary.score}`,
+        );
+        void tripHistory.addTrip(summary);
+        void tripHistory.clearActiveTrip();
+      }
+    }
+
+    if (!scorerRef.current && inProgress) {
+      console.log(`[TripScoring] Starting trip for route ${inProgress.id}`);
+      const stats = createTripStats(inProgress.id, Date.now());
+      scorerRef.current = new TripScorer(stats);
+      lastSavedAtRef.current = Date.now();
+      void tripHistory.saveActiveTrip(stats);
+    }
+  }, [routes, restored]);
+
+  return useCallback((reading: SensorReading) => {
+    const scorer = scorerRef.current;
+    if (!scorer) return;
+    scorer.push(reading);
+
+    const now = Date.now();
+    if (now - lastSavedAtRef.current >= ACTIVE_TRIP_SAVE_INTERVAL_MS) {
+      lastSavedAtRef.current = now;
+      void tripHistory.saveActiveTrip(scorer.stats);
+    }
+  }, []);
+}
@@ -0,0 +1,60 @@
+/** [longitude, latitude], the order Mapbox and GeoJSON use */
+export type LngLat = [number, number];
+
+/** Mean Earth radius in metres */
+const EARTH_RADIUS_M = 6_371_000;
+
+function toRadians(deg: number): number {
+  return (deg * Math.PI) / 180;
+}
+
+/**
+ * Great-circle distance between two points in metres (haversine formula).
+ */
+export function distanceMeters(a: LngLat, b: LngLat): number {
+  const dLat = toRadians(b[1] - a[1]);
+  const dLng = toRadians(b[0] - a[0]);
+  const lat1 = toRadians(a[1]);
+  const lat2 = toRadians(b[1]);
+
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Project a point onto a flat x/y plane in metres around `origin`
+ * (equirectangular). Accurate to well under a metre within a few km.
+ */
+export function toLocalMeters(origin: LngLat, point: LngLat): [number, number] {
+  const metersPerDegree = (Math.PI / 180) * EARTH_RADIUS_M;
+  return [
+    (point[0] - origin[0]) * metersPerDegree * Math.cos(toRadians(origin[1])),
+    (point[1] - origin[1]) * metersPerDegree,
+  ];
+}
+
+/** Inverse of `toLocalMeters` */
+export function fromLocalMeters(origin: LngLat, xy: [number, number]): LngLat {
+  const metersPerDegree = (Math.PI / 180) * EARTH_RADIUS_M;
+  return [
+    origin[0] + xy[0] / (metersPerDegree * Math.cos(toRadians(origin[1]))),
+    origin[1] + xy[1] / metersPerDegree,
+  ];
+}
+
+/**
+ * Initial bearing from `a` to `b` in degrees clockwise from north (0–360).
+ */
+export function bearingDegrees(a: LngLat, b: LngLat): number {
+  const lat1 = toRadians(a[1]);
+  const lat2 = toRadians(b[1]);
+  const dLng = toRadians(b[0] - a[0]);
+
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x =
+    Math.cos(lat1) * Math.sin(lat2) -
+    Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'bun:test';
+
+import type { LngLat } from '../../geo';
+import {
+  buildRouteGuidance,
+  computeGuidanceProgress,
+  type GuidanceStop,
+} from '../routeGuidance';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const ORIGIN: LngLat = [4.9, 52.37];
+/** Roughly 1 km of longitude / latitude at this latitude */
+const KM_LNG = 0.0147;
+const KM_LAT = 0.009;
+
+function at(kmEast: number, kmNorth: number): LngLat {
+  return [ORIGIN[0] + kmEast * KM_LNG, ORIGIN[1] + kmNorth * KM_LAT];
+}
+
+/** Planned for A, B, C: east 1 km, north 1 km, east 1 km, north 1 km */
+const PLANNED: GeoJSON.LineString = {
+  type: 'LineString',
+  coordinates: [at(0, 0), at(1, 0), at(1, 1), at(2, 1), at(2, 2)],
+};
+
+function stop(id: string, coordinate: LngLat): GuidanceStop {
+  return { id, name: id.toUpperCase(), coordinate, isCompleted: false };
+}
+
+const A = stop('a', at(1, 0));
+const B = stop('b', at(1, 1));
+const C = stop('c', at(2, 1));
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('buildRouteGuidance', () => {
+  it('follows the planned geometry for the planned order', () => {
+    const guidance = buildRouteGuidance(PLANNED, [A, B, C])!;
+
+    expect(guidance.geometry).toBe(PLANNED);
+    expect(guidance.unplannedLegs).toEqual([]);
+    expect(guidance.stops.map((s) => Math.round(s.alongM / 100))).toEqual([
+      10, 20, 30,
+    ]);
+  });
+
+  it('re-slices the planned geometry for another stop order', () => {
+    const guidance = buildRouteGuidance(PLANNED, [B, A, C])!;
+
+    expect(guidance.stops.map((s) => s.id)).toEqual(['b', 'a', 'c']);
+    const along = guidance.stops.map((s) => s.alongM);
+    expect(along[0]).toBeLessThan(along[1]);
+    expect(along[1]).toBeLessThan(along[2]);
+
+    // Depot to B and A to C aren't next to each other in the plan; B back
+    // to A and C on to the end are planned road
+    const legs = guidance.unplannedLegs;
+    expect(legs).toHaveLength(2);
+    expect(legs[0].fromM).toBe(0);
+    expect(legs[0].toM).toBeCloseTo(along[0], 0);
+    expect(legs[1].fromM).toBeCloseTo(along[1], 0);
+    expect(legs[1].toM).toBeCloseTo(along[2], 0);
+    expect(guidance.path.totalM - along[2]).toBeCloseTo(1_000, -1);
+  });
+
+  it('only monitors the stretches that follow the plan', () => {
+    const guidance = buildRouteGuidance(PLANNED, [B, A, C])!;
+
+    // Heading back from B to A along the planned road
+    const planned = computeGuidanceProgress(guidance, at(1, 0.5), null);
+    expect(planned.onPlannedPath).toBe(true);
+    expect(planned.nextStop?.id).toBe('a');
+
+    // Cutting across from A to C
+    const straight = computeGuidanceProgress(guidance, at(1.5, 0.5), null);
+    expect(straight.onPlannedPath).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'bun:test';
+
+import type { LngLat } from '../../geo';
+import {
+  evaluateSequence,
+  optimizeStopOrder,
+  type OptimizerStop,
+  type SequenceOptions,
+} from '../stopOptimizer';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const ORIGIN: LngLat = [4.9, 52.37];
+/** Roughly 1 km of longitude at this latitude */
+const KM = 0.0147;
+
+const OPTIONS: SequenceOptions = { startAt: 0, speedMps: 10 };
+
+const NO_WINDOW = { startAt: null, endAt: null };
+
+function stop(id: string, kmEast: number, endAt: number | null = null): OptimizerStop {
+  return {
+    id,
+    coordinate: [ORIGIN[0] + kmEast * KM, ORIGIN[1]],
+    window: { startAt: null, endAt },
+  };
+}
+
+/** Stops scattered over ~10 km, the same every run */
+function scatteredStops(count: number): OptimizerStop[] {
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1_103_515_245 + 12_345) % 2 ** 31;
+    return seed / 2 ** 31;
+  };
+  return Array.from({ length: count }, (_, i) => ({
+    id: `s${i}`,
+    coordinate: [ORIGIN[0] + random() * 10 * KM, ORIGIN[1] + random() * 0.09],
+    window: NO_WINDOW,
+  }));
+}
+
+const ids = (stops: OptimizerStop[]) => stops.map((s) => s.id);
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('optimizeStopOrder', () => {
+  it('pulls a stop forward to make its window', async () => {
+    // C closes before the driver would get there via A and B
+    const stops = [stop('a', 1), stop('b', 2), stop('c', 3, 600_000)];
+    expect(evaluateSequence(ORIGIN, stops, OPTIONS).lateStops).toBe(1);
+
+    const optimized = await optimizeStopOrder(ORIGIN, stops, OPTIONS);
+
+    expect(optimized[0].id).toBe('c');
+    expect(evaluateSequence(ORIGIN, optimized, OPTIONS).lateStops).toBe(0);
+  });
+
+  it('keeps an order that is already the best', async () => {
+    const stops = [stop('a', 1), stop('b', 2), stop('c', 3)];
+
+    const optimized = await optimizeStopOrder(ORIGIN, stops, OPTIONS);
+
+    expect(ids(optimized)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('untangles a detour', async () => {
+    const stops = [stop('c', 3), stop('a', 1), stop('b', 2)];
+
+    const optimized = await optimizeStopOrder(ORIGIN, stops, OPTIONS);
+
+    expect(ids(optimized)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('never returns a worse order when out of time', async () => {
+    const stops = scatteredStops(40);
+    const before = evaluateSequence(ORIGIN, stops, OPTIONS);
+
+    const optimized = await optimizeStopOrder(ORIGIN, stops, {
+      ...OPTIONS,
+      budgetMs: 0,
+    });
+
+    expect([...ids(optimized)].sort()).toEqual([...ids(stops)].sort());
+    const after = evaluateSequence(ORIGIN, optimized, OPTIONS);
+    expect(after.durationS).toBeLessThanOrEqual(before.durationS);
+  });
+
+  it('stays within its budget and lets other work run', async () => {
+    const stops = scatteredStops(120);
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 0);
+
+    const startedAt = Date.now();
+    const optimized = await optimizeStopOrder(ORIGIN, stops, {
+      ...OPTIONS,
+      budgetMs: 100,
+    });
+    const elapsed = Date.now() - startedAt;
+    clearInterval(timer);
+
+    // One pass may run over; a full search on 120 stops takes far longer
+    expect(elapsed).toBeLessThan(1_000);
+    expect(ticks).toBeGreaterThan(0);
+    expect(optimized).toHaveLength(120);
+    expect(evaluateSequence(ORIGIN, optimized, OPTIONS).distanceM).toBeLessThan(
+      evaluateSequence(ORIGIN, stops, OPTIONS).distanceM,
+    );
+  });
+});
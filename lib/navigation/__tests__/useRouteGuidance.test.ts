@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { createElement } from 'react';
+import TestRenderer, { act } from 'react-test-renderer';
+
+import type { Mission, Route } from '@/lib/api/types';
+
+import { useRouteGuidance, type RouteGuidanceResult } from '../useRouteGuidance';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT =
+  true;
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const STOPS: [number, number][] = [
+  [4.89, 52.37],
+  [4.9, 52.375],
+];
+
+function route(geometry: Route['geometry']): Route {
+  return {
+    id: 'r1',
+    geometry,
+    vehicle: { startPoint: '4.88,52.36' },
+    routeMissions: STOPS.map(([lng, lat], i) => ({
+      id: `rm${i}`,
+      missionId: `m${i}`,
+      stopOrder: i,
+      mission: {
+        id: `m${i}`,
+        customerName: `Stop ${i}`,
+        latitude: lat,
+        longitude: lng,
+        status: 'assigned',
+      } as Mission,
+    })),
+  } as unknown as Route;
+}
+
+let result: RouteGuidanceResult | null = null;
+
+function Harness({ route }: { route: Route }) {
+  result = useRouteGuidance(route, null);
+  return null;
+}
+
+async function render(of: Route): Promise<RouteGuidanceResult> {
+  await act(async () => {
+    TestRenderer.create(createElement(Harness, { route: of }));
+  });
+  return result!;
+}
+
+afterEach(() => {
+  delete process.env.EXPO_PUBLIC_ROUTE_GUIDANCE_SOURCE;
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('useRouteGuidance', () => {
+  it('follows the planned geometry', async () => {
+    const geometry: GeoJSON.LineString = {
+      type: 'LineString',
+      coordinates: [[4.88, 52.36], ...STOPS],
+    };
+    const { guidance, unavailable, followsPlannedRoute } = await render(
+      route(geometry),
+    );
+
+    expect(unavailable).toBe(false);
+    expect(followsPlannedRoute).toBe(true);
+    expect(guidance?.geometry).toEqual(geometry);
+  });
+
+  it('has no guidance for a route without a planned path', async () => {
+    const { guidance, unavailable, followsPlannedRoute } = await render(
+      route(undefined),
+    );
+
+    expect(guidance).toBeNull();
+    expect(unavailable).toBe(true);
+    expect(followsPlannedRoute).toBe(false);
+  });
+
+  it('only plans its own path when the local router is selected', async () => {
+    process.env.EXPO_PUBLIC_ROUTE_GUIDANCE_SOURCE = 'local';
+    const { guidance, unavailable, followsPlannedRoute } = await render(
+      route(undefined),
+    );
+
+    expect(unavailable).toBe(false);
+    expect(guidance?.stops.map((s) => s.id)).toEqual(['m0', 'm1']);
+    // Not a path dispatch planned, so leaving it isn't a deviation
+    expect(followsPlannedRoute).toBe(false);
+  });
+});
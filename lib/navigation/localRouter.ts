@@ -0,0 +1,51 @@
+import { fromLocalMeters, toLocalMeters, type LngLat } from '../geo';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Where in-app guidance gets its geometry:
+ * - planned: the route geometry from the planner (default)
+ * - local: the bundled grid router below, for testing without the planner
+ */
+export type RouteGuidanceSource = 'planned' | 'local';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Legs shorter than this along one axis are driven straight (m) */
+const MIN_CORNER_LEG_M = 20;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Source selected via EXPO_PUBLIC_ROUTE_GUIDANCE_SOURCE (defaults to planned) */
+export function getRouteGuidanceSource(): RouteGuidanceSource {
+  const value = (process.env.EXPO_PUBLIC_ROUTE_GUIDANCE_SOURCE || '').toLowerCase();
+  return value === 'local' ? 'local' : 'planned';
+}
+
+/**
+ * Stand-in for the routing engine: connects the waypoints on a
+ * Manhattan grid (east/west first, then north/south). Not a road network,
+ * but it produces real turns, so guidance can be exercised on a device
+ * or simulator without planned routes.
+ */
+export function planLocalRoute(waypoints: LngLat[]): GeoJSON.LineString {
+  const coordinates: LngLat[] = [];
+  for (let i = 0; i < waypoints.length; i++) {
+    const to = waypoints[i];
+    const from = waypoints[i - 1];
+    if (from) {
+      const [dx, dy] = toLocalMeters(from, to);
+      if (Math.abs(dx) >= MIN_CORNER_LEG_M && Math.abs(dy) >= MIN_CORNER_LEG_M) {
+        coordinates.push(fromLocalMeters(from, [dx, 0]));
+      }
+    }
+    coordinates.push(to);
+  }
+  return { type: 'LineString', coordinates };
+}
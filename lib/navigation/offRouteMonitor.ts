@@ -0,0 +1,160 @@
+import type { LngLat } from '../geo';
+import type { RouteDeviationReading } from '../sensor-streaming/types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * - on_route:  inside the corridor
+ * - leaving:   outside the corridor, not yet for long enough to report
+ * - off_route: deviation confirmed and reported
+ * - returning: back inside after a deviation, not yet for long enough
+ */
+export type OffRouteState = 'on_route' | 'leaving' | 'off_route' | 'returning';
+
+type OffRouteMonitorConfig = {
+  routeId: string;
+  /** Distance either side of the route before the driver is off it (m) */
+  corridorM: number;
+  /** How long a change must last before it's reported (ms) */
+  confirmMs: number;
+  onDeviation: (reading: RouteDeviationReading) => void;
+};
+
+// ---------------------------------------------------------------------------
+// OffRouteMonitor
+// ---------------------------------------------------------------------------
+
+/**
+ * Decides whether the driver has left the planned route from the distance
+ * between each position and the map-matched route.
+ *
+ * A single fix outside the corridor proves nothing – GPS jumps tens of
+ * metres in urban canyons – so both leaving and coming back only count
+ * once they've lasted `confirmMs`. The deviation's start time is when the
+ * driver first left the corridor, not when it was confirmed.
+ */
+export class OffRouteMonitor {
+  private readonly config: OffRouteMonitorConfig;
+
+  private state: OffRouteState = 'on_route';
+  private leftAt: number | null = null;
+  private returnedAt: number | null = null;
+  private maxDistanceM = 0;
+
+  constructor(config: OffRouteMonitorConfig) {
+    this.config = config;
+  }
+
+  get current(): OffRouteState {
+    return this.state;
+  }
+
+  /** The driver is off route as far as dispatch is concerned */
+  get isOffRoute(): boolean {
+    return this.state === 'off_route' || this.state === 'returning';
+  }
+
+  /**
+   * Feed the distance to the route for one position.
+   *
+   * @param t - Time of the position (epoch ms)
+   * @param distanceM - Distance from the position to the route
+   * @param position - The driver's position, attached to reported events
+   */
+  push(t: number, distanceM: number, position: LngLat): OffRouteState {
+    const { corridorM, confirmMs } = this.config;
+    const outside = distanceM > corridorM;
+
+    switch (this.state) {
+      case 'on_route':
+        if (outside) {
+          this.state = 'leaving';
+          this.leftAt = t;
+          this.maxDistanceM = distanceM;
+        }
+        break;
+
+      case 'leaving':
+        if (!outside) {
+          // Noise – never reported
+          this.state = 'on_route';
+          this.leftAt = null;
+          this.maxDistanceM = 0;
+          break;
+        }
+        this.maxDistanceM = Math.max(this.maxDistanceM, distanceM);
+        if (t - this.leftAt! >= confirmMs) {
+          this.state = 'off_route';
+          this.report('start', t, position);
+        }
+        break;
+
+      case 'off_route':
+        this.maxDistanceM = Math.max(this.maxDistanceM, distanceM);
+        if (!outside) {
+          this.state = 'returning';
+          this.returnedAt = t;
+        }
+        break;
+
+      case 'returning':
+        if (outside) {
+          this.state = 'off_route';
+          this.returnedAt = null;
+          this.maxDistanceM = Math.max(this.maxDistanceM, distanceM);
+          break;
+        }
+        if (t - this.returnedAt! >= confirmMs) {
+          this.report('end', t, position);
+          this.reset();
+        }
+        break;
+    }
+    return this.state;
+  }
+
+  /**
+   * Close a deviation in progress, e.g. when the route is finished or
+   * guidance stops. Reports the end only if the start was reported.
+   */
+  finish(t: number, position: LngLat | null): void {
+    if (this.isOffRoute) {
+      this.report('end', t, position);
+    }
+    this.reset();
+  }
+
+  reset(): void {
+    this.state = 'on_route';
+    this.leftAt = null;
+    this.returnedAt = null;
+    this.maxDistanceM = 0;
+  }
+
+  // -----------------------------------------------------------------------
+  // Internals
+  // -----------------------------------------------------------------------
+
+  private report(
+    phase: RouteDeviationReading['phase'],
+    t: number,
+    position: LngLat | null,
+  ): void {
+    const reading: RouteDeviationReading = {
+      t,
+      sensor: 'deviation',
+      phase,
+      routeId: this.config.routeId,
+      startedAt: this.leftAt ?? t,
+      maxDistanceM: Math.round(this.maxDistanceM),
+      corridorM: this.config.corridorM,
+    };
+    if (position) {
+      reading.lng = position[0];
+      reading.lat = position[1];
+    }
+    this.config.onDeviation(reading);
+  }
+}
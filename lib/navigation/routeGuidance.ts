@@ -0,0 +1,506 @@
+import {
+  bearingDegrees,
+  distanceMeters,
+  fromLocalMeters,
+  toLocalMeters,
+  type LngLat,
+} from '../geo';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ManeuverType =
+  | 'slight_left'
+  | 'left'
+  | 'sharp_left'
+  | 'slight_right'
+  | 'right'
+  | 'sharp_right'
+  | 'uturn'
+  | 'arrive';
+
+/** The route geometry flattened into one polyline */
+export type GuidancePath = {
+  points: LngLat[];
+  /** Distance from the start of the path to each point (m) */
+  cumulative: number[];
+  totalM: number;
+};
+
+export type GuidanceStop = {
+  id: string;
+  name: string;
+  coordinate: LngLat;
+  isCompleted: boolean;
+};
+
+/** A stop matched to its position along the path */
+export type PlacedStop = GuidanceStop & {
+  alongM: number;
+};
+
+export type RouteManeuver = {
+  type: ManeuverType;
+  /** Distance from the start of the path (m) */
+  alongM: number;
+  coordinate: LngLat;
+  /** Set for arrivals at a stop */
+  stopId?: string;
+};
+
+/** Stretch of the path with no planned geometry behind it */
+export type UnplannedLeg = {
+  fromM: number;
+  toM: number;
+};
+
+export type RouteGuidance = {
+  /** Geometry the guidance follows, for drawing on the map */
+  geometry: GeoJSON.LineString | GeoJSON.MultiLineString;
+  path: GuidancePath;
+  maneuvers: RouteManeuver[];
+  stops: PlacedStop[];
+  /**
+   * Straight lines between stops the planned geometry doesn't connect,
+   * when the stops are visited in another order than planned
+   */
+  unplannedLegs: UnplannedLeg[];
+};
+
+export type GuidanceProgress = {
+  /** The fix this progress was computed for */
+  position: LngLat;
+  /** Distance travelled along the path (m) */
+  alongM: number;
+  /** Closest point on the path to the driver */
+  snapped: LngLat;
+  /** Distance from the driver to the path (m) */
+  offRouteM: number;
+  nextManeuver: RouteManeuver | null;
+  distanceToManeuverM: number | null;
+  nextStop: PlacedStop | null;
+  distanceToStopM: number | null;
+  remainingM: number;
+  /** The driver is on a stretch the planned geometry covers */
+  onPlannedPath: boolean;
+};
+
+type PathProjection = {
+  alongM: number;
+  distanceM: number;
+  coordinate: LngLat;
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Points closer than this are treated as duplicates (m) */
+const MIN_POINT_SPACING_M = 0.5;
+
+/** How far before/after a vertex to measure the turn angle (m) */
+const TURN_LOOK_M = 15;
+/** Turns within this distance are reported as one maneuver (m) */
+const TURN_MERGE_M = 30;
+
+/** Turn angle thresholds (degrees) */
+const SLIGHT_TURN_DEG = 25;
+const TURN_DEG = 50;
+const SHARP_TURN_DEG = 120;
+const UTURN_DEG = 160;
+
+/** Don't add a separate final arrival if the last stop is this close (m) */
+const END_ARRIVAL_MIN_M = 30;
+
+/** Search window around the previous position on the path (m) */
+const PROGRESS_BACKTRACK_M = 50;
+const PROGRESS_LOOKAHEAD_M = 2_000;
+/** Beyond this, the windowed match is dropped for a search of the whole path (m) */
+const REACQUIRE_M = 100;
+
+/** A stop counts as passed this far beyond it, even if not completed (m) */
+const STOP_PASSED_M = 50;
+
+/**
+ * A stop this much further from the path beyond the previous stop than
+ * from the path as a whole comes earlier in the plan (m)
+ */
+const OUT_OF_ORDER_M = 100;
+
+// ---------------------------------------------------------------------------
+// Path
+// ---------------------------------------------------------------------------
+
+/**
+ * Flatten a LineString/MultiLineString into one polyline. MultiLineString
+ * parts are the legs between stops, so they are joined in order.
+ */
+export function buildGuidancePath(
+  geometry: GeoJSON.LineString | GeoJSON.MultiLineString,
+): GuidancePath {
+  const parts =
+    geometry.type === 'LineString'
+      ? [geometry.coordinates]
+      : geometry.coordinates;
+
+  const points: LngLat[] = [];
+  const cumulative: number[] = [];
+  for (const part of parts) {
+    for (const position of part) {
+      const point: LngLat = [position[0], position[1]];
+      const previous = points[points.length - 1];
+      if (!previous) {
+        points.push(point);
+        cumulative.push(0);
+        continue;
+      }
+      const step = distanceMeters(previous, point);
+      if (step < MIN_POINT_SPACING_M) continue;
+      points.push(point);
+      cumulative.push(cumulative[cumulative.length - 1] + step);
+    }
+  }
+
+  return {
+    points,
+    cumulative,
+    totalM: cumulative.length > 0 ? cumulative[cumulative.length - 1] : 0,
+  };
+}
+
+/**
+ * Closest point on the path to `point`, considering only the part between
+ * `fromM` and `toM` along it. Returns null for an empty window.
+ */
+export function projectOntoPath(
+  path: GuidancePath,
+  point: LngLat,
+  fromM = 0,
+  toM = Infinity,
+): PathProjection | null {
+  const { points, cumulative } = path;
+  if (points.length === 1) {
+    return {
+      alongM: 0,
+      distanceM: distanceMeters(points[0], point),
+      coordinate: points[0],
+    };
+  }
+
+  let best: PathProjection | null = null;
+  for (let i = 0; i < points.length - 1; i++) {
+    if (cumulative[i + 1] < fromM) continue;
+    if (cumulative[i] > toM) break;
+
+    const a = points[i];
+    const [px, py] = toLocalMeters(a, point);
+    const [vx, vy] = toLocalMeters(a, points[i + 1]);
+    const lengthSq = vx * vx + vy * vy;
+    const t =
+      lengthSq > 0
+        ? Math.min(1, Math.max(0, (px * vx + py * vy) / lengthSq))
+        : 0;
+    const cx = vx * t;
+    const cy = vy * t;
+    const distanceM = Math.hypot(px - cx, py - cy);
+
+    if (!best || distanceM < best.distanceM) {
+      best = {
+        alongM: cumulative[i] + t * (cumulative[i + 1] - cumulative[i]),
+        distanceM,
+        coordinate: fromLocalMeters(a, [cx, cy]),
+      };
+    }
+  }
+  return best;
+}
+
+/** The point at a distance along the path */
+function pointAlong(path: GuidancePath, alongM: number): LngLat {
+  const { points, cumulative } = path;
+  if (alongM <= 0) return points[0];
+  if (alongM >= path.totalM) return points[points.length - 1];
+
+  let i = 1;
+  while (cumulative[i] < alongM) i++;
+  const a = points[i - 1];
+  const t = (alongM - cumulative[i - 1]) / (cumulative[i] - cumulative[i - 1]);
+  const [x, y] = toLocalMeters(a, points[i]);
+  return fromLocalMeters(a, [x * t, y * t]);
+}
+
+/** The part of the path between two distances, in the direction given */
+function slicePath(path: GuidancePath, fromM: number, toM: number): LngLat[] {
+  const lo = Math.min(fromM, toM);
+  const hi = Math.max(fromM, toM);
+  const slice = [
+    pointAlong(path, lo),
+    ...path.points.filter(
+      (_, i) => path.cumulative[i] > lo && path.cumulative[i] < hi,
+    ),
+    pointAlong(path, hi),
+  ];
+  return fromM <= toM ? slice : slice.reverse();
+}
+
+function lengthM(points: LngLat[]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += distanceMeters(points[i - 1], points[i]);
+  }
+  return total;
+}
+
+// ---------------------------------------------------------------------------
+// Maneuvers
+// ---------------------------------------------------------------------------
+
+function classifyTurn(delta: number): ManeuverType | null {
+  const angle = Math.abs(delta);
+  if (angle < SLIGHT_TURN_DEG) return null;
+  if (angle >= UTURN_DEG) return 'uturn';
+  const right = delta > 0;
+  if (angle < TURN_DEG) return right ? 'slight_right' : 'slight_left';
+  if (angle < SHARP_TURN_DEG) return right ? 'right' : 'left';
+  return right ? 'sharp_right' : 'sharp_left';
+}
+
+/** Signed change of direction at each vertex, measured over TURN_LOOK_M */
+function findTurns(path: GuidancePath): RouteManeuver[] {
+  const { points, cumulative } = path;
+  const candidates: (RouteManeuver & { angle: number })[] = [];
+
+  let back = 0;
+  let ahead = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    while (back < i - 1 && cumulative[i] - cumulative[back + 1] >= TURN_LOOK_M) {
+      back++;
+    }
+    ahead = Math.max(ahead, i + 1);
+    while (
+      ahead < points.length - 1 &&
+      cumulative[ahead] - cumulative[i] < TURN_LOOK_M
+    ) {
+      ahead++;
+    }
+
+    const incoming = bearingDegrees(points[back], points[i]);
+    const outgoing = bearingDegrees(points[i], points[ahead]);
+    const delta = ((outgoing - incoming + 540) % 360) - 180;
+    const type = classifyTurn(delta);
+    if (!type) continue;
+
+    candidates.push({
+      type,
+      alongM: cumulative[i],
+      coordinate: points[i],
+      angle: Math.abs(delta),
+    });
+  }
+
+  // Vertices around one corner all see the turn; keep the sharpest
+  const turns: RouteManeuver[] = [];
+  let group: (RouteManeuver & { angle: number })[] = [];
+  const flush = () => {
+    if (group.length === 0) return;
+    const { angle: _angle, ...sharpest } = group.reduce((a, b) =>
+      b.angle > a.angle ? b : a,
+    );
+    turns.push(sharpest);
+    group = [];
+  };
+  for (const candidate of candidates) {
+    const last = group[group.length - 1];
+    if (last && candidate.alongM - last.alongM > TURN_MERGE_M) flush();
+    group.push(candidate);
+  }
+  flush();
+  return turns;
+}
+
+/**
+ * Match stops to the path in route order. Each stop is searched for beyond
+ * the previous one, so routes that double back still place stops correctly.
+ */
+function placeStops(path: GuidancePath, stops: GuidanceStop[]): PlacedStop[] {
+  const placed: PlacedStop[] = [];
+  let fromM = 0;
+  for (const stop of stops) {
+    const projection = projectOntoPath(path, stop.coordinate, fromM);
+    const alongM = projection?.alongM ?? fromM;
+    placed.push({ ...stop, alongM });
+    fromM = alongM;
+  }
+  return placed;
+}
+
+/** Whether the path reaches the stops in the order given */
+function followsStopOrder(path: GuidancePath, stops: GuidanceStop[]): boolean {
+  let fromM = 0;
+  for (const stop of stops) {
+    const inOrder = projectOntoPath(path, stop.coordinate, fromM);
+    const anywhere = projectOntoPath(path, stop.coordinate);
+    if (!inOrder || !anywhere) continue;
+    // The search starts at the segment the previous stop is on, so a stop
+    // can still land behind it
+    if (inOrder.alongM < fromM - OUT_OF_ORDER_M) return false;
+    if (inOrder.distanceM - anywhere.distanceM > OUT_OF_ORDER_M) return false;
+    fromM = Math.max(fromM, inOrder.alongM);
+  }
+  return true;
+}
+
+/**
+ * Rebuild the path for stops taken in another order than planned, e.g.
+ * while the driver's own order awaits dispatch. Legs between stops that
+ * are next to each other in the plan are cut from the planned geometry
+ * (backwards if need be); the others are straight lines.
+ */
+function reorderPath(
+  path: GuidancePath,
+  stops: GuidanceStop[],
+): { geometry: GeoJSON.LineString; unplannedLegs: UnplannedLeg[] } {
+  const anywhereM = new Map(
+    stops.map((s) => [s.id, projectOntoPath(path, s.coordinate)?.alongM ?? 0]),
+  );
+  const planned = placeStops(
+    path,
+    [...stops].sort((a, b) => anywhereM.get(a.id)! - anywhereM.get(b.id)!),
+  );
+
+  // The planned start and end are kept unless they are the first/last stop
+  type Anchor = { id: string | null; alongM: number };
+  const first = planned[0];
+  const last = planned[planned.length - 1];
+  const start: Anchor[] =
+    first.alongM > END_ARRIVAL_MIN_M ? [{ id: null, alongM: 0 }] : [];
+  const end: Anchor[] =
+    path.totalM - last.alongM > END_ARRIVAL_MIN_M
+      ? [{ id: null, alongM: path.totalM }]
+      : [];
+
+  const plannedAnchors = [...start, ...planned, ...end];
+  const plannedIndex = new Map(plannedAnchors.map((a, i) => [a, i]));
+  const byId = new Map(planned.map((s) => [s.id, s]));
+  const anchors = [...start, ...stops.map((s) => byId.get(s.id)!), ...end];
+
+  const points: LngLat[] = [];
+  const unplannedLegs: UnplannedLeg[] = [];
+  let totalM = 0;
+  for (let i = 1; i < anchors.length; i++) {
+    const from = anchors[i - 1];
+    const to = anchors[i];
+    const isPlanned =
+      Math.abs(plannedIndex.get(from)! - plannedIndex.get(to)!) === 1;
+    const leg = isPlanned
+      ? slicePath(path, from.alongM, to.alongM)
+      : [pointAlong(path, from.alongM), pointAlong(path, to.alongM)];
+    const legM = lengthM(leg);
+    if (!isPlanned) unplannedLegs.push({ fromM: totalM, toM: totalM + legM });
+    points.push(...(points.length > 0 ? leg.slice(1) : leg));
+    totalM += legM;
+  }
+
+  return { geometry: { type: 'LineString', coordinates: points }, unplannedLegs };
+}
+
+// ---------------------------------------------------------------------------
+// Guidance
+// ---------------------------------------------------------------------------
+
+/**
+ * Prepare turn-by-turn guidance along a planned route. Returns null if the
+ * geometry has fewer than two distinct points. Stops taken in another
+ * order than the geometry was planned for get a path rebuilt from it (see
+ * reorderPath).
+ */
+export function buildRouteGuidance(
+  plannedGeometry: GeoJSON.LineString | GeoJSON.MultiLineString,
+  stops: GuidanceStop[],
+): RouteGuidance | null {
+  let geometry = plannedGeometry;
+  let path = buildGuidancePath(geometry);
+  if (path.points.length < 2) return null;
+
+  let unplannedLegs: UnplannedLeg[] = [];
+  if (stops.length > 1 && !followsStopOrder(path, stops)) {
+    ({ geometry, unplannedLegs } = reorderPath(path, stops));
+    path = buildGuidancePath(geometry);
+  }
+
+  const placedStops = placeStops(path, stops);
+  // Arrivals go first so they win over a turn at the same spot (stable sort)
+  const maneuvers: RouteManeuver[] = placedStops.map((stop) => ({
+    type: 'arrive',
+    alongM: stop.alongM,
+    coordinate: stop.coordinate,
+    stopId: stop.id,
+  }));
+  const lastStop = placedStops[placedStops.length - 1];
+  if (!lastStop || path.totalM - lastStop.alongM > END_ARRIVAL_MIN_M) {
+    maneuvers.push({
+      type: 'arrive',
+      alongM: path.totalM,
+      coordinate: path.points[path.points.length - 1],
+    });
+  }
+  maneuvers.push(...findTurns(path));
+  maneuvers.sort((a, b) => a.alongM - b.alongM);
+
+  return { geometry, path, maneuvers, stops: placedStops, unplannedLegs };
+}
+
+/**
+ * Where the driver is along the route and what comes next.
+ *
+ * Pass the previous `alongM` so the match stays on the current part of
+ * the route where it crosses or runs alongside itself.
+ */
+export function computeGuidanceProgress(
+  guidance: RouteGuidance,
+  position: LngLat,
+  previousAlongM: number | null,
+): GuidanceProgress {
+  const { path, maneuvers, stops, unplannedLegs } = guidance;
+
+  let projection: PathProjection | null = null;
+  if (previousAlongM !== null) {
+    projection = projectOntoPath(
+      path,
+      position,
+      previousAlongM - PROGRESS_BACKTRACK_M,
+      previousAlongM + PROGRESS_LOOKAHEAD_M,
+    );
+    if (projection && projection.distanceM > REACQUIRE_M) projection = null;
+  }
+  projection ??= projectOntoPath(path, position)!;
+
+  const { alongM } = projection;
+  const completed = new Set(
+    stops.filter((s) => s.isCompleted).map((s) => s.id),
+  );
+
+  const nextManeuver =
+    maneuvers.find(
+      (m) => m.alongM > alongM && !(m.stopId && completed.has(m.stopId)),
+    ) ?? null;
+  const nextStop =
+    stops.find((s) => !s.isCompleted && s.alongM > alongM - STOP_PASSED_M) ??
+    null;
+
+  return {
+    position,
+    alongM,
+    snapped: projection.coordinate,
+    offRouteM: projection.distanceM,
+    nextManeuver,
+    distanceToManeuverM: nextManeuver ? nextManeuver.alongM - alongM : null,
+    nextStop,
+    distanceToStopM: nextStop ? Math.max(0, nextStop.alongM - alongM) : null,
+    remainingM: Math.max(0, path.totalM - alongM),
+    onPlannedPath: !unplannedLegs.some(
+      (leg) => alongM > leg.fromM && alongM < leg.toM,
+    ),
+  };
+}
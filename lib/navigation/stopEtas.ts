@@ -0,0 +1,302 @@
+import type { Mission, Route } from '../api/types';
+import type { PlacedStop } from './routeGuidance';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * - on_time: arrives inside the window with margin to spare
+ * - at_risk: arrives inside the window, but close to its end
+ * - late:    arrives after the window has closed
+ */
+export type EtaRisk = 'on_time' | 'at_risk' | 'late';
+
+export type StopEta = {
+  missionId: string;
+  /** Expected arrival (epoch ms) */
+  arrivalAt: number;
+  /** Distance left along the route to the stop (m) */
+  distanceM: number;
+  /** End of the delivery window (epoch ms), null if it couldn't be parsed */
+  windowEndAt: number | null;
+  risk: EtaRisk;
+};
+
+export type StopWindow = {
+  startAt: number | null;
+  endAt: number | null;
+};
+
+export type RouteEtaState = {
+  /** Route the ETAs belong to, null when no route is being driven */
+  routeId: string | null;
+  /** ETAs of the remaining stops, by mission id */
+  etas: Record<string, StopEta>;
+  /** Speed the ETAs were computed with (m/s) */
+  speedMps: number | null;
+  updatedAt: number | null;
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Arriving this close to the end of the window flags the stop (ms) */
+const AT_RISK_MARGIN_MS = 10 * 60_000;
+/** Time spent at each stop handing over the delivery (ms) */
+export const SERVICE_TIME_MS = 5 * 60_000;
+
+/** Used when neither observed nor planned speed is available (~30 km/h) */
+const DEFAULT_SPEED_MPS = 8.3;
+const MIN_SPEED_MPS = 2;
+const MAX_SPEED_MPS = 30;
+
+/** Observed speed is averaged over this much recent driving (ms) */
+const SPEED_WINDOW_MS = 15 * 60_000;
+/** Minimum driving time before the observed speed is trusted (ms) */
+const MIN_SPEED_SAMPLE_MS = 2 * 60_000;
+/** Below this near a stop the driver is delivering, not driving (m/s) */
+const DWELL_SPEED_MPS = 0.5;
+/** Distance along the route within which the driver is at a stop (m) */
+const AT_STOP_M = 100;
+
+// ---------------------------------------------------------------------------
+// Time windows
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve a mission time window to epoch ms. Windows are either ISO
+ * timestamps or a local "HH:MM[:SS]" on the mission's date.
+ */
+export function timeWindowToEpochMs(
+  value: string | null | undefined,
+  date: string | null | undefined,
+): number | null {
+  if (!value) return null;
+
+  if (value.includes('T')) {
+    const t = Date.parse(value);
+    return isNaN(t) ? null : t;
+  }
+
+  const time = value.split(':').map((p) => parseInt(p, 10));
+  const day = (date ?? '').slice(0, 10).split('-').map((p) => parseInt(p, 10));
+  if (time.length < 2 || time.some(isNaN)) return null;
+  if (day.length !== 3 || day.some(isNaN)) return null;
+
+  const t = new Date(
+    day[0],
+    day[1] - 1,
+    day[2],
+    time[0],
+    time[1],
+    time[2] ?? 0,
+  ).getTime();
+  return isNaN(t) ? null : t;
+}
+
+export function missionWindow(mission: Mission): StopWindow {
+  return {
+    startAt: timeWindowToEpochMs(mission.startTimeWindow, mission.date),
+    endAt: timeWindowToEpochMs(mission.endTimeWindow, mission.date),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Speed
+// ---------------------------------------------------------------------------
+
+function clampSpeed(speedMps: number): number {
+  return Math.min(MAX_SPEED_MPS, Math.max(MIN_SPEED_MPS, speedMps));
+}
+
+/** Average speed the route was planned with, if it has the totals */
+export function plannedSpeedMps(route: Route): number | null {
+  const { totalDistanceMeters, totalDurationSeconds } = route;
+  if (!totalDistanceMeters || !totalDurationSeconds) return null;
+  return clampSpeed(totalDistanceMeters / totalDurationSeconds);
+}
+
+/**
+ * Rolling average of the driver's speed along the route.
+ *
+ * Measured on distance along the route rather than GPS speed, so detours
+ * and waiting in traffic slow the ETAs down as they should. Time parked at
+ * a stop is left out – the service time already accounts for it.
+ */
+export class AverageSpeedEstimator {
+  private intervals: { t: number; durationMs: number; distanceM: number }[] =
+    [];
+  private last: { t: number; alongM: number } | null = null;
+
+  /**
+   * @param t - Time of the position (epoch ms)
+   * @param alongM - Distance travelled along the route
+   * @param atStop - The driver is at one of the route's stops
+   */
+  push(t: number, alongM: number, atStop: boolean): void {
+    const last = this.last;
+    this.last = { t, alongM };
+    if (!last) return;
+
+    const durationMs = t - last.t;
+    const distanceM = alongM - last.alongM;
+    // Reacquiring the route can jump backwards; that interval says nothing
+    if (durationMs <= 0 || distanceM < 0) return;
+    if (atStop && (distanceM / durationMs) * 1000 < DWELL_SPEED_MPS) return;
+
+    this.intervals.push({ t, durationMs, distanceM });
+    const cutoff = t - SPEED_WINDOW_MS;
+    while (this.intervals.length > 0 && this.intervals[0].t < cutoff) {
+      this.intervals.shift();
+    }
+  }
+
+  /** Observed speed (m/s), null until there's enough driving to go on */
+  get speedMps(): number | null {
+    let durationMs = 0;
+    let distanceM = 0;
+    for (const interval of this.intervals) {
+      durationMs += interval.durationMs;
+      distanceM += interval.distanceM;
+    }
+    if (durationMs < MIN_SPEED_SAMPLE_MS) return null;
+    return clampSpeed((distanceM / durationMs) * 1000);
+  }
+
+  reset(): void {
+    this.intervals = [];
+    this.last = null;
+  }
+}
+
+/** Whether the driver is at one of the stops, by distance along the route */
+export function isAtStop(stops: PlacedStop[], alongM: number): boolean {
+  return stops.some((s) => Math.abs(s.alongM - alongM) <= AT_STOP_M);
+}
+
+// ---------------------------------------------------------------------------
+// ETAs
+// ---------------------------------------------------------------------------
+
+function riskFor(arrivalAt: number, windowEndAt: number | null): EtaRisk {
+  if (windowEndAt === null) return 'on_time';
+  if (arrivalAt > windowEndAt) return 'late';
+  if (arrivalAt > windowEndAt - AT_RISK_MARGIN_MS) return 'at_risk';
+  return 'on_time';
+}
+
+/**
+ * Rolling ETAs for the remaining stops, in route order.
+ *
+ * Each stop is reached from the previous one at `speedMps`; arriving early
+ * means waiting for the window to open, and every stop adds the service
+ * time before the driver moves on. A stop already passed but not completed
+ * is where the driver is now.
+ *
+ * @param now - Current time (epoch ms)
+ * @param alongM - The driver's distance along the route
+ * @param stops - The route's stops placed along its path
+ * @param windows - Delivery windows by mission id
+ * @param speedMps - Average speed to drive the rest of the route at
+ */
+export function computeStopEtas(
+  now: number,
+  alongM: number,
+  stops: PlacedStop[],
+  windows: Record<string, StopWindow>,
+  speedMps: number,
+): Record<string, StopEta> {
+  const etas: Record<string, StopEta> = {};
+  let clock = now;
+  let fromM = alongM;
+
+  for (const stop of stops) {
+    if (stop.isCompleted) continue;
+
+    const legM = Math.max(0, stop.alongM - fromM);
+    const arrivalAt = clock + (legM / speedMps) * 1000;
+    const window = windows[stop.id];
+    const windowEndAt = window?.endAt ?? null;
+
+    etas[stop.id] = {
+      missionId: stop.id,
+      arrivalAt,
+      distanceM: Math.max(0, stop.alongM - alongM),
+      windowEndAt,
+      risk: riskFor(arrivalAt, windowEndAt),
+    };
+
+    clock = Math.max(arrivalAt, window?.startAt ?? arrivalAt) + SERVICE_TIME_MS;
+    fromM = Math.max(fromM, stop.alongM);
+  }
+  return etas;
+}
+
+/** Observed speed, else the route's planned average, else a city default */
+export function resolveSpeedMps(
+  observedMps: number | null,
+  route: Route,
+): number {
+  return observedMps ?? plannedSpeedMps(route) ?? DEFAULT_SPEED_MPS;
+}
+
+// ---------------------------------------------------------------------------
+// RouteEtaStore
+// ---------------------------------------------------------------------------
+
+const EMPTY_STATE: RouteEtaState = {
+  routeId: null,
+  etas: {},
+  speedMps: null,
+  updatedAt: null,
+};
+
+/**
+ * Latest stop ETAs for the route being driven. Computed on the tracking
+ * screen, where guidance runs, and read by the route and mission lists.
+ * Kept in memory only – ETAs are stale the moment the app stops tracking.
+ */
+export class RouteEtaStore {
+  private state: RouteEtaState = EMPTY_STATE;
+  private listeners = new Set<(state: RouteEtaState) => void>();
+
+  getState(): RouteEtaState {
+    return this.state;
+  }
+
+  /**
+   * Subscribe to ETA updates.
+   * Returns an unsubscribe function.
+   */
+  subscribe(listener: (state: RouteEtaState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  update(
+    routeId: string,
+    etas: Record<string, StopEta>,
+    speedMps: number,
+  ): void {
+    this.state = { routeId, etas, speedMps, updatedAt: Date.now() };
+    this.notify();
+  }
+
+  clear(): void {
+    if (this.state === EMPTY_STATE) return;
+    this.state = EMPTY_STATE;
+    this.notify();
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener(this.state);
+    }
+  }
+}
+
+export const routeEtas = new RouteEtaStore();
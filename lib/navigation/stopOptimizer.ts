@@ -0,0 +1,342 @@
+import { distanceMeters, type LngLat } from '../geo';
+import type { RouteGuidance } from './routeGuidance';
+import { SERVICE_TIME_MS, type StopWindow } from './stopEtas';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type OptimizerStop = {
+  id: string;
+  coordinate: LngLat;
+  window: StopWindow;
+};
+
+/**
+ * Road distances between pairs of stops known from a planned route, keyed
+ * by `legKey`. Anything missing falls back to straight-line distance.
+ */
+export type RoadLegs = Map<string, number>;
+
+export type SequenceOptions = {
+  /** When the driver sets off from the origin (epoch ms) */
+  startAt: number;
+  /** Average driving speed (m/s) */
+  speedMps: number;
+  roadLegs?: RoadLegs;
+};
+
+export type OptimizeOptions = SequenceOptions & {
+  /**
+   * How long the search may run before settling for the best order found
+   * so far (ms)
+   */
+  budgetMs?: number;
+};
+
+export type SequenceMetrics = {
+  /** Driving distance (m) */
+  distanceM: number;
+  /** Until the last stop is done, including waiting and service time (s) */
+  durationS: number;
+  /** Stops reached after their window closed */
+  lateStops: number;
+  /** Sum of how late those stops are (s) */
+  latenessS: number;
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Roads are longer than the crow flies; typical urban detour */
+const ROAD_DETOUR_FACTOR = 1.3;
+
+/** A late stop costs as much as this much extra driving (ms) */
+const LATE_STOP_PENALTY_MS = 60 * 60_000;
+
+/** Local search stops after this many improving passes */
+const MAX_IMPROVEMENT_PASSES = 500;
+/** Time the whole search may take by default (ms) */
+const DEFAULT_BUDGET_MS = 1_500;
+/** Improvements smaller than this are noise (ms) */
+const MIN_IMPROVEMENT_MS = 1_000;
+
+// ---------------------------------------------------------------------------
+// Distances
+// ---------------------------------------------------------------------------
+
+function legKey(fromId: string, toId: string): string {
+  return `${fromId}>${toId}`;
+}
+
+/**
+ * Road distances between consecutive stops of a planned route, measured
+ * along its geometry. Cached with the route, so they are available offline.
+ * Legs are assumed to be the same length in both directions. Straight lines
+ * guidance drew between reordered stops aren't road distances, so they are
+ * left out.
+ */
+export function roadLegsFromGuidance(guidance: RouteGuidance): RoadLegs {
+  const legs: RoadLegs = new Map();
+  const { stops, unplannedLegs } = guidance;
+  for (let i = 1; i < stops.length; i++) {
+    const from = stops[i - 1];
+    const to = stops[i];
+    const meters = to.alongM - from.alongM;
+    if (meters <= 0) continue;
+    const unplanned = unplannedLegs.some(
+      (leg) => leg.fromM < to.alongM && leg.toM > from.alongM,
+    );
+    if (unplanned) continue;
+    legs.set(legKey(from.id, to.id), meters);
+    legs.set(legKey(to.id, from.id), meters);
+  }
+  return legs;
+}
+
+/**
+ * Distances between every pair of points; index 0 is the origin, stop i
+ * is index i + 1
+ */
+function buildDistanceMatrix(
+  origin: LngLat,
+  stops: OptimizerStop[],
+  roadLegs: RoadLegs | undefined,
+): number[][] {
+  const points = [origin, ...stops.map((s) => s.coordinate)];
+  const ids = [null, ...stops.map((s) => s.id)];
+  return points.map((from, i) =>
+    points.map((to, j) => {
+      if (i === j) return 0;
+      const road =
+        ids[i] && ids[j] ? roadLegs?.get(legKey(ids[i]!, ids[j]!)) : undefined;
+      return road ?? distanceMeters(from, to) * ROAD_DETOUR_FACTOR;
+    }),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+type Problem = {
+  stops: OptimizerStop[];
+  matrix: number[][];
+  startAt: number;
+  speedMps: number;
+};
+
+/**
+ * Drive a sequence (stop indices) the way computeStopEtas does: wait for
+ * a window to open when early, then spend the service time at each stop.
+ */
+function simulate(problem: Problem, sequence: number[]): SequenceMetrics {
+  const { stops, matrix, startAt, speedMps } = problem;
+  let clock = startAt;
+  let from = 0;
+  let distanceM = 0;
+  let lateStops = 0;
+  let latenessMs = 0;
+
+  for (const index of sequence) {
+    const legM = matrix[from][index + 1];
+    distanceM += legM;
+    const arrivalAt = clock + (legM / speedMps) * 1000;
+    const { startAt: opensAt, endAt: closesAt } = stops[index].window;
+    if (closesAt !== null && arrivalAt > closesAt) {
+      lateStops++;
+      latenessMs += arrivalAt - closesAt;
+    }
+    clock = Math.max(arrivalAt, opensAt ?? arrivalAt) + SERVICE_TIME_MS;
+    from = index + 1;
+  }
+
+  return {
+    distanceM,
+    durationS: (clock - startAt) / 1000,
+    lateStops,
+    latenessS: latenessMs / 1000,
+  };
+}
+
+function cost(metrics: SequenceMetrics): number {
+  return (
+    metrics.durationS * 1000 +
+    metrics.latenessS * 1000 +
+    metrics.lateStops * LATE_STOP_PENALTY_MS
+  );
+}
+
+function buildProblem(
+  origin: LngLat,
+  stops: OptimizerStop[],
+  options: SequenceOptions,
+): Problem {
+  return {
+    stops,
+    matrix: buildDistanceMatrix(origin, stops, options.roadLegs),
+    startAt: options.startAt,
+    speedMps: options.speedMps,
+  };
+}
+
+/** Distance, time and lateness of visiting the stops in the given order */
+export function evaluateSequence(
+  origin: LngLat,
+  stops: OptimizerStop[],
+  options: SequenceOptions,
+): SequenceMetrics {
+  const problem = buildProblem(origin, stops, options);
+  return simulate(problem, stops.map((_, i) => i));
+}
+
+// ---------------------------------------------------------------------------
+// Solver
+// ---------------------------------------------------------------------------
+
+/** Let the UI render between passes */
+function yieldToUi(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * Greedy start: always go where service can begin soonest, which weighs
+ * distance against waiting for a window to open. Ties go to the stop whose
+ * window closes first.
+ */
+function nearestNeighbor(problem: Problem): number[] {
+  const { stops, matrix, startAt, speedMps } = problem;
+  const remaining = new Set(stops.map((_, i) => i));
+  const sequence: number[] = [];
+  let clock = startAt;
+  let from = 0;
+
+  while (remaining.size > 0) {
+    let best = -1;
+    let bestServiceAt = Infinity;
+    let bestClosesAt = Infinity;
+    for (const index of remaining) {
+      const arrivalAt = clock + (matrix[from][index + 1] / speedMps) * 1000;
+      const { startAt: opensAt, endAt: closesAt } = stops[index].window;
+      const serviceAt = Math.max(arrivalAt, opensAt ?? arrivalAt);
+      const closes = closesAt ?? Infinity;
+      if (
+        serviceAt < bestServiceAt ||
+        (serviceAt === bestServiceAt && closes < bestClosesAt)
+      ) {
+        best = index;
+        bestServiceAt = serviceAt;
+        bestClosesAt = closes;
+      }
+    }
+    sequence.push(best);
+    remaining.delete(best);
+    clock = bestServiceAt + SERVICE_TIME_MS;
+    from = best + 1;
+  }
+  return sequence;
+}
+
+/**
+ * Local search with 2-opt (reverse a stretch) and relocate (move one stop)
+ * moves, taking the first improvement found until none is left. Both are
+ * needed with time windows: 2-opt untangles crossings, relocate pulls a
+ * single urgent stop forward.
+ *
+ * Each pass is O(n³), so the search yields between passes and stops at
+ * `deadline` (epoch ms) with the best sequence so far.
+ */
+async function improve(
+  problem: Problem,
+  initial: number[],
+  deadline: number,
+): Promise<number[]> {
+  let sequence = initial;
+  let bestCost = cost(simulate(problem, sequence));
+  const n = sequence.length;
+  const outOfTime = () => Date.now() >= deadline;
+
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES && !outOfTime(); pass++) {
+    let improved = false;
+
+    for (let i = 0; i < n - 1 && !improved && !outOfTime(); i++) {
+      for (let j = i + 1; j < n && !improved; j++) {
+        const reversed = [
+          ...sequence.slice(0, i),
+          ...sequence.slice(i, j + 1).reverse(),
+          ...sequence.slice(j + 1),
+        ];
+        const reversedCost = cost(simulate(problem, reversed));
+        if (reversedCost < bestCost - MIN_IMPROVEMENT_MS) {
+          sequence = reversed;
+          bestCost = reversedCost;
+          improved = true;
+        }
+      }
+    }
+
+    for (let i = 0; i < n && !improved && !outOfTime(); i++) {
+      for (let j = 0; j < n && !improved; j++) {
+        if (i === j) continue;
+        const moved = [...sequence];
+        const [stop] = moved.splice(i, 1);
+        moved.splice(j, 0, stop);
+        const movedCost = cost(simulate(problem, moved));
+        if (movedCost < bestCost - MIN_IMPROVEMENT_MS) {
+          sequence = moved;
+          bestCost = movedCost;
+          improved = true;
+        }
+      }
+    }
+
+    if (!improved) break;
+    await yieldToUi();
+  }
+  return sequence;
+}
+
+/**
+ * Reorder the remaining stops on the device: nearest-neighbor construction
+ * followed by 2-opt/relocate improvement, scored on time to finish with a
+ * heavy penalty for missing a delivery window.
+ *
+ * Works offline – distances come from the planned route where it connects
+ * two stops, and from straight lines otherwise. Never returns an order
+ * that scores worse than the one passed in. Runs in slices between renders
+ * and within `budgetMs`, so long routes get a good order rather than the
+ * best one.
+ *
+ * @param origin - The driver's current location
+ * @param stops - Remaining stops in their current order
+ */
+export async function optimizeStopOrder(
+  origin: LngLat,
+  stops: OptimizerStop[],
+  options: OptimizeOptions,
+): Promise<OptimizerStop[]> {
+  if (stops.length < 2) return stops;
+
+  const problem = buildProblem(origin, stops, options);
+  const current = stops.map((_, i) => i);
+  const budgetMs = options.budgetMs ?? DEFAULT_BUDGET_MS;
+  const startedAt = Date.now();
+  // Improving the current order as well keeps what the planner got right;
+  // each start gets half the budget
+  const candidates = [
+    await improve(problem, nearestNeighbor(problem), startedAt + budgetMs / 2),
+    await improve(problem, current, startedAt + budgetMs),
+  ];
+
+  let best = current;
+  let bestCost = cost(simulate(problem, current));
+  for (const candidate of candidates) {
+    const candidateCost = cost(simulate(problem, candidate));
+    if (candidateCost < bestCost - MIN_IMPROVEMENT_MS) {
+      best = candidate;
+      bestCost = candidateCost;
+    }
+  }
+  return best.map((i) => stops[i]);
+}
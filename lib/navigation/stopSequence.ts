@@ -0,0 +1,80 @@
+import type { Mission } from '../api/types';
+import type { LngLat } from '../geo';
+import {
+  evaluateSequence,
+  type OptimizerStop,
+  type SequenceOptions,
+} from './stopOptimizer';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type SequenceImpact = {
+  /** Proposed minus current driving distance (m); negative is shorter */
+  distanceDeltaM: number;
+  /** Proposed minus current time to finish (s); negative is quicker */
+  durationDeltaS: number;
+  /** Stops that miss their window in the current order */
+  lateStopsBefore: number;
+  /** Stops that miss their window in the proposed order */
+  lateStopsAfter: number;
+};
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether a stop is behind the driver. Failed and rescheduled stops count
+ * too: they won't be visited again on this route.
+ */
+export function isStopDone(mission: Mission): boolean {
+  return (
+    mission.status === 'delivered' ||
+    mission.status === 'failed' ||
+    mission.status === 'rescheduleRequested'
+  );
+}
+
+/**
+ * Preview of what reordering the remaining stops does to the rest of the
+ * route, scored the same way as the on-device optimizer. An estimate for
+ * the driver and dispatch – the planner works out the real figures once
+ * the new order is accepted.
+ *
+ * @param origin - Where the driver sets off from
+ * @param current - Remaining stops in the current order
+ * @param proposed - The same stops in the proposed order
+ */
+export function estimateSequenceImpact(
+  origin: LngLat,
+  current: OptimizerStop[],
+  proposed: OptimizerStop[],
+  options: SequenceOptions,
+): SequenceImpact {
+  const before = evaluateSequence(origin, current, options);
+  const after = evaluateSequence(origin, proposed, options);
+  return {
+    distanceDeltaM: after.distanceM - before.distanceM,
+    durationDeltaS: after.durationS - before.durationS,
+    lateStopsBefore: before.lateStops,
+    lateStopsAfter: after.lateStops,
+  };
+}
+
+/**
+ * Put the remaining stops into a new order without moving the stops that
+ * are already done: each remaining stop's slot in the full order is filled
+ * from `remainingOrder` in turn.
+ */
+export function withRemainingOrder(
+  fullOrder: string[],
+  remainingOrder: string[],
+): string[] {
+  const remaining = new Set(remainingOrder);
+  let next = 0;
+  return fullOrder.map((id) =>
+    remaining.has(id) ? remainingOrder[next++] : id,
+  );
+}
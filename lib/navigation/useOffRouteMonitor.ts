@@ -0,0 +1,69 @@
+import { useEffect, useRef, useState } from 'react';
+
+import type { RouteDeviationReading } from '../sensor-streaming/types';
+import { OffRouteMonitor, type OffRouteState } from './offRouteMonitor';
+import type { GuidanceProgress } from './routeGuidance';
+
+interface UseOffRouteMonitorOptions {
+  /** Route being driven; monitoring stops when undefined */
+  routeId: string | undefined;
+  /** Computed once per fix, which is what the monitor is fed */
+  progress: GuidanceProgress | null;
+  corridorM: number;
+  confirmMs: number;
+  /** Receives deviation start/end readings for the sensor stream */
+  onDeviation: (reading: RouteDeviationReading) => void;
+}
+
+/**
+ * Watches guidance progress for the driver leaving the planned route's
+ * corridor. Returns the current state; deviations are reported through
+ * `onDeviation` once confirmed (see OffRouteMonitor).
+ */
+export function useOffRouteMonitor(
+  options: UseOffRouteMonitorOptions,
+): OffRouteState {
+  const { routeId, progress, corridorM, confirmMs } = options;
+  const onDeviationRef = useRef(options.onDeviation);
+  onDeviationRef.current = options.onDeviation;
+  const positionRef = useRef(progress?.position ?? null);
+  positionRef.current = progress?.position ?? positionRef.current;
+
+  const monitorRef = useRef<OffRouteMonitor | null>(null);
+  const [state, setState] = useState<OffRouteState>('on_route');
+
+  useEffect(() => {
+    if (!routeId) return;
+
+    const monitor = new OffRouteMonitor({
+      routeId,
+      corridorM,
+      confirmMs,
+      onDeviation: (reading) => {
+        console.log(
+          `[OffRoute] Deviation ${reading.phase} on route ${reading.routeId} ` +
+            `(max ${reading.maxDistanceM}m, corridor ${reading.corridorM}m)`,
+        );
+        onDeviationRef.current(reading);
+      },
+    });
+    monitorRef.current = monitor;
+
+    return () => {
+      // Route finished, guidance stopped or the corridor changed
+      monitor.finish(Date.now(), positionRef.current);
+      monitorRef.current = null;
+      setState('on_route');
+    };
+  }, [routeId, corridorM, confirmMs]);
+
+  useEffect(() => {
+    const monitor = monitorRef.current;
+    if (!monitor || !progress) return;
+    // No planned corridor to leave on a straight line between reordered stops
+    if (!progress.onPlannedPath) return;
+    setState(monitor.push(Date.now(), progress.offRouteM, progress.position));
+  }, [progress]);
+
+  return state;
+}
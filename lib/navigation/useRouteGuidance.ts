@@ -0,0 +1,122 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+
+import type { Mission, Route } from '../api/types';
+import type { LngLat } from '../geo';
+import { getRouteGuidanceSource, planLocalRoute } from './localRouter';
+import {
+  buildRouteGuidance,
+  computeGuidanceProgress,
+  type GuidanceProgress,
+  type GuidanceStop,
+  type RouteGuidance,
+} from './routeGuidance';
+import { isStopDone } from './stopSequence';
+
+/** Missions in stop order, preferring routeMissions (has stopOrder) */
+export function routeStopMissions(route: Route): Mission[] {
+  if (route.routeMissions && route.routeMissions.length > 0) {
+    return [...route.routeMissions]
+      .sort((a, b) => a.stopOrder - b.stopOrder)
+      .map((rm) => rm.mission)
+      .filter((m): m is Mission => m !== undefined);
+  }
+  return route.missions ?? [];
+}
+
+/** Vehicle start/end points are stored as "lng,lat" */
+function parsePoint(point: string | undefined): LngLat | null {
+  if (!point) return null;
+  const parts = point.split(',').map((p) => parseFloat(p.trim()));
+  if (parts.length === 2 && !isNaN(parts[0]) && !isNaN(parts[1])) {
+    return [parts[0], parts[1]];
+  }
+  return null;
+}
+
+export type RouteGuidanceResult = {
+  /** Null when there is nothing to follow */
+  guidance: RouteGuidance | null;
+  /** Null until the first position arrives */
+  progress: GuidanceProgress | null;
+  /**
+   * The route has no planned geometry to guide along, e.g. while the
+   * driver's own stop order awaits dispatch
+   */
+  unavailable: boolean;
+  /**
+   * Guidance follows the planner's geometry, so leaving it is a real
+   * deviation. False for the local grid router's stand-in path.
+   */
+  followsPlannedRoute: boolean;
+};
+
+/**
+ * In-app turn-by-turn guidance along a route's planned geometry.
+ *
+ * Follows `route.geometry` by default; with
+ * EXPO_PUBLIC_ROUTE_GUIDANCE_SOURCE=local the bundled grid router plans
+ * the path through the stops instead. The grid router is only a test
+ * stand-in, so a route without geometry gets no guidance otherwise.
+ *
+ * @param route - The route being driven
+ * @param position - The driver's filtered position
+ */
+export function useRouteGuidance(
+  route: Route | undefined,
+  position: LngLat | null,
+): RouteGuidanceResult {
+  const [progress, setProgress] = useState<GuidanceProgress | null>(null);
+  const previousAlongRef = useRef<number | null>(null);
+
+  const guidance = useMemo(() => {
+    if (!route) return null;
+
+    const stops: GuidanceStop[] = routeStopMissions(route)
+      .filter((m) => !isNaN(m.latitude) && !isNaN(m.longitude))
+      .map((m) => ({
+        id: m.id,
+        name: m.customerName || m.address,
+        coordinate: [m.longitude, m.latitude],
+        isCompleted: isStopDone(m),
+      }));
+
+    if (getRouteGuidanceSource() === 'local') {
+      const vehicle = route.vehicle as any;
+      const start = parsePoint(vehicle?.startPoint);
+      const end = parsePoint(vehicle?.endPoint);
+      const waypoints = [
+        ...(start ? [start] : []),
+        ...stops.map((s) => s.coordinate),
+        ...(end ? [end] : []),
+      ];
+      if (waypoints.length < 2) return null;
+      return buildRouteGuidance(planLocalRoute(waypoints), stops);
+    }
+
+    if (!route.geometry) return null;
+    return buildRouteGuidance(route.geometry, stops);
+  }, [route]);
+
+  const isLocal = getRouteGuidanceSource() === 'local';
+  const unavailable = !!route && !route.geometry && !isLocal;
+  const followsPlannedRoute = guidance !== null && !isLocal;
+
+  // A new route starts from scratch
+  useEffect(() => {
+    previousAlongRef.current = null;
+    setProgress(null);
+  }, [guidance]);
+
+  useEffect(() => {
+    if (!guidance || !position) return;
+    const next = computeGuidanceProgress(
+      guidance,
+      position,
+      previousAlongRef.current,
+    );
+    previousAlongRef.current = next.alongM;
+    setProgress(next);
+  }, [guidance, position]);
+
+  return { guidance, progress, unavailable, followsPlannedRoute };
+}
@@ -0,0 +1,76 @@
+import { useEffect, useMemo, useRef } from 'react';
+
+import type { Route } from '../api/types';
+import type { GuidanceProgress, RouteGuidance } from './routeGuidance';
+import {
+  AverageSpeedEstimator,
+  computeStopEtas,
+  isAtStop,
+  missionWindow,
+  resolveSpeedMps,
+  routeEtas,
+  type StopWindow,
+} from './stopEtas';
+import { routeStopMissions } from './useRouteGuidance';
+
+/** ETAs are displayed to the minute; no need to recompute on every fix */
+const UPDATE_INTERVAL_MS = 10_000;
+
+/**
+ * Keeps the shared stop ETAs (see RouteEtaStore) up to date while a route
+ * is driven with in-app guidance. ETAs are cleared when another route is
+ * driven or none is.
+ *
+ * @param route - The route being driven
+ * @param guidance - Guidance for the route, from useRouteGuidance
+ * @param progress - The driver's progress along it
+ */
+export function useStopEtaTracking(
+  route: Route | undefined,
+  guidance: RouteGuidance | null,
+  progress: GuidanceProgress | null,
+): void {
+  const estimatorRef = useRef(new AverageSpeedEstimator());
+  const lastUpdateRef = useRef(0);
+
+  const windows = useMemo(() => {
+    const byMission: Record<string, StopWindow> = {};
+    if (!route) return byMission;
+    for (const mission of routeStopMissions(route)) {
+      byMission[mission.id] = missionWindow(mission);
+    }
+    return byMission;
+  }, [route]);
+
+  const routeId = route?.id;
+  useEffect(() => {
+    estimatorRef.current.reset();
+    return () => routeEtas.clear();
+  }, [routeId]);
+
+  // Stops completed or the route refetched – recompute straight away
+  useEffect(() => {
+    lastUpdateRef.current = 0;
+  }, [guidance]);
+
+  useEffect(() => {
+    if (!route || !guidance || !progress) return;
+
+    const now = Date.now();
+    const estimator = estimatorRef.current;
+    estimator.push(
+      now,
+      progress.alongM,
+      isAtStop(guidance.stops, progress.alongM),
+    );
+    if (now - lastUpdateRef.current < UPDATE_INTERVAL_MS) return;
+    lastUpdateRef.current = now;
+
+    const speedMps = resolveSpeedMps(estimator.speedMps, route);
+    routeEtas.update(
+      route.id,
+      computeStopEtas(now, progress.alongM, guidance.stops, windows, speedMps),
+      speedMps,
+    );
+  }, [route, guidance, progress, windows]);
+}
@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+
+import { routeEtas, type RouteEtaState } from './stopEtas';
+
+/**
+ * Hook exposing the latest stop ETAs for the route being driven,
+ * re-rendering whenever they are recomputed
+ */
+export function useStopEtas(): RouteEtaState {
+  const [state, setState] = useState<RouteEtaState>(routeEtas.getState());
+
+  useEffect(() => {
+    setState(routeEtas.getState());
+    return routeEtas.subscribe(setState);
+  }, []);
+
+  return state;
+}
@@ -8,6 +8,11 @@ import {
     useState,
     type ReactNode,
 } from 'react';
+import type {
+    BatteryImpact,
+    MotionState,
+    SamplingProfile,
+} from './motionState';
 
 export type StreamingStatus = 'off' | 'live' | 'error' | 'draining';
 
@@ -24,8 +29,8 @@ export interface SensorThroughput {
   totalBatchesSent: number;
   /** Total batches that failed since streaming started */
   totalBatchesFailed: number;
-  /** Total bytes estimated sent (rough estimate based on reading count) */
-  estimatedBytesSent: number;
+  /** Total request body bytes sent, including failed attempts */
+  totalBytesSent: number;
   /** Readings breakdown by sensor type per second */
   readingsByType: {
     accel: number;
@@ -46,10 +51,22 @@ export interface SensorThroughput {
   maxLatencyMs: number;
   /** P95 latency approximation (ms) */
   p95LatencyMs: number;
-  /** Data throughput in bytes per second (estimated) */
+  /** Data throughput in bytes per second */
   bytesPerSecond: number;
 }
 
+/** Current motion mode and what it costs in battery */
+export interface SensorMotionStatus {
+  state: MotionState;
+  batteryImpact: BatteryImpact;
+  /** Estimated power draw relative to full-rate driving sampling (0–1) */
+  relativePower: number;
+  imuRateHz: number;
+  locationIntervalMs: number;
+  /** When the current mode was entered (epoch ms) */
+  since: number;
+}
+
 const EMPTY_THROUGHPUT: SensorThroughput = {
   readingsPerSecond: 0,
   batchesSentPerSecond: 0,
@@ -57,7 +74,7 @@ const EMPTY_THROUGHPUT: SensorThroughput = {
   totalReadingsCollected: 0,
   totalBatchesSent: 0,
   totalBatchesFailed: 0,
-  estimatedBytesSent: 0,
+  totalBytesSent: 0,
   readingsByType: { accel: 0, gyro: 0, location: 0 },
   queueDepth: 0,
   hasPendingQueue: false,
@@ -69,9 +86,6 @@ const EMPTY_THROUGHPUT: SensorThroughput = {
   bytesPerSecond: 0,
 };
 
-/** Approximate bytes per reading for estimation purposes */
-const ESTIMATED_BYTES_PER_READING = 120;
-
 /** Max latency samples to keep for percentile calculation */
 const MAX_LATENCY_SAMPLES = 100;
 
@@ -85,20 +99,26 @@ interface SensorStreamingStatusContextValue {
   consecutiveFailures: number;
   /** Live throughput metrics */
   throughput: SensorThroughput;
+  /** Motion-based sampling mode, null while streaming is off */
+  motion: SensorMotionStatus | null;
   /** Report a successful batch send */
   reportSuccess: () => void;
   /** Report a failed batch send */
   reportFailure: () => void;
   /** Report sensor readings collected (call with count and sensor type) */
   reportReadings: (count: number, sensorType?: 'accel' | 'gyro' | 'location') => void;
-  /** Report a batch of readings sent successfully (with reading count in the batch) */
-  reportBatchSent: (readingCount: number) => void;
+  /** Report a batch of readings sent successfully */
+  reportBatchSent: () => void;
   /** Report a batch send failure */
   reportBatchFailed: () => void;
+  /** Report the size of a request body sent to the server (measured) */
+  reportBytesSent: (bytes: number) => void;
   /** Report a latency measurement (round-trip HTTP call to ClickHouse, in ms) */
   reportLatency: (latencyMs: number) => void;
   /** Report the current local queue depth (number of pending batches) */
   reportQueueDepth: (depth: number) => void;
+  /** Report a motion mode change and the sampling profile now in use */
+  reportMotionState: (state: MotionState, profile: SamplingProfile) => void;
   /** Set streaming to off */
   setOff: () => void;
 }
@@ -133,6 +153,7 @@ export function SensorStreamingStatusProvider({
   const [throughput, setThroughput] = useState<SensorThroughput>(EMPTY_THROUGHPUT);
   const failCountRef = useRef(0);
   const [consecutiveFailures, setConsecutiveFailures] = useState(0);
+  const [motion, setMotion] = useState<SensorMotionStatus | null>(null);
 
   // Accumulator refs for rate calculation (reset each interval)
   const readingsWindowRef = useRef(0);
@@ -198,7 +219,7 @@ export function SensorStreamingStatusProvider({
         totalReadingsCollected: totalReadingsRef.current,
         totalBatchesSent: totalBatchesSentRef.current,
         totalBatchesFailed: totalBatchesFailedRef.current,
-        estimatedBytesSent: totalBytesSentRef.current,
+        totalBytesSent: totalBytesSentRef.current,
         readingsByType,
         queueDepth,
         hasPendingQueue,
@@ -244,10 +265,12 @@ export function SensorStreamingStatusProvider({
     [],
   );
 
-  const reportBatchSent = useCallback((readingCount: number) => {
+  const reportBatchSent = useCallback(() => {
     batchesSentWindowRef.current += 1;
     totalBatchesSentRef.current += 1;
-    const bytes = readingCount * ESTIMATED_BYTES_PER_READING;
+  }, []);
+
+  const reportBytesSent = useCallback((bytes: number) => {
     totalBytesSentRef.current += bytes;
     bytesWindowRef.current += bytes;
   }, []);
@@ -283,6 +306,20 @@ export function SensorStreamingStatusProvider({
     });
   }, []);
 
+  const reportMotionState = useCallback(
+    (state: MotionState, profile: SamplingProfile) => {
+      setMotion({
+        state,
+        batteryImpact: profile.batteryImpact,
+        relativePower: profile.relativePower,
+        imuRateHz: profile.imuRateHz,
+        locationIntervalMs: profile.locationIntervalMs,
+        since: Date.now(),
+      });
+    },
+    [],
+  );
+
   const setOff = useCallback(() => {
     failCountRef.current = 0;
     setConsecutiveFailures(0);
@@ -305,6 +342,7 @@ export function SensorStreamingStatusProvider({
     lastLatencyRef.current = 0;
 
     setThroughput(EMPTY_THROUGHPUT);
+    setMotion(null);
   }, []);
 
   const value = useMemo(
@@ -312,26 +350,32 @@ export function SensorStreamingStatusProvider({
       status,
       consecutiveFailures,
       throughput,
+      motion,
       reportSuccess,
       reportFailure,
       reportReadings,
       reportBatchSent,
       reportBatchFailed,
+      reportBytesSent,
       reportLatency,
       reportQueueDepth,
+      reportMotionState,
       setOff,
     }),
     [
       status,
       consecutiveFailures,
       throughput,
+      motion,
       reportSuccess,
       reportFailure,
       reportReadings,
       reportBatchSent,
       reportBatchFailed,
+      reportBytesSent,
       reportLatency,
       reportQueueDepth,
+      reportMotionState,
       setOff,
     ],
   );
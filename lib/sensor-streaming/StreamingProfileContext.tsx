@@ -0,0 +1,176 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Battery from 'expo-battery';
+import {
+    createContext,
+    useCallback,
+    useContext,
+    useEffect,
+    useMemo,
+    useRef,
+    useState,
+    type ReactNode,
+} from 'react';
+import { Platform } from 'react-native';
+
+import { useDataUsage } from './useDataUsage';
+import {
+    STREAMING_PROFILES,
+    selectStreamingProfile,
+    type PowerSnapshot,
+    type StreamingProfile,
+    type StreamingProfileName,
+} from './streamingProfile';
+
+const PROFILE_OVERRIDE_KEY = 'sensor_streaming_profile_override';
+
+const UNKNOWN_POWER: PowerSnapshot = {
+  batteryLevel: -1,
+  isCharging: false,
+  lowPowerMode: false,
+};
+
+interface StreamingProfileContextValue {
+  /**
+   * Profile in effect: location-only once the daily data cap is reached,
+   * otherwise the driver's override or the automatic choice
+   */
+  profile: StreamingProfile;
+  /** What the battery state alone would select */
+  autoProfile: StreamingProfileName;
+  /** Profile chosen by the driver, null when automatic */
+  override: StreamingProfileName | null;
+  /** Pin a profile, or pass null to go back to automatic */
+  setOverride: (name: StreamingProfileName | null) => Promise<void>;
+  /** Latest battery readings */
+  power: PowerSnapshot;
+  /** Today's sensor data usage has reached the driver's daily cap */
+  dataCapReached: boolean;
+}
+
+const StreamingProfileContext =
+  createContext<StreamingProfileContextValue | null>(null);
+
+function isStreamingProfileName(value: string | null): value is StreamingProfileName {
+  return value !== null && value in STREAMING_PROFILES;
+}
+
+function toPowerSnapshot(state: Battery.PowerState): PowerSnapshot {
+  return {
+    batteryLevel: state.batteryLevel,
+    isCharging:
+      state.batteryState === Battery.BatteryState.CHARGING ||
+      state.batteryState === Battery.BatteryState.FULL,
+    lowPowerMode: state.lowPowerMode,
+  };
+}
+
+export function StreamingProfileProvider({
+  children,
+}: {
+  children: ReactNode;
+}) {
+  const [power, setPower] = useState<PowerSnapshot>(UNKNOWN_POWER);
+  const [override, setOverrideState] = useState<StreamingProfileName | null>(
+    null,
+  );
+  const [autoProfile, setAutoProfile] = useState<StreamingProfileName>('full');
+  const autoProfileRef = useRef<StreamingProfileName>('full');
+  const { capReached: dataCapReached } = useDataUsage();
+
+  // Load the driver's saved choice
+  useEffect(() => {
+    AsyncStorage.getItem(PROFILE_OVERRIDE_KEY)
+      .then((saved) => {
+        if (isStreamingProfileName(saved)) setOverrideState(saved);
+      })
+      .catch(() => {
+        // Fall back to automatic
+      });
+  }, []);
+
+  // Track battery level, charging state and low-power mode
+  useEffect(() => {
+    if (Platform.OS === 'web') return;
+
+    let cancelled = false;
+    Battery.getPowerStateAsync()
+      .then((state) => {
+        if (!cancelled) setPower(toPowerSnapshot(state));
+      })
+      .catch((error) => {
+        console.warn('[StreamingProfile] Battery state unavailable:', error);
+      });
+
+    const subs = [
+      Battery.addBatteryLevelListener(({ batteryLevel }) =>
+        setPower((prev) => ({ ...prev, batteryLevel })),
+      ),
+      Battery.addBatteryStateListener(({ batteryState }) =>
+        setPower((prev) => ({
+          ...prev,
+          isCharging:
+            batteryState === Battery.BatteryState.CHARGING ||
+            batteryState === Battery.BatteryState.FULL,
+        })),
+      ),
+      Battery.addLowPowerModeListener(({ lowPowerMode }) =>
+        setPower((prev) => ({ ...prev, lowPowerMode })),
+      ),
+    ];
+
+    return () => {
+      cancelled = true;
+      subs.forEach((sub) => sub.remove());
+    };
+  }, []);
+
+  // Re-evaluate the automatic profile (with hysteresis on the current one)
+  useEffect(() => {
+    const next = selectStreamingProfile(power, autoProfileRef.current);
+    if (next !== autoProfileRef.current) {
+      console.log(
+        `[StreamingProfile] Auto profile ${autoProfileRef.current} → ${next} ` +
+          `(battery ${Math.round(power.batteryLevel * 100)}%, ` +
+          `charging: ${power.isCharging}, low power: ${power.lowPowerMode})`,
+      );
+      autoProfileRef.current = next;
+      setAutoProfile(next);
+    }
+  }, [power]);
+
+  const setOverride = useCallback(
+    async (name: StreamingProfileName | null) => {
+      setOverrideState(name);
+      if (name) {
+        await AsyncStorage.setItem(PROFILE_OVERRIDE_KEY, name);
+      } else {
+        await AsyncStorage.removeItem(PROFILE_OVERRIDE_KEY);
+      }
+    },
+    [],
+  );
+
+  const profile =
+    STREAMING_PROFILES[dataCapReached ? 'minimal' : (override ?? autoProfile)];
+
+  const value = useMemo<StreamingProfileContextValue>(
+    () => ({ profile, autoProfile, override, setOverride, power, dataCapReached }),
+    [profile, autoProfile, override, setOverride, power, dataCapReached],
+  );
+
+  return (
+    <StreamingProfileContext.Provider value={value}>
+      {children}
+    </StreamingProfileContext.Provider>
+  );
+}
+
+export function useStreamingProfile(): StreamingProfileContextValue {
+  const context = useContext(StreamingProfileContext);
+  if (!context) {
+    throw new Error(
+      'useStreamingProfile must be used within a StreamingProfileProvider',
+    );
+  }
+  return context;
+}
@@ -0,0 +1,116 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { beforeEach, describe, expect, it, mock } from 'bun:test';
+
+import { resetAsyncStorage } from '@/test/asyncStorage';
+
+// ---------------------------------------------------------------------------
+// Fakes
+// ---------------------------------------------------------------------------
+
+const secureItems = new Map<string, string>();
+
+mock.module('react-native', () => ({ Platform: { OS: 'ios' } }));
+mock.module('expo-secure-store', () => ({
+  AFTER_FIRST_UNLOCK: 0,
+  getItemAsync: async (key: string) => secureItems.get(key) ?? null,
+  setItemAsync: async (key: string, value: string) => {
+    secureItems.set(key, value);
+  },
+  deleteItemAsync: async (key: string) => {
+    secureItems.delete(key);
+  },
+}));
+
+const { DriverPrivacyStore } = await import('../driverPrivacy');
+
+const HOME = { name: 'Home', lat: 52.37, lng: 4.89, radiusM: 300 } as const;
+
+beforeEach(() => {
+  secureItems.clear();
+  resetAsyncStorage();
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('DriverPrivacyStore', () => {
+  it('keeps zones out of AsyncStorage', async () => {
+    const store = new DriverPrivacyStore();
+    await store.claimForDriver('d1');
+    await store.addZone({ ...HOME, mode: 'suppress' });
+
+    const keys = await AsyncStorage.getAllKeys();
+    for (const key of keys) {
+      expect(await AsyncStorage.getItem(key)).not.toContain('Home');
+    }
+    expect(secureItems.get('sensor_driver_privacy')).toContain('Home');
+
+    // A cold start (e.g. the background task) sees the same zones
+    const reloaded = new DriverPrivacyStore();
+    await reloaded.init();
+    expect(reloaded.getState().zones).toHaveLength(1);
+  });
+
+  it("hides a driver's zones on sign-out and shows them again on sign-in", async () => {
+    const store = new DriverPrivacyStore();
+    await store.claimForDriver('d1');
+    await store.addZone({ ...HOME, mode: 'suppress' });
+    await store.clear();
+
+    expect(store.getState().zones).toEqual([]);
+    expect(secureItems.get('sensor_driver_privacy')).toContain('Home');
+
+    // Another driver on the same phone has their own zones
+    await store.claimForDriver('d2');
+    expect(store.getState().zones).toEqual([]);
+    await store.clear();
+
+    const restarted = new DriverPrivacyStore();
+    await restarted.claimForDriver('d1');
+    expect(restarted.getState().zones.map((z) => z.name)).toEqual(['Home']);
+  });
+
+  it('keeps unsent duty changes through sign-out for the same driver', async () => {
+    const store = new DriverPrivacyStore();
+    await store.claimForDriver('d1');
+    await store.goOffDuty('break');
+    await store.goOnDuty();
+    await store.clear();
+
+    expect(store.getState().offDuty).toBeNull();
+    expect(await store.takePendingAudit()).toEqual([]);
+
+    // Another driver doesn't get them
+    await store.claimForDriver('d2');
+    expect(await store.takePendingAudit()).toEqual([]);
+    await store.clear();
+
+    const restarted = new DriverPrivacyStore();
+    await restarted.claimForDriver('d1');
+    const audit = await restarted.takePendingAudit();
+    expect(audit.map((r) => r.status)).toEqual(['off_duty', 'on_duty']);
+    expect(await restarted.takePendingAudit()).toEqual([]);
+  });
+
+  it('moves settings from AsyncStorage to secure storage', async () => {
+    await AsyncStorage.setItem(
+      'sensor_driver_privacy',
+      JSON.stringify({
+        offDuty: { reason: 'break', since: 1 },
+        zones: [{ ...HOME, id: 'z1', mode: 'coarsen' }],
+        pendingAudit: [
+          { t: 1, sensor: 'duty', status: 'off_duty', reason: 'break', since: 1 },
+        ],
+      }),
+    );
+
+    const store = new DriverPrivacyStore();
+    await store.claimForDriver('d1');
+
+    expect(await AsyncStorage.getItem('sensor_driver_privacy')).toBeNull();
+    expect(store.getState().zones.map((z) => z.id)).toEqual(['z1']);
+    expect(store.getState().offDuty?.reason).toBe('break');
+    expect(await store.takePendingAudit()).toHaveLength(1);
+  });
+});
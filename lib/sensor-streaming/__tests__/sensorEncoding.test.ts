@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'bun:test';
+import { gunzipSync, strFromU8 } from 'fflate';
+
+import {
+  decodeReadings,
+  encodeReadings,
+  gzipJson,
+  parseStoredReadings,
+} from '../sensorEncoding';
+import type { SensorReading } from '../types';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+/** `seconds` of driving at 50 Hz IMU and 1 Hz GPS, with sensor noise */
+function drive(seconds: number, start = 1_760_000_000_000): SensorReading[] {
+  const readings: SensorReading[] = [];
+  let seed = 42;
+  const noise = () => {
+    seed = (seed * 1_103_515_245 + 12_345) % 2 ** 31;
+    return (seed / 2 ** 31 - 0.5) * 0.02;
+  };
+  for (let i = 0; i < seconds * 50; i++) {
+    const t = start + i * 20;
+    readings.push({ t, sensor: 'accel', x: 0.01 + noise(), y: -0.02 + noise(), z: 1 + noise() });
+    readings.push({ t: t + 1, sensor: 'gyro', x: noise(), y: noise(), z: 0.05 + noise() });
+    if (i % 50 === 0) {
+      readings.push({
+        t: t + 2,
+        sensor: 'location',
+        lng: 2.3522 + i * 1e-5,
+        lat: 48.8566 + i * 5e-6,
+        accuracy: 4.8,
+        speed: 12.34,
+        heading: i % 100 === 0 ? 87.5 : undefined,
+      });
+    }
+  }
+  return readings;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('sensorEncoding', () => {
+  it('round-trips readings within the fixed-point precision', () => {
+    const readings = drive(10);
+    readings.push({
+      t: readings[5].t,
+      sensor: 'event',
+      kind: 'harsh_braking',
+      severity: 'medium',
+      peakG: 0.45,
+      durationMs: 600,
+    });
+
+    const decoded = decodeReadings(encodeReadings(readings));
+    const expected = [...readings].sort((a, b) => a.t - b.t);
+
+    expect(decoded).toHaveLength(expected.length);
+    decoded.forEach((r, i) => {
+      const e = expected[i];
+      expect(r.t).toBe(e.t);
+      expect(r.sensor).toBe(e.sensor);
+      if ((r.sensor === 'accel' || r.sensor === 'gyro') && e.sensor === r.sensor) {
+        expect(Math.abs(r.x - e.x)).toBeLessThanOrEqual(0.0005);
+        expect(Math.abs(r.y - e.y)).toBeLessThanOrEqual(0.0005);
+        expect(Math.abs(r.z - e.z)).toBeLessThanOrEqual(0.0005);
+      } else if (r.sensor === 'location' && e.sensor === 'location') {
+        expect(Math.abs(r.lng - e.lng)).toBeLessThanOrEqual(5e-7);
+        expect(Math.abs(r.lat - e.lat)).toBeLessThanOrEqual(5e-7);
+        expect(r.accuracy).toBeCloseTo(e.accuracy!, 1);
+        expect(r.speed).toBeCloseTo(e.speed!, 2);
+        expect(r.heading).toBe(e.heading);
+      } else {
+        expect(r).toEqual(e);
+      }
+    });
+  });
+
+  it('is much smaller than the plain JSON readings', () => {
+    const readings = drive(60);
+    const plain = JSON.stringify(readings).length;
+    const compact = gzipJson(encodeReadings(readings));
+
+    // Wire size against the row format it replaced and against plain gzip
+    expect(compact.length).toBeLessThan(plain * 0.15);
+    expect(compact.length).toBeLessThan(gzipJson(readings).length * 0.6);
+    expect(JSON.parse(strFromU8(gunzipSync(compact))).v).toBe(1);
+  });
+
+  it('encodes batches too large to spread into Math.min', () => {
+    // More arguments than any engine takes in one call
+    const readings: SensorReading[] = Array.from(
+      { length: 1_100_000 },
+      (_, i) => ({ t: 2_000_000 - i, sensor: 'accel', x: 0, y: 0, z: 1 }),
+    );
+
+    const compact = encodeReadings(readings);
+    expect(compact.t0).toBe(900_001);
+    expect(compact.accel?.t).toHaveLength(readings.length);
+  });
+
+  it('reads rows stored before the compact format', () => {
+    const readings = drive(1);
+    const stored = parseStoredReadings(JSON.stringify(readings));
+    expect(decodeReadings(stored)).toHaveLength(readings.length);
+  });
+});
@@ -0,0 +1,282 @@
+import { beforeEach, describe, expect, it, mock } from 'bun:test';
+import { openDatabaseAsync } from 'expo-sqlite';
+
+import { resetDatabases, type FakeSQLiteDatabase } from '@/test/sqlite';
+
+import { encodeReadings } from '../sensorEncoding';
+import type { EvictedRange } from '../sensorQueue';
+import type { SensorStream } from '../types';
+
+// ---------------------------------------------------------------------------
+// Fakes
+// ---------------------------------------------------------------------------
+
+const secureItems = new Map<string, string>();
+
+mock.module('react-native', () => ({ Platform: { OS: 'ios' } }));
+mock.module('expo-secure-store', () => ({
+  AFTER_FIRST_UNLOCK: 0,
+  getItemAsync: async (key: string) => secureItems.get(key) ?? null,
+  setItemAsync: async (key: string, value: string) => {
+    secureItems.set(key, value);
+  },
+  deleteItemAsync: async (key: string) => {
+    secureItems.delete(key);
+  },
+}));
+mock.module('expo-crypto', () => ({
+  getRandomBytes: (n: number) => crypto.getRandomValues(new Uint8Array(n)),
+}));
+
+const { SensorQueue } = await import('../sensorQueue');
+
+/** Same as the queue's cap */
+const MAX_QUEUE_DEPTH = 10_000;
+
+beforeEach(() => {
+  secureItems.clear();
+  resetDatabases();
+});
+
+async function openQueue(): Promise<InstanceType<typeof SensorQueue>> {
+  const queue = new SensorQueue();
+  await queue.init();
+  return queue;
+}
+
+async function rawDatabase(): Promise<FakeSQLiteDatabase> {
+  const db = await openDatabaseAsync('sensor_queue.db');
+  return db as unknown as FakeSQLiteDatabase;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('SensorQueue sequencing', () => {
+  it('numbers each stream on its own', async () => {
+    const queue = await openQueue();
+
+    expect(queue.nextSequence('foreground')).toBe(1);
+    expect(queue.nextSequence('foreground')).toBe(2);
+    expect(queue.nextSequence('events')).toBe(1);
+    expect(queue.nextSequence('foreground')).toBe(3);
+  });
+
+  it('carries on from the last queued number after a restart', async () => {
+    const queue = await openQueue();
+    for (let i = 0; i < 3; i++) {
+      const seq = queue.nextSequence('foreground');
+      await queue.insertPendingBatch({
+        batchId: `fg${seq}`,
+        data: '{}',
+        stream: 'foreground',
+        seq,
+      });
+    }
+    await queue.insertPendingBatchImmediate({
+      batchId: 'ev1',
+      data: '{}',
+      stream: 'events',
+      seq: queue.nextSequence('events'),
+    });
+    await queue.close();
+
+    const restarted = await openQueue();
+    expect(restarted.nextSequence('foreground')).toBe(4);
+    expect(restarted.nextSequence('events')).toBe(2);
+    expect(restarted.nextSequence('background')).toBe(1);
+  });
+
+  it('hands out no numbers while batches cannot be stored', async () => {
+    const queue = new SensorQueue();
+    expect(queue.nextSequence('foreground')).toBeNull();
+
+    await queue.init();
+    expect(queue.nextSequence('foreground')).toBe(1);
+  });
+
+  it('reports numbers of batches that were never stored', async () => {
+    const queue = await openQueue();
+    const dropped: EvictedRange[][] = [];
+    queue.subscribeEvictions((ranges) => dropped.push(ranges));
+
+    // The same batch queued twice: the second copy is ignored
+    for (let i = 0; i < 2; i++) {
+      await queue.insertPendingBatch({
+        batchId: 'fg',
+        data: '{}',
+        stream: 'foreground',
+        seq: queue.nextSequence('foreground'),
+      });
+    }
+    await queue.flushInserts();
+    await queue.insertPendingBatchImmediate({
+      batchId: 'fg',
+      data: '{}',
+      stream: 'foreground',
+      seq: queue.nextSequence('foreground'),
+    });
+
+    expect(dropped).toEqual([
+      [{ stream: 'foreground', fromSeq: 2, toSeq: 2 }],
+      [{ stream: 'foreground', fromSeq: 3, toSeq: 3 }],
+    ]);
+    await queue.close();
+    expect((await openQueue()).nextSequence('foreground')).toBe(4);
+  });
+});
+
+describe('SensorQueue eviction', () => {
+  it('reports evicted batches as sequence ranges per stream', async () => {
+    await openQueue();
+    const db = await rawDatabase();
+
+    // A full queue: legacy rows without a sequence first, then foreground
+    // batches 1..n with 3 already delivered, and events interleaved
+    const insert = db.raw.query(
+      `INSERT INTO sensor_batches (batch_id, data, status, created_at, stream, seq)
+       VALUES (?, '{}', 'pending', ?, ?, ?)`,
+    );
+    const rows: [string, SensorStream | null, number | null][] = [];
+    for (let i = 0; i < 10; i++) rows.push([`legacy${i}`, null, null]);
+    let fg = 0;
+    let ev = 0;
+    while (rows.length < MAX_QUEUE_DEPTH) {
+      fg++;
+      if (fg === 3) continue;
+      rows.push([`fg${fg}`, 'foreground', fg]);
+      if (fg % 100 === 0) rows.push([`ev${++ev}`, 'events', ev]);
+    }
+    db.raw.transaction(() => {
+      rows.forEach(([batchId, stream, seq], i) =>
+        insert.run(batchId, i, stream, seq),
+      );
+    })();
+
+    // The cached depth is read when the queue opens
+    const queue = await openQueue();
+    const evicted: EvictedRange[][] = [];
+    queue.subscribeEvictions((ranges) => evicted.push(ranges));
+
+    await queue.insertPendingBatch({
+      batchId: 'new',
+      data: '{}',
+      stream: 'foreground',
+      seq: queue.nextSequence('foreground'),
+    });
+    await queue.flushInserts();
+
+    // The 500 oldest rows: 10 legacy, then fg 1..487 without 3, ev 1..4
+    expect(evicted).toHaveLength(1);
+    expect(evicted[0]).toEqual([
+      { stream: 'foreground', fromSeq: 1, toSeq: 2 },
+      { stream: 'foreground', fromSeq: 4, toSeq: 487 },
+      { stream: 'events', fromSeq: 1, toSeq: 4 },
+    ]);
+    const { count } = db.raw
+      .query(`SELECT COUNT(*) AS count FROM sensor_batches`)
+      .get() as { count: number };
+    expect(count).toBe(MAX_QUEUE_DEPTH - 500 + 1);
+  });
+
+  it('reports the ranges of an evicted gap marker again', async () => {
+    await openQueue();
+    const db = await rawDatabase();
+
+    // A marker for foreground 1..20, then foreground 21.. up to the cap
+    const marker = JSON.stringify({
+      batch_id: 'gap1',
+      device_id: 'device-1',
+      driver_id: null,
+      vehicle_id: null,
+      stream: 'gaps',
+      seq: 1,
+      readings: JSON.stringify(
+        encodeReadings([
+          {
+            t: 0,
+            sensor: 'gap',
+            stream: 'foreground',
+            fromSeq: 1,
+            toSeq: 20,
+            reason: 'evicted',
+          },
+        ]),
+      ),
+    });
+    const insert = db.raw.query(
+      `INSERT INTO sensor_batches (batch_id, data, status, created_at, stream, seq)
+       VALUES (?, ?, 'pending', ?, ?, ?)`,
+    );
+    db.raw.transaction(() => {
+      insert.run('gap1', marker, 0, 'gaps', 1);
+      for (let i = 1; i < MAX_QUEUE_DEPTH; i++) {
+        insert.run(`fg${20 + i}`, '{}', i, 'foreground', 20 + i);
+      }
+    })();
+
+    const queue = await openQueue();
+    const evicted: EvictedRange[][] = [];
+    queue.subscribeEvictions((ranges) => evicted.push(ranges));
+
+    await queue.insertPendingBatch({
+      batchId: 'new',
+      data: '{}',
+      stream: 'foreground',
+      seq: queue.nextSequence('foreground'),
+    });
+    await queue.flushInserts();
+
+    // The marker and foreground 21..519 went; 1..20 are still missing
+    expect(evicted).toEqual([
+      [
+        { stream: 'gaps', fromSeq: 1, toSeq: 1 },
+        { stream: 'foreground', fromSeq: 1, toSeq: 519 },
+      ],
+    ]);
+  });
+});
+
+describe('SensorQueue key rotation', () => {
+  it('keeps batches a drain reads while the key is being rotated', async () => {
+    const queue = await openQueue();
+    for (let i = 1; i <= 3; i++) {
+      await queue.insertPendingBatchImmediate({
+        batchId: `b${i}`,
+        data: `{"n":${i}}`,
+      });
+    }
+
+    // Hold the re-encryption back until the drain below has run
+    const db = await rawDatabase();
+    const reencrypt = db.withExclusiveTransactionAsync.bind(db);
+    let resume!: () => void;
+    const paused = new Promise<void>((resolve) => {
+      resume = resolve;
+    });
+    let reached!: () => void;
+    const atReencrypt = new Promise<void>((resolve) => {
+      reached = resolve;
+    });
+    db.withExclusiveTransactionAsync = async (task) => {
+      reached();
+      await paused;
+      return reencrypt(task);
+    };
+
+    const rotation = queue.rotateKey();
+    await atReencrypt;
+    const drained = await queue.listUnackedBatches();
+    resume();
+    await rotation;
+
+    expect(drained.map((b) => b.data)).toEqual([
+      '{"n":1}',
+      '{"n":2}',
+      '{"n":3}',
+    ]);
+    const after = await queue.listUnackedBatches();
+    expect(after.map((b) => b.batch_id)).toEqual(['b1', 'b2', 'b3']);
+  });
+});
@@ -0,0 +1,257 @@
+import { beforeEach, describe, expect, it, mock } from 'bun:test';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+import { FakeSQLiteDatabase } from '@/test/sqlite';
+
+import { encodeReadings, parseStoredReadings } from '../sensorEncoding';
+import type { SensorReading } from '../types';
+
+// ---------------------------------------------------------------------------
+// Fakes
+// ---------------------------------------------------------------------------
+
+mock.module('react-native', () => ({ Platform: { OS: 'ios' } }));
+mock.module('expo-secure-store', () => ({ AFTER_FIRST_UNLOCK: 0 }));
+mock.module('expo-crypto', () => ({
+  getRandomBytes: (n: number) => crypto.getRandomValues(new Uint8Array(n)),
+}));
+
+const { QueueCipher } = await import('../queueCipher');
+const { SENSOR_QUEUE_MIGRATIONS, runSensorQueueMigrations } = await import(
+  '../sensorQueueMigrations'
+);
+
+const LATEST = SENSOR_QUEUE_MIGRATIONS.length;
+
+const READINGS: SensorReading[] = [
+  { t: 1_714_557_600_000, sensor: 'location', lat: 52.37, lng: 4.89 },
+  { t: 1_714_557_600_020, sensor: 'accel', x: 0.1, y: 0.2, z: 9.8 },
+];
+
+/** A row as stored before the compact format: readings are a plain array */
+function preCompactRow(batchId: string): string {
+  return JSON.stringify({
+    batch_id: batchId,
+    device_id: 'device-1',
+    driver_id: 'd1',
+    vehicle_id: null,
+    readings: JSON.stringify(READINGS),
+  });
+}
+
+let cipher: InstanceType<typeof QueueCipher>;
+let db: FakeSQLiteDatabase;
+
+beforeEach(() => {
+  cipher = new QueueCipher(crypto.getRandomValues(new Uint8Array(32)));
+  db = new FakeSQLiteDatabase('sensor_queue.db');
+});
+
+function migrate(migrations = SENSOR_QUEUE_MIGRATIONS): Promise<number> {
+  return runSensorQueueMigrations(db.asDatabase(), { cipher }, migrations);
+}
+
+function userVersion(): number {
+  return (db.raw.query('PRAGMA user_version').get() as { user_version: number })
+    .user_version;
+}
+
+function columns(table: string): string[] {
+  return (db.raw.query(`PRAGMA table_info(${table})`).all() as { name: string }[])
+    .map((c) => c.name);
+}
+
+type StoredRow = {
+  batch_id: string;
+  data: Uint8Array | string;
+  status: string;
+  created_at: number;
+  sent_at: number | null;
+  acked_at: number | null;
+};
+
+function row(batchId: string): StoredRow {
+  return db.raw
+    .query(
+      `SELECT batch_id, data, status, created_at, sent_at, acked_at
+       FROM sensor_batches WHERE batch_id = ?`,
+    )
+    .get(batchId) as StoredRow;
+}
+
+function decrypted(batchId: string): string | null {
+  const { data } = row(batchId);
+  expect(data).toBeInstanceOf(Uint8Array);
+  return cipher.decrypt(batchId, data as Uint8Array);
+}
+
+function expectLatestSchema(): void {
+  expect(userVersion()).toBe(LATEST);
+  expect(columns('sensor_batches')).toEqual(
+    expect.arrayContaining(['batch_id', 'data', 'status', 'stream', 'seq']),
+  );
+  expect(columns('sensor_sequences')).toEqual(['stream', 'last_seq']);
+  const indexes = (
+    db.raw
+      .query(`SELECT name FROM sqlite_master WHERE type = 'index'`)
+      .all() as { name: string }[]
+  ).map((i) => i.name);
+  expect(indexes).toEqual(
+    expect.arrayContaining([
+      'idx_batches_status_created',
+      'idx_batches_acked_at',
+      'idx_batches_failed_created',
+    ]),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('runSensorQueueMigrations', () => {
+  it('creates the schema on a fresh install', async () => {
+    expect(await migrate()).toBe(LATEST);
+    expectLatestSchema();
+  });
+
+  it('upgrades a database from before versioning', async () => {
+    // What the first releases created: DATETIME text timestamps, no
+    // stream/seq, and user_version left at 0
+    db.raw.exec(`
+      CREATE TABLE sensor_batches (
+        id          INTEGER PRIMARY KEY AUTOINCREMENT,
+        batch_id    TEXT    UNIQUE NOT NULL,
+        data        TEXT    NOT NULL,
+        qos         INTEGER DEFAULT 1,
+        status      TEXT    DEFAULT 'pending',
+        created_at  DATETIME NOT NULL,
+        sent_at     DATETIME,
+        acked_at    DATETIME,
+        retry_count INTEGER DEFAULT 0
+      );
+    `);
+    const insert = db.raw.query(
+      `INSERT INTO sensor_batches (batch_id, data, status, created_at, sent_at, acked_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+    );
+    insert.run(
+      'values',
+      "('values', 'device-1', 1714557600000)",
+      'pending',
+      '2024-05-01 10:00:00',
+      null,
+      null,
+    );
+    insert.run(
+      'json',
+      preCompactRow('json'),
+      'sent',
+      '2024-05-01 10:00:00',
+      '2024-05-01 10:00:05',
+      null,
+    );
+    insert.run(
+      'acked',
+      preCompactRow('acked'),
+      'acked',
+      '2024-05-01 09:00:00',
+      '2024-05-01 09:00:05',
+      '2024-05-01 09:00:06',
+    );
+
+    expect(await migrate()).toBe(LATEST);
+    expectLatestSchema();
+
+    const json = row('json');
+    expect(json.status).toBe('sent');
+    expect(json.created_at).toBe(Date.UTC(2024, 4, 1, 10, 0, 0));
+    expect(json.sent_at).toBe(Date.UTC(2024, 4, 1, 10, 0, 5));
+    expect(row('acked').acked_at).toBe(Date.UTC(2024, 4, 1, 9, 0, 6));
+
+    // VALUES tuples can't be sent anywhere any more
+    expect(row('values').status).toBe('failed');
+
+    // Pre-compact payloads survive encryption and still decode
+    const payload = JSON.parse(decrypted('json')!) as { readings: string };
+    expect(parseStoredReadings(payload.readings)).toEqual(
+      encodeReadings(READINGS),
+    );
+    expect(decrypted('values')).toBe("('values', 'device-1', 1714557600000)");
+  });
+
+  for (let from = 1; from < LATEST; from++) {
+    it(`upgrades a database at version ${from}`, async () => {
+      await migrate(SENSOR_QUEUE_MIGRATIONS.slice(0, from));
+      expect(userVersion()).toBe(from);
+      db.raw
+        .query(
+          `INSERT INTO sensor_batches (batch_id, data, status, created_at)
+           VALUES (?, ?, 'pending', ?)`,
+        )
+        .run('b1', preCompactRow('b1'), 1_714_557_600_000);
+
+      expect(await migrate()).toBe(LATEST);
+      expectLatestSchema();
+
+      const stored = row('b1');
+      expect(stored.status).toBe('pending');
+      expect(stored.created_at).toBe(1_714_557_600_000);
+      expect(decrypted('b1')).toBe(preCompactRow('b1'));
+    });
+  }
+
+  it('upgrades an unversioned database that already has sequence columns', async () => {
+    await migrate();
+    db.raw.exec(`PRAGMA user_version = 0`);
+
+    expect(await migrate()).toBe(LATEST);
+    expectLatestSchema();
+  });
+
+  it('leaves a database that is already up to date alone', async () => {
+    await migrate();
+    const encrypted = cipher.encrypt('b1', preCompactRow('b1'));
+    db.raw
+      .query(
+        `INSERT INTO sensor_batches (batch_id, data, created_at) VALUES (?, ?, ?)`,
+      )
+      .run('b1', encrypted, 1);
+
+    expect(await migrate()).toBe(LATEST);
+    expect(row('b1').data).toEqual(encrypted);
+  });
+
+  it('keeps going on a database written by a newer build', async () => {
+    await migrate();
+    db.raw.exec(`PRAGMA user_version = ${LATEST + 1}`);
+    expect(await migrate()).toBe(LATEST + 1);
+  });
+
+  it('rolls back a failing step and resumes from it next time', async () => {
+    const failing = [
+      ...SENSOR_QUEUE_MIGRATIONS.slice(0, 1),
+      {
+        version: 2,
+        name: 'broken',
+        up: async (txn: SQLiteDatabase) => {
+          await txn.execAsync(`ALTER TABLE sensor_batches ADD COLUMN half TEXT;`);
+          throw new Error('disk full');
+        },
+      },
+    ];
+
+    await expect(migrate(failing)).rejects.toThrow('disk full');
+    expect(userVersion()).toBe(1);
+    expect(columns('sensor_batches')).not.toContain('half');
+
+    expect(await migrate()).toBe(LATEST);
+    expectLatestSchema();
+  });
+
+  it('rejects migrations that are out of order', async () => {
+    const [first, second] = SENSOR_QUEUE_MIGRATIONS;
+    await expect(migrate([second, first])).rejects.toThrow('expected 1');
+    expect(userVersion()).toBe(0);
+  });
+});
@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, mock } from 'bun:test';
+
+// ---------------------------------------------------------------------------
+// Fakes
+// ---------------------------------------------------------------------------
+
+type FakeTransport = { started: boolean; stopped: boolean };
+
+const created: FakeTransport[] = [];
+let queueCloses = 0;
+let releaseDeviceId: () => void = () => {};
+
+mock.module('@/lib/sensor-streaming/deviceId', () => ({
+  // Held open by each test, so an acquire can be caught mid-startup
+  getOrCreateDeviceId: () =>
+    new Promise<string>((resolve) => {
+      releaseDeviceId = () => resolve('device-1');
+    }),
+}));
+mock.module('@/lib/sensor-streaming/dataUsage', () => ({
+  dataUsageTracker: { record: () => {} },
+}));
+mock.module('@/lib/sensor-streaming/driverPrivacy', () => ({
+  driverPrivacy: { init: async () => {} },
+}));
+mock.module('@/lib/sensor-streaming/sensorQueue', () => ({
+  sensorQueue: {
+    init: async () => {},
+    close: async () => {
+      queueCloses++;
+    },
+    subscribeEvictions: () => () => {},
+  },
+}));
+mock.module('@/lib/sensor-streaming/sensorTransportFactory', () => ({
+  createSensorTransport: () => {
+    const transport = {
+      started: false,
+      stopped: false,
+      start() {
+        transport.started = true;
+      },
+      stop() {
+        transport.stopped = true;
+      },
+      flush: async () => {},
+      enqueueAndPublishBatch: async () => {},
+    };
+    created.push(transport);
+    return transport;
+  },
+}));
+
+const { acquireSensorTransport, releaseSensorTransport } = await import(
+  '../sharedSensorTransport'
+);
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('sharedSensorTransport', () => {
+  beforeEach(() => {
+    created.length = 0;
+    queueCloses = 0;
+  });
+
+  it('stops a transport released while it was still starting', async () => {
+    const acquiring = acquireSensorTransport('foreground');
+    const releasing = releaseSensorTransport('foreground');
+
+    releaseDeviceId();
+    await acquiring;
+    await releasing;
+
+    expect(created).toHaveLength(1);
+    expect(created[0].stopped).toBe(true);
+    expect(queueCloses).toBe(1);
+  });
+
+  it('keeps the transport while another holder still uses it', async () => {
+    const foreground = acquireSensorTransport('foreground');
+    releaseDeviceId();
+    await foreground;
+    await acquireSensorTransport('background');
+
+    await releaseSensorTransport('foreground');
+    expect(created[0].stopped).toBe(false);
+
+    await releaseSensorTransport('background');
+    expect(created[0].stopped).toBe(true);
+    expect(queueCloses).toBe(1);
+  });
+
+  it('keeps a transport acquired again while the release waited', async () => {
+    const first = acquireSensorTransport('foreground');
+    const releasing = releaseSensorTransport('foreground');
+    const second = acquireSensorTransport('background');
+
+    releaseDeviceId();
+    await Promise.all([first, releasing, second]);
+
+    expect(created).toHaveLength(1);
+    expect(created[0].stopped).toBe(false);
+    await releaseSensorTransport('background');
+  });
+});
@@ -0,0 +1,228 @@
+import { beforeEach, describe, expect, it, mock } from 'bun:test';
+import { createElement } from 'react';
+import TestRenderer, { act } from 'react-test-renderer';
+
+// ---------------------------------------------------------------------------
+// Fakes
+// ---------------------------------------------------------------------------
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT =
+  true;
+
+/** What the hook's inputs report; change and re-render to drive it */
+const inputs = {
+  isNavigating: true,
+  offDuty: false,
+  enabled: true,
+};
+
+const calls = {
+  acquire: 0,
+  release: 0,
+  startBackground: 0,
+  stopBackground: 0,
+  setOff: 0,
+};
+
+mock.module('react-native', () => ({
+  AppState: { addEventListener: () => ({ remove: () => {} }) },
+  Platform: { OS: 'ios' },
+}));
+mock.module('expo-location', () => ({
+  Accuracy: {
+    Lowest: 1,
+    Low: 2,
+    Balanced: 3,
+    High: 4,
+    Highest: 5,
+    BestForNavigation: 6,
+  },
+  getForegroundPermissionsAsync: async () => ({ status: 'granted' }),
+}));
+mock.module('@/lib/auth', () => ({
+  useAuth: () => ({
+    isAuthenticated: true,
+    isLoading: false,
+    user: { sub: 'u1', driverId: 'd1' },
+  }),
+}));
+mock.module('@/lib/api/services/vehicle-assignment.service', () => ({
+  vehicleAssignmentService: {
+    getMyAssignment: async () => ({ vehicleId: 'v1' }),
+  },
+}));
+mock.module('@/lib/sensor-streaming/backgroundLocationTask', () => ({
+  startBackgroundLocationTracking: async () => {
+    calls.startBackground++;
+  },
+  stopBackgroundLocationTracking: async () => {
+    calls.stopBackground++;
+  },
+}));
+mock.module('@/lib/sensor-streaming/deviceId', () => ({
+  getOrCreateDeviceId: async () => 'device-1',
+}));
+mock.module('@/lib/sensor-streaming/driverPrivacy', () => ({
+  driverPrivacy: { takePendingAudit: async () => [] },
+}));
+mock.module('@/lib/sensor-streaming/useDriverPrivacy', () => ({
+  useDriverPrivacy: () => ({
+    offDuty: inputs.offDuty ? { since: 0, reason: 'break' } : null,
+  }),
+}));
+mock.module('@/lib/sensor-streaming/useSensorConfig', () => ({
+  useSensorConfig: () => config(),
+}));
+mock.module('@/lib/sensor-streaming/SensorPermissionContext', () => ({
+  useSensorPermission: () => ({
+    isAllowed: true,
+    requestPermission: async () => true,
+  }),
+}));
+mock.module('@/lib/sensor-streaming/sensorQueue', () => ({
+  sensorQueue: { performMaintenance: async () => {} },
+}));
+mock.module('@/lib/sensor-streaming/StreamingProfileContext', () => ({
+  useStreamingProfile: () => ({ profile }),
+}));
+mock.module('@/lib/sensor-streaming/sensorReader', () => ({
+  SensorReader: class {
+    start = async () => {};
+    stop = () => {};
+    applySamplingProfile = async () => {};
+    ensureAllSensors = async () => {};
+    ensureLocationTracking = async () => {};
+  },
+}));
+mock.module('@/lib/sensor-streaming/sharedSensorTransport', () => ({
+  acquireSensorTransport: async () => {
+    calls.acquire++;
+    return {
+      enqueueAndPublishBatch: async () => {},
+      flush: async () => {},
+    };
+  },
+  releaseSensorTransport: async () => {
+    calls.release++;
+  },
+}));
+
+// Stable across renders, like the real context's callbacks
+const noop = () => {};
+const status = {
+  reportSuccess: noop,
+  reportFailure: noop,
+  reportReadings: noop,
+  reportBatchSent: noop,
+  reportBatchFailed: noop,
+  reportBytesSent: noop,
+  reportLatency: noop,
+  reportQueueDepth: noop,
+  reportMotionState: noop,
+  setOff: () => {
+    calls.setOff++;
+  },
+};
+mock.module('@/lib/sensor-streaming/SensorStreamingStatusContext', () => ({
+  useSensorStreamingStatus: () => status,
+}));
+
+const { STREAMING_PROFILES } = await import('../streamingProfile');
+const profile = STREAMING_PROFILES.full;
+
+let lastConfig: object | null = null;
+function config() {
+  const next = {
+    enabled: inputs.enabled,
+    sampleRateHz: 50,
+    batchIntervalMs: 500,
+    retentionDays: 7,
+    offRouteCorridorM: 50,
+  };
+  // Same object while nothing changed, like the real store
+  if (JSON.stringify(next) !== JSON.stringify(lastConfig)) lastConfig = next;
+  return lastConfig;
+}
+
+const { useAuthenticatedSensorStreaming } = await import(
+  '../useAuthenticatedSensorStreaming'
+);
+
+function Harness() {
+  useAuthenticatedSensorStreaming({ isNavigating: inputs.isNavigating });
+  return null;
+}
+
+async function render(): Promise<TestRenderer.ReactTestRenderer> {
+  let renderer!: TestRenderer.ReactTestRenderer;
+  await act(async () => {
+    renderer = TestRenderer.create(createElement(Harness));
+  });
+  return renderer;
+}
+
+async function update(
+  renderer: TestRenderer.ReactTestRenderer,
+  change: Partial<typeof inputs>,
+): Promise<void> {
+  Object.assign(inputs, change);
+  await act(async () => {
+    renderer.update(createElement(Harness));
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('useAuthenticatedSensorStreaming', () => {
+  beforeEach(() => {
+    Object.assign(inputs, { isNavigating: true, offDuty: false, enabled: true });
+    for (const key of Object.keys(calls) as (keyof typeof calls)[]) {
+      calls[key] = 0;
+    }
+  });
+
+  it('stops background tracking off duty and resumes on duty', async () => {
+    const renderer = await render();
+    expect(calls.acquire).toBe(1);
+    expect(calls.startBackground).toBe(1);
+
+    await update(renderer, { offDuty: true });
+    expect(calls.stopBackground).toBe(1);
+    expect(calls.release).toBe(1);
+    expect(calls.setOff).toBe(1);
+
+    await update(renderer, { offDuty: false });
+    expect(calls.acquire).toBe(2);
+    expect(calls.startBackground).toBe(2);
+
+    await act(async () => renderer.unmount());
+  });
+
+  it('follows the remote switch off and back on', async () => {
+    const renderer = await render();
+
+    await update(renderer, { enabled: false });
+    expect(calls.stopBackground).toBe(1);
+    expect(calls.release).toBe(1);
+
+    await update(renderer, { enabled: true });
+    expect(calls.acquire).toBe(2);
+    expect(calls.startBackground).toBe(2);
+
+    await act(async () => renderer.unmount());
+  });
+
+  it('stops everything when navigation ends', async () => {
+    const renderer = await render();
+
+    await update(renderer, { isNavigating: false });
+    expect(calls.stopBackground).toBe(1);
+    expect(calls.release).toBe(1);
+
+    // Nothing left to stop on unmount
+    await act(async () => renderer.unmount());
+    expect(calls.stopBackground).toBe(1);
+  });
+});
@@ -0,0 +1,37 @@
+import { serverClock } from '../api/serverClock';
+import { SensorBatch } from './types';
+
+/** Don't shift timestamps by an estimate this uncertain (ms) */
+const MAX_CORRECTION_UNCERTAINTY_MS = 2_000;
+
+/** Shift reading timestamps to server time. EXPO_PUBLIC_SENSOR_CORRECT_CLOCK */
+function isCorrectionEnabled(): boolean {
+  return (
+    (process.env.EXPO_PUBLIC_SENSOR_CORRECT_CLOCK || '').toLowerCase() === 'true'
+  );
+}
+
+/**
+ * Attach the current device clock offset to a batch before it is queued,
+ * and shift its reading timestamps to server time when correction is
+ * enabled and the estimate is tight enough.
+ */
+export function withClockInfo(batch: SensorBatch): SensorBatch {
+  const estimate = serverClock.getEstimate();
+  if (!estimate) return batch;
+
+  const corrected =
+    isCorrectionEnabled() &&
+    estimate.uncertaintyMs <= MAX_CORRECTION_UNCERTAINTY_MS;
+  return {
+    ...batch,
+    readings: corrected
+      ? batch.readings.map((r) => ({ ...r, t: r.t + estimate.offsetMs }))
+      : batch.readings,
+    clock: {
+      offsetMs: estimate.offsetMs,
+      uncertaintyMs: estimate.uncertaintyMs,
+      corrected,
+    },
+  };
+}
@@ -0,0 +1,234 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type DataUsageTotals = {
+  /** Request bodies sent */
+  sentBytes: number;
+  /** Response bodies received */
+  receivedBytes: number;
+};
+
+export type DataUsageSnapshot = {
+  /** Local calendar day the daily totals belong to (YYYY-MM-DD) */
+  day: string;
+  /** Local calendar month the monthly totals belong to (YYYY-MM) */
+  month: string;
+  today: DataUsageTotals;
+  thisMonth: DataUsageTotals;
+  /** Daily cap on sent + received bytes, null for no cap */
+  dailyCapBytes: number | null;
+  /** Today's usage has reached the cap – streaming drops to location-only */
+  capReached: boolean;
+};
+
+type StoredDataUsage = Omit<DataUsageSnapshot, 'capReached'>;
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const STORAGE_KEY = 'sensor_data_usage';
+
+/** Batch writes – a transfer is recorded several times per second */
+const SAVE_DELAY_MS = 5_000;
+/** Coalesce listener updates for the same reason */
+const NOTIFY_DELAY_MS = 1_000;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function pad(n: number): string {
+  return n < 10 ? `0${n}` : String(n);
+}
+
+function localDay(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function localMonth(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+}
+
+function emptyTotals(): DataUsageTotals {
+  return { sentBytes: 0, receivedBytes: 0 };
+}
+
+export function totalBytes(totals: DataUsageTotals): number {
+  return totals.sentBytes + totals.receivedBytes;
+}
+
+// ---------------------------------------------------------------------------
+// DataUsageTracker
+// ---------------------------------------------------------------------------
+
+/**
+ * Daily and monthly totals of sensor upload traffic, persisted in
+ * AsyncStorage so they survive restarts. Fed by the shared sensor transport,
+ * so foreground and background uploads are both counted.
+ */
+export class DataUsageTracker {
+  private usage: StoredDataUsage = {
+    day: localDay(new Date()),
+    month: localMonth(new Date()),
+    today: emptyTotals(),
+    thisMonth: emptyTotals(),
+    dailyCapBytes: null,
+  };
+  private initPromise?: Promise<void>;
+  private saveTimer?: ReturnType<typeof setTimeout>;
+  private notifyTimer?: ReturnType<typeof setTimeout>;
+  private listeners = new Set<(usage: DataUsageSnapshot) => void>();
+
+  async init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this._doInit();
+    }
+    return this.initPromise;
+  }
+
+  private async _doInit(): Promise<void> {
+    try {
+      const raw = await AsyncStorage.getItem(STORAGE_KEY);
+      if (raw) {
+        const stored = JSON.parse(raw) as StoredDataUsage;
+        // Keep anything recorded while we were loading
+        const current = this.usage;
+        this.usage = {
+          ...current,
+          dailyCapBytes: stored.dailyCapBytes,
+          today:
+            stored.day === current.day
+              ? this.sum(stored.today, current.today)
+              : current.today,
+          thisMonth:
+            stored.month === current.month
+              ? this.sum(stored.thisMonth, current.thisMonth)
+              : current.thisMonth,
+        };
+      }
+    } catch (error) {
+      console.warn('[DataUsage] Failed to load usage:', error);
+    }
+    this.rollOver();
+    this.notify();
+  }
+
+  // -----------------------------------------------------------------------
+  // Public API
+  // -----------------------------------------------------------------------
+
+  getUsage(): DataUsageSnapshot {
+    this.rollOver();
+    const { dailyCapBytes, today } = this.usage;
+    return {
+      ...this.usage,
+      capReached: dailyCapBytes !== null && totalBytes(today) >= dailyCapBytes,
+    };
+  }
+
+  /**
+   * Register a listener that receives the usage whenever it changes.
+   * Returns an unsubscribe function.
+   */
+  subscribe(listener: (usage: DataUsageSnapshot) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Count one request/response pair */
+  record(sentBytes: number, receivedBytes: number): void {
+    if (sentBytes <= 0 && receivedBytes <= 0) return;
+    void this.init();
+    this.rollOver();
+
+    const transfer = { sentBytes, receivedBytes };
+    const wasCapped = this.getUsage().capReached;
+    this.usage.today = this.sum(this.usage.today, transfer);
+    this.usage.thisMonth = this.sum(this.usage.thisMonth, transfer);
+
+    if (!wasCapped && this.getUsage().capReached) {
+      // Throttle streaming right away
+      console.log('[DataUsage] Daily cap reached, streaming location only');
+      this.notify();
+    } else {
+      this.scheduleNotify();
+    }
+    this.scheduleSave();
+  }
+
+  async setDailyCap(bytes: number | null): Promise<void> {
+    await this.init();
+    this.usage.dailyCapBytes = bytes !== null && bytes > 0 ? bytes : null;
+    this.notify();
+    await this.save();
+  }
+
+  // -----------------------------------------------------------------------
+  // Internals
+  // -----------------------------------------------------------------------
+
+  private sum(a: DataUsageTotals, b: DataUsageTotals): DataUsageTotals {
+    return {
+      sentBytes: a.sentBytes + b.sentBytes,
+      receivedBytes: a.receivedBytes + b.receivedBytes,
+    };
+  }
+
+  /** Start new totals when the local day / month changes */
+  private rollOver(): void {
+    const now = new Date();
+    const day = localDay(now);
+    const month = localMonth(now);
+    if (this.usage.day !== day) {
+      this.usage.day = day;
+      this.usage.today = emptyTotals();
+    }
+    if (this.usage.month !== month) {
+      this.usage.month = month;
+      this.usage.thisMonth = emptyTotals();
+    }
+  }
+
+  private scheduleNotify(): void {
+    if (this.notifyTimer) return;
+    this.notifyTimer = setTimeout(() => {
+      this.notifyTimer = undefined;
+      this.notify();
+    }, NOTIFY_DELAY_MS);
+  }
+
+  private notify(): void {
+    if (this.notifyTimer) {
+      clearTimeout(this.notifyTimer);
+      this.notifyTimer = undefined;
+    }
+    const snapshot = this.getUsage();
+    for (const listener of this.listeners) {
+      listener(snapshot);
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      void this.save();
+    }, SAVE_DELAY_MS);
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.usage));
+    } catch (error) {
+      console.warn('[DataUsage] Failed to save usage:', error);
+    }
+  }
+}
+
+export const dataUsageTracker = new DataUsageTracker();
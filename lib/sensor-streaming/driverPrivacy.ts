@@ -0,0 +1,452 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { Platform } from 'react-native';
+
+import { distanceMeters } from '../geo';
+import type {
+  DutyStatusReading,
+  OffDutyReason,
+  SensorBatch,
+  SensorReading,
+} from './types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type OffDutyState = {
+  reason: OffDutyReason;
+  /** When the pause started (epoch ms) */
+  since: number;
+};
+
+/**
+ * What happens to location data inside a zone:
+ * - suppress: location readings are dropped, event positions removed
+ * - coarsen: positions are rounded to a ~1 km grid
+ */
+export type PrivacyZoneMode = 'suppress' | 'coarsen';
+
+/** A driver-defined circle (e.g. around their home) */
+export type PrivacyZone = {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  radiusM: number;
+  mode: PrivacyZoneMode;
+};
+
+export type DriverPrivacyState = {
+  /** Set while the driver has paused tracking */
+  offDuty: OffDutyState | null;
+  zones: PrivacyZone[];
+  /** Zone the latest queued location fell in, null outside all zones */
+  activeZone: PrivacyZone | null;
+};
+
+type StoredDriverPrivacy = {
+  /** Signed-in driver, so the background task knows whose zones apply */
+  ownerId: string | null;
+  offDuty: OffDutyState | null;
+  /** Zones by driver; a driver's zones are kept through sign-out */
+  zones: Record<string, PrivacyZone[]>;
+};
+
+/** What earlier versions stored: one driver's zones */
+type LegacyDriverPrivacy = {
+  offDuty: OffDutyState | null;
+  zones: PrivacyZone[];
+};
+
+/** Duty changes not yet handed to the sensor stream, by driver */
+type PendingAudit = Record<string, DutyStatusReading[]>;
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const STORAGE_KEY = 'sensor_driver_privacy';
+const AUDIT_STORAGE_KEY = 'sensor_duty_audit';
+/** Zones and audit recorded before any driver claimed the store */
+const UNCLAIMED = '';
+
+// Zones give away where the driver lives, so they go next to the sensor
+// queue key. Without SecureStore they only live in memory.
+const isSecureStoreAvailable = Platform.OS !== 'web';
+
+// The background location task runs while the phone is locked
+const SECURE_STORE_OPTIONS: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK,
+};
+
+/** Keep the audit trail bounded if streaming doesn't run for a long time */
+const MAX_PENDING_AUDIT = 200;
+
+/** Two decimal places ≈ 1.1 km */
+const COARSE_DECIMALS = 2;
+/** Reported accuracy of coarsened fixes (m) */
+const COARSE_ACCURACY_M = 1_000;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function parseStored(raw: string): StoredDriverPrivacy {
+  const stored = JSON.parse(raw) as StoredDriverPrivacy | LegacyDriverPrivacy;
+  if (!Array.isArray(stored.zones)) return stored as StoredDriverPrivacy;
+  return {
+    ownerId: null,
+    offDuty: stored.offDuty,
+    zones: stored.zones.length > 0 ? { [UNCLAIMED]: stored.zones } : {},
+  };
+}
+
+function coarsen(value: number): number {
+  const factor = 10 ** COARSE_DECIMALS;
+  return Math.round(value * factor) / factor;
+}
+
+/** The zone covering a point; suppress wins over coarsen where zones overlap */
+export function findPrivacyZone(
+  zones: PrivacyZone[],
+  lng: number,
+  lat: number,
+): PrivacyZone | null {
+  let match: PrivacyZone | null = null;
+  for (const zone of zones) {
+    if (distanceMeters([zone.lng, zone.lat], [lng, lat]) > zone.radiusM) {
+      continue;
+    }
+    if (zone.mode === 'suppress') return zone;
+    match = zone;
+  }
+  return match;
+}
+
+/**
+ * Apply privacy zones to one reading. Returns null when the reading must
+ * not be stored at all.
+ */
+function maskReading(
+  reading: SensorReading,
+  zones: PrivacyZone[],
+): SensorReading | null {
+  if (reading.sensor === 'location') {
+    // The unfiltered fix may sit inside a zone the filtered one missed
+    const zone =
+      findPrivacyZone(zones, reading.lng, reading.lat) ??
+      (reading.raw ? findPrivacyZone(zones, reading.raw.lng, reading.raw.lat) : null);
+    if (!zone) return reading;
+    if (zone.mode === 'suppress') return null;
+    return {
+      t: reading.t,
+      sensor: 'location',
+      lng: coarsen(reading.lng),
+      lat: coarsen(reading.lat),
+      accuracy: Math.max(reading.accuracy ?? 0, COARSE_ACCURACY_M),
+    };
+  }
+
+  if (
+    (reading.sensor === 'event' || reading.sensor === 'deviation') &&
+    reading.lng !== undefined &&
+    reading.lat !== undefined
+  ) {
+    const zone = findPrivacyZone(zones, reading.lng, reading.lat);
+    if (!zone) return reading;
+    // Keep the event itself – dispatch needs it – but not where it happened
+    const { lng, lat, ...rest } = reading;
+    return zone.mode === 'suppress'
+      ? rest
+      : { ...rest, lng: coarsen(lng), lat: coarsen(lat) };
+  }
+
+  return reading;
+}
+
+// ---------------------------------------------------------------------------
+// DriverPrivacyStore
+// ---------------------------------------------------------------------------
+
+/**
+ * Driver-controlled privacy settings: the off-duty pause and privacy zones.
+ * Persisted in SecureStore so they also apply to the background location
+ * task after a cold start. Zones are kept per driver and only hidden on
+ * sign-out; the duty audit trail is kept per driver in AsyncStorage until
+ * it has been streamed, sign-out included.
+ */
+export class DriverPrivacyStore {
+  private stored: StoredDriverPrivacy = {
+    ownerId: null,
+    offDuty: null,
+    zones: {},
+  };
+  private pendingAudit: PendingAudit = {};
+  private activeZone: PrivacyZone | null = null;
+  private initPromise?: Promise<void>;
+  private listeners = new Set<(state: DriverPrivacyState) => void>();
+
+  async init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this._doInit();
+    }
+    return this.initPromise;
+  }
+
+  private async _doInit(): Promise<void> {
+    try {
+      const raw = isSecureStoreAvailable
+        ? await SecureStore.getItemAsync(STORAGE_KEY, SECURE_STORE_OPTIONS)
+        : null;
+      if (raw) {
+        this.stored = parseStored(raw);
+      }
+      const audit = await AsyncStorage.getItem(AUDIT_STORAGE_KEY);
+      if (audit) {
+        this.pendingAudit = JSON.parse(audit) as PendingAudit;
+      }
+      await this.migrateLegacy();
+      this.notify();
+    } catch (error) {
+      console.warn('[DriverPrivacy] Failed to load settings:', error);
+    }
+  }
+
+  /** Earlier versions kept everything, zones included, in AsyncStorage */
+  private async migrateLegacy(): Promise<void> {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!raw) return;
+
+    const legacy = JSON.parse(raw) as LegacyDriverPrivacy & {
+      pendingAudit?: DutyStatusReading[];
+    };
+    this.stored = parseStored(raw);
+    for (const entry of legacy.pendingAudit ?? []) {
+      this.recordAudit(UNCLAIMED, entry);
+    }
+    await this.save();
+    await this.saveAudit();
+    await AsyncStorage.removeItem(STORAGE_KEY);
+    console.log('[DriverPrivacy] Moved settings to secure storage');
+  }
+
+  // -----------------------------------------------------------------------
+  // Public API
+  // -----------------------------------------------------------------------
+
+  getState(): DriverPrivacyState {
+    return {
+      offDuty: this.stored.offDuty,
+      zones: this.zones,
+      activeZone: this.activeZone,
+    };
+  }
+
+  /**
+   * Register a listener that receives the state whenever it changes.
+   * Returns an unsubscribe function.
+   */
+  subscribe(listener: (state: DriverPrivacyState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Show this driver's zones and record their duty changes from now on.
+   * Zones and audit recorded before any driver signed in (older app
+   * versions) are theirs too.
+   */
+  async claimForDriver(driverId: string): Promise<void> {
+    await this.init();
+    const { zones } = this.stored;
+    const unclaimedZones = zones[UNCLAIMED];
+    if (unclaimedZones) {
+      delete zones[UNCLAIMED];
+      zones[driverId] = [...(zones[driverId] ?? []), ...unclaimedZones];
+    }
+    this.stored.ownerId = driverId;
+    this.activeZone = null;
+    await this.commit();
+
+    const unclaimed = this.pendingAudit[UNCLAIMED];
+    if (!unclaimed) return;
+    delete this.pendingAudit[UNCLAIMED];
+    for (const entry of unclaimed) this.recordAudit(driverId, entry);
+    await this.saveAudit();
+  }
+
+  /** Pause tracking. The reason goes into the audit trail. */
+  async goOffDuty(reason: OffDutyReason): Promise<void> {
+    await this.init();
+    if (this.stored.offDuty) return;
+
+    const now = Date.now();
+    console.log(`[DriverPrivacy] Off duty (${reason})`);
+    this.stored.offDuty = { reason, since: now };
+    this.recordAudit(this.owner, {
+      t: now,
+      sensor: 'duty',
+      status: 'off_duty',
+      reason,
+      since: now,
+    });
+    await this.commit();
+    await this.saveAudit();
+  }
+
+  /** Resume tracking */
+  async goOnDuty(): Promise<void> {
+    await this.init();
+    const offDuty = this.stored.offDuty;
+    if (!offDuty) return;
+
+    console.log('[DriverPrivacy] Back on duty');
+    this.stored.offDuty = null;
+    this.recordAudit(this.owner, {
+      t: Date.now(),
+      sensor: 'duty',
+      status: 'on_duty',
+      reason: offDuty.reason,
+      since: offDuty.since,
+    });
+    await this.commit();
+    await this.saveAudit();
+  }
+
+  async addZone(zone: Omit<PrivacyZone, 'id'>): Promise<void> {
+    await this.init();
+    const id = `zone_${Date.now().toString(36)}_${Math.random().toString(16).slice(2, 8)}`;
+    this.setZones([...this.zones, { ...zone, id }]);
+    await this.commit();
+  }
+
+  async removeZone(id: string): Promise<void> {
+    await this.init();
+    this.setZones(this.zones.filter((z) => z.id !== id));
+    if (this.activeZone?.id === id) this.activeZone = null;
+    await this.commit();
+  }
+
+  /**
+   * Hand over the signed-in driver's duty changes that haven't been
+   * streamed yet. The caller is responsible for queueing them.
+   */
+  async takePendingAudit(): Promise<DutyStatusReading[]> {
+    await this.init();
+    const { ownerId } = this.stored;
+    if (ownerId === null) return [];
+    const pending = this.pendingAudit[ownerId];
+    if (!pending || pending.length === 0) return [];
+    delete this.pendingAudit[ownerId];
+    await this.saveAudit();
+    return pending;
+  }
+
+  /**
+   * Apply privacy zones to a batch before it is queued, and track which
+   * zone (if any) the latest location fell in.
+   */
+  applyZones(batch: SensorBatch): SensorBatch {
+    const { zones } = this;
+
+    const lastLocation = [...batch.readings]
+      .reverse()
+      .find((r) => r.sensor === 'location');
+    if (lastLocation && lastLocation.sensor === 'location') {
+      this.setActiveZone(findPrivacyZone(zones, lastLocation.lng, lastLocation.lat));
+    }
+
+    if (zones.length === 0) return batch;
+    return {
+      ...batch,
+      readings: batch.readings
+        .map((r) => maskReading(r, zones))
+        .filter((r): r is SensorReading => r !== null),
+    };
+  }
+
+  /**
+   * End the driver's pause and hide their zones. Call on sign-out. Their
+   * zones and unsent duty changes are kept for the next time they sign in.
+   */
+  async clear(): Promise<void> {
+    await this.init();
+    this.stored.ownerId = null;
+    this.stored.offDuty = null;
+    this.activeZone = null;
+    await this.commit();
+  }
+
+  // -----------------------------------------------------------------------
+  // Internals
+  // -----------------------------------------------------------------------
+
+  private get owner(): string {
+    return this.stored.ownerId ?? UNCLAIMED;
+  }
+
+  private get zones(): PrivacyZone[] {
+    return this.stored.zones[this.owner] ?? [];
+  }
+
+  private setZones(zones: PrivacyZone[]): void {
+    this.stored.zones = { ...this.stored.zones, [this.owner]: zones };
+  }
+
+  private recordAudit(driverId: string, entry: DutyStatusReading): void {
+    const audit = [...(this.pendingAudit[driverId] ?? []), entry];
+    this.pendingAudit[driverId] = audit.slice(-MAX_PENDING_AUDIT);
+  }
+
+  private setActiveZone(zone: PrivacyZone | null): void {
+    if (zone?.id === this.activeZone?.id) return;
+    this.activeZone = zone;
+    this.notify();
+  }
+
+  private async commit(): Promise<void> {
+    this.notify();
+    await this.save();
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    for (const listener of this.listeners) {
+      listener(state);
+    }
+  }
+
+  private async save(): Promise<void> {
+    if (!isSecureStoreAvailable) return;
+    try {
+      await SecureStore.setItemAsync(
+        STORAGE_KEY,
+        JSON.stringify(this.stored),
+        SECURE_STORE_OPTIONS,
+      );
+    } catch (error) {
+      console.warn('[DriverPrivacy] Failed to save settings:', error);
+    }
+  }
+
+  private async saveAudit(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(
+        AUDIT_STORAGE_KEY,
+        JSON.stringify(this.pendingAudit),
+      );
+    } catch (error) {
+      console.warn('[DriverPrivacy] Failed to save duty audit:', error);
+    }
+  }
+}
+
+export const driverPrivacy = new DriverPrivacyStore();
+
+/** Apply the driver's privacy zones to a batch before it is queued */
+export function withPrivacyZones(batch: SensorBatch): SensorBatch {
+  return driverPrivacy.applyZones(batch);
+}
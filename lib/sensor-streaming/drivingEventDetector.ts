@@ -0,0 +1,324 @@
+import {
+  DrivingEventKind,
+  DrivingEventReading,
+  DrivingEventSeverity,
+  SensorReading,
+} from './types';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/**
+ * Low-pass factor for the gravity estimate (per accel sample, ~1s at 50 Hz).
+ * Frozen while an event is in progress so sustained braking isn't absorbed.
+ */
+const GRAVITY_ALPHA = 0.98;
+/** Low-pass factor for the horizontal force estimate (~200ms at 50 Hz) */
+const FORCE_ALPHA = 0.2;
+
+/** Thresholds (g) for low / medium / high severity */
+const SEVERITY_THRESHOLDS: Record<
+  Exclude<DrivingEventKind, 'impact'>,
+  [number, number, number]
+> = {
+  harsh_braking: [0.3, 0.45, 0.6],
+  harsh_acceleration: [0.25, 0.35, 0.5],
+  sharp_cornering: [0.3, 0.45, 0.6],
+};
+
+/** Lowest trigger threshold across kinds – opens a candidate event */
+const TRIGGER_G = 0.25;
+/** A candidate event closes once force falls below this (hysteresis) */
+const RELEASE_G = 0.18;
+/** Candidates shorter than this are treated as bumps/handling noise */
+const MIN_EVENT_DURATION_MS = 300;
+/**
+ * Real manoeuvres don't last this long; a candidate that does usually means
+ * the phone was re-mounted, so it is discarded and gravity re-learned.
+ */
+const MAX_EVENT_DURATION_MS = 8_000;
+/** Yaw rate (rad/s) above which a force is treated as cornering */
+const CORNERING_YAW_RATE = 0.25;
+/** Total dynamic force (g) that counts as a possible impact */
+const IMPACT_G = 2.5;
+/** Impact force (g) for medium / high severity */
+const IMPACT_SEVERITY_G: [number, number] = [3.5, 5];
+
+/** Vehicle must have been moving this fast (m/s) for events to count */
+const MIN_MOVING_SPEED = 2;
+/** How long "recently moving" lasts after the last fast-enough fix */
+const MOVING_GRACE_MS = 10_000;
+/** Window of location fixes kept for the speed trend */
+const SPEED_HISTORY_MS = 5_000;
+/** Minimum GPS speed change (m/s²) to tell braking from acceleration */
+const MIN_SPEED_TREND = 1;
+/** Don't report the same kind twice within this window */
+const EVENT_COOLDOWN_MS = 3_000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type Vec3 = { x: number; y: number; z: number };
+
+type LocationFix = {
+  t: number;
+  lat: number;
+  lng: number;
+  speed?: number;
+};
+
+type Candidate = {
+  startedAt: number;
+  peakG: number;
+  peakYawRate: number;
+};
+
+type DrivingEventDetectorConfig = {
+  onEvent: (event: DrivingEventReading) => void;
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function dot(a: Vec3, b: Vec3): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function length(v: Vec3): number {
+  return Math.sqrt(dot(v, v));
+}
+
+function severityFor(
+  peakG: number,
+  [, medium, high]: [number, number, number],
+): DrivingEventSeverity {
+  if (peakG >= high) return 'high';
+  if (peakG >= medium) return 'medium';
+  return 'low';
+}
+
+// ---------------------------------------------------------------------------
+// DrivingEventDetector
+// ---------------------------------------------------------------------------
+
+/**
+ * Classifies harsh braking, harsh acceleration, sharp cornering and possible
+ * impacts from the raw accel/gyro/location stream.
+ *
+ * The phone can sit in any orientation, so instead of relying on device axes:
+ * - gravity is tracked with a low-pass filter and removed from accel samples
+ * - the remaining force is projected onto the horizontal plane
+ * - yaw rate is the gyro component around the gravity axis
+ * - braking vs. acceleration is decided from the GPS speed trend
+ */
+export class DrivingEventDetector {
+  private readonly onEvent: (event: DrivingEventReading) => void;
+
+  private gravity: Vec3 | null = null;
+  private horizontalG = 0;
+  private yawRate = 0;
+  private candidate: Candidate | null = null;
+
+  private fixes: LocationFix[] = [];
+  private lastMovingAt = 0;
+  private lastEventAt: Partial<Record<DrivingEventKind, number>> = {};
+
+  constructor(config: DrivingEventDetectorConfig) {
+    this.onEvent = config.onEvent;
+  }
+
+  /** Feed every reading from the SensorReader */
+  push(reading: SensorReading): void {
+    switch (reading.sensor) {
+      case 'accel':
+        this.handleAccel(reading.t, reading);
+        break;
+      case 'gyro':
+        this.handleGyro(reading);
+        break;
+      case 'location':
+        this.handleLocation(reading);
+        break;
+    }
+  }
+
+  reset(): void {
+    this.gravity = null;
+    this.horizontalG = 0;
+    this.yawRate = 0;
+    this.candidate = null;
+    this.fixes = [];
+    this.lastMovingAt = 0;
+    this.lastEventAt = {};
+  }
+
+  // -----------------------------------------------------------------------
+  // Sensor handlers
+  // -----------------------------------------------------------------------
+
+  private handleAccel(t: number, a: Vec3): void {
+    if (!this.gravity) {
+      this.gravity = { ...a };
+      return;
+    }
+
+    const g = this.gravity;
+    if (!this.candidate) {
+      g.x = GRAVITY_ALPHA * g.x + (1 - GRAVITY_ALPHA) * a.x;
+      g.y = GRAVITY_ALPHA * g.y + (1 - GRAVITY_ALPHA) * a.y;
+      g.z = GRAVITY_ALPHA * g.z + (1 - GRAVITY_ALPHA) * a.z;
+    }
+
+    const gLen = length(g) || 1;
+    const up = { x: g.x / gLen, y: g.y / gLen, z: g.z / gLen };
+
+    // Dynamic force, then its horizontal part
+    const d = { x: a.x - g.x, y: a.y - g.y, z: a.z - g.z };
+    const vertical = dot(d, up);
+    const h = {
+      x: d.x - vertical * up.x,
+      y: d.y - vertical * up.y,
+      z: d.z - vertical * up.z,
+    };
+
+    const totalG = length(d);
+    this.horizontalG =
+      FORCE_ALPHA * length(h) + (1 - FORCE_ALPHA) * this.horizontalG;
+
+    if (totalG >= IMPACT_G) {
+      this.emitImpact(t, totalG);
+    }
+    this.trackCandidate(t);
+  }
+
+  private handleGyro(r: Vec3): void {
+    if (!this.gravity) return;
+    const gLen = length(this.gravity) || 1;
+    this.yawRate = Math.abs(dot(r, this.gravity) / gLen);
+  }
+
+  private handleLocation(r: {
+    t: number;
+    lat: number;
+    lng: number;
+    speed?: number;
+  }): void {
+    const speed = r.speed !== undefined && r.speed >= 0 ? r.speed : undefined;
+    this.fixes.push({ t: r.t, lat: r.lat, lng: r.lng, speed });
+    const cutoff = r.t - SPEED_HISTORY_MS;
+    while (this.fixes.length > 0 && this.fixes[0].t < cutoff) {
+      this.fixes.shift();
+    }
+    if (speed !== undefined && speed >= MIN_MOVING_SPEED) {
+      this.lastMovingAt = r.t;
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Event tracking
+  // -----------------------------------------------------------------------
+
+  private isMoving(t: number): boolean {
+    return t - this.lastMovingAt <= MOVING_GRACE_MS;
+  }
+
+  private trackCandidate(t: number): void {
+    const c = this.candidate;
+
+    if (!c) {
+      if (this.horizontalG >= TRIGGER_G && this.isMoving(t)) {
+        this.candidate = {
+          startedAt: t,
+          peakG: this.horizontalG,
+          peakYawRate: this.yawRate,
+        };
+      }
+      return;
+    }
+
+    if (t - c.startedAt > MAX_EVENT_DURATION_MS) {
+      this.candidate = null;
+      this.gravity = null;
+      this.horizontalG = 0;
+      return;
+    }
+
+    if (this.horizontalG >= RELEASE_G) {
+      c.peakG = Math.max(c.peakG, this.horizontalG);
+      c.peakYawRate = Math.max(c.peakYawRate, this.yawRate);
+      return;
+    }
+
+    this.candidate = null;
+    const durationMs = t - c.startedAt;
+    if (durationMs < MIN_EVENT_DURATION_MS) return;
+
+    const kind = this.classify(c);
+    if (!kind) return;
+
+    const [low] = SEVERITY_THRESHOLDS[kind];
+    if (c.peakG < low) return;
+
+    const severity = severityFor(c.peakG, SEVERITY_THRESHOLDS[kind]);
+    this.emit(t, kind, severity, c.peakG, durationMs);
+  }
+
+  /**
+   * Cornering if the vehicle was turning, otherwise braking/acceleration
+   * from the GPS speed trend. Returns null when the direction is unclear.
+   */
+  private classify(c: Candidate): Exclude<DrivingEventKind, 'impact'> | null {
+    if (c.peakYawRate >= CORNERING_YAW_RATE) return 'sharp_cornering';
+
+    const withSpeed = this.fixes.filter((f) => f.speed !== undefined);
+    if (withSpeed.length < 2) return null;
+
+    const first = withSpeed[0];
+    const last = withSpeed[withSpeed.length - 1];
+    const dt = (last.t - first.t) / 1000;
+    if (dt <= 0) return null;
+
+    const trend = (last.speed! - first.speed!) / dt;
+    if (trend <= -MIN_SPEED_TREND) return 'harsh_braking';
+    if (trend >= MIN_SPEED_TREND) return 'harsh_acceleration';
+    return null;
+  }
+
+  private emitImpact(t: number, totalG: number): void {
+    // Ignore phones dropped or handled while parked
+    if (!this.isMoving(t)) return;
+
+    const [medium, high] = IMPACT_SEVERITY_G;
+    const severity: DrivingEventSeverity =
+      totalG >= high ? 'high' : totalG >= medium ? 'medium' : 'low';
+    this.emit(t, 'impact', severity, totalG, 0);
+  }
+
+  private emit(
+    t: number,
+    kind: DrivingEventKind,
+    severity: DrivingEventSeverity,
+    peakG: number,
+    durationMs: number,
+  ): void {
+    const last = this.lastEventAt[kind];
+    if (last !== undefined && t - last < EVENT_COOLDOWN_MS) return;
+    this.lastEventAt[kind] = t;
+
+    const fix = this.fixes[this.fixes.length - 1];
+    this.onEvent({
+      t,
+      sensor: 'event',
+      kind,
+      severity,
+      peakG: Math.round(peakG * 100) / 100,
+      durationMs,
+      lat: fix?.lat,
+      lng: fix?.lng,
+      speed: fix?.speed,
+    });
+  }
+}
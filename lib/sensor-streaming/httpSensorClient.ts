@@ -1,4 +1,13 @@
+import { withClockInfo } from './clockSkew';
+import { withPrivacyZones } from './driverPrivacy';
 import { SensorQueue } from './sensorQueue';
+import type { SensorSink } from './sensorSinks';
+import {
+  batchToSensorRow,
+  type SensorRow,
+  type SensorTransport,
+  type SensorTransportCallbacks,
+} from './sensorTransport';
 import { SensorBatch } from './types';
 
 // ---------------------------------------------------------------------------
@@ -19,8 +28,6 @@ const QUEUE_DRAIN_BATCH_SIZE = 100;
 const MAX_QUEUE_RETRY_COUNT = 20;
 /** Max batches to coalesce into a single HTTP request */
 const MAX_COALESCE_SIZE = 50;
-/** HTTP request timeout (ms) */
-const HTTP_TIMEOUT_MS = 15_000;
 
 // ---------------------------------------------------------------------------
 // Circuit Breaker
@@ -87,7 +94,7 @@ class CircuitBreaker {
       this.state = 'open';
       this.lastOpenedAt = Date.now();
       console.warn(
-        `[ClickHouseSensorClient] Circuit OPEN after ${this.failureCount} consecutive failures. ` +
+        `[HttpSensorClient] Circuit OPEN after ${this.failureCount} consecutive failures. ` +
           `Will retry in ${CIRCUIT_OPEN_DURATION_MS / 1000}s`,
       );
     }
@@ -105,43 +112,31 @@ class CircuitBreaker {
 // Config & Types
 // ---------------------------------------------------------------------------
 
-type ClickHouseSensorClientConfig = {
-  url: string;
-  user: string;
-  password: string;
+type HttpSensorClientConfig = SensorTransportCallbacks & {
+  /** Where coalesced rows are delivered (API or ClickHouse) */
+  sink: SensorSink;
   deviceId: string;
   queue: SensorQueue;
-  onSendSuccess?: () => void;
-  onSendFailure?: () => void;
-  /** Called with round-trip latency in ms after each successful HTTP call */
-  onLatency?: (latencyMs: number) => void;
-  /** Called with the number of pending batches in the local queue */
-  onQueueDepth?: (depth: number) => void;
 };
 
-/** Shape of a single row in ClickHouse JSONEachRow format */
-interface ClickHouseRow {
-  batch_id: string;
-  device_id: string;
-  driver_id: string | null;
-  vehicle_id: string | null;
-  readings: string; // JSON-encoded array of SensorReading
-}
-
 // ---------------------------------------------------------------------------
 // Client
 // ---------------------------------------------------------------------------
 
-export class ClickHouseSensorClient {
-  private readonly url: string;
-  private readonly user: string;
-  private readonly password: string;
+/**
+ * Delivers sensor batches over HTTP through a pluggable sink, with local
+ * SQLite persistence, request coalescing, a circuit breaker and an
+ * adaptive drain of unacked batches.
+ */
+export class HttpSensorClient implements SensorTransport {
+  private readonly sink: SensorSink;
   private readonly deviceId: string;
   private readonly queue: SensorQueue;
   private readonly onSendSuccess?: () => void;
   private readonly onSendFailure?: () => void;
   private readonly onLatency?: (latencyMs: number) => void;
   private readonly onQueueDepth?: (depth: number) => void;
+  private readonly onTransfer?: SensorTransportCallbacks['onTransfer'];
 
   private drainTimer?: ReturnType<typeof setTimeout>;
   private isDraining = false;
@@ -149,25 +144,19 @@ export class ClickHouseSensorClient {
   private readonly circuit = new CircuitBreaker();
 
   // Batch coalescing buffer: accumulate batches between drain cycles
-  private coalesceBuffer: { batchId: string; row: ClickHouseRow }[] = [];
+  private coalesceBuffer: { batchId: string; row: SensorRow }[] = [];
   private coalesceTimer?: ReturnType<typeof setTimeout>;
   private readonly coalesceWindowMs = 100; // 100ms coalesce window
 
-  // Auth header cached (avoid re-encoding on every request)
-  private readonly authHeader: string;
-
-  constructor(config: ClickHouseSensorClientConfig) {
-    this.url = config.url;
-    this.user = config.user;
-    this.password = config.password;
+  constructor(config: HttpSensorClientConfig) {
+    this.sink = config.sink;
     this.deviceId = config.deviceId;
     this.queue = config.queue;
     this.onSendSuccess = config.onSendSuccess;
     this.onSendFailure = config.onSendFailure;
     this.onLatency = config.onLatency;
     this.onQueueDepth = config.onQueueDepth;
-
-    this.authHeader = 'Basic ' + btoa(`${this.user}:${this.password}`);
+    this.onTransfer = config.onTransfer;
   }
 
   // -----------------------------------------------------------------------
@@ -200,15 +189,18 @@ export class ClickHouseSensorClient {
   // -----------------------------------------------------------------------
 
   /**
-   * Enqueue a sensor batch for persistence to ClickHouse.
+   * Enqueue a sensor batch for delivery through the sink.
    *
    * The batch is:
    * 1. Immediately persisted to the local SQLite queue (crash-safe)
    * 2. Added to a coalesce buffer
-   * 3. Sent in a coalesced HTTP request (JSONEachRow format) for maximum throughput
+   * 3. Sent in a coalesced, compressed HTTP request for maximum throughput
    */
   async enqueueAndPublishBatch(batch: SensorBatch): Promise<void> {
-    const row = this.batchToRow(batch);
+    const seq = this.queue.nextSequence(batch.stream);
+    const row = this.batchToRow(
+      withClockInfo(withPrivacyZones({ ...batch, seq })),
+    );
     const jsonPayload = JSON.stringify(row);
 
     // Persist to local queue first (safety net)
@@ -216,6 +208,8 @@ export class ClickHouseSensorClient {
       batchId: batch.batchId,
       data: jsonPayload,
       qos: 1,
+      stream: batch.stream,
+      seq,
     });
 
     // Add to coalesce buffer
@@ -229,6 +223,14 @@ export class ClickHouseSensorClient {
     }
   }
 
+  /**
+   * Send the coalesce buffer immediately. Used by the background task,
+   * whose JS context may be suspended before the coalesce timer fires.
+   */
+  async flush(): Promise<void> {
+    await this.flushCoalesceBuffer();
+  }
+
   // -----------------------------------------------------------------------
   // Coalesce Buffer
   // -----------------------------------------------------------------------
@@ -253,6 +255,9 @@ export class ClickHouseSensorClient {
       this.coalesceTimer = undefined;
     }
 
+    // Make sure the rows exist before acking them
+    await this.queue.flushInserts();
+
     // If circuit is open, don't attempt – the drain will retry later
     if (this.circuit.isOpen) {
       return;
@@ -278,86 +283,29 @@ export class ClickHouseSensorClient {
   }
 
   // -----------------------------------------------------------------------
-  // HTTP Transport (JSONEachRow format)
+  // HTTP Transport
   // -----------------------------------------------------------------------
 
   /**
-   * Send one or more rows to ClickHouse using the JSONEachRow format via POST body.
-   *
-   * Benefits over the old VALUES-in-URL approach:
-   * - No SQL injection (data is never interpolated into SQL)
-   * - POST body is not URL-length-limited
-   * - ClickHouse parses JSONEachRow ~2× faster than VALUES for complex types
-   * - Proper escaping handled by JSON.stringify
+   * Send one or more rows through the sink, recording latency and bytes
+   * sent and feeding the circuit breaker.
    *
-   * Returns true if ALL rows were acknowledged by ClickHouse.
+   * Returns true if ALL rows were acknowledged by the server.
    */
-  private async publishJsonRows(rows: ClickHouseRow[]): Promise<boolean> {
+  private async publishJsonRows(rows: SensorRow[]): Promise<boolean> {
     if (rows.length === 0) return true;
 
-    // Build the NDJSON body (one JSON object per line)
-    const body = rows.map((r) => JSON.stringify(r)).join('\n');
-
-    // The query goes in the URL, the data goes in the POST body
-    const query = `INSERT INTO rouptimize.sensor_queue FORMAT JSONEachRow`;
-    const requestUrl = `${this.url}?query=${encodeURIComponent(query)}`;
-
     const startTime = Date.now();
+    const { ok, bytesSent, bytesReceived } = await this.sink.send(rows);
+    this.onLatency?.(Date.now() - startTime);
+    this.onTransfer?.(bytesSent, bytesReceived);
 
-    try {
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), HTTP_TIMEOUT_MS);
-
-      const response = await fetch(requestUrl, {
-        method: 'POST',
-        headers: {
-          Authorization: this.authHeader,
-          'Content-Type': 'application/json',
-        },
-        body,
-        signal: controller.signal,
-      });
-      clearTimeout(timeout);
-
-      const latency = Date.now() - startTime;
-      this.onLatency?.(latency);
-
-      if (response.ok) {
-        this.circuit.recordSuccess();
-        return true;
-      }
-
-      // Non-retryable errors (4xx except 429)
-      const status = response.status;
-      if (status >= 400 && status < 500 && status !== 429) {
-        const responseText = await response.text().catch(() => '');
-        console.error(
-          `[ClickHouseSensorClient] Permanent error ${status}: ${responseText.slice(0, 200)}`,
-        );
-        this.circuit.recordFailure();
-        return false;
-      }
-
-      // Retryable server errors (5xx, 429)
-      console.error(
-        `[ClickHouseSensorClient] Retryable error: ${status} ${response.statusText}`,
-      );
-      this.circuit.recordFailure();
-      return false;
-    } catch (error) {
-      const latency = Date.now() - startTime;
-      this.onLatency?.(latency);
-
-      if (error instanceof DOMException && error.name === 'AbortError') {
-        console.error(
-          `[ClickHouseSensorClient] Request timed out after ${HTTP_TIMEOUT_MS}ms`,
-        );
-      } else {
-        console.error('[ClickHouseSensorClient] Network error:', error);
-      }
+    if (ok) {
+      this.circuit.recordSuccess();
+    } else {
       this.circuit.recordFailure();
-      return false;
     }
+    return ok;
   }
 
   /**
@@ -369,12 +317,15 @@ export class ClickHouseSensorClient {
     jsonData: string,
   ): Promise<boolean> {
     // Parse the stored JSON row back
-    let row: ClickHouseRow;
+    let row: SensorRow;
     try {
-      row = JSON.parse(jsonData) as ClickHouseRow;
+      row = JSON.parse(jsonData) as SensorRow;
     } catch {
-      // If the data is in the old VALUES format, attempt a legacy publish
-      return this.publishLegacyPayload(batchId, jsonData);
+      console.warn(
+        `[HttpSensorClient] Batch ${batchId} is unreadable, marking failed`,
+      );
+      await this.queue.markFailed(batchId);
+      return true;
     }
 
     for (let attempt = 0; attempt < MAX_IMMEDIATE_RETRIES; attempt++) {
@@ -403,53 +354,6 @@ export class ClickHouseSensorClient {
     return false;
   }
 
-  /**
-   * Backwards-compatible publisher for batches stored in the old
-   * VALUES format (before migration to JSONEachRow).
-   * This ensures no data loss during a rolling upgrade.
-   */
-  private async publishLegacyPayload(
-    batchId: string,
-    valuesPayload: string,
-  ): Promise<boolean> {
-    const query = `INSERT INTO rouptimize.sensor_queue VALUES ${valuesPayload}`;
-    const requestUrl = `${this.url}?query=${encodeURIComponent(query)}`;
-
-    try {
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), HTTP_TIMEOUT_MS);
-
-      const response = await fetch(requestUrl, {
-        method: 'POST',
-        headers: {
-          Authorization: this.authHeader,
-          'Content-Type': 'application/octet-stream',
-        },
-        signal: controller.signal,
-      });
-      clearTimeout(timeout);
-
-      if (response.ok) {
-        await this.queue.markAcked(batchId);
-        this.circuit.recordSuccess();
-        this.onSendSuccess?.();
-        return true;
-      }
-
-      console.error(
-        `[ClickHouseSensorClient] Legacy insert failed: ${response.status}`,
-      );
-      this.circuit.recordFailure();
-      this.onSendFailure?.();
-      return false;
-    } catch (error) {
-      console.error('[ClickHouseSensorClient] Legacy insert error:', error);
-      this.circuit.recordFailure();
-      this.onSendFailure?.();
-      return false;
-    }
-  }
-
   // -----------------------------------------------------------------------
   // Queue Drain (adaptive interval)
   // -----------------------------------------------------------------------
@@ -471,7 +375,7 @@ export class ClickHouseSensorClient {
    * - Queue is empty  → drain every 30s (save battery)
    * - Circuit is open → skip and wait for cooldown
    */
-  private async drainQueue(): Promise<void> {
+  async drainQueue(): Promise<void> {
     if (this.isDraining) return;
     this.isDraining = true;
 
@@ -483,7 +387,7 @@ export class ClickHouseSensorClient {
       // If circuit is open, skip this cycle entirely
       if (this.circuit.isOpen) {
         console.log(
-          `[ClickHouseSensorClient] Circuit open, skipping drain (${pendingCount} pending)`,
+          `[HttpSensorClient] Circuit open, skipping drain (${pendingCount} pending)`,
         );
         this.currentDrainInterval = QUEUE_DRAIN_MAX_INTERVAL_MS;
         return;
@@ -503,12 +407,12 @@ export class ClickHouseSensorClient {
       this.currentDrainInterval = QUEUE_DRAIN_MIN_INTERVAL_MS;
 
       console.log(
-        `[ClickHouseSensorClient] Draining queue: ${unacked.length} unacked batches ` +
+        `[HttpSensorClient] Draining queue: ${unacked.length} unacked batches ` +
           `(circuit: ${this.circuit.currentState})`,
       );
 
       // ── Coalesce drain batches for bulk send ─────────────────────────
-      const sendable: { batchId: string; row: ClickHouseRow }[] = [];
+      const sendable: { batchId: string; row: SensorRow }[] = [];
       const tooManyRetries: string[] = [];
 
       for (const entry of unacked) {
@@ -519,19 +423,15 @@ export class ClickHouseSensorClient {
 
         // Try to parse as JSON row
         try {
-          const row = JSON.parse(entry.data) as ClickHouseRow;
+          const row = JSON.parse(entry.data) as SensorRow;
           sendable.push({ batchId: entry.batch_id, row });
         } catch {
-          // Legacy format – send individually
-          const ok = await this.publishLegacyPayload(
-            entry.batch_id,
-            entry.data,
+          // The schema migrations retire old payload formats, so this is
+          // a corrupt row – retrying won't help
+          console.warn(
+            `[HttpSensorClient] Batch ${entry.batch_id} is unreadable, marking failed`,
           );
-          if (!ok) {
-            await this.queue.bumpRetry(entry.batch_id);
-            // If a send fails, stop draining – network is likely down
-            break;
-          }
+          await this.queue.markFailed(entry.batch_id);
         }
 
         // Stop accumulating if circuit opened during iteration
@@ -542,7 +442,7 @@ export class ClickHouseSensorClient {
       for (const batchId of tooManyRetries) {
         await this.queue.markFailed(batchId);
         console.warn(
-          `[ClickHouseSensorClient] Batch ${batchId} exceeded ${MAX_QUEUE_RETRY_COUNT} retries, marking failed`,
+          `[HttpSensorClient] Batch ${batchId} exceeded ${MAX_QUEUE_RETRY_COUNT} retries, marking failed`,
         );
       }
 
@@ -573,7 +473,7 @@ export class ClickHouseSensorClient {
         }
       }
     } catch (error) {
-      console.error('[ClickHouseSensorClient] Queue drain error:', error);
+      console.error('[HttpSensorClient] Queue drain error:', error);
     } finally {
       this.isDraining = false;
     }
@@ -584,17 +484,11 @@ export class ClickHouseSensorClient {
   // -----------------------------------------------------------------------
 
   /**
-   * Convert a SensorBatch to a ClickHouse JSONEachRow object.
+   * Convert a SensorBatch to its stored JSON row.
    * This is the canonical serialization format — no SQL interpolation.
    */
-  private batchToRow(batch: SensorBatch): ClickHouseRow {
-    return {
-      batch_id: batch.batchId,
-      device_id: batch.deviceId,
-      driver_id: batch.driverId ?? null,
-      vehicle_id: batch.vehicleId ?? null,
-      readings: JSON.stringify(batch.readings),
-    };
+  private batchToRow(batch: SensorBatch): SensorRow {
+    return batchToSensorRow(batch);
   }
 
   private sleep(ms: number): Promise<void> {
@@ -0,0 +1,221 @@
+import { fromLocalMeters, toLocalMeters, type LngLat } from '../geo';
+import { SensorReading } from './types';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Fixes reporting a worse accuracy (m) than this are dropped */
+const MAX_ACCURACY_M = 100;
+/** Accuracy assumed when the OS doesn't report one */
+const DEFAULT_ACCURACY_M = 25;
+/** Implied speeds above this (m/s, ~200 km/h) are treated as jumps */
+const MAX_SPEED_MS = 55;
+/**
+ * After this many jumps in a row the filter is probably the one that's
+ * wrong (e.g. it locked onto a bad fix after a tunnel), so it restarts.
+ */
+const MAX_CONSECUTIVE_REJECTS = 5;
+/** Restart the filter after a gap this long – the old state is meaningless */
+const RESET_GAP_MS = 30_000;
+/** Process noise: expected vehicle acceleration (m/s²) */
+const ACCEL_NOISE = 3;
+/** Re-centre the local projection once the vehicle is this far (m) away */
+const MAX_LOCAL_OFFSET_M = 5_000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type LocationReading = Extract<SensorReading, { sensor: 'location' }>;
+
+type LocationFilterConfig = {
+  /**
+   * Attach the unfiltered fix to every output as `raw`. Defaults to
+   * EXPO_PUBLIC_SENSOR_KEEP_RAW_LOCATION.
+   */
+  keepRaw?: boolean;
+};
+
+/** Position/velocity along one axis with its 2×2 covariance */
+type AxisState = {
+  p: number;
+  v: number;
+  pp: number;
+  pv: number;
+  vv: number;
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function initialAxis(p: number, variance: number): AxisState {
+  // Velocity is unknown at first – let the first few fixes determine it
+  return { p, v: 0, pp: variance, pv: 0, vv: 100 };
+}
+
+/** Constant-velocity prediction with white-noise acceleration */
+function predictAxis(s: AxisState, dt: number): void {
+  const q = ACCEL_NOISE * ACCEL_NOISE;
+  const dt2 = dt * dt;
+
+  s.p += s.v * dt;
+  s.pp += 2 * dt * s.pv + dt2 * s.vv + (q * dt2 * dt2) / 4;
+  s.pv += dt * s.vv + (q * dt2 * dt) / 2;
+  s.vv += q * dt2;
+}
+
+function updateAxis(s: AxisState, z: number, variance: number): void {
+  const innovationVar = s.pp + variance;
+  const kp = s.pp / innovationVar;
+  const kv = s.pv / innovationVar;
+  const y = z - s.p;
+
+  s.p += kp * y;
+  s.v += kv * y;
+  s.vv -= kv * s.pv;
+  s.pv -= kp * s.pv;
+  s.pp -= kp * s.pp;
+}
+
+// ---------------------------------------------------------------------------
+// LocationFilter
+// ---------------------------------------------------------------------------
+
+/**
+ * Cleans up raw GPS fixes before they are used or uploaded.
+ *
+ * - fixes with poor or missing accuracy are gated/weighted by it
+ * - fixes implying an impossible speed are dropped as outliers
+ * - the rest go through a constant-velocity Kalman filter (one per axis on
+ *   a local metric plane), so the output follows the road instead of
+ *   zig-zagging with the noise
+ *
+ * Speed and heading are passed through – the OS derives them from Doppler,
+ * which is already far smoother than differentiating positions.
+ */
+export class LocationFilter {
+  private readonly keepRaw: boolean;
+
+  private origin: LngLat | null = null;
+  private x: AxisState | null = null;
+  private y: AxisState | null = null;
+  private lastT = 0;
+  private consecutiveRejects = 0;
+
+  constructor(config: LocationFilterConfig = {}) {
+    this.keepRaw =
+      config.keepRaw ??
+      (process.env.EXPO_PUBLIC_SENSOR_KEEP_RAW_LOCATION || '').toLowerCase() ===
+        'true';
+  }
+
+  /**
+   * Filter one fix. Returns the smoothed reading, or null if the fix was
+   * rejected as an outlier.
+   */
+  push(reading: LocationReading): LocationReading | null {
+    const accuracy = reading.accuracy ?? DEFAULT_ACCURACY_M;
+    if (accuracy > MAX_ACCURACY_M) {
+      return null;
+    }
+    // Duplicates / out-of-order fixes (foreground and background overlap)
+    if (reading.t <= this.lastT) {
+      return null;
+    }
+
+    const point: LngLat = [reading.lng, reading.lat];
+    const variance = accuracy * accuracy;
+    const dtMs = reading.t - this.lastT;
+
+    if (!this.origin || !this.x || !this.y || dtMs > RESET_GAP_MS) {
+      this.reset(point, variance);
+      this.lastT = reading.t;
+      return this.output(reading, point, accuracy);
+    }
+
+    const [zx, zy] = toLocalMeters(this.origin, point);
+    const dt = dtMs / 1000;
+
+    // Speed gate against the last estimate, giving the fix the benefit of
+    // its own accuracy radius
+    const jump = Math.hypot(zx - this.x.p, zy - this.y.p);
+    if ((jump - accuracy) / dt > MAX_SPEED_MS) {
+      this.consecutiveRejects++;
+      if (this.consecutiveRejects < MAX_CONSECUTIVE_REJECTS) {
+        console.log(
+          `[LocationFilter] Dropped jump of ${Math.round(jump)}m in ${dt.toFixed(1)}s`,
+        );
+        return null;
+      }
+      console.log('[LocationFilter] Too many jumps in a row, restarting');
+      this.reset(point, variance);
+      this.lastT = reading.t;
+      return this.output(reading, point, accuracy);
+    }
+    this.consecutiveRejects = 0;
+    this.lastT = reading.t;
+
+    predictAxis(this.x, dt);
+    predictAxis(this.y, dt);
+    updateAxis(this.x, zx, variance);
+    updateAxis(this.y, zy, variance);
+
+    const estimate = fromLocalMeters(this.origin, [this.x.p, this.y.p]);
+    const estimateAccuracy = Math.sqrt(Math.max(this.x.pp, this.y.pp));
+
+    if (Math.hypot(this.x.p, this.y.p) > MAX_LOCAL_OFFSET_M) {
+      this.recentre(estimate);
+    }
+
+    return this.output(reading, estimate, estimateAccuracy);
+  }
+
+  reset(point?: LngLat, variance = DEFAULT_ACCURACY_M ** 2): void {
+    this.consecutiveRejects = 0;
+    if (!point) {
+      this.origin = null;
+      this.x = null;
+      this.y = null;
+      this.lastT = 0;
+      return;
+    }
+    this.origin = point;
+    this.x = initialAxis(0, variance);
+    this.y = initialAxis(0, variance);
+  }
+
+  // -----------------------------------------------------------------------
+  // Internals
+  // -----------------------------------------------------------------------
+
+  /** Move the projection origin to `point`, keeping the state */
+  private recentre(point: LngLat): void {
+    if (!this.x || !this.y) return;
+    this.origin = point;
+    this.x.p = 0;
+    this.y.p = 0;
+  }
+
+  private output(
+    reading: LocationReading,
+    [lng, lat]: LngLat,
+    accuracy: number,
+  ): LocationReading {
+    const filtered: LocationReading = {
+      ...reading,
+      lng,
+      lat,
+      accuracy: Math.round(accuracy * 10) / 10,
+    };
+    if (this.keepRaw) {
+      filtered.raw = {
+        lng: reading.lng,
+        lat: reading.lat,
+        accuracy: reading.accuracy,
+      };
+    }
+    return filtered;
+  }
+}
@@ -0,0 +1,267 @@
+import * as Location from 'expo-location';
+
+import { SensorReading } from './types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * - driving:    vehicle is moving – full sensor rates, high-accuracy GPS
+ * - walking:    phone is moving but the vehicle isn't (delivering a parcel)
+ * - stationary: parked and the phone is at rest – minimal sampling
+ */
+export type MotionState = 'stationary' | 'walking' | 'driving';
+
+export type BatteryImpact = 'low' | 'medium' | 'high';
+
+export type SamplingProfile = {
+  /** Accelerometer / gyroscope sample rate */
+  imuRateHz: number;
+  locationAccuracy: Location.Accuracy;
+  locationIntervalMs: number;
+  /** Minimum movement (m) before the OS reports a new fix */
+  distanceIntervalM: number;
+  batteryImpact: BatteryImpact;
+  /**
+   * Rough power draw relative to the driving profile (0–1). GPS dominates,
+   * so this mostly follows location accuracy and interval.
+   */
+  relativePower: number;
+};
+
+type MotionStateMachineConfig = {
+  onChange: (state: MotionState, previous: MotionState) => void;
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** GPS speed (m/s, ~15 km/h) that means the vehicle is driving */
+const DRIVING_SPEED_MS = 4;
+/** Speed must stay above DRIVING_SPEED_MS this long to switch to driving */
+const DRIVING_CONFIRM_MS = 3_000;
+/** Below this speed (m/s) the vehicle is considered stopped */
+const STOPPED_SPEED_MS = 1.5;
+/** Stopped this long before leaving driving (longer than a traffic light) */
+const STOPPED_DWELL_MS = 90_000;
+/** Phone at rest this long before dropping to stationary */
+const STILL_DWELL_MS = 60_000;
+/** Fixes older than this no longer say anything about current speed */
+const SPEED_STALE_MS = 30_000;
+
+/** Time constant (ms) of the accel magnitude mean/variance estimate */
+const ACCEL_TAU_MS = 2_000;
+/** Accel magnitude std-dev (g) below which the phone is at rest */
+const STILL_STD_G = 0.015;
+/** Accel magnitude std-dev (g) above which the phone is being moved */
+const ACTIVE_STD_G = 0.05;
+
+/** IMU rate caps for the reduced profiles */
+const WALKING_IMU_RATE_HZ = 10;
+const STATIONARY_IMU_RATE_HZ = 2;
+
+// ---------------------------------------------------------------------------
+// Sampling profiles
+// ---------------------------------------------------------------------------
+
+/** Bucket an estimated relative power draw for display */
+export function batteryImpactFor(relativePower: number): BatteryImpact {
+  if (relativePower >= 0.7) return 'high';
+  if (relativePower >= 0.3) return 'medium';
+  return 'low';
+}
+
+/**
+ * Sensor settings for a motion state. `maxImuRateHz` is the configured
+ * driving rate (EXPO_PUBLIC_SENSOR_RATE_HZ); reduced profiles never exceed it.
+ */
+export function samplingProfileFor(
+  state: MotionState,
+  maxImuRateHz: number,
+): SamplingProfile {
+  switch (state) {
+    case 'driving':
+      return {
+        imuRateHz: maxImuRateHz,
+        locationAccuracy: Location.Accuracy.High,
+        locationIntervalMs: 1_000,
+        distanceIntervalM: 0,
+        batteryImpact: batteryImpactFor(1),
+        relativePower: 1,
+      };
+    case 'walking':
+      return {
+        imuRateHz: Math.min(maxImuRateHz, WALKING_IMU_RATE_HZ),
+        locationAccuracy: Location.Accuracy.High,
+        locationIntervalMs: 5_000,
+        distanceIntervalM: 5,
+        batteryImpact: batteryImpactFor(0.45),
+        relativePower: 0.45,
+      };
+    case 'stationary':
+      return {
+        imuRateHz: Math.min(maxImuRateHz, STATIONARY_IMU_RATE_HZ),
+        locationAccuracy: Location.Accuracy.Balanced,
+        locationIntervalMs: 30_000,
+        distanceIntervalM: 25,
+        batteryImpact: batteryImpactFor(0.1),
+        relativePower: 0.1,
+      };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// MotionStateMachine
+// ---------------------------------------------------------------------------
+
+/**
+ * Decides between stationary / walking / driving from the sensor stream.
+ *
+ * GPS speed decides driving; the variance of the accelerometer magnitude
+ * decides whether the phone itself is moving. Ramping up is fast (any
+ * movement leaves stationary immediately) while ramping down waits out
+ * traffic lights and short pauses. Starts in `driving` so a session
+ * begins at full rate.
+ */
+export class MotionStateMachine {
+  private readonly onChange: MotionStateMachineConfig['onChange'];
+
+  private state: MotionState = 'driving';
+
+  // Accel magnitude statistics (time-based EMA, independent of sample rate)
+  private accelMean: number | null = null;
+  private accelVar = 0;
+  private lastAccelAt = 0;
+  private stillSince: number | null = null;
+
+  private startedAt: number | null = null;
+  private lastFixAt = 0;
+  private fastSince: number | null = null;
+  private stoppedSince: number | null = null;
+
+  constructor(config: MotionStateMachineConfig) {
+    this.onChange = config.onChange;
+  }
+
+  get current(): MotionState {
+    return this.state;
+  }
+
+  push(reading: SensorReading): void {
+    switch (reading.sensor) {
+      case 'accel':
+        this.handleAccel(reading.t, reading);
+        break;
+      case 'location':
+        this.handleLocation(reading.t, reading.speed);
+        break;
+      default:
+        return;
+    }
+    this.evaluate(reading.t);
+  }
+
+  reset(): void {
+    this.state = 'driving';
+    this.accelMean = null;
+    this.accelVar = 0;
+    this.lastAccelAt = 0;
+    this.stillSince = null;
+    this.startedAt = null;
+    this.lastFixAt = 0;
+    this.fastSince = null;
+    this.stoppedSince = null;
+  }
+
+  // -----------------------------------------------------------------------
+  // Sensor handlers
+  // -----------------------------------------------------------------------
+
+  private handleAccel(t: number, a: { x: number; y: number; z: number }): void {
+    const magnitude = Math.hypot(a.x, a.y, a.z);
+    if (this.accelMean === null) {
+      this.accelMean = magnitude;
+      this.lastAccelAt = t;
+      return;
+    }
+
+    const dt = Math.max(0, t - this.lastAccelAt);
+    this.lastAccelAt = t;
+    const alpha = 1 - Math.exp(-dt / ACCEL_TAU_MS);
+    const delta = magnitude - this.accelMean;
+    this.accelMean += alpha * delta;
+    this.accelVar = (1 - alpha) * (this.accelVar + alpha * delta * delta);
+
+    const std = Math.sqrt(this.accelVar);
+    if (std < STILL_STD_G) {
+      if (this.stillSince === null) this.stillSince = t;
+    } else {
+      this.stillSince = null;
+    }
+  }
+
+  private handleLocation(t: number, speed: number | undefined): void {
+    if (speed === undefined || speed < 0) return;
+    this.lastFixAt = t;
+
+    if (speed >= DRIVING_SPEED_MS) {
+      if (this.fastSince === null) this.fastSince = t;
+    } else {
+      this.fastSince = null;
+    }
+
+    if (speed < STOPPED_SPEED_MS) {
+      if (this.stoppedSince === null) this.stoppedSince = t;
+    } else {
+      this.stoppedSince = null;
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Transitions
+  // -----------------------------------------------------------------------
+
+  private evaluate(t: number): void {
+    if (this.startedAt === null) this.startedAt = t;
+    const sinceFix = t - (this.lastFixAt || this.startedAt);
+
+    const isFast =
+      sinceFix <= SPEED_STALE_MS &&
+      this.fastSince !== null &&
+      t - this.fastSince >= DRIVING_CONFIRM_MS;
+    // Reduced profiles only report fixes once the phone has moved, so a
+    // missing fix also counts as stopped
+    const isStopped =
+      (this.stoppedSince !== null && t - this.stoppedSince >= STOPPED_DWELL_MS) ||
+      sinceFix >= STOPPED_DWELL_MS;
+    const isSlow = this.stoppedSince !== null || sinceFix > SPEED_STALE_MS;
+    const isStill =
+      this.stillSince !== null && t - this.stillSince >= STILL_DWELL_MS;
+    const isActive = Math.sqrt(this.accelVar) >= ACTIVE_STD_G;
+
+    let next = this.state;
+    switch (this.state) {
+      case 'driving':
+        if (isStopped) next = isStill ? 'stationary' : 'walking';
+        break;
+      case 'walking':
+        if (isFast) next = 'driving';
+        else if (isStill && isSlow) next = 'stationary';
+        break;
+      case 'stationary':
+        if (isFast) next = 'driving';
+        else if (isActive) next = 'walking';
+        break;
+    }
+
+    if (next !== this.state) {
+      const previous = this.state;
+      this.state = next;
+      // The stop timer restarts for the new state
+      if (next === 'driving') this.stoppedSince = null;
+      this.onChange(next, previous);
+    }
+  }
+}
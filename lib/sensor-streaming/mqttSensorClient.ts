@@ -0,0 +1,361 @@
+import mqtt, { type MqttClient } from 'mqtt';
+
+import { withClockInfo } from './clockSkew';
+import { withPrivacyZones } from './driverPrivacy';
+import { utf8ByteLength } from './sensorEncoding';
+import { SensorQueue } from './sensorQueue';
+import {
+  batchToSensorRow,
+  type SensorTransport,
+  type SensorTransportCallbacks,
+} from './sensorTransport';
+import { SensorBatch } from './types';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Min interval for draining unacked batches from the local queue */
+const QUEUE_DRAIN_MIN_INTERVAL_MS = 5_000;
+/** Max interval (backs off to this when queue is empty or offline) */
+const QUEUE_DRAIN_MAX_INTERVAL_MS = 30_000;
+/** Max batches to drain per cycle */
+const QUEUE_DRAIN_BATCH_SIZE = 100;
+/** Max retry count before a batch is marked permanently failed */
+const MAX_QUEUE_RETRY_COUNT = 20;
+/** How long to wait for PUBACK/PUBCOMP before treating a publish as failed */
+const PUBLISH_TIMEOUT_MS = 15_000;
+/** Window for grouping newly enqueued batches before publishing */
+const PUBLISH_WINDOW_MS = 100;
+/** Reconnect back-off used by the mqtt client */
+const RECONNECT_PERIOD_MS = 5_000;
+/** Root of the per-device sensor topics */
+const TOPIC_PREFIX = 'rouptimize/sensors';
+/** PUBACK / PUBREC / PUBREL / PUBCOMP are 4 bytes each */
+const ACK_PACKET_BYTES = 4;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Size of a PUBLISH packet on the wire, and of the acks for its QoS */
+function publishPacketBytes(
+  topic: string,
+  payload: string,
+  qos: MqttQoS,
+): { sent: number; received: number } {
+  const remaining =
+    2 + utf8ByteLength(topic) + (qos > 0 ? 2 : 0) + utf8ByteLength(payload);
+  // Fixed header: 1 type byte + 1–4 byte variable-length remaining length
+  const lengthBytes =
+    remaining < 128 ? 1 : remaining < 16_384 ? 2 : remaining < 2_097_152 ? 3 : 4;
+  const packet = 1 + lengthBytes + remaining;
+
+  if (qos === 2) {
+    // PUBLISH + PUBREL out, PUBREC + PUBCOMP in
+    return { sent: packet + ACK_PACKET_BYTES, received: 2 * ACK_PACKET_BYTES };
+  }
+  return { sent: packet, received: qos === 1 ? ACK_PACKET_BYTES : 0 };
+}
+
+// ---------------------------------------------------------------------------
+// Config & Types
+// ---------------------------------------------------------------------------
+
+/**
+ * MQTT delivery guarantee. Stored per batch in the `qos` column of
+ * `SensorQueue`, so drained batches keep the level they were queued with.
+ *
+ * - 0: fire-and-forget, acked locally as soon as it is written to the socket
+ * - 1: acked on PUBACK (at-least-once, the default)
+ * - 2: acked on PUBCOMP (exactly-once)
+ */
+export type MqttQoS = 0 | 1 | 2;
+
+type MqttSensorClientConfig = SensorTransportCallbacks & {
+  /** WebSocket broker URL, e.g. ws://localhost:9001 */
+  url: string;
+  username?: string;
+  password?: string;
+  deviceId: string;
+  queue: SensorQueue;
+  qos: MqttQoS;
+};
+
+function toQoS(value: number): MqttQoS {
+  return value === 0 || value === 2 ? value : 1;
+}
+
+// ---------------------------------------------------------------------------
+// Client
+// ---------------------------------------------------------------------------
+
+/**
+ * Publishes sensor batches to the Mosquitto broker over WebSockets, one
+ * topic per device (`rouptimize/sensors/<deviceId>`). The payload is the
+ * same JSON row the ClickHouse transport inserts.
+ */
+export class MqttSensorClient implements SensorTransport {
+  private readonly url: string;
+  private readonly username?: string;
+  private readonly password?: string;
+  private readonly deviceId: string;
+  private readonly queue: SensorQueue;
+  private readonly qos: MqttQoS;
+  private readonly topic: string;
+  private readonly onSendSuccess?: () => void;
+  private readonly onSendFailure?: () => void;
+  private readonly onLatency?: (latencyMs: number) => void;
+  private readonly onQueueDepth?: (depth: number) => void;
+  private readonly onTransfer?: SensorTransportCallbacks['onTransfer'];
+
+  private client?: MqttClient;
+  private drainTimer?: ReturnType<typeof setTimeout>;
+  private isDraining = false;
+  private currentDrainInterval = QUEUE_DRAIN_MIN_INTERVAL_MS;
+
+  // New batches waiting for the publish window
+  private publishBuffer: { batchId: string; payload: string }[] = [];
+  private publishTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(config: MqttSensorClientConfig) {
+    this.url = config.url;
+    this.username = config.username;
+    this.password = config.password;
+    this.deviceId = config.deviceId;
+    this.queue = config.queue;
+    this.qos = config.qos;
+    this.topic = `${TOPIC_PREFIX}/${config.deviceId}`;
+    this.onSendSuccess = config.onSendSuccess;
+    this.onSendFailure = config.onSendFailure;
+    this.onLatency = config.onLatency;
+    this.onQueueDepth = config.onQueueDepth;
+    this.onTransfer = config.onTransfer;
+  }
+
+  // -----------------------------------------------------------------------
+  // Lifecycle
+  // -----------------------------------------------------------------------
+
+  start(): void {
+    if (this.client) return;
+
+    this.client = mqtt.connect(this.url, {
+      clientId: `rouptimize_${this.deviceId}`,
+      username: this.username,
+      password: this.password,
+      reconnectPeriod: RECONNECT_PERIOD_MS,
+      connectTimeout: PUBLISH_TIMEOUT_MS,
+      keepalive: 30,
+    });
+
+    this.client.on('connect', () => {
+      console.log(`[MqttSensorClient] Connected to ${this.url}`);
+      // Catch up on anything queued while offline
+      void this.drainQueue();
+    });
+    this.client.on('offline', () => {
+      console.log('[MqttSensorClient] Broker unreachable, queueing locally');
+    });
+    this.client.on('error', (error) => {
+      console.warn('[MqttSensorClient] Connection error:', error.message);
+    });
+
+    this.scheduleDrain();
+  }
+
+  stop(): void {
+    if (this.drainTimer) {
+      clearTimeout(this.drainTimer);
+      this.drainTimer = undefined;
+    }
+    if (this.publishTimer) {
+      clearTimeout(this.publishTimer);
+      this.publishTimer = undefined;
+    }
+    // Buffered batches are already persisted; the next drain picks them up
+    this.publishBuffer = [];
+
+    // Graceful end lets in-flight QoS 1/2 handshakes complete
+    this.client?.end(false);
+    this.client = undefined;
+  }
+
+  // -----------------------------------------------------------------------
+  // Public API
+  // -----------------------------------------------------------------------
+
+  /**
+   * Persist a batch to the local queue (with the configured QoS) and
+   * publish it after a short grouping window. While disconnected the batch
+   * simply waits for the next drain.
+   */
+  async enqueueAndPublishBatch(batch: SensorBatch): Promise<void> {
+    const seq = this.queue.nextSequence(batch.stream);
+    const payload = JSON.stringify(
+      batchToSensorRow(withClockInfo(withPrivacyZones({ ...batch, seq }))),
+    );
+
+    await this.queue.insertPendingBatch({
+      batchId: batch.batchId,
+      data: payload,
+      qos: this.qos,
+      stream: batch.stream,
+      seq,
+    });
+
+    this.publishBuffer.push({ batchId: batch.batchId, payload });
+    this.schedulePublish();
+  }
+
+  async flush(): Promise<void> {
+    await this.flushPublishBuffer();
+  }
+
+  // -----------------------------------------------------------------------
+  // Publishing
+  // -----------------------------------------------------------------------
+
+  private schedulePublish(): void {
+    if (this.publishTimer) return;
+    this.publishTimer = setTimeout(() => {
+      this.publishTimer = undefined;
+      void this.flushPublishBuffer();
+    }, PUBLISH_WINDOW_MS);
+  }
+
+  private async flushPublishBuffer(): Promise<void> {
+    if (this.publishTimer) {
+      clearTimeout(this.publishTimer);
+      this.publishTimer = undefined;
+    }
+    const entries = this.publishBuffer;
+    this.publishBuffer = [];
+    if (entries.length === 0) return;
+
+    // Make sure the rows exist before acking them
+    await this.queue.flushInserts();
+
+    // Offline – leave them for the drain cycle
+    if (!this.client?.connected) return;
+
+    for (const entry of entries) {
+      const ok = await this.publish(entry.batchId, entry.payload, this.qos);
+      if (!ok) break;
+    }
+  }
+
+  /**
+   * Publish one batch and update its queue row. Returns true once the
+   * broker has acknowledged it at the requested QoS.
+   */
+  private async publish(
+    batchId: string,
+    payload: string,
+    qos: MqttQoS,
+  ): Promise<boolean> {
+    const client = this.client;
+    if (!client?.connected) return false;
+
+    await this.queue.markSent(batchId);
+    const startTime = Date.now();
+    const packetBytes = publishPacketBytes(this.topic, payload, qos);
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      await Promise.race([
+        client.publishAsync(this.topic, payload, { qos }),
+        new Promise<never>((_, reject) => {
+          timeout = setTimeout(
+            () => reject(new Error(`Publish timed out after ${PUBLISH_TIMEOUT_MS}ms`)),
+            PUBLISH_TIMEOUT_MS,
+          );
+        }),
+      ]);
+
+      this.onLatency?.(Date.now() - startTime);
+      this.onTransfer?.(packetBytes.sent, packetBytes.received);
+      await this.queue.markAcked(batchId);
+      this.onSendSuccess?.();
+      return true;
+    } catch (error) {
+      this.onLatency?.(Date.now() - startTime);
+      this.onTransfer?.(packetBytes.sent, 0);
+      console.warn(`[MqttSensorClient] Publish failed for ${batchId}:`, error);
+      await this.queue.bumpRetry(batchId);
+      this.onSendFailure?.();
+      return false;
+    } finally {
+      if (timeout) clearTimeout(timeout);
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Queue Drain (adaptive interval)
+  // -----------------------------------------------------------------------
+
+  private scheduleDrain(): void {
+    if (this.drainTimer) return;
+    this.drainTimer = setTimeout(() => {
+      this.drainTimer = undefined;
+      void this.drainQueue().then(() => {
+        if (this.client) this.scheduleDrain();
+      });
+    }, this.currentDrainInterval);
+  }
+
+  /**
+   * Republish pending/sent batches from the local queue, each with the QoS
+   * it was stored with. Stops at the first failure – the broker is likely
+   * unreachable and the client will reconnect on its own.
+   */
+  async drainQueue(): Promise<void> {
+    if (this.isDraining) return;
+    this.isDraining = true;
+
+    try {
+      const pendingCount = await this.queue.countPending();
+      this.onQueueDepth?.(pendingCount);
+
+      if (!this.client?.connected) {
+        this.currentDrainInterval = QUEUE_DRAIN_MAX_INTERVAL_MS;
+        return;
+      }
+
+      const unacked = await this.queue.listUnackedBatches(
+        QUEUE_DRAIN_BATCH_SIZE,
+      );
+
+      if (unacked.length === 0) {
+        this.currentDrainInterval = QUEUE_DRAIN_MAX_INTERVAL_MS;
+        return;
+      }
+
+      this.currentDrainInterval = QUEUE_DRAIN_MIN_INTERVAL_MS;
+      console.log(
+        `[MqttSensorClient] Draining queue: ${unacked.length} unacked batches`,
+      );
+
+      for (const entry of unacked) {
+        if (entry.retry_count >= MAX_QUEUE_RETRY_COUNT) {
+          await this.queue.markFailed(entry.batch_id);
+          console.warn(
+            `[MqttSensorClient] Batch ${entry.batch_id} exceeded ${MAX_QUEUE_RETRY_COUNT} retries, marking failed`,
+          );
+          continue;
+        }
+
+        const ok = await this.publish(
+          entry.batch_id,
+          entry.data,
+          toQoS(entry.qos),
+        );
+        if (!ok) break;
+      }
+    } catch (error) {
+      console.error('[MqttSensorClient] Queue drain error:', error);
+    } finally {
+      this.isDraining = false;
+    }
+  }
+}
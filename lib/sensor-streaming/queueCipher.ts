@@ -0,0 +1,158 @@
+import { xchacha20poly1305 } from '@noble/ciphers/chacha.js';
+import { bytesToHex, hexToBytes } from '@noble/ciphers/utils.js';
+import { getRandomBytes } from 'expo-crypto';
+import * as SecureStore from 'expo-secure-store';
+import { strFromU8, strToU8 } from 'fflate';
+import { Platform } from 'react-native';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const KEY_STORAGE_KEY = 'sensor_queue_key';
+const OWNER_STORAGE_KEY = 'sensor_queue_owner';
+
+const KEY_BYTES = 32;
+/** XChaCha20 nonces are long enough to pick at random for every payload */
+const NONCE_BYTES = 24;
+
+// Same restriction as the auth tokens in lib/api/storage.ts. Without
+// SecureStore the key only lives in memory, so queued payloads don't
+// survive a restart – better than leaving them readable.
+const isSecureStoreAvailable = Platform.OS !== 'web';
+
+// The background location task runs while the phone is locked
+const SECURE_STORE_OPTIONS: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK,
+};
+
+// ---------------------------------------------------------------------------
+// QueueCipher
+// ---------------------------------------------------------------------------
+
+/**
+ * Encrypts sensor queue payloads at rest with XChaCha20-Poly1305.
+ *
+ * The key is generated on the device and kept in SecureStore next to the
+ * auth tokens. Each payload is bound to its batch ID, so rows can't be
+ * swapped around in the database without failing authentication.
+ */
+export class QueueCipher {
+  private key?: Uint8Array;
+  // Still accepted by decrypt while payloads are being re-encrypted
+  private previousKey?: Uint8Array;
+  private initPromise?: Promise<void>;
+
+  constructor(key?: Uint8Array) {
+    this.key = key;
+  }
+
+  /** Load the key from SecureStore, creating one on first use */
+  async init(): Promise<void> {
+    if (this.key) return;
+    if (!this.initPromise) {
+      this.initPromise = this._load().finally(() => {
+        this.initPromise = undefined;
+      });
+    }
+    return this.initPromise;
+  }
+
+  private async _load(): Promise<void> {
+    if (isSecureStoreAvailable) {
+      const stored = await SecureStore.getItemAsync(
+        KEY_STORAGE_KEY,
+        SECURE_STORE_OPTIONS,
+      );
+      if (stored) {
+        this.key = hexToBytes(stored);
+        return;
+      }
+    }
+    this.key = await this.createKey();
+  }
+
+  private async createKey(): Promise<Uint8Array> {
+    const key = getRandomBytes(KEY_BYTES);
+    if (isSecureStoreAvailable) {
+      await SecureStore.setItemAsync(
+        KEY_STORAGE_KEY,
+        bytesToHex(key),
+        SECURE_STORE_OPTIONS,
+      );
+    }
+    return key;
+  }
+
+  // -----------------------------------------------------------------------
+  // Public API
+  // -----------------------------------------------------------------------
+
+  /** Encrypt a payload; the result is nonce ‖ ciphertext ‖ tag */
+  encrypt(batchId: string, plaintext: string): Uint8Array {
+    if (!this.key) throw new Error('QueueCipher used before init()');
+
+    const nonce = getRandomBytes(NONCE_BYTES);
+    const sealed = xchacha20poly1305(this.key, nonce, strToU8(batchId)).encrypt(
+      strToU8(plaintext),
+    );
+    const out = new Uint8Array(NONCE_BYTES + sealed.length);
+    out.set(nonce, 0);
+    out.set(sealed, NONCE_BYTES);
+    return out;
+  }
+
+  /**
+   * Decrypt a payload written by `encrypt`. Returns null if it was written
+   * with another key or has been tampered with.
+   */
+  decrypt(batchId: string, data: Uint8Array): string | null {
+    if (data.length <= NONCE_BYTES) return null;
+    for (const key of [this.key, this.previousKey]) {
+      if (!key) continue;
+      try {
+        const nonce = data.subarray(0, NONCE_BYTES);
+        const opened = xchacha20poly1305(key, nonce, strToU8(batchId)).decrypt(
+          data.subarray(NONCE_BYTES),
+        );
+        return strFromU8(opened);
+      } catch {
+        // Try the next key
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Switch to a fresh key. Returns a cipher holding the previous key so
+   * existing payloads can be re-encrypted; until `forgetPreviousKey` is
+   * called, this cipher also still decrypts them.
+   */
+  async rotate(): Promise<QueueCipher> {
+    await this.init();
+    const previous = new QueueCipher(this.key);
+    this.previousKey = this.key;
+    this.key = await this.createKey();
+    return previous;
+  }
+
+  /** Stop accepting the key from before the last rotation */
+  forgetPreviousKey(): void {
+    this.previousKey = undefined;
+  }
+
+  // -----------------------------------------------------------------------
+  // Owner
+  // -----------------------------------------------------------------------
+
+  /** ID of the driver whose trajectories are in the queue, if known */
+  async getOwner(): Promise<string | null> {
+    if (!isSecureStoreAvailable) return null;
+    return await SecureStore.getItemAsync(OWNER_STORAGE_KEY);
+  }
+
+  async setOwner(ownerId: string): Promise<void> {
+    if (!isSecureStoreAvailable) return;
+    await SecureStore.setItemAsync(OWNER_STORAGE_KEY, ownerId);
+  }
+}
@@ -0,0 +1,271 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import {
+  telemetryService,
+  type SensorConfigLayer,
+  type SensorConfigScope,
+} from '../api/services/telemetry.service';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type SensorStreamingConfig = {
+  /** Master switch for sensor streaming */
+  enabled: boolean;
+  /** Accelerometer / gyroscope rate while driving */
+  sampleRateHz: number;
+  /** Starting flush interval; the adaptive logic takes over from there */
+  batchIntervalMs: number;
+  /** How long acked/failed batches are kept in SQLite */
+  retentionDays: number;
+  /** Distance either side of the planned route before the driver is off route (m) */
+  offRouteCorridorM: number;
+  /** How long a deviation (or the return) must last before it's reported */
+  offRouteConfirmMs: number;
+};
+
+/** Where the effective config came from */
+export type SensorConfigSource = 'build' | 'cache' | 'remote';
+
+type CachedSensorConfig = {
+  version: string;
+  layers: SensorConfigLayer[];
+  fetchedAt: number;
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const CACHE_KEY = 'sensor_streaming_remote_config';
+
+/** Remote values outside these bounds are clamped */
+const NUMERIC_BOUNDS: Record<
+  Exclude<keyof SensorStreamingConfig, 'enabled'>,
+  [number, number]
+> = {
+  sampleRateHz: [1, 100],
+  batchIntervalMs: [50, 10_000],
+  retentionDays: [1, 30],
+  offRouteCorridorM: [20, 500],
+  offRouteConfirmMs: [2_000, 120_000],
+};
+
+/** Later scopes override earlier ones */
+const SCOPE_ORDER: SensorConfigScope[] = ['company', 'branch', 'driver'];
+
+/** Don't hit the API more often than this (foreground resumes etc.) */
+const MIN_REFRESH_INTERVAL_MS = 60_000;
+
+// ---------------------------------------------------------------------------
+// Defaults & validation
+// ---------------------------------------------------------------------------
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+/** Settings baked into the build via EXPO_PUBLIC_* – the fallback layer */
+export function getBuildTimeSensorConfig(): SensorStreamingConfig {
+  return {
+    enabled:
+      (process.env.EXPO_PUBLIC_SENSOR_STREAMING_ENABLED || '').toLowerCase() ===
+      'true',
+    sampleRateHz: parseNumber(process.env.EXPO_PUBLIC_SENSOR_RATE_HZ, 50),
+    batchIntervalMs: parseNumber(process.env.EXPO_PUBLIC_SENSOR_BATCH_MS, 200),
+    retentionDays: parseNumber(
+      process.env.EXPO_PUBLIC_SENSOR_SQLITE_RETENTION_DAYS,
+      3,
+    ),
+    offRouteCorridorM: parseNumber(
+      process.env.EXPO_PUBLIC_OFF_ROUTE_CORRIDOR_M,
+      50,
+    ),
+    offRouteConfirmMs: parseNumber(
+      process.env.EXPO_PUBLIC_OFF_ROUTE_CONFIRM_MS,
+      15_000,
+    ),
+  };
+}
+
+/**
+ * Keep only well-typed keys from a remote layer and clamp numbers to safe
+ * bounds. Anything else is dropped with a warning.
+ */
+export function validateSensorConfig(
+  raw: Record<string, unknown>,
+): Partial<SensorStreamingConfig> {
+  const result: Partial<SensorStreamingConfig> = {};
+
+  for (const [key, value] of Object.entries(raw ?? {})) {
+    if (key === 'enabled') {
+      if (typeof value === 'boolean') result.enabled = value;
+      else console.warn(`[SensorConfig] Ignoring non-boolean enabled: ${value}`);
+      continue;
+    }
+
+    if (!(key in NUMERIC_BOUNDS)) {
+      continue;
+    }
+    const numericKey = key as keyof typeof NUMERIC_BOUNDS;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      console.warn(`[SensorConfig] Ignoring invalid ${key}: ${value}`);
+      continue;
+    }
+    const [min, max] = NUMERIC_BOUNDS[numericKey];
+    const clamped = Math.min(max, Math.max(min, value));
+    if (clamped !== value) {
+      console.warn(`[SensorConfig] Clamped ${key} ${value} → ${clamped}`);
+    }
+    result[numericKey] = clamped;
+  }
+
+  return result;
+}
+
+/** Merge validated layers over the build-time config, most specific last */
+export function resolveSensorConfig(
+  layers: SensorConfigLayer[],
+): SensorStreamingConfig {
+  const ordered = [...layers].sort(
+    (a, b) => SCOPE_ORDER.indexOf(a.scope) - SCOPE_ORDER.indexOf(b.scope),
+  );
+  return ordered.reduce<SensorStreamingConfig>(
+    (config, layer) => ({ ...config, ...validateSensorConfig(layer.config) }),
+    getBuildTimeSensorConfig(),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// SensorConfigStore
+// ---------------------------------------------------------------------------
+
+/**
+ * Remote sensor streaming config, cached in AsyncStorage so the last known
+ * settings apply offline and on cold start. Listeners are notified whenever
+ * the effective config changes, so running streams can apply it live.
+ */
+export class SensorConfigStore {
+  private config: SensorStreamingConfig = getBuildTimeSensorConfig();
+  private source: SensorConfigSource = 'build';
+  private version: string | null = null;
+  private lastFetchAt = 0;
+  private loadPromise?: Promise<void>;
+  private refreshPromise: Promise<void> | null = null;
+  private listeners = new Set<(config: SensorStreamingConfig) => void>();
+
+  async init(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this._load();
+    }
+    return this.loadPromise;
+  }
+
+  private async _load(): Promise<void> {
+    try {
+      const raw = await AsyncStorage.getItem(CACHE_KEY);
+      if (!raw) return;
+      const cached = JSON.parse(raw) as CachedSensorConfig;
+      this.version = cached.version;
+      this.apply(resolveSensorConfig(cached.layers), 'cache');
+    } catch (error) {
+      console.warn('[SensorConfig] Failed to load cached config:', error);
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Subscriptions
+  // -----------------------------------------------------------------------
+
+  getConfig(): SensorStreamingConfig {
+    return this.config;
+  }
+
+  getSource(): SensorConfigSource {
+    return this.source;
+  }
+
+  /**
+   * Register a listener that receives the effective config whenever it
+   * changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: (config: SensorStreamingConfig) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private apply(next: SensorStreamingConfig, source: SensorConfigSource): void {
+    this.source = source;
+    const changed = (Object.keys(next) as (keyof SensorStreamingConfig)[]).some(
+      (key) => next[key] !== this.config[key],
+    );
+    if (!changed) return;
+
+    console.log('[SensorConfig] Applying config from', source, next);
+    this.config = next;
+    for (const listener of this.listeners) {
+      try {
+        listener(this.config);
+      } catch (error) {
+        console.warn('[SensorConfig] Listener failed:', error);
+      }
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Remote refresh
+  // -----------------------------------------------------------------------
+
+  /**
+   * Fetch the latest config. Failures keep the cached config. Calls within
+   * MIN_REFRESH_INTERVAL_MS of the last fetch are skipped unless forced.
+   */
+  async refresh(force = false): Promise<void> {
+    await this.init();
+    if (this.refreshPromise) return this.refreshPromise;
+    if (!force && Date.now() - this.lastFetchAt < MIN_REFRESH_INTERVAL_MS) {
+      return;
+    }
+
+    this.refreshPromise = (async () => {
+      try {
+        const response = await telemetryService.getSensorConfig();
+        this.lastFetchAt = Date.now();
+        if (response.version === this.version && this.source !== 'build') {
+          return;
+        }
+
+        this.version = response.version;
+        const layers = response.layers ?? [];
+        this.apply(resolveSensorConfig(layers), 'remote');
+
+        const cached: CachedSensorConfig = {
+          version: response.version,
+          layers,
+          fetchedAt: this.lastFetchAt,
+        };
+        await AsyncStorage.setItem(CACHE_KEY, JSON.stringify(cached));
+      } catch (error) {
+        console.warn('[SensorConfig] Refresh failed, keeping current config');
+      }
+    })().finally(() => {
+      this.refreshPromise = null;
+    });
+    return this.refreshPromise;
+  }
+
+  /** Forget remote settings (used on sign-out) */
+  async clear(): Promise<void> {
+    await this.init();
+    this.version = null;
+    this.lastFetchAt = 0;
+    this.apply(getBuildTimeSensorConfig(), 'build');
+    await AsyncStorage.removeItem(CACHE_KEY);
+  }
+}
+
+export const sensorConfigStore = new SensorConfigStore();
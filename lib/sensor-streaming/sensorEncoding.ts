@@ -0,0 +1,323 @@
+import { gzipSync, strToU8 } from 'fflate';
+
+import {
+  BatchClockInfo,
+  DrivingEventReading,
+  DutyStatusReading,
+  RawLocationFix,
+  RouteDeviationReading,
+  SensorBatch,
+  SensorReading,
+  SequenceGapReading,
+} from './types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Accelerometer / gyroscope columns, delta-encoded fixed-point */
+type ImuColumns = {
+  t: number[];
+  x: number[];
+  y: number[];
+  z: number[];
+};
+
+/**
+ * Location columns. Position and time are delta-encoded; the optional
+ * fields hold null where the fix didn't report a value.
+ */
+type LocationColumns = {
+  t: number[];
+  lng: number[];
+  lat: number[];
+  acc: (number | null)[];
+  alt: (number | null)[];
+  spd: (number | null)[];
+  hdg: (number | null)[];
+  /** Only present when raw locations are kept */
+  raw?: (RawLocationFix | null)[];
+};
+
+/**
+ * Compact wire format for a batch's readings: one set of columns per sensor
+ * instead of one JSON object per reading.
+ *
+ * - every `t` column holds deltas from the previous reading (the first one
+ *   from `t0`)
+ * - IMU values are fixed-point with IMU_SCALE and delta-encoded, so a
+ *   steady signal becomes a run of small integers
+ * - coordinates are fixed-point with COORD_SCALE (~0.1 m) and delta-encoded
+ *
+ * Repeated small integers also compress very well with gzip.
+ */
+export type CompactReadings = {
+  v: 1;
+  t0: number;
+  accel?: ImuColumns;
+  gyro?: ImuColumns;
+  location?: LocationColumns;
+  /** Driving events are rare, so they stay plain objects */
+  events?: DrivingEventReading[];
+  /** Off/on duty changes, also plain objects */
+  duty?: DutyStatusReading[];
+  /** Route deviation start/end, also plain objects */
+  deviations?: RouteDeviationReading[];
+  /** Gap markers, also plain objects */
+  gaps?: SequenceGapReading[];
+  /**
+   * The batch's clock info. Carried here because the row format has no
+   * column for it.
+   */
+  clock?: BatchClockInfo;
+};
+
+/**
+ * Batch as posted to the API, with its readings in the compact format.
+ * `stream` is missing for batches queued before sequencing.
+ */
+export type CompactSensorBatch = Omit<
+  SensorBatch,
+  'readings' | 'clock' | 'stream'
+> & {
+  stream?: SensorBatch['stream'];
+  readings: CompactReadings;
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** 0.001 g / 0.001 rad/s – well below the sensors' noise floor */
+const IMU_SCALE = 1_000;
+/** 1e-6° ≈ 0.1 m */
+const COORD_SCALE = 1_000_000;
+/** Accuracy, altitude and heading to 0.1 */
+const TENTHS_SCALE = 10;
+/** Speed to 0.01 m/s */
+const SPEED_SCALE = 100;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function fixed(value: number, scale: number): number {
+  return Math.round(value * scale);
+}
+
+function optionalFixed(value: number | undefined, scale: number): number | null {
+  return value === undefined || value === null ? null : fixed(value, scale);
+}
+
+function fromOptionalFixed(value: number | null, scale: number): number | undefined {
+  return value === null ? undefined : value / scale;
+}
+
+/** Running delta encoder for one column */
+function deltaEncoder(initial = 0) {
+  let previous = initial;
+  return (value: number): number => {
+    const delta = value - previous;
+    previous = value;
+    return delta;
+  };
+}
+
+/** Running delta decoder for one column */
+function deltaDecoder(initial = 0) {
+  let previous = initial;
+  return (delta: number): number => {
+    previous += delta;
+    return previous;
+  };
+}
+
+function encodeImu(
+  readings: Extract<SensorReading, { sensor: 'accel' | 'gyro' }>[],
+  t0: number,
+): ImuColumns | undefined {
+  if (readings.length === 0) return undefined;
+
+  const columns: ImuColumns = { t: [], x: [], y: [], z: [] };
+  const dt = deltaEncoder(t0);
+  const dx = deltaEncoder();
+  const dy = deltaEncoder();
+  const dz = deltaEncoder();
+  for (const r of readings) {
+    columns.t.push(dt(r.t));
+    columns.x.push(dx(fixed(r.x, IMU_SCALE)));
+    columns.y.push(dy(fixed(r.y, IMU_SCALE)));
+    columns.z.push(dz(fixed(r.z, IMU_SCALE)));
+  }
+  return columns;
+}
+
+function decodeImu(
+  columns: ImuColumns | undefined,
+  sensor: 'accel' | 'gyro',
+  t0: number,
+): SensorReading[] {
+  if (!columns) return [];
+
+  const t = deltaDecoder(t0);
+  const x = deltaDecoder();
+  const y = deltaDecoder();
+  const z = deltaDecoder();
+  return columns.t.map((dt, i) => ({
+    t: t(dt),
+    sensor,
+    x: x(columns.x[i]) / IMU_SCALE,
+    y: y(columns.y[i]) / IMU_SCALE,
+    z: z(columns.z[i]) / IMU_SCALE,
+  }));
+}
+
+function encodeLocations(
+  readings: Extract<SensorReading, { sensor: 'location' }>[],
+  t0: number,
+): LocationColumns | undefined {
+  if (readings.length === 0) return undefined;
+
+  const columns: LocationColumns = {
+    t: [],
+    lng: [],
+    lat: [],
+    acc: [],
+    alt: [],
+    spd: [],
+    hdg: [],
+  };
+  const dt = deltaEncoder(t0);
+  const dlng = deltaEncoder();
+  const dlat = deltaEncoder();
+  for (const r of readings) {
+    columns.t.push(dt(r.t));
+    columns.lng.push(dlng(fixed(r.lng, COORD_SCALE)));
+    columns.lat.push(dlat(fixed(r.lat, COORD_SCALE)));
+    columns.acc.push(optionalFixed(r.accuracy, TENTHS_SCALE));
+    columns.alt.push(optionalFixed(r.altitude, TENTHS_SCALE));
+    columns.spd.push(optionalFixed(r.speed, SPEED_SCALE));
+    columns.hdg.push(optionalFixed(r.heading, TENTHS_SCALE));
+  }
+  if (readings.some((r) => r.raw)) {
+    columns.raw = readings.map((r) => r.raw ?? null);
+  }
+  return columns;
+}
+
+function decodeLocations(
+  columns: LocationColumns | undefined,
+  t0: number,
+): SensorReading[] {
+  if (!columns) return [];
+
+  const t = deltaDecoder(t0);
+  const lng = deltaDecoder();
+  const lat = deltaDecoder();
+  return columns.t.map((dt, i) => {
+    const reading: Extract<SensorReading, { sensor: 'location' }> = {
+      t: t(dt),
+      sensor: 'location',
+      lng: lng(columns.lng[i]) / COORD_SCALE,
+      lat: lat(columns.lat[i]) / COORD_SCALE,
+      accuracy: fromOptionalFixed(columns.acc[i], TENTHS_SCALE),
+      altitude: fromOptionalFixed(columns.alt[i], TENTHS_SCALE),
+      speed: fromOptionalFixed(columns.spd[i], SPEED_SCALE),
+      heading: fromOptionalFixed(columns.hdg[i], TENTHS_SCALE),
+    };
+    const raw = columns.raw?.[i];
+    if (raw) reading.raw = raw;
+    return reading;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Encode readings into the compact columnar format */
+export function encodeReadings(readings: SensorReading[]): CompactReadings {
+  // A loop, not Math.min(...): backlog batches can exceed the argument limit
+  let t0 = readings.length > 0 ? Infinity : 0;
+  for (const r of readings) {
+    if (r.t < t0) t0 = r.t;
+  }
+
+  const accel: Extract<SensorReading, { sensor: 'accel' | 'gyro' }>[] = [];
+  const gyro: Extract<SensorReading, { sensor: 'accel' | 'gyro' }>[] = [];
+  const locations: Extract<SensorReading, { sensor: 'location' }>[] = [];
+  const events: DrivingEventReading[] = [];
+  const duty: DutyStatusReading[] = [];
+  const deviations: RouteDeviationReading[] = [];
+  const gaps: SequenceGapReading[] = [];
+  for (const r of readings) {
+    switch (r.sensor) {
+      case 'accel':
+        accel.push(r);
+        break;
+      case 'gyro':
+        gyro.push(r);
+        break;
+      case 'location':
+        locations.push(r);
+        break;
+      case 'event':
+        events.push(r);
+        break;
+      case 'duty':
+        duty.push(r);
+        break;
+      case 'deviation':
+        deviations.push(r);
+        break;
+      case 'gap':
+        gaps.push(r);
+        break;
+    }
+  }
+
+  const compact: CompactReadings = { v: 1, t0 };
+  const accelColumns = encodeImu(accel, t0);
+  const gyroColumns = encodeImu(gyro, t0);
+  const locationColumns = encodeLocations(locations, t0);
+  if (accelColumns) compact.accel = accelColumns;
+  if (gyroColumns) compact.gyro = gyroColumns;
+  if (locationColumns) compact.location = locationColumns;
+  if (events.length > 0) compact.events = events;
+  if (duty.length > 0) compact.duty = duty;
+  if (deviations.length > 0) compact.deviations = deviations;
+  if (gaps.length > 0) compact.gaps = gaps;
+  return compact;
+}
+
+/** Rebuild readings (sorted by time) from the compact format */
+export function decodeReadings(compact: CompactReadings): SensorReading[] {
+  return [
+    ...decodeImu(compact.accel, 'accel', compact.t0),
+    ...decodeImu(compact.gyro, 'gyro', compact.t0),
+    ...decodeLocations(compact.location, compact.t0),
+    ...(compact.events ?? []),
+    ...(compact.duty ?? []),
+    ...(compact.deviations ?? []),
+    ...(compact.gaps ?? []),
+  ].sort((a, b) => a.t - b.t);
+}
+
+/**
+ * Parse the `readings` column of a stored row. Rows queued before the
+ * compact format hold a plain JSON array of readings.
+ */
+export function parseStoredReadings(json: string): CompactReadings {
+  const parsed = JSON.parse(json) as CompactReadings | SensorReading[];
+  return Array.isArray(parsed) ? encodeReadings(parsed) : parsed;
+}
+
+/** gzip a JSON-serialisable value for an HTTP request body */
+export function gzipJson(value: unknown): Uint8Array {
+  return gzipSync(strToU8(JSON.stringify(value)));
+}
+
+/** Size of a string once UTF-8 encoded, i.e. what goes over the wire */
+export function utf8ByteLength(value: string): number {
+  return strToU8(value).length;
+}
@@ -1,5 +1,11 @@
 import * as SQLite from 'expo-sqlite';
 
+import { QueueCipher } from './queueCipher';
+import { parseStoredReadings } from './sensorEncoding';
+import { runSensorQueueMigrations } from './sensorQueueMigrations';
+import type { SensorRow } from './sensorTransport';
+import type { SensorStream } from './types';
+
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
@@ -16,6 +22,26 @@ export type SensorBatchRow = {
   sent_at: number | null;
   acked_at: number | null;
   retry_count: number;
+  stream: SensorStream | null;
+  seq: number | null;
+};
+
+/**
+ * A run of consecutive sequence numbers of one stream that was evicted, or
+ * that never made it into the queue
+ */
+export type EvictedRange = {
+  stream: SensorStream;
+  fromSeq: number;
+  toSeq: number;
+};
+
+type PendingInsert = {
+  batchId: string;
+  data: string;
+  qos: number;
+  stream: SensorStream | null;
+  seq: number | null;
 };
 
 export type QueueStats = {
@@ -37,6 +63,9 @@ const MAX_QUEUE_DEPTH = 10_000;
 /** How many rows to evict when we hit the cap (evict oldest pending first) */
 const EVICTION_BATCH_SIZE = 500;
 
+/** How many rows to re-encrypt in a single transaction */
+const REENCRYPT_CHUNK_SIZE = 200;
+
 /** How many batches to insert in a single transaction */
 const TRANSACTION_BATCH_SIZE = 100;
 
@@ -46,6 +75,62 @@ const DEFAULT_ACKED_RETENTION_MS = 3 * 24 * 60 * 60 * 1000; // 3 days
 /** Default retention for failed batches (ms) */
 const DEFAULT_FAILED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
 
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Collapse evicted rows, and the ranges evicted gap markers had reported,
+ * into runs of consecutive sequence numbers per stream. Rows queued before
+ * sequencing have nothing to report.
+ */
+function toEvictedRanges(
+  rows: { stream: SensorStream | null; seq: number | null }[],
+  reported: EvictedRange[] = [],
+): EvictedRange[] {
+  const byStream = new Map<SensorStream, EvictedRange[]>();
+  const add = (range: EvictedRange) => {
+    const runs = byStream.get(range.stream) ?? [];
+    runs.push(range);
+    byStream.set(range.stream, runs);
+  };
+  for (const row of rows) {
+    if (row.stream === null || row.seq === null) continue;
+    add({ stream: row.stream, fromSeq: row.seq, toSeq: row.seq });
+  }
+  reported.forEach(add);
+
+  const ranges: EvictedRange[] = [];
+  for (const runs of byStream.values()) {
+    runs.sort((a, b) => a.fromSeq - b.fromSeq);
+    let range = { ...runs[0] };
+    for (const run of runs.slice(1)) {
+      if (run.fromSeq <= range.toSeq + 1) {
+        range.toSeq = Math.max(range.toSeq, run.toSeq);
+      } else {
+        ranges.push(range);
+        range = { ...run };
+      }
+    }
+    ranges.push(range);
+  }
+  return ranges;
+}
+
+/** The ranges a queued gap marker batch (see publishGaps) reports */
+function gapMarkerRanges(data: string): EvictedRange[] {
+  try {
+    const row = JSON.parse(data) as SensorRow;
+    return (parseStoredReadings(row.readings).gaps ?? []).map((gap) => ({
+      stream: gap.stream,
+      fromSeq: gap.fromSeq,
+      toSeq: gap.toSeq,
+    }));
+  } catch {
+    return [];
+  }
+}
+
 // ---------------------------------------------------------------------------
 // SensorQueue
 // ---------------------------------------------------------------------------
@@ -61,10 +146,19 @@ export class SensorQueue {
   private static readonly COUNT_REFRESH_INTERVAL_MS = 30_000;
 
   // Batch insert accumulator for high-throughput scenarios
-  private pendingInserts: { batchId: string; data: string; qos: number }[] = [];
+  private pendingInserts: PendingInsert[] = [];
   private flushTimer?: ReturnType<typeof setTimeout>;
   private isFlushing = false;
 
+  // Last sequence number handed out per stream. Persisted together with
+  // the inserted rows, so numbers are never reused after a restart.
+  private sequences = new Map<SensorStream, number>();
+  private evictionListeners = new Set<(ranges: EvictedRange[]) => void>();
+
+  // Payloads are stored encrypted (BLOB); the schema migrations encrypt
+  // rows written by older versions
+  private cipher = new QueueCipher();
+
   // -----------------------------------------------------------------------
   // Initialization
   // -----------------------------------------------------------------------
@@ -83,6 +177,7 @@ export class SensorQueue {
 
   private async _doInit(): Promise<void> {
     try {
+      await this.cipher.init();
       this.db = await SQLite.openDatabaseAsync('sensor_queue.db');
 
       // ── Performance pragmas ──────────────────────────────────────────
@@ -96,50 +191,22 @@ export class SensorQueue {
       await this.db.execAsync(`PRAGMA temp_store = MEMORY;`);
       // Enable memory-mapped I/O (64 MB)
       await this.db.execAsync(`PRAGMA mmap_size = 67108864;`);
+      // Zero deleted content so wiped trajectories don't linger in free pages
+      await this.db.execAsync(`PRAGMA secure_delete = ON;`);
 
       // ── Schema ───────────────────────────────────────────────────────
-      await this.db.execAsync(`
-        CREATE TABLE IF NOT EXISTS sensor_batches (
-          id          INTEGER PRIMARY KEY AUTOINCREMENT,
-          batch_id    TEXT    UNIQUE NOT NULL,
-          data        TEXT    NOT NULL,
-          qos         INTEGER DEFAULT 1,
-          status      TEXT    DEFAULT 'pending',
-          created_at  INTEGER NOT NULL,
-          sent_at     INTEGER,
-          acked_at    INTEGER,
-          retry_count INTEGER DEFAULT 0
-        );
-      `);
-
-      // ── Indexes (idempotent) ─────────────────────────────────────────
-      // Composite index for the most frequent query pattern: list unacked
-      await this.db.execAsync(`
-        CREATE INDEX IF NOT EXISTS idx_batches_status_created
-        ON sensor_batches (status, created_at ASC)
-        WHERE status IN ('pending', 'sent');
-      `);
-      // Index for cleanup queries
-      await this.db.execAsync(`
-        CREATE INDEX IF NOT EXISTS idx_batches_acked_at
-        ON sensor_batches (acked_at)
-        WHERE status = 'acked';
-      `);
-      // Index for failed cleanup
-      await this.db.execAsync(`
-        CREATE INDEX IF NOT EXISTS idx_batches_failed_created
-        ON sensor_batches (created_at)
-        WHERE status = 'failed';
-      `);
+      const schemaVersion = await runSensorQueueMigrations(this.db, {
+        cipher: this.cipher,
+      });
 
-      // ── Migrate legacy datetime columns to integer if needed ─────────
-      await this._migrateIfNeeded();
+      // ── Restore sequence counters ────────────────────────────────────
+      await this._loadSequences();
 
       // ── Warm up the cached count ─────────────────────────────────────
       await this._refreshPendingCount();
 
       console.log(
-        `[SensorQueue] Initialized (WAL mode, ${this.cachedPendingCount} pending)`,
+        `[SensorQueue] Initialized (WAL mode, schema v${schemaVersion}, ${this.cachedPendingCount} pending)`,
       );
     } catch (error) {
       this.initFailed = true;
@@ -148,33 +215,16 @@ export class SensorQueue {
     }
   }
 
-  /**
-   * If the table was created with DATETIME (text) columns by a previous version,
-   * migrate the data to integer epoch ms. This is a no-op if already migrated.
-   */
-  private async _migrateIfNeeded(): Promise<void> {
+  private async _loadSequences(): Promise<void> {
     if (!this.db) return;
-    try {
-      // Check column type by looking at a sample row's created_at
-      const sample = await this.db.getFirstAsync<{ created_at: unknown }>(
-        `SELECT created_at FROM sensor_batches LIMIT 1`,
-      );
-      if (sample && typeof sample.created_at === 'string') {
-        console.log('[SensorQueue] Migrating datetime columns to integer...');
-        await this.db.execAsync(`
-          UPDATE sensor_batches
-          SET created_at = CAST(strftime('%s', created_at) AS INTEGER) * 1000,
-              sent_at    = CASE WHEN sent_at IS NOT NULL
-                                THEN CAST(strftime('%s', sent_at) AS INTEGER) * 1000
-                                ELSE NULL END,
-              acked_at   = CASE WHEN acked_at IS NOT NULL
-                                THEN CAST(strftime('%s', acked_at) AS INTEGER) * 1000
-                                ELSE NULL END;
-        `);
-        console.log('[SensorQueue] Migration complete');
-      }
-    } catch {
-      // Not critical – old data will still work, just slower comparisons
+    const rows = await this.db.getAllAsync<{
+      stream: SensorStream;
+      last_seq: number;
+    }>(`SELECT stream, last_seq FROM sensor_sequences`);
+    for (const row of rows) {
+      // Keep anything handed out while the database was closed
+      const current = this.sequences.get(row.stream) ?? 0;
+      this.sequences.set(row.stream, Math.max(current, row.last_seq));
     }
   }
 
@@ -182,6 +232,34 @@ export class SensorQueue {
     return this.db !== undefined && !this.initFailed;
   }
 
+  // -----------------------------------------------------------------------
+  // Sequencing
+  // -----------------------------------------------------------------------
+
+  /**
+   * Hand out the next sequence number of a stream, or null while the queue
+   * can't store batches, so no number is used up by a batch it won't keep.
+   * The counter is saved when a batch carrying it is inserted.
+   */
+  nextSequence(stream: SensorStream): number | null {
+    if (!this.isReady()) return null;
+    const seq = (this.sequences.get(stream) ?? 0) + 1;
+    this.sequences.set(stream, seq);
+    return seq;
+  }
+
+  /**
+   * Register a listener that receives the sequence ranges of batches
+   * evicted by the queue cap, or that could not be inserted. Returns an
+   * unsubscribe function.
+   */
+  subscribeEvictions(listener: (ranges: EvictedRange[]) => void): () => void {
+    this.evictionListeners.add(listener);
+    return () => {
+      this.evictionListeners.delete(listener);
+    };
+  }
+
   // -----------------------------------------------------------------------
   // Insert (with transaction batching)
   // -----------------------------------------------------------------------
@@ -195,6 +273,8 @@ export class SensorQueue {
     batchId: string;
     data: string;
     qos?: number;
+    stream?: SensorStream;
+    seq?: number;
   }): Promise<void> {
     if (!this.isReady()) return;
 
@@ -205,6 +285,8 @@ export class SensorQueue {
       batchId: params.batchId,
       data: params.data,
       qos: params.qos ?? 1,
+      stream: params.stream ?? null,
+      seq: params.seq ?? null,
     });
 
     // If we've accumulated enough, flush immediately
@@ -224,20 +306,46 @@ export class SensorQueue {
     batchId: string;
     data: string;
     qos?: number;
+    stream?: SensorStream;
+    seq?: number;
   }): Promise<void> {
     if (!this.isReady()) return;
 
+    const item: PendingInsert = {
+      batchId: params.batchId,
+      data: params.data,
+      qos: params.qos ?? 1,
+      stream: params.stream ?? null,
+      seq: params.seq ?? null,
+    };
+    let inserted = false;
     try {
-      const now = Date.now();
-      await this.db!.runAsync(
-        `INSERT OR IGNORE INTO sensor_batches (batch_id, data, qos, status, created_at)
-         VALUES (?, ?, ?, 'pending', ?)`,
-        [params.batchId, params.data, params.qos ?? 1, now],
-      );
-      this.cachedPendingCount++;
+      await this.db!.withExclusiveTransactionAsync(async (txn) => {
+        inserted = await this._insertRow(txn, item, Date.now());
+        await this._saveSequences(txn, [item]);
+      });
     } catch (error) {
       console.warn('[SensorQueue] Failed to insert batch:', error);
     }
+    if (inserted) {
+      this.cachedPendingCount++;
+    } else {
+      this._reportDropped([item]);
+    }
+  }
+
+  /**
+   * Write any micro-batched inserts to disk right away. Call before acking
+   * a batch that was just inserted, or before the JS context may suspend.
+   */
+  async flushInserts(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    if (this.pendingInserts.length > 0) {
+      await this._flushInserts();
+    }
   }
 
   private _scheduleFlush(): void {
@@ -256,41 +364,100 @@ export class SensorQueue {
     const batch = this.pendingInserts;
     this.pendingInserts = [];
 
+    // Rows INSERT OR IGNORE skipped or that failed outright
+    let dropped: PendingInsert[] = [];
     try {
       const now = Date.now();
       // Use a single transaction for all inserts (massive perf win on SQLite)
       await this.db!.withExclusiveTransactionAsync(async (txn) => {
         for (const item of batch) {
-          await txn.runAsync(
-            `INSERT OR IGNORE INTO sensor_batches (batch_id, data, qos, status, created_at)
-             VALUES (?, ?, ?, 'pending', ?)`,
-            [item.batchId, item.data, item.qos, now],
-          );
+          if (!(await this._insertRow(txn, item, now))) dropped.push(item);
         }
+        await this._saveSequences(txn, batch);
       });
-      this.cachedPendingCount += batch.length;
+      this.cachedPendingCount += batch.length - dropped.length;
     } catch (error) {
       console.warn(
         `[SensorQueue] Transaction insert failed for ${batch.length} batches:`,
         error,
       );
       // Fall back to individual inserts so we don't lose data
+      dropped = [];
       const now = Date.now();
       for (const item of batch) {
         try {
-          await this.db!.runAsync(
-            `INSERT OR IGNORE INTO sensor_batches (batch_id, data, qos, status, created_at)
-             VALUES (?, ?, ?, 'pending', ?)`,
-            [item.batchId, item.data, item.qos, now],
-          );
-          this.cachedPendingCount++;
+          const inserted = await this._insertRow(this.db!, item, now);
+          await this._saveSequences(this.db!, [item]);
+          if (inserted) {
+            this.cachedPendingCount++;
+          } else {
+            dropped.push(item);
+          }
         } catch {
           // Individual insert failed – skip it
+          dropped.push(item);
         }
       }
     } finally {
       this.isFlushing = false;
     }
+    this._reportDropped(dropped);
+  }
+
+  private async _insertRow(
+    db: SQLite.SQLiteDatabase,
+    item: PendingInsert,
+    createdAt: number,
+  ): Promise<boolean> {
+    const result = await db.runAsync(
+      `INSERT OR IGNORE INTO sensor_batches (batch_id, data, qos, status, created_at, stream, seq)
+       VALUES (?, ?, ?, 'pending', ?, ?, ?)`,
+      [
+        item.batchId,
+        this.cipher.encrypt(item.batchId, item.data),
+        item.qos,
+        createdAt,
+        item.stream,
+        item.seq,
+      ],
+    );
+    return result.changes > 0;
+  }
+
+  /**
+   * Sequenced batches that were handed a number but never stored are lost
+   * just like evicted ones, so they are reported the same way
+   */
+  private _reportDropped(items: PendingInsert[]): void {
+    const ranges = toEvictedRanges(items);
+    if (ranges.length === 0) return;
+    console.warn(`[SensorQueue] ${items.length} batches could not be queued`);
+    this._notifyEvictions(ranges);
+  }
+
+  private _notifyEvictions(ranges: EvictedRange[]): void {
+    for (const listener of this.evictionListeners) {
+      listener(ranges);
+    }
+  }
+
+  /** Persist the highest sequence number each stream reached in `items` */
+  private async _saveSequences(
+    db: SQLite.SQLiteDatabase,
+    items: PendingInsert[],
+  ): Promise<void> {
+    const highest = new Map<SensorStream, number>();
+    for (const item of items) {
+      if (item.stream === null || item.seq === null) continue;
+      highest.set(item.stream, Math.max(highest.get(item.stream) ?? 0, item.seq));
+    }
+    for (const [stream, seq] of highest) {
+      await db.runAsync(
+        `INSERT INTO sensor_sequences (stream, last_seq) VALUES (?, ?)
+         ON CONFLICT (stream) DO UPDATE SET last_seq = MAX(last_seq, excluded.last_seq)`,
+        [stream, seq],
+      );
+    }
   }
 
   // -----------------------------------------------------------------------
@@ -440,8 +607,10 @@ export class SensorQueue {
     if (!this.isReady()) return [];
 
     try {
-      const rows = await this.db!.getAllAsync<SensorBatchRow>(
-        `SELECT id, batch_id, data, qos, status, created_at, sent_at, acked_at, retry_count
+      const rows = await this.db!.getAllAsync<
+        Omit<SensorBatchRow, 'data'> & { data: Uint8Array | string }
+      >(
+        `SELECT id, batch_id, data, qos, status, created_at, sent_at, acked_at, retry_count, stream, seq
          FROM sensor_batches
          WHERE status IN ('pending', 'sent')
          ORDER BY created_at ASC
@@ -449,10 +618,27 @@ export class SensorQueue {
         [limit],
       );
 
-      return rows.map((r) => ({
-        ...r,
-        data: typeof r.data === 'string' ? r.data : String(r.data),
-      }));
+      const readable: SensorBatchRow[] = [];
+      const unreadable: number[] = [];
+      for (const r of rows) {
+        const data =
+          typeof r.data === 'string'
+            ? r.data
+            : this.cipher.decrypt(r.batch_id, r.data);
+        if (data === null) {
+          unreadable.push(r.id);
+        } else {
+          readable.push({ ...r, data });
+        }
+      }
+      if (unreadable.length > 0) {
+        // Written with a key we no longer have – they can never be sent
+        await this._deleteRows(unreadable);
+        console.warn(
+          `[SensorQueue] Dropped ${unreadable.length} batches that could not be decrypted`,
+        );
+      }
+      return readable;
     } catch (error) {
       console.warn('[SensorQueue] Failed to list unacked batches:', error);
       return [];
@@ -625,47 +811,187 @@ export class SensorQueue {
 
     try {
       // Evict oldest pending batches (they're the least likely to be relevant)
-      const result = await this.db!.runAsync(
-        `DELETE FROM sensor_batches
-         WHERE id IN (
-           SELECT id FROM sensor_batches
-           WHERE status = 'pending'
-           ORDER BY created_at ASC
-           LIMIT ?
-         )`,
+      // Gap markers are read too: the ranges they report must not be lost
+      const victims = await this.db!.getAllAsync<{
+        id: number;
+        batch_id: string;
+        stream: SensorStream | null;
+        seq: number | null;
+        data: Uint8Array | string | null;
+      }>(
+        `SELECT id, batch_id, stream, seq,
+                CASE WHEN stream = 'gaps' THEN data END AS data
+         FROM sensor_batches
+         WHERE status = 'pending'
+         ORDER BY created_at ASC
+         LIMIT ?`,
         [EVICTION_BATCH_SIZE],
       );
+      if (victims.length === 0) return;
+
+      const reported: EvictedRange[] = [];
+      for (const victim of victims) {
+        if (victim.data === null) continue;
+        const data =
+          typeof victim.data === 'string'
+            ? victim.data
+            : this.cipher.decrypt(victim.batch_id, victim.data);
+        if (data !== null) reported.push(...gapMarkerRanges(data));
+      }
 
-      if (result.changes > 0) {
-        this.cachedPendingCount = Math.max(
-          0,
-          this.cachedPendingCount - result.changes,
-        );
+      const evicted = await this._deleteRows(victims.map((v) => v.id));
+
+      if (evicted > 0) {
         console.warn(
-          `[SensorQueue] Queue cap reached (${MAX_QUEUE_DEPTH}), evicted ${result.changes} oldest batches`,
+          `[SensorQueue] Queue cap reached (${MAX_QUEUE_DEPTH}), evicted ${evicted} oldest batches`,
         );
+
+        const ranges = toEvictedRanges(victims, reported);
+        if (ranges.length > 0) this._notifyEvictions(ranges);
       }
     } catch (error) {
       console.warn('[SensorQueue] Failed to enforce queue cap:', error);
     }
   }
 
+  /** Delete pending/sent rows by id and update the cached count */
+  private async _deleteRows(ids: number[]): Promise<number> {
+    const placeholders = ids.map(() => '?').join(',');
+    const result = await this.db!.runAsync(
+      `DELETE FROM sensor_batches WHERE id IN (${placeholders})`,
+      ids,
+    );
+    this.cachedPendingCount = Math.max(
+      0,
+      this.cachedPendingCount - result.changes,
+    );
+    return result.changes;
+  }
+
   // -----------------------------------------------------------------------
-  // Lifecycle
+  // Key rotation & wipe
   // -----------------------------------------------------------------------
 
   /**
-   * Flush any pending inserts and close the database.
+   * Switch to a new encryption key and re-encrypt every stored payload
+   * with it. Call on logout. Queued batches survive, so the same driver
+   * signing back in still gets them delivered; anything unreadable (e.g.
+   * left over from an interrupted rotation) is dropped. A drain running
+   * meanwhile can still read rows that haven't been re-encrypted yet.
    */
-  async close(): Promise<void> {
-    // Flush any pending inserts
+  async rotateKey(): Promise<void> {
+    await this.init();
+    if (!this.isReady()) return;
+    await this.flushInserts();
+
+    try {
+      const previous = await this.cipher.rotate();
+      let lastId = 0;
+      let dropped = 0;
+      for (;;) {
+        const rows = await this.db!.getAllAsync<{
+          id: number;
+          batch_id: string;
+          data: Uint8Array;
+        }>(
+          `SELECT id, batch_id, data FROM sensor_batches
+           WHERE id > ? AND typeof(data) = 'blob'
+           ORDER BY id ASC
+           LIMIT ?`,
+          [lastId, REENCRYPT_CHUNK_SIZE],
+        );
+        if (rows.length === 0) break;
+        lastId = rows[rows.length - 1].id;
+
+        await this.db!.withExclusiveTransactionAsync(async (txn) => {
+          for (const row of rows) {
+            const data = previous.decrypt(row.batch_id, row.data);
+            if (data !== null) {
+              await txn.runAsync(
+                `UPDATE sensor_batches SET data = ? WHERE id = ?`,
+                [this.cipher.encrypt(row.batch_id, data), row.id],
+              );
+            } else if (this.cipher.decrypt(row.batch_id, row.data) === null) {
+              await txn.runAsync(`DELETE FROM sensor_batches WHERE id = ?`, [
+                row.id,
+              ]);
+              dropped++;
+            }
+            // else: inserted with the new key while we were rotating
+          }
+        });
+      }
+      if (dropped > 0) {
+        await this._refreshPendingCount();
+      }
+      console.log(
+        `[SensorQueue] Rotated encryption key (${dropped} unreadable batches dropped)`,
+      );
+    } catch (error) {
+      console.warn('[SensorQueue] Failed to rotate encryption key:', error);
+    } finally {
+      this.cipher.forgetPreviousKey();
+    }
+  }
+
+  /**
+   * Delete every stored batch – pending, acked and failed – and switch to
+   * a new key. Used when a different driver signs in on this device.
+   * Returns false if the batches could not be deleted.
+   */
+  async wipe(): Promise<boolean> {
+    await this.init();
+    if (!this.isReady()) return false;
+
     if (this.flushTimer) {
       clearTimeout(this.flushTimer);
       this.flushTimer = undefined;
     }
-    if (this.pendingInserts.length > 0) {
-      await this._flushInserts();
+    this.pendingInserts = [];
+
+    try {
+      await this.db!.runAsync(`DELETE FROM sensor_batches`);
+      this.cachedPendingCount = 0;
+      await this.cipher.rotate();
+      this.cipher.forgetPreviousKey();
+      // Drop the deleted pages from the WAL and the database file
+      await this.db!.execAsync('PRAGMA wal_checkpoint(TRUNCATE);');
+      await this.db!.execAsync('VACUUM;');
+      console.log('[SensorQueue] Wiped all stored batches');
+      return true;
+    } catch (error) {
+      console.warn('[SensorQueue] Failed to wipe stored batches:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Record which driver the stored trajectories belong to, wiping them
+   * first if they belong to someone else. Call after a successful sign-in.
+   */
+  async claimForDriver(ownerId: string): Promise<void> {
+    try {
+      const owner = await this.cipher.getOwner();
+      if (owner && owner !== ownerId) {
+        console.log('[SensorQueue] Different driver signed in, wiping queue');
+        // Keep the old owner so the next sign-in tries again
+        if (!(await this.wipe())) return;
+      }
+      await this.cipher.setOwner(ownerId);
+    } catch (error) {
+      console.warn('[SensorQueue] Failed to claim queue:', error);
     }
+  }
+
+  // -----------------------------------------------------------------------
+  // Lifecycle
+  // -----------------------------------------------------------------------
+
+  /**
+   * Flush any pending inserts and close the database.
+   */
+  async close(): Promise<void> {
+    await this.flushInserts();
 
     if (this.db) {
       try {
@@ -675,6 +1001,14 @@ export class SensorQueue {
         // Best effort
       }
       this.db = undefined;
+      // Allow a later init() to reopen the database
+      this.initPromise = undefined;
     }
   }
 }
+
+/**
+ * Shared queue used by both foreground streaming and the background
+ * location task, so every batch is drained by the same client.
+ */
+export const sensorQueue = new SensorQueue();
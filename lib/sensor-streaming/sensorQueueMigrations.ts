@@ -0,0 +1,234 @@
+import type * as SQLite from 'expo-sqlite';
+
+import type { QueueCipher } from './queueCipher';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type MigrationContext = {
+  /** Cipher for migrations that rewrite payloads */
+  cipher: QueueCipher;
+};
+
+/**
+ * One schema step. `up` runs inside an exclusive transaction together with
+ * the `user_version` bump, so a migration is either fully applied or not
+ * at all. Versions are never reused or reordered once shipped.
+ */
+export type SensorQueueMigration = {
+  version: number;
+  name: string;
+  up: (db: SQLite.SQLiteDatabase, ctx: MigrationContext) => Promise<void>;
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** How many rows to encrypt per statement round-trip */
+const ENCRYPT_CHUNK_SIZE = 200;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+async function addColumnIfMissing(
+  db: SQLite.SQLiteDatabase,
+  table: string,
+  column: string,
+  type: string,
+): Promise<void> {
+  const columns = await db.getAllAsync<{ name: string }>(
+    `PRAGMA table_info(${table})`,
+  );
+  if (columns.some((c) => c.name === column)) return;
+  await db.execAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${type};`);
+}
+
+// ---------------------------------------------------------------------------
+// Migrations
+// ---------------------------------------------------------------------------
+
+// Databases created before versioning have user_version 0 but may already
+// contain any of the changes below, so the early steps must be idempotent.
+export const SENSOR_QUEUE_MIGRATIONS: SensorQueueMigration[] = [
+  {
+    version: 1,
+    name: 'create sensor_batches',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS sensor_batches (
+          id          INTEGER PRIMARY KEY AUTOINCREMENT,
+          batch_id    TEXT    UNIQUE NOT NULL,
+          data        TEXT    NOT NULL,
+          qos         INTEGER DEFAULT 1,
+          status      TEXT    DEFAULT 'pending',
+          created_at  INTEGER NOT NULL,
+          sent_at     INTEGER,
+          acked_at    INTEGER,
+          retry_count INTEGER DEFAULT 0
+        );
+      `);
+      // Composite index for the most frequent query pattern: list unacked
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_batches_status_created
+        ON sensor_batches (status, created_at ASC)
+        WHERE status IN ('pending', 'sent');
+      `);
+      // Index for cleanup queries
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_batches_acked_at
+        ON sensor_batches (acked_at)
+        WHERE status = 'acked';
+      `);
+      // Index for failed cleanup
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_batches_failed_created
+        ON sensor_batches (created_at)
+        WHERE status = 'failed';
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'integer timestamps',
+    up: async (db) => {
+      // Early versions declared the timestamps DATETIME and stored text
+      await db.execAsync(`
+        UPDATE sensor_batches
+        SET created_at = CAST(strftime('%s', created_at) AS INTEGER) * 1000
+        WHERE typeof(created_at) = 'text';
+      `);
+      await db.execAsync(`
+        UPDATE sensor_batches
+        SET sent_at = CAST(strftime('%s', sent_at) AS INTEGER) * 1000
+        WHERE typeof(sent_at) = 'text';
+      `);
+      await db.execAsync(`
+        UPDATE sensor_batches
+        SET acked_at = CAST(strftime('%s', acked_at) AS INTEGER) * 1000
+        WHERE typeof(acked_at) = 'text';
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: 'retire VALUES payloads',
+    up: async (db) => {
+      // Before JSONEachRow, payloads were raw ClickHouse VALUES tuples.
+      // No sink accepts them any more; keep them as failed until the
+      // failed-retention cleanup removes them.
+      const result = await db.runAsync(`
+        UPDATE sensor_batches
+        SET status = 'failed'
+        WHERE typeof(data) = 'text'
+          AND status IN ('pending', 'sent')
+          AND substr(ltrim(data), 1, 1) <> '{'
+      `);
+      if (result.changes > 0) {
+        console.warn(
+          `[SensorQueue] Marked ${result.changes} VALUES-format batches as failed`,
+        );
+      }
+    },
+  },
+  {
+    version: 4,
+    name: 'batch sequence numbers',
+    up: async (db) => {
+      await addColumnIfMissing(db, 'sensor_batches', 'stream', 'TEXT');
+      await addColumnIfMissing(db, 'sensor_batches', 'seq', 'INTEGER');
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS sensor_sequences (
+          stream   TEXT    PRIMARY KEY,
+          last_seq INTEGER NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: 'encrypt payloads',
+    up: async (db, { cipher }) => {
+      // Rows written before at-rest encryption hold their payload as text
+      let encrypted = 0;
+      for (;;) {
+        const rows = await db.getAllAsync<{
+          id: number;
+          batch_id: string;
+          data: string;
+        }>(
+          `SELECT id, batch_id, data FROM sensor_batches
+           WHERE typeof(data) = 'text'
+           LIMIT ?`,
+          [ENCRYPT_CHUNK_SIZE],
+        );
+        if (rows.length === 0) break;
+
+        for (const row of rows) {
+          await db.runAsync(`UPDATE sensor_batches SET data = ? WHERE id = ?`, [
+            cipher.encrypt(row.batch_id, row.data),
+            row.id,
+          ]);
+        }
+        encrypted += rows.length;
+      }
+      if (encrypted > 0) {
+        console.log(`[SensorQueue] Encrypted ${encrypted} plaintext batches`);
+      }
+    },
+  },
+];
+
+// ---------------------------------------------------------------------------
+// Runner
+// ---------------------------------------------------------------------------
+
+/**
+ * Bring the database up to the latest schema version, applying pending
+ * migrations in order. The version lives in `PRAGMA user_version`.
+ *
+ * Throws if a migration fails; the version then stays at the last step
+ * that completed, and the next start retries from there.
+ */
+export async function runSensorQueueMigrations(
+  db: SQLite.SQLiteDatabase,
+  ctx: MigrationContext,
+  migrations: SensorQueueMigration[] = SENSOR_QUEUE_MIGRATIONS,
+): Promise<number> {
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(
+        `Sensor queue migration "${migration.name}" has version ${migration.version}, expected ${index + 1}`,
+      );
+    }
+  });
+
+  const row = await db.getFirstAsync<{ user_version: number }>(
+    `PRAGMA user_version`,
+  );
+  const current = row?.user_version ?? 0;
+  const latest = migrations.length;
+
+  if (current > latest) {
+    // Written by a newer build; its changes are additive, so carry on
+    console.warn(
+      `[SensorQueue] Schema version ${current} is newer than this build (${latest})`,
+    );
+    return current;
+  }
+
+  for (const migration of migrations.slice(current)) {
+    const startTime = Date.now();
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      await migration.up(txn, ctx);
+      await txn.execAsync(`PRAGMA user_version = ${migration.version};`);
+    });
+    console.log(
+      `[SensorQueue] Applied migration ${migration.version} (${migration.name}) in ${Date.now() - startTime}ms`,
+    );
+  }
+
+  return Math.max(current, latest);
+}
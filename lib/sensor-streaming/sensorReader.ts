@@ -1,5 +1,7 @@
 import * as Location from 'expo-location';
 import { Accelerometer, Gyroscope } from 'expo-sensors';
+import { LocationFilter, type LocationReading } from './locationFilter';
+import type { SamplingProfile } from './motionState';
 import { SensorReading } from './types';
 
 type SensorReaderConfig = {
@@ -13,10 +15,15 @@ export class SensorReader {
   private accelSub?: { remove: () => void };
   private gyroSub?: { remove: () => void };
   private locationSub?: Location.LocationSubscription;
-  private readonly sampleRateHz: number;
-  private readonly locationIntervalMs: number;
+  private sampleRateHz: number;
+  private locationIntervalMs: number;
+  private locationAccuracy = Location.Accuracy.High;
+  private distanceIntervalM = 0;
+  private active = false;
   private readonly onReading: (reading: SensorReading) => void;
   private readonly onLocationError?: (error: string) => void;
+  /** Outlier rejection + smoothing applied before fixes leave the reader */
+  private readonly locationFilter = new LocationFilter();
 
   constructor(config: SensorReaderConfig) {
     this.sampleRateHz = config.sampleRateHz;
@@ -26,6 +33,7 @@ export class SensorReader {
   }
 
   async start(): Promise<void> {
+    this.active = true;
     const intervalMs = Math.max(10, Math.round(1000 / this.sampleRateHz));
 
     Accelerometer.setUpdateInterval(intervalMs);
@@ -70,12 +78,13 @@ export class SensorReader {
 
       this.locationSub = await Location.watchPositionAsync(
         {
-          accuracy: Location.Accuracy.High,
+          accuracy: this.locationAccuracy,
           timeInterval: this.locationIntervalMs,
-          distanceInterval: 0, // Changed from 1 to 0 to ensure we get updates even when stationary
+          // 0 while driving so we get updates even when briefly stopped
+          distanceInterval: this.distanceIntervalM,
         },
         (location) => {
-          const reading: SensorReading = {
+          const fix: LocationReading = {
             t: Date.now(),
             sensor: 'location',
             lng: location.coords.longitude,
@@ -85,6 +94,9 @@ export class SensorReader {
             speed: location.coords.speed ?? undefined,
             heading: location.coords.heading ?? undefined,
           };
+          const reading = this.locationFilter.push(fix);
+          if (!reading) return;
+
           console.log('[SensorReader] Location reading:', {
             lng: reading.lng,
             lat: reading.lat,
@@ -94,6 +106,13 @@ export class SensorReader {
         },
       );
 
+      // stop() was called while we were subscribing
+      if (!this.active) {
+        this.locationSub.remove();
+        this.locationSub = undefined;
+        return;
+      }
+
       console.log('[SensorReader] Location tracking started successfully');
     } catch (error) {
       const errorMsg = `Failed to start location tracking: ${error instanceof Error ? error.message : String(error)}`;
@@ -124,8 +143,10 @@ export class SensorReader {
    */
   async ensureAllSensors(): Promise<void> {
     const intervalMs = Math.max(10, Math.round(1000 / this.sampleRateHz));
+    // Location-only profile – accel/gyro are off on purpose
+    const imuEnabled = this.sampleRateHz > 0;
 
-    if (!this.accelSub) {
+    if (imuEnabled && !this.accelSub) {
       console.log('[SensorReader] Re-subscribing accelerometer');
       Accelerometer.setUpdateInterval(intervalMs);
       this.accelSub = Accelerometer.addListener((data) => {
@@ -139,7 +160,7 @@ export class SensorReader {
       });
     }
 
-    if (!this.gyroSub) {
+    if (imuEnabled && !this.gyroSub) {
       console.log('[SensorReader] Re-subscribing gyroscope');
       Gyroscope.setUpdateInterval(intervalMs);
       this.gyroSub = Gyroscope.addListener((data) => {
@@ -156,12 +177,53 @@ export class SensorReader {
     await this.ensureLocationTracking();
   }
 
+  /**
+   * Switch sample rates and GPS settings (see MotionStateMachine and
+   * streamingProfile). An IMU rate of 0 turns accel/gyro off. The location
+   * watch is restarted only when its options actually change.
+   */
+  async applySamplingProfile(profile: SamplingProfile): Promise<void> {
+    const imuRateChanged = profile.imuRateHz !== this.sampleRateHz;
+    this.sampleRateHz = profile.imuRateHz;
+
+    if (this.sampleRateHz <= 0) {
+      this.accelSub?.remove();
+      this.gyroSub?.remove();
+      this.accelSub = undefined;
+      this.gyroSub = undefined;
+    } else if (imuRateChanged) {
+      const intervalMs = Math.max(10, Math.round(1000 / this.sampleRateHz));
+      Accelerometer.setUpdateInterval(intervalMs);
+      Gyroscope.setUpdateInterval(intervalMs);
+    }
+
+    const locationChanged =
+      profile.locationAccuracy !== this.locationAccuracy ||
+      profile.locationIntervalMs !== this.locationIntervalMs ||
+      profile.distanceIntervalM !== this.distanceIntervalM;
+
+    this.locationAccuracy = profile.locationAccuracy;
+    this.locationIntervalMs = profile.locationIntervalMs;
+    this.distanceIntervalM = profile.distanceIntervalM;
+
+    if (!this.active) return;
+    if (locationChanged && this.locationSub) {
+      this.locationSub.remove();
+      this.locationSub = undefined;
+    }
+    // Re-subscribes accel/gyro coming back from location-only, and location
+    // with the new options
+    await this.ensureAllSensors();
+  }
+
   stop(): void {
+    this.active = false;
     this.accelSub?.remove();
     this.gyroSub?.remove();
     this.locationSub?.remove();
     this.accelSub = undefined;
     this.gyroSub = undefined;
     this.locationSub = undefined;
+    this.locationFilter.reset();
   }
 }
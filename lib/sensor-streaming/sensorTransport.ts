@@ -0,0 +1,74 @@
+import { encodeReadings } from './sensorEncoding';
+import { SensorBatch, SensorStream } from './types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Common contract for everything that ships sensor batches off the device.
+ *
+ * Implementations persist every batch to the shared `SensorQueue` before
+ * attempting delivery, and periodically drain whatever is still unacked.
+ */
+export interface SensorTransport {
+  /** Start background work (connections, drain timer) */
+  start(): void;
+  /** Stop background work; queued batches stay in SQLite for the next run */
+  stop(): void;
+  /** Persist a batch locally, then try to deliver it */
+  enqueueAndPublishBatch(batch: SensorBatch): Promise<void>;
+  /** Deliver buffered batches now instead of waiting for the next window */
+  flush(): Promise<void>;
+  /** Retry pending/sent batches from the local queue */
+  drainQueue(): Promise<void>;
+}
+
+/** Callbacks every transport reports into (feeds the streaming status UI) */
+export type SensorTransportCallbacks = {
+  onSendSuccess?: () => void;
+  onSendFailure?: () => void;
+  /** Called with round-trip latency in ms after each delivery attempt */
+  onLatency?: (latencyMs: number) => void;
+  /** Called with the number of pending batches in the local queue */
+  onQueueDepth?: (depth: number) => void;
+  /** Called with the request and response body sizes of every delivery attempt */
+  onTransfer?: (sentBytes: number, receivedBytes: number) => void;
+};
+
+export type SensorTransportKind = 'api' | 'clickhouse' | 'mqtt';
+
+/**
+ * Wire format shared by all transports, so a broker-side bridge can insert
+ * MQTT payloads into the same ClickHouse table without reshaping them.
+ */
+export interface SensorRow {
+  batch_id: string;
+  device_id: string;
+  driver_id: string | null;
+  vehicle_id: string | null;
+  /** Null in rows queued before batches were sequenced */
+  stream: SensorStream | null;
+  seq: number | null;
+  readings: string; // JSON-encoded CompactReadings (plain array in old rows)
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Convert a SensorBatch to its canonical row representation */
+export function batchToSensorRow(batch: SensorBatch): SensorRow {
+  return {
+    batch_id: batch.batchId,
+    device_id: batch.deviceId,
+    driver_id: batch.driverId ?? null,
+    vehicle_id: batch.vehicleId ?? null,
+    stream: batch.stream,
+    seq: batch.seq ?? null,
+    readings: JSON.stringify({
+      ...encodeReadings(batch.readings),
+      ...(batch.clock ? { clock: batch.clock } : {}),
+    }),
+  };
+}
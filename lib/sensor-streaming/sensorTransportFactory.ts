@@ -0,0 +1,81 @@
+import { HttpSensorClient } from './httpSensorClient';
+import { MqttSensorClient, type MqttQoS } from './mqttSensorClient';
+import { SensorQueue } from './sensorQueue';
+import { ApiSink, ClickHouseSink, type SensorSink } from './sensorSinks';
+import type {
+  SensorTransport,
+  SensorTransportCallbacks,
+  SensorTransportKind,
+} from './sensorTransport';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function parseQoS(value: string | undefined): MqttQoS {
+  const n = Number(value);
+  return n === 0 || n === 1 || n === 2 ? n : 1;
+}
+
+/** Transport selected via EXPO_PUBLIC_SENSOR_TRANSPORT (defaults to the API) */
+export function getSensorTransportKind(): SensorTransportKind {
+  const value = (process.env.EXPO_PUBLIC_SENSOR_TRANSPORT || '').toLowerCase();
+  return value === 'mqtt' || value === 'clickhouse' ? value : 'api';
+}
+
+/**
+ * HTTP sink for the configured transport. Direct ClickHouse writes are a
+ * local-development opt-in and need every EXPO_PUBLIC_CLICKHOUSE_* value
+ * set explicitly; otherwise batches go to the API with the driver's JWT.
+ */
+export function createSensorSink(
+  kind: SensorTransportKind = getSensorTransportKind(),
+): SensorSink {
+  if (kind === 'clickhouse') {
+    const url = process.env.EXPO_PUBLIC_CLICKHOUSE_URL;
+    const user = process.env.EXPO_PUBLIC_CLICKHOUSE_USER;
+    const password = process.env.EXPO_PUBLIC_CLICKHOUSE_PASSWORD;
+    if (url && user && password) {
+      return new ClickHouseSink({ url, user, password });
+    }
+    console.warn(
+      '[SensorTransport] ClickHouse transport selected but not fully configured, using the API',
+    );
+  }
+  return new ApiSink();
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+type CreateSensorTransportOptions = SensorTransportCallbacks & {
+  deviceId: string;
+  queue: SensorQueue;
+  kind?: SensorTransportKind;
+};
+
+/**
+ * Build the transport configured for this build. Endpoint settings are read
+ * from the EXPO_PUBLIC_* environment at call time.
+ */
+export function createSensorTransport(
+  options: CreateSensorTransportOptions,
+): SensorTransport {
+  const { kind = getSensorTransportKind(), ...rest } = options;
+
+  if (kind === 'mqtt') {
+    return new MqttSensorClient({
+      ...rest,
+      url: process.env.EXPO_PUBLIC_MQTT_WS_URL || 'ws://localhost:9001',
+      username: process.env.EXPO_PUBLIC_MQTT_USERNAME || undefined,
+      password: process.env.EXPO_PUBLIC_MQTT_PASSWORD || undefined,
+      qos: parseQoS(process.env.EXPO_PUBLIC_MQTT_QOS),
+    });
+  }
+
+  return new HttpSensorClient({
+    ...rest,
+    sink: createSensorSink(kind),
+  });
+}
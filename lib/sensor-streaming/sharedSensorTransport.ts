@@ -0,0 +1,160 @@
+import { dataUsageTracker } from './dataUsage';
+import { getOrCreateDeviceId } from './deviceId';
+import { driverPrivacy } from './driverPrivacy';
+import { EvictedRange, sensorQueue } from './sensorQueue';
+import type {
+  SensorTransport,
+  SensorTransportCallbacks,
+} from './sensorTransport';
+import { createSensorTransport } from './sensorTransportFactory';
+import { SensorBatch } from './types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Who is using the shared transport */
+export type SensorTransportHolder = 'foreground' | 'background';
+
+// ---------------------------------------------------------------------------
+// State
+// ---------------------------------------------------------------------------
+
+// One transport and one queue for the whole JS context, so batches enqueued
+// by the background task go through the same coalescing, circuit breaker
+// and retry rules as foreground batches.
+let transport: SensorTransport | null = null;
+let acquirePromise: Promise<SensorTransport> | null = null;
+let releasePromise: Promise<void> | null = null;
+const holders = new Map<SensorTransportHolder, SensorTransportCallbacks>();
+let unsubscribeEvictions: (() => void) | null = null;
+
+/** Fan a callback out to every holder that registered one */
+function forward<K extends keyof SensorTransportCallbacks>(key: K) {
+  return (...args: Parameters<NonNullable<SensorTransportCallbacks[K]>>) => {
+    holders.forEach((callbacks) => {
+      const cb = callbacks[key] as ((...a: typeof args) => void) | undefined;
+      cb?.(...args);
+    });
+  };
+}
+
+/**
+ * Report batches the queue had to evict as a gap marker batch on the
+ * 'gaps' stream, so the backend knows those sequence numbers are gone for
+ * good rather than late. A marker that is evicted in turn has its ranges
+ * reported again.
+ */
+function publishGaps(
+  target: SensorTransport,
+  deviceId: string,
+  ranges: EvictedRange[],
+): void {
+  const now = Date.now();
+  const batch: SensorBatch = {
+    batchId: `${deviceId}_gap_${now.toString(36)}_${Math.random().toString(16).slice(2, 10)}`,
+    deviceId,
+    stream: 'gaps',
+    readings: ranges.map((range) => ({
+      t: now,
+      sensor: 'gap',
+      stream: range.stream,
+      fromSeq: range.fromSeq,
+      toSeq: range.toSeq,
+      reason: 'evicted',
+    })),
+  };
+  target.enqueueAndPublishBatch(batch).catch((error) => {
+    console.warn('[SensorTransport] Failed to queue gap markers:', error);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Get the shared transport, creating and starting it on first use.
+ * Callbacks registered here receive events for every batch, including ones
+ * enqueued by the other holder.
+ */
+export async function acquireSensorTransport(
+  holder: SensorTransportHolder,
+  callbacks: SensorTransportCallbacks = {},
+): Promise<SensorTransport> {
+  holders.set(holder, callbacks);
+
+  // Let a previous shutdown finish closing the queue before reopening it
+  if (releasePromise) await releasePromise;
+  if (transport) return transport;
+
+  if (!acquirePromise) {
+    acquirePromise = (async () => {
+      const deviceId = await getOrCreateDeviceId();
+      await sensorQueue.init();
+      // Privacy zones must be loaded before the first batch is queued
+      await driverPrivacy.init();
+
+      const created = createSensorTransport({
+        deviceId,
+        queue: sensorQueue,
+        onSendSuccess: forward('onSendSuccess'),
+        onSendFailure: forward('onSendFailure'),
+        onLatency: forward('onLatency'),
+        onQueueDepth: forward('onQueueDepth'),
+        onTransfer: (sentBytes, receivedBytes) => {
+          // Counted here so background-only uploads show up too
+          dataUsageTracker.record(sentBytes, receivedBytes);
+          forward('onTransfer')(sentBytes, receivedBytes);
+        },
+      });
+      unsubscribeEvictions = sensorQueue.subscribeEvictions((ranges) =>
+        publishGaps(created, deviceId, ranges),
+      );
+      created.start();
+      transport = created;
+      return created;
+    })().finally(() => {
+      acquirePromise = null;
+    });
+  }
+  return acquirePromise;
+}
+
+/**
+ * Drop a holder. When nobody is left, buffered batches are flushed, the
+ * transport stops and the queue is closed; anything unacked stays in
+ * SQLite for the next session.
+ */
+export async function releaseSensorTransport(
+  holder: SensorTransportHolder,
+): Promise<void> {
+  holders.delete(holder);
+  // A transport still starting up has to be stopped once it exists
+  if (acquirePromise) {
+    try {
+      await acquirePromise;
+    } catch {
+      return;
+    }
+  }
+  if (holders.size > 0 || !transport) return;
+
+  const current = transport;
+  transport = null;
+  unsubscribeEvictions?.();
+  unsubscribeEvictions = null;
+
+  releasePromise = (async () => {
+    try {
+      await current.flush();
+    } catch (error) {
+      console.warn('[SensorTransport] Final flush failed:', error);
+    }
+    current.stop();
+    await sensorQueue.close();
+  })().finally(() => {
+    releasePromise = null;
+  });
+  return releasePromise;
+}
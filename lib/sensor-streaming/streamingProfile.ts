@@ -0,0 +1,134 @@
+import * as Location from 'expo-location';
+
+import { batteryImpactFor, type SamplingProfile } from './motionState';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * - full:     everything the motion state allows
+ * - balanced: reduced IMU rate and GPS interval
+ * - minimal:  location only – accelerometer and gyroscope are switched off
+ */
+export type StreamingProfileName = 'full' | 'balanced' | 'minimal';
+
+export type StreamingProfile = {
+  name: StreamingProfileName;
+  label: string;
+  /** Upper bound for the IMU rate; 0 turns accel/gyro off */
+  maxImuRateHz: number;
+  /** Lower bounds for the GPS settings */
+  minLocationIntervalMs: number;
+  minDistanceIntervalM: number;
+  /** Most accurate GPS mode allowed */
+  maxLocationAccuracy: Location.Accuracy;
+  /** Scales the motion profile's estimated power draw */
+  powerFactor: number;
+};
+
+/** What the automatic selection looks at */
+export type PowerSnapshot = {
+  /** 0–1, or -1 when unknown (e.g. simulator) */
+  batteryLevel: number;
+  isCharging: boolean;
+  lowPowerMode: boolean;
+};
+
+// ---------------------------------------------------------------------------
+// Profiles
+// ---------------------------------------------------------------------------
+
+export const STREAMING_PROFILES: Record<StreamingProfileName, StreamingProfile> = {
+  full: {
+    name: 'full',
+    label: 'Full',
+    maxImuRateHz: Infinity,
+    minLocationIntervalMs: 0,
+    minDistanceIntervalM: 0,
+    maxLocationAccuracy: Location.Accuracy.BestForNavigation,
+    powerFactor: 1,
+  },
+  balanced: {
+    name: 'balanced',
+    label: 'Balanced',
+    maxImuRateHz: 10,
+    minLocationIntervalMs: 2_000,
+    minDistanceIntervalM: 0,
+    maxLocationAccuracy: Location.Accuracy.High,
+    powerFactor: 0.6,
+  },
+  minimal: {
+    name: 'minimal',
+    label: 'Location only',
+    maxImuRateHz: 0,
+    minLocationIntervalMs: 5_000,
+    minDistanceIntervalM: 10,
+    maxLocationAccuracy: Location.Accuracy.Balanced,
+    powerFactor: 0.3,
+  },
+};
+
+/** At or below this battery level (not charging) we stream location only */
+const MINIMAL_BATTERY_LEVEL = 0.15;
+/** At or below this battery level (not charging) we use the balanced profile */
+const BALANCED_BATTERY_LEVEL = 0.35;
+/** Extra charge needed before stepping back up, so we don't flap at a threshold */
+const BATTERY_HYSTERESIS = 0.05;
+
+// ---------------------------------------------------------------------------
+// Selection
+// ---------------------------------------------------------------------------
+
+/**
+ * Pick a profile from battery state. Charging always gets `full`; low-power
+ * mode (which the OS also enables under thermal pressure on some devices)
+ * gets `minimal`. Stepping up from `current` requires a little extra charge.
+ */
+export function selectStreamingProfile(
+  power: PowerSnapshot,
+  current: StreamingProfileName = 'full',
+): StreamingProfileName {
+  if (power.isCharging) return 'full';
+  if (power.lowPowerMode) return 'minimal';
+  if (power.batteryLevel < 0) return 'full';
+
+  const level = power.batteryLevel;
+  const margin = (threshold: number, from: StreamingProfileName[]) =>
+    from.includes(current) ? threshold + BATTERY_HYSTERESIS : threshold;
+
+  if (level <= margin(MINIMAL_BATTERY_LEVEL, ['minimal'])) return 'minimal';
+  if (level <= margin(BALANCED_BATTERY_LEVEL, ['minimal', 'balanced'])) {
+    return 'balanced';
+  }
+  return 'full';
+}
+
+/**
+ * Clamp a motion-state sampling profile to what the streaming profile
+ * allows.
+ */
+export function constrainSamplingProfile(
+  sampling: SamplingProfile,
+  profile: StreamingProfile,
+): SamplingProfile {
+  const relativePower =
+    Math.round(sampling.relativePower * profile.powerFactor * 100) / 100;
+  return {
+    imuRateHz: Math.min(sampling.imuRateHz, profile.maxImuRateHz),
+    locationAccuracy: Math.min(
+      sampling.locationAccuracy,
+      profile.maxLocationAccuracy,
+    ),
+    locationIntervalMs: Math.max(
+      sampling.locationIntervalMs,
+      profile.minLocationIntervalMs,
+    ),
+    distanceIntervalM: Math.max(
+      sampling.distanceIntervalM,
+      profile.minDistanceIntervalM,
+    ),
+    relativePower,
+    batteryImpact: batteryImpactFor(relativePower),
+  };
+}
@@ -15,12 +15,117 @@ export type SensorReading =
       altitude?: number;
       speed?: number;
       heading?: number;
-    };
+      /** Unfiltered fix, only present when raw locations are enabled */
+      raw?: RawLocationFix;
+    }
+  | DrivingEventReading
+  | DutyStatusReading
+  | RouteDeviationReading
+  | SequenceGapReading;
+
+/** A location fix exactly as the OS reported it (see LocationFilter) */
+export type RawLocationFix = {
+  lng: number;
+  lat: number;
+  accuracy?: number;
+};
+
+export type DrivingEventKind =
+  | 'harsh_braking'
+  | 'harsh_acceleration'
+  | 'sharp_cornering'
+  | 'impact';
+
+export type DrivingEventSeverity = 'low' | 'medium' | 'high';
+
+/** A harsh-driving event detected on the device (see DrivingEventDetector) */
+export type DrivingEventReading = {
+  t: number;
+  sensor: 'event';
+  kind: DrivingEventKind;
+  severity: DrivingEventSeverity;
+  /** Peak force in g (horizontal for braking/acceleration/cornering, total for impacts) */
+  peakG: number;
+  durationMs: number;
+  lng?: number;
+  lat?: number;
+  /** Speed in m/s at the time of the event, from the latest location fix */
+  speed?: number;
+};
+
+/** Why the driver paused tracking */
+export type OffDutyReason = 'break' | 'rest' | 'personal';
+
+/**
+ * The driver went off duty (tracking paused) or came back on duty. Kept in
+ * the events stream as the audit trail for gaps in the sensor data.
+ */
+export type DutyStatusReading = {
+  t: number;
+  sensor: 'duty';
+  status: 'off_duty' | 'on_duty';
+  reason: OffDutyReason;
+  /** When the pause started (equals `t` for 'off_duty') */
+  since: number;
+};
+
+/**
+ * The driver left the planned route's corridor ('start') or came back to
+ * it ('end'). Both are reported once the change has lasted long enough to
+ * rule out GPS noise.
+ */
+export type RouteDeviationReading = {
+  t: number;
+  sensor: 'deviation';
+  phase: 'start' | 'end';
+  routeId: string;
+  /** When the driver first left the corridor (epoch ms) */
+  startedAt: number;
+  /** Furthest distance from the route so far (m) */
+  maxDistanceM: number;
+  /** Corridor half-width in effect (m) */
+  corridorM: number;
+  lng?: number;
+  lat?: number;
+};
+
+/**
+ * Batches of one stream that were dropped on the device before delivery
+ * (e.g. evicted from a full SensorQueue). Sequence numbers are inclusive.
+ */
+export type SequenceGapReading = {
+  t: number;
+  sensor: 'gap';
+  stream: SensorStream;
+  fromSeq: number;
+  toSeq: number;
+  reason: 'evicted';
+};
+
+/**
+ * Independent sequences of batches from one device. Each stream numbers
+ * its batches 1, 2, 3, … so the backend can spot missing ones.
+ */
+export type SensorStream = 'foreground' | 'events' | 'background' | 'gaps';
+
+/** Device clock offset from server time when a batch was queued */
+export type BatchClockInfo = {
+  /** Server time minus device time (ms) */
+  offsetMs: number;
+  uncertaintyMs: number;
+  /** Reading timestamps were shifted by `offsetMs` before queueing */
+  corrected: boolean;
+};
 
 export type SensorBatch = {
   batchId: string;
   deviceId: string;
   driverId?: string;
   vehicleId?: string;
+  stream: SensorStream;
+  /** Per-device, per-stream sequence number, assigned when the batch is queued */
+  seq?: number;
   readings: SensorReading[];
+  /** Missing when no server time estimate was available yet */
+  clock?: BatchClockInfo;
 };
@@ -1,5 +1,5 @@
 import * as Location from 'expo-location';
-import { useEffect, useRef } from 'react';
+import { useCallback, useEffect, useRef } from 'react';
 import { AppState, AppStateStatus, Platform } from 'react-native';
 import { vehicleAssignmentService } from '../api/services/vehicle-assignment.service';
 import { useAuth } from '../auth';
@@ -7,25 +7,35 @@ import {
     startBackgroundLocationTracking,
     stopBackgroundLocationTracking,
 } from './backgroundLocationTask';
-import { ClickHouseSensorClient } from './clickhouseSensorClient';
 import { getOrCreateDeviceId } from './deviceId';
+import { driverPrivacy } from './driverPrivacy';
+import { DrivingEventDetector } from './drivingEventDetector';
+import {
+    MotionStateMachine,
+    samplingProfileFor,
+    type MotionState,
+} from './motionState';
+import { useDriverPrivacy } from './useDriverPrivacy';
+import { useSensorConfig } from './useSensorConfig';
 import { useSensorPermission } from './SensorPermissionContext';
-import { SensorQueue } from './sensorQueue';
+import { sensorQueue } from './sensorQueue';
+import { constrainSamplingProfile } from './streamingProfile';
+import { useStreamingProfile } from './StreamingProfileContext';
 import { SensorReader } from './sensorReader';
+import type { SensorTransport } from './sensorTransport';
+import {
+    acquireSensorTransport,
+    releaseSensorTransport,
+} from './sharedSensorTransport';
 import {
     useSensorStreamingStatus,
 } from './SensorStreamingStatusContext';
-import { SensorBatch, SensorReading } from './types';
+import { DrivingEventReading, SensorBatch, SensorReading } from './types';
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
-function parseNumber(value: string | undefined, fallback: number): number {
-  const n = Number(value);
-  return Number.isFinite(n) ? n : fallback;
-}
-
 /**
  * Generate a compact, collision-resistant batch ID.
  * Uses device ID prefix + timestamp (base36) + random suffix (hex).
@@ -56,6 +66,9 @@ const MAINTENANCE_INTERVAL_MS = 60 * 60 * 1000;
 /** Minimum time between successive adaptive interval adjustments (ms) */
 const INTERVAL_ADJUST_COOLDOWN_MS = 2_000;
 
+/** Events held while streaming isn't running, oldest dropped first */
+const MAX_PENDING_EVENTS = 50;
+
 // ---------------------------------------------------------------------------
 // Hook Options
 // ---------------------------------------------------------------------------
@@ -63,6 +76,8 @@ const INTERVAL_ADJUST_COOLDOWN_MS = 2_000;
 interface UseAuthenticatedSensorStreamingOptions {
   /** Whether the user is actively navigating. Sensor streaming only runs when true. */
   isNavigating: boolean;
+  /** Receives every reading and detected driving event (e.g. for trip scoring) */
+  onReading?: (reading: SensorReading) => void;
 }
 
 // ---------------------------------------------------------------------------
@@ -170,6 +185,7 @@ function computeAdaptiveInterval(
  * 2. User has granted sensor permission
  * 3. isNavigating is true (driver is actively navigating a route)
  * 4. EXPO_PUBLIC_SENSOR_STREAMING_ENABLED is 'true'
+ * 5. The driver is not off duty
  *
  * Enhancements over the previous implementation:
  * - **Double buffering**: Zero-copy buffer swap instead of Array.splice
@@ -177,13 +193,22 @@ function computeAdaptiveInterval(
  * - **Size-based flush**: Flushes immediately when buffer exceeds threshold
  * - **Latency & queue depth reporting**: Feeds circuit breaker / UX indicators
  * - **Periodic maintenance**: SQLite cleanup + WAL checkpoint
+ * - **Motion-aware sampling**: Lower rates / GPS accuracy while parked
+ * - **Remote config**: Rate, batch interval and retention follow the API
+ *
+ * Returns a function that publishes a reading from outside the sensor
+ * pipeline (e.g. a route deviation) on the events stream. Readings
+ * published while streaming isn't running go out when it next starts.
  *
  * @param options.isNavigating - Whether navigation mode is active
+ * @param options.onReading - Optional observer for readings and driving events
  */
 export function useAuthenticatedSensorStreaming(
   options: UseAuthenticatedSensorStreamingOptions,
-): void {
+): (reading: SensorReading) => void {
   const { isNavigating } = options;
+  const onReadingRef = useRef(options.onReading);
+  onReadingRef.current = options.onReading;
   const { isAuthenticated, isLoading, user } = useAuth();
   const { isAllowed: hasPermission, requestPermission } = useSensorPermission();
   const {
@@ -192,15 +217,29 @@ export function useAuthenticatedSensorStreaming(
     reportReadings,
     reportBatchSent,
     reportBatchFailed,
+    reportBytesSent,
     reportLatency,
     reportQueueDepth,
+    reportMotionState,
     setOff,
   } = useSensorStreamingStatus();
+  const { profile: streamingProfile } = useStreamingProfile();
+  const streamingProfileRef = useRef(streamingProfile);
+  const reapplySamplingRef = useRef<(() => void) | null>(null);
+  const sensorConfig = useSensorConfig(isAuthenticated);
+  const sensorConfigRef = useRef(sensorConfig);
+  const streamingEnabled = sensorConfig.enabled;
+  const applySensorConfigRef = useRef<(() => void) | null>(null);
+  const isOffDuty = useDriverPrivacy().offDuty !== null;
   const startedRef = useRef(false);
   const cleanupRef = useRef<(() => void) | null>(null);
-  const sensorClientRef = useRef<ClickHouseSensorClient | undefined>(undefined);
+  const sensorClientRef = useRef<SensorTransport | undefined>(undefined);
   const readerRef = useRef<SensorReader | undefined>(undefined);
   const permissionRecoveryAttemptedRef = useRef(false);
+  const publishEventRef = useRef<((reading: SensorReading) => void) | null>(
+    null,
+  );
+  const pendingEventsRef = useRef<SensorReading[]>([]);
 
   // ---------------------------------------------------------------------------
   // Auto-recover location permission if it was revoked mid-session
@@ -273,33 +312,67 @@ export function useAuthenticatedSensorStreaming(
     return () => sub.remove();
   }, [isNavigating, isAuthenticated, hasPermission, requestPermission]);
 
+  // ---------------------------------------------------------------------------
+  // Apply battery-driven / driver-selected streaming profile changes live
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    streamingProfileRef.current = streamingProfile;
+    reapplySamplingRef.current?.();
+  }, [streamingProfile]);
+
+  // ---------------------------------------------------------------------------
+  // Apply remote config changes (rate, batch interval, retention) live
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    sensorConfigRef.current = sensorConfig;
+    applySensorConfigRef.current?.();
+  }, [sensorConfig]);
+
   // ---------------------------------------------------------------------------
   // Main streaming lifecycle
   // ---------------------------------------------------------------------------
+
+  // The one place a running session is torn down. Runs as the lifecycle
+  // effect's cleanup, so any change to its inputs stops streaming first and
+  // the effect then decides afresh whether to start again.
+  const stopStreaming = useCallback(() => {
+    if (!cleanupRef.current) return;
+    console.log('[SensorStreaming] Stopping sensors');
+    cleanupRef.current();
+    cleanupRef.current = null;
+    startedRef.current = false;
+    sensorClientRef.current = undefined;
+    readerRef.current = undefined;
+    setOff();
+
+    // Stop background location tracking
+    void stopBackgroundLocationTracking();
+  }, [setOff]);
+
   useEffect(() => {
     if (isLoading) {
       return;
     }
 
-    // Stop sensors if user logged out, navigation stopped, or permission revoked
-    if (!isAuthenticated || !isNavigating || !hasPermission) {
-      if (cleanupRef.current) {
-        const reason = !isAuthenticated
-          ? 'User logged out'
-          : !isNavigating
-            ? 'Navigation stopped'
-            : 'Permission revoked';
-        console.log(`[SensorStreaming] ${reason}, stopping sensors`);
-        cleanupRef.current();
-        cleanupRef.current = null;
-        startedRef.current = false;
-        sensorClientRef.current = undefined;
-        readerRef.current = undefined;
-        setOff();
-
-        // Stop background location tracking
-        void stopBackgroundLocationTracking();
-      }
+    // No sensors if user logged out, navigation stopped, permission revoked,
+    // streaming was switched off remotely or the driver went off duty
+    if (
+      !isAuthenticated ||
+      !isNavigating ||
+      !hasPermission ||
+      !streamingEnabled ||
+      isOffDuty
+    ) {
+      const reason = !isAuthenticated
+        ? 'User logged out'
+        : !isNavigating
+          ? 'Navigation stopped'
+          : !hasPermission
+            ? 'Permission revoked'
+            : !streamingEnabled
+              ? 'Streaming disabled by config'
+              : 'Driver off duty';
+      console.log(`[SensorStreaming] ${reason}, sensors off`);
       return;
     }
 
@@ -311,49 +384,31 @@ export function useAuthenticatedSensorStreaming(
       return;
     }
 
-    const enabled =
-      (process.env.EXPO_PUBLIC_SENSOR_STREAMING_ENABLED || '').toLowerCase() ===
-      'true';
-
-    if (!enabled) {
-      console.log('[SensorStreaming] Disabled via environment variable');
-      return;
-    }
-
     startedRef.current = true;
     console.log('[SensorStreaming] Starting - navigation mode active');
 
     // ── Configuration ────────────────────────────────────────────────────
-    const initialBatchIntervalMs = parseNumber(
-      process.env.EXPO_PUBLIC_SENSOR_BATCH_MS,
-      200,
-    );
-    const sampleRateHz = parseNumber(
-      process.env.EXPO_PUBLIC_SENSOR_RATE_HZ,
-      50,
-    );
-    const clickhouseUrl =
-      process.env.EXPO_PUBLIC_CLICKHOUSE_URL || 'http://localhost:8123';
-    const clickhouseUser = process.env.EXPO_PUBLIC_CLICKHOUSE_USER || 'default';
-    const clickhousePassword =
-      process.env.EXPO_PUBLIC_CLICKHOUSE_PASSWORD || '123456';
-    const cleanupDays = parseNumber(
-      process.env.EXPO_PUBLIC_SENSOR_SQLITE_RETENTION_DAYS,
-      3,
-    );
+    // Read through sensorConfigRef so remote changes apply without a restart
+    let appliedConfig = sensorConfigRef.current;
+    const retentionMs = () =>
+      sensorConfigRef.current.retentionDays * 24 * 60 * 60 * 1000;
 
     // ── State ────────────────────────────────────────────────────────────
     const doubleBuffer = new DoubleBuffer();
     let flushTimer: ReturnType<typeof setTimeout> | undefined;
     let maintenanceTimer: ReturnType<typeof setInterval> | undefined;
-    let currentFlushInterval = Math.max(MIN_FLUSH_INTERVAL_MS, initialBatchIntervalMs);
+    let initialMaintenanceTimer: ReturnType<typeof setTimeout> | undefined;
+    let locationRecoveryTimer: ReturnType<typeof setTimeout> | undefined;
+    let currentFlushInterval = Math.max(
+      MIN_FLUSH_INTERVAL_MS,
+      appliedConfig.batchIntervalMs,
+    );
     let lastIntervalAdjust = 0;
     let readingsInLastSecond = 0;
     let rateWindowStart = Date.now();
     let stopped = false;
 
-    const queue = new SensorQueue();
-    let sensorClient: ClickHouseSensorClient | undefined;
+    let sensorClient: SensorTransport | undefined;
     let reader: SensorReader | undefined;
 
     // ── Flush function ───────────────────────────────────────────────────
@@ -391,6 +446,7 @@ export function useAuthenticatedSensorStreaming(
       const batch: SensorBatch = {
         batchId: makeBatchId(deviceId),
         deviceId,
+        stream: 'foreground',
         driverId: user?.driverId,
         vehicleId: currentVehicleId,
         readings,
@@ -398,7 +454,7 @@ export function useAuthenticatedSensorStreaming(
 
       sensorClient?.enqueueAndPublishBatch(batch).then(
         () => {
-          reportBatchSent(readings.length);
+          reportBatchSent();
         },
         () => {
           reportBatchFailed();
@@ -439,8 +495,107 @@ export function useAuthenticatedSensorStreaming(
     let currentDeviceId = '';
     let currentVehicleId: string | undefined;
 
+    // ── Driving events ───────────────────────────────────────────────────
+    // Events skip the adaptive flush and go out in their own batch so fleet
+    // managers see them right away.
+    const publishDrivingEvent = (event: DrivingEventReading) => {
+      if (stopped || !sensorClient || !currentDeviceId) return;
+      console.log(
+        `[SensorStreaming] Driving event: ${event.kind} ` +
+          `(${event.severity}, ${event.peakG}g)`,
+      );
+
+      onReadingRef.current?.(event);
+
+      const client = sensorClient;
+      const batch: SensorBatch = {
+        batchId: makeBatchId(currentDeviceId, 'evt_'),
+        deviceId: currentDeviceId,
+        stream: 'events',
+        driverId: user?.driverId,
+        vehicleId: currentVehicleId,
+        readings: [event],
+      };
+      client
+        .enqueueAndPublishBatch(batch)
+        .then(() => client.flush())
+        .catch(() => {
+          console.warn(`[SensorStreaming] Failed to publish ${event.kind} event`);
+        });
+    };
+
+    // ── Duty audit trail ─────────────────────────────────────────────────
+    // Off/on duty changes go out on the events stream, so the pause in the
+    // data arrives together with the driver's reason.
+    const publishDutyAudit = async (client: SensorTransport) => {
+      if (!currentDeviceId) return;
+      const audit = await driverPrivacy.takePendingAudit();
+      if (audit.length === 0) return;
+      const batch: SensorBatch = {
+        batchId: makeBatchId(currentDeviceId, 'duty_'),
+        deviceId: currentDeviceId,
+        stream: 'events',
+        driverId: user?.driverId,
+        vehicleId: currentVehicleId,
+        readings: audit,
+      };
+      await client.enqueueAndPublishBatch(batch);
+      await client.flush();
+    };
+
+    // ── Events from outside the pipeline ─────────────────────────────────
+    const publishEvents = async (
+      client: SensorTransport,
+      readings: SensorReading[],
+    ) => {
+      if (!currentDeviceId || readings.length === 0) return;
+      const batch: SensorBatch = {
+        batchId: makeBatchId(currentDeviceId, 'nav_'),
+        deviceId: currentDeviceId,
+        stream: 'events',
+        driverId: user?.driverId,
+        vehicleId: currentVehicleId,
+        readings,
+      };
+      await client.enqueueAndPublishBatch(batch);
+      await client.flush();
+    };
+
+    const eventDetector = new DrivingEventDetector({
+      onEvent: publishDrivingEvent,
+    });
+
+    // ── Motion-aware sampling ────────────────────────────────────────────
+    // Drop sensor rates and GPS accuracy while parked, ramp back up on
+    // movement. Sessions start in the full-rate driving profile. The
+    // streaming profile (battery / driver choice) caps whatever motion allows.
+    const applyMotionState = (state: MotionState, previous?: MotionState) => {
+      const profile = constrainSamplingProfile(
+        samplingProfileFor(state, sensorConfigRef.current.sampleRateHz),
+        streamingProfileRef.current,
+      );
+      if (previous) {
+        console.log(
+          `[SensorStreaming] Motion ${previous} → ${state} ` +
+            `(imu ${profile.imuRateHz}Hz, gps every ${profile.locationIntervalMs}ms)`,
+        );
+      }
+      reportMotionState(state, profile);
+      void reader?.applySamplingProfile(profile);
+    };
+
+    const motionState = new MotionStateMachine({
+      onChange: (state, previous) => {
+        if (stopped) return;
+        applyMotionState(state, previous);
+      },
+    });
+
+    // Cleanup may run while start() awaits; it checks `stopped` after each
+    // await and undoes whatever that step started
     const start = async () => {
       currentDeviceId = await getOrCreateDeviceId();
+      if (stopped) return;
       try {
         const assignment = await vehicleAssignmentService.getMyAssignment();
         currentVehicleId = assignment.vehicleId;
@@ -448,41 +603,64 @@ export function useAuthenticatedSensorStreaming(
       } catch (e) {
         console.warn('[SensorStreaming] Failed to get vehicle assignment', e);
       }
+      if (stopped) return;
 
       console.log(
         `[SensorStreaming] Starting with deviceId: ${currentDeviceId}, ` +
-          `sampleRate: ${sampleRateHz}Hz, initialInterval: ${currentFlushInterval}ms`,
+          `sampleRate: ${appliedConfig.sampleRateHz}Hz, ` +
+          `initialInterval: ${currentFlushInterval}ms`,
       );
 
-      await queue.init();
-
-      sensorClient = new ClickHouseSensorClient({
-        url: clickhouseUrl,
-        user: clickhouseUser,
-        password: clickhousePassword,
-        deviceId: currentDeviceId,
-        queue,
+      // Shared with the background location task (same queue + retry rules)
+      const transport = await acquireSensorTransport('foreground', {
         onSendSuccess: reportSuccess,
         onSendFailure: reportFailure,
         onLatency: reportLatency,
         onQueueDepth: reportQueueDepth,
+        onTransfer: (sentBytes) => reportBytesSent(sentBytes),
       });
-      sensorClient.start();
+      if (stopped) {
+        // Cleanup already ran while we were starting up
+        void releaseSensorTransport('foreground');
+        return;
+      }
+      sensorClient = transport;
       sensorClientRef.current = sensorClient;
+      publishDutyAudit(transport).catch(() => {
+        console.warn('[SensorStreaming] Failed to publish duty changes');
+      });
+      publishEventRef.current = (reading) => {
+        publishEvents(transport, [reading]).catch(() => {
+          console.warn(`[SensorStreaming] Failed to publish ${reading.sensor} event`);
+        });
+      };
+      const pendingEvents = pendingEventsRef.current;
+      pendingEventsRef.current = [];
+      publishEvents(transport, pendingEvents).catch(() => {
+        console.warn(
+          `[SensorStreaming] Failed to publish ${pendingEvents.length} held events`,
+        );
+      });
 
       // Start background location tracking for when app is minimized
       await startBackgroundLocationTracking({
         driverId: user?.driverId,
         vehicleId: currentVehicleId,
-        clickhouseUrl,
-        clickhouseUser,
-        clickhousePassword,
       });
+      if (stopped) {
+        // Stopping didn't wait for tracking to start; stop it unless a new
+        // session has taken over
+        if (!startedRef.current) void stopBackgroundLocationTracking();
+        return;
+      }
 
       reader = new SensorReader({
-        sampleRateHz,
+        sampleRateHz: appliedConfig.sampleRateHz,
         onReading: (r) => {
           doubleBuffer.push(r);
+          eventDetector.push(r);
+          motionState.push(r);
+          onReadingRef.current?.(r);
           readingsInLastSecond++;
           // Report individual reading to throughput tracker
           reportReadings(1, r.sensor as 'accel' | 'gyro' | 'location');
@@ -492,7 +670,10 @@ export function useAuthenticatedSensorStreaming(
         onLocationError: (error) => {
           console.warn('[SensorStreaming] Location error:', error);
           // Auto-recover: try to restart location tracking after a delay
-          setTimeout(() => {
+          if (stopped) return;
+          clearTimeout(locationRecoveryTimer);
+          locationRecoveryTimer = setTimeout(() => {
+            if (stopped) return;
             console.log(
               '[SensorStreaming] Auto-recovering location tracking...',
             );
@@ -501,7 +682,44 @@ export function useAuthenticatedSensorStreaming(
         },
       });
       await reader.start();
+      if (stopped) {
+        // Cleanup stopped the reader before it had finished starting
+        reader.stop();
+        return;
+      }
       readerRef.current = reader;
+      applyMotionState(motionState.current);
+      reapplySamplingRef.current = () => {
+        if (stopped) return;
+        console.log(
+          `[SensorStreaming] Streaming profile: ${streamingProfileRef.current.name}`,
+        );
+        applyMotionState(motionState.current);
+      };
+      applySensorConfigRef.current = () => {
+        if (stopped) return;
+        const next = sensorConfigRef.current;
+        if (next.sampleRateHz !== appliedConfig.sampleRateHz) {
+          console.log(`[SensorStreaming] Config sample rate: ${next.sampleRateHz}Hz`);
+          applyMotionState(motionState.current);
+        }
+        if (next.batchIntervalMs !== appliedConfig.batchIntervalMs) {
+          // Restart the adaptive logic from the new starting interval
+          currentFlushInterval = Math.max(
+            MIN_FLUSH_INTERVAL_MS,
+            next.batchIntervalMs,
+          );
+          lastIntervalAdjust = Date.now();
+          console.log(
+            `[SensorStreaming] Config batch interval: ${currentFlushInterval}ms`,
+          );
+          if (flushTimer) {
+            clearTimeout(flushTimer);
+            scheduleFlush();
+          }
+        }
+        appliedConfig = next;
+      };
 
       // Start the flush loop
       scheduleFlush();
@@ -509,26 +727,31 @@ export function useAuthenticatedSensorStreaming(
       // ── Periodic maintenance ─────────────────────────────────────────
       // Runs SQLite cleanup (acked/failed retention) + WAL checkpoint
       maintenanceTimer = setInterval(() => {
-        void queue.performMaintenance({
-          ackedRetentionMs: cleanupDays * 24 * 60 * 60 * 1000,
+        void sensorQueue.performMaintenance({
+          ackedRetentionMs: retentionMs(),
           vacuum: false, // WAL checkpoint only, not full VACUUM
         });
       }, MAINTENANCE_INTERVAL_MS);
 
       // Run an initial maintenance pass after 30s (don't block startup)
-      setTimeout(() => {
-        void queue.performMaintenance({
-          ackedRetentionMs: cleanupDays * 24 * 60 * 60 * 1000,
+      initialMaintenanceTimer = setTimeout(() => {
+        void sensorQueue.performMaintenance({
+          ackedRetentionMs: retentionMs(),
           vacuum: false,
         });
       }, 30_000);
     };
 
-    void start();
+    start().catch((error) => {
+      console.warn('[SensorStreaming] Failed to start:', error);
+    });
 
     // ── Cleanup ──────────────────────────────────────────────────────────
     cleanupRef.current = () => {
       stopped = true;
+      reapplySamplingRef.current = null;
+      applySensorConfigRef.current = null;
+      publishEventRef.current = null;
 
       if (flushTimer) {
         clearTimeout(flushTimer);
@@ -538,51 +761,75 @@ export function useAuthenticatedSensorStreaming(
         clearInterval(maintenanceTimer);
         maintenanceTimer = undefined;
       }
+      clearTimeout(initialMaintenanceTimer);
+      clearTimeout(locationRecoveryTimer);
 
       // Perform a final flush of any remaining buffered readings
       const remaining = doubleBuffer.swap();
+      let finalWrite: Promise<void> = Promise.resolve();
       if (remaining.length > 0 && sensorClient && currentDeviceId) {
         const finalBatch: SensorBatch = {
           batchId: makeBatchId(currentDeviceId, 'final_'),
           deviceId: currentDeviceId,
+          stream: 'foreground',
           driverId: user?.driverId,
           vehicleId: currentVehicleId,
           readings: remaining,
         };
-        // Fire-and-forget: we're shutting down, but try to persist
-        void sensorClient.enqueueAndPublishBatch(finalBatch).catch(() => {
+        // We're shutting down, but try to persist before releasing
+        finalWrite = sensorClient.enqueueAndPublishBatch(finalBatch).catch(() => {
           console.warn(
             `[SensorStreaming] Failed to flush ${remaining.length} final readings`,
           );
         });
       }
 
+      if (sensorClient) {
+        const client = sensorClient;
+        finalWrite = finalWrite
+          .then(() => publishDutyAudit(client))
+          .catch(() => {
+            console.warn('[SensorStreaming] Failed to publish duty changes');
+          });
+      }
+
       doubleBuffer.clear();
       reader?.stop();
-      sensorClient?.stop();
 
-      // Close the queue gracefully (flushes pending inserts + WAL checkpoint)
-      void queue.close();
-    };
-
-    return () => {
-      if (cleanupRef.current) {
-        cleanupRef.current();
-        cleanupRef.current = null;
+      // Stops the transport and closes the queue (flushes pending inserts +
+      // WAL checkpoint) unless the background task still holds it
+      if (sensorClient) {
+        void finalWrite.then(() => releaseSensorTransport('foreground'));
       }
     };
+
+    return stopStreaming;
   }, [
     isAuthenticated,
     isLoading,
     isNavigating,
     hasPermission,
+    streamingEnabled,
+    isOffDuty,
     reportSuccess,
     reportFailure,
     reportReadings,
     reportBatchSent,
     reportBatchFailed,
+    reportBytesSent,
     reportLatency,
     reportQueueDepth,
-    setOff,
+    reportMotionState,
+    stopStreaming,
   ]);
+
+  return useCallback((reading: SensorReading) => {
+    if (publishEventRef.current) {
+      publishEventRef.current(reading);
+      return;
+    }
+    pendingEventsRef.current = [...pendingEventsRef.current, reading].slice(
+      -MAX_PENDING_EVENTS,
+    );
+  }, []);
 }
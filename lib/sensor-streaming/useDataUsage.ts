@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+
+import { dataUsageTracker, type DataUsageSnapshot } from './dataUsage';
+
+/**
+ * Hook exposing today's and this month's sensor data usage, re-rendering
+ * whenever a transfer is recorded or the cap changes
+ */
+export function useDataUsage(): DataUsageSnapshot {
+  const [usage, setUsage] = useState<DataUsageSnapshot>(
+    dataUsageTracker.getUsage(),
+  );
+
+  useEffect(() => {
+    const unsubscribe = dataUsageTracker.subscribe(setUsage);
+    dataUsageTracker.init().then(() => setUsage(dataUsageTracker.getUsage()));
+    return unsubscribe;
+  }, []);
+
+  return usage;
+}
@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+
+import { driverPrivacy, type DriverPrivacyState } from './driverPrivacy';
+
+/**
+ * Hook exposing the driver's off-duty state and privacy zones, re-rendering
+ * whenever they change or the device enters/leaves a zone
+ */
+export function useDriverPrivacy(): DriverPrivacyState {
+  const [state, setState] = useState<DriverPrivacyState>(
+    driverPrivacy.getState(),
+  );
+
+  useEffect(() => {
+    const unsubscribe = driverPrivacy.subscribe(setState);
+    driverPrivacy.init().then(() => setState(driverPrivacy.getState()));
+    return unsubscribe;
+  }, []);
+
+  return state;
+}
@@ -0,0 +1,33 @@
+import { useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+
+import { sensorConfigStore, type SensorStreamingConfig } from './sensorConfig';
+
+/**
+ * Hook exposing the effective sensor streaming config. While signed in the
+ * remote config is refreshed on mount and whenever the app returns to the
+ * foreground.
+ */
+export function useSensorConfig(isAuthenticated: boolean): SensorStreamingConfig {
+  const [config, setConfig] = useState<SensorStreamingConfig>(
+    sensorConfigStore.getConfig(),
+  );
+
+  useEffect(() => {
+    const unsubscribe = sensorConfigStore.subscribe(setConfig);
+    sensorConfigStore.init().then(() => setConfig(sensorConfigStore.getConfig()));
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    void sensorConfigStore.refresh();
+    const sub = AppState.addEventListener('change', (nextState) => {
+      if (nextState === 'active') void sensorConfigStore.refresh();
+    });
+    return () => sub.remove();
+  }, [isAuthenticated]);
+
+  return config;
+}
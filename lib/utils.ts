@@ -86,3 +86,21 @@ export function formatDuration(
   }
   return `${minutes}m`;
 }
+
+/**
+ * Format an epoch timestamp relative to now (e.g. "just now", "5 min ago")
+ */
+export function formatRelativeTime(
+  timestamp: number | null | undefined,
+  now: number = Date.now(),
+): string {
+  if (timestamp === null || timestamp === undefined) return 'never';
+  const seconds = Math.max(0, Math.round((now - timestamp) / 1000));
+  if (seconds < 60) return 'just now';
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  return `${days}d ago`;
+}
@@ -0,0 +1,29 @@
+// ---------------------------------------------------------------------------
+// In-memory AsyncStorage
+// ---------------------------------------------------------------------------
+
+const items = new Map<string, string>();
+
+const AsyncStorage = {
+  getItem: async (key: string): Promise<string | null> => items.get(key) ?? null,
+  setItem: async (key: string, value: string): Promise<void> => {
+    items.set(key, value);
+  },
+  removeItem: async (key: string): Promise<void> => {
+    items.delete(key);
+  },
+  getAllKeys: async (): Promise<string[]> => [...items.keys()],
+  multiRemove: async (keys: string[]): Promise<void> => {
+    for (const key of keys) items.delete(key);
+  },
+  clear: async (): Promise<void> => {
+    items.clear();
+  },
+};
+
+export default AsyncStorage;
+
+/** Forget every stored item, e.g. between tests */
+export function resetAsyncStorage(): void {
+  items.clear();
+}
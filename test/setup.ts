@@ -0,0 +1,10 @@
+import { mock } from 'bun:test';
+
+import * as asyncStorage from './asyncStorage';
+import * as sqlite from './sqlite';
+
+// Native modules don't load outside the app; tests get in-memory stand-ins.
+// Anything more specific is mocked in the test that needs it.
+
+mock.module('expo-sqlite', () => sqlite);
+mock.module('@react-native-async-storage/async-storage', () => asyncStorage);
@@ -0,0 +1,104 @@
+import { Database } from 'bun:sqlite';
+import type * as SQLite from 'expo-sqlite';
+
+// ---------------------------------------------------------------------------
+// In-memory expo-sqlite
+// ---------------------------------------------------------------------------
+
+type Params = SQLite.SQLiteBindParams | SQLite.SQLiteBindValue;
+
+function bindArgs(params: Params[]): any[] {
+  if (params.length === 1 && Array.isArray(params[0])) return params[0];
+  if (
+    params.length === 1 &&
+    params[0] !== null &&
+    typeof params[0] === 'object' &&
+    !(params[0] instanceof Uint8Array)
+  ) {
+    return [params[0]];
+  }
+  return params as any[];
+}
+
+/**
+ * The subset of `SQLiteDatabase` the app uses, backed by bun:sqlite.
+ * Transactions run their callback against the same connection, like
+ * expo-sqlite does on a single-connection database.
+ */
+export class FakeSQLiteDatabase {
+  constructor(
+    readonly databasePath: string,
+    readonly raw: Database = new Database(':memory:'),
+  ) {}
+
+  async execAsync(source: string): Promise<void> {
+    this.raw.exec(source);
+  }
+
+  async runAsync(
+    source: string,
+    ...params: Params[]
+  ): Promise<SQLite.SQLiteRunResult> {
+    const result = this.raw.query(source).run(...bindArgs(params));
+    return {
+      changes: result.changes,
+      lastInsertRowId: Number(result.lastInsertRowid),
+    };
+  }
+
+  async getFirstAsync<T>(source: string, ...params: Params[]): Promise<T | null> {
+    return (this.raw.query(source).get(...bindArgs(params)) as T) ?? null;
+  }
+
+  async getAllAsync<T>(source: string, ...params: Params[]): Promise<T[]> {
+    return this.raw.query(source).all(...bindArgs(params)) as T[];
+  }
+
+  async withTransactionAsync(task: () => Promise<void>): Promise<void> {
+    this.raw.exec('BEGIN');
+    try {
+      await task();
+      this.raw.exec('COMMIT');
+    } catch (error) {
+      this.raw.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  async withExclusiveTransactionAsync(
+    task: (txn: SQLite.SQLiteDatabase) => Promise<void>,
+  ): Promise<void> {
+    await this.withTransactionAsync(() => task(this.asDatabase()));
+  }
+
+  async closeAsync(): Promise<void> {
+    openDatabases.delete(this.databasePath);
+    this.raw.close();
+  }
+
+  asDatabase(): SQLite.SQLiteDatabase {
+    return this as unknown as SQLite.SQLiteDatabase;
+  }
+}
+
+const openDatabases = new Map<string, FakeSQLiteDatabase>();
+
+/** Same database for the same name until it is closed or reset */
+export async function openDatabaseAsync(
+  databaseName: string,
+): Promise<SQLite.SQLiteDatabase> {
+  let db = openDatabases.get(databaseName);
+  if (!db) {
+    db = new FakeSQLiteDatabase(databaseName);
+    openDatabases.set(databaseName, db);
+  }
+  return db.asDatabase();
+}
+
+/**
+ * Start the next open of every database from scratch, e.g. between tests.
+ * Connections already handed out (shared singletons) keep working.
+ */
+export function resetDatabases(): void {
+  openDatabases.clear();
+}